@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { hashPassword } from '../src/lib/password'
 
 const prisma = new PrismaClient()
 
@@ -7,6 +8,9 @@ async function main() {
 
   // Clear existing data in the correct order (respecting foreign key constraints)
   console.log('🧹 Clearing existing data...')
+  await prisma.auditLog.deleteMany()
+  await prisma.projectBaseline.deleteMany()
+  await prisma.scenario.deleteMany()
   await prisma.allocation.deleteMany()
   await prisma.projectBlock.deleteMany()
   await prisma.project.deleteMany()
@@ -19,6 +23,10 @@ async function main() {
   await prisma.tier.deleteMany()
   await prisma.projectType.deleteMany()
   await prisma.skill.deleteMany()
+  await prisma.calendarHoliday.deleteMany()
+  await prisma.workingCalendar.deleteMany()
+  await prisma.session.deleteMany()
+  await prisma.user.deleteMany()
 
   // Seed Project Types
   console.log('📁 Seeding Project Types...')
@@ -165,6 +173,9 @@ async function main() {
         name: 'System Design',
         description: 'Technical and UI/UX design phase',
         defaultDurationWeeks: 3,
+        optimisticDurationWeeks: 2,
+        pessimisticDurationWeeks: 5,
+        defaultDependencies: JSON.stringify(['PLANNING']),
         defaultSkillsMix: JSON.stringify({ UX: 50, ARCH: 30, FE: 20 }),
       },
       {
@@ -172,6 +183,7 @@ async function main() {
         name: 'Project Setup',
         description: 'Development environment and project structure setup',
         defaultDurationWeeks: 1,
+        defaultDependencies: JSON.stringify(['PLANNING']),
         defaultSkillsMix: JSON.stringify({ OPS: 50, BE: 50 }),
       },
       // Web Development blocks
@@ -180,6 +192,9 @@ async function main() {
         name: 'Frontend Development',
         description: 'User interface development',
         defaultDurationWeeks: 4,
+        optimisticDurationWeeks: 3,
+        pessimisticDurationWeeks: 7,
+        defaultDependencies: JSON.stringify(['DESIGN', 'SETUP']),
         defaultSkillsMix: JSON.stringify({ FE: 80, UX: 20 }),
       },
       {
@@ -187,6 +202,9 @@ async function main() {
         name: 'Backend Development',
         description: 'Server-side application development',
         defaultDurationWeeks: 5,
+        optimisticDurationWeeks: 4,
+        pessimisticDurationWeeks: 8,
+        defaultDependencies: JSON.stringify(['DESIGN', 'SETUP']),
         defaultSkillsMix: JSON.stringify({ BE: 70, DB: 30 }),
       },
       {
@@ -194,6 +212,9 @@ async function main() {
         name: 'System Integration',
         description: 'Frontend and backend integration',
         defaultDurationWeeks: 2,
+        optimisticDurationWeeks: 1,
+        pessimisticDurationWeeks: 4,
+        defaultDependencies: JSON.stringify(['WEB_FRONTEND', 'WEB_BACKEND']),
         defaultSkillsMix: JSON.stringify({ BE: 50, FE: 50 }),
       },
       // Mobile Development blocks
@@ -202,6 +223,9 @@ async function main() {
         name: 'Native App Development',
         description: 'iOS and Android native development',
         defaultDurationWeeks: 6,
+        optimisticDurationWeeks: 5,
+        pessimisticDurationWeeks: 10,
+        defaultDependencies: JSON.stringify(['DESIGN']),
         defaultSkillsMix: JSON.stringify({ MOBILE_DEV: 80, UX: 20 }),
       },
       {
@@ -209,6 +233,7 @@ async function main() {
         name: 'Mobile API Development',
         description: 'Backend API for mobile apps',
         defaultDurationWeeks: 3,
+        defaultDependencies: JSON.stringify(['DESIGN']),
         defaultSkillsMix: JSON.stringify({ BE: 80, SEC: 20 }),
       },
       // Testing and Deployment blocks
@@ -217,6 +242,8 @@ async function main() {
         name: 'Testing & QA',
         description: 'Comprehensive testing and quality assurance',
         defaultDurationWeeks: 2,
+        optimisticDurationWeeks: 1.5,
+        pessimisticDurationWeeks: 4,
         defaultSkillsMix: JSON.stringify({ QA: 70, FE: 15, BE: 15 }),
       },
       {
@@ -308,7 +335,7 @@ async function main() {
             { tierId: tier.id, blockId: getBlock('DESIGN')!.id, sequenceIndex: 2, overrideDurationWeeks: 2 },
             { tierId: tier.id, blockId: getBlock('MOBILE_API')!.id, sequenceIndex: 3, overrideDurationWeeks: 2 },
             { tierId: tier.id, blockId: getBlock('MOBILE_NATIVE')!.id, sequenceIndex: 4, overrideDurationWeeks: 4 },
-            { tierId: tier.id, blockId: getBlock('TESTING')!.id, sequenceIndex: 5, overrideDurationWeeks: 2 },
+            { tierId: tier.id, blockId: getBlock('TESTING')!.id, sequenceIndex: 5, overrideDurationWeeks: 2, overrideDependencies: JSON.stringify(['MOBILE_API', 'MOBILE_NATIVE']) },
             { tierId: tier.id, blockId: getBlock('DEPLOYMENT')!.id, sequenceIndex: 6, overrideDurationWeeks: 1 },
           ],
         })
@@ -320,7 +347,7 @@ async function main() {
             { tierId: tier.id, blockId: getBlock('DESIGN')!.id, sequenceIndex: 2 },
             { tierId: tier.id, blockId: getBlock('MOBILE_API')!.id, sequenceIndex: 3 },
             { tierId: tier.id, blockId: getBlock('MOBILE_NATIVE')!.id, sequenceIndex: 4 },
-            { tierId: tier.id, blockId: getBlock('TESTING')!.id, sequenceIndex: 5 },
+            { tierId: tier.id, blockId: getBlock('TESTING')!.id, sequenceIndex: 5, overrideDependencies: JSON.stringify(['MOBILE_API', 'MOBILE_NATIVE']) },
             { tierId: tier.id, blockId: getBlock('DEPLOYMENT')!.id, sequenceIndex: 6 },
           ],
         })
@@ -480,6 +507,42 @@ async function main() {
     ],
   })
 
+  // Seed Working Calendar
+  console.log('📅 Seeding Working Calendar...')
+  await prisma.workingCalendar.create({
+    data: {
+      name: 'Standard',
+      workingDays: JSON.stringify([1, 2, 3, 4, 5]),
+      hoursPerDay: 8,
+      isDefault: true,
+      holidays: {
+        create: [
+          { name: "New Year's Day", startDate: new Date('2026-01-01'), endDate: new Date('2026-01-01') },
+          { name: 'Labour Day', startDate: new Date('2026-05-01'), endDate: new Date('2026-05-01') },
+          {
+            name: 'Year-end Shutdown',
+            type: 'shutdown',
+            startDate: new Date('2026-12-24'),
+            endDate: new Date('2026-12-31'),
+          },
+        ],
+      },
+    },
+  })
+
+  // Seed Users
+  console.log('🔐 Seeding Users...')
+  const seedPassword = await hashPassword(process.env.SEED_ADMIN_PASSWORD || 'pmprg2024')
+  await prisma.user.createMany({
+    data: [
+      { username: 'admin', name: 'Administrator', role: 'admin', passwordHash: seedPassword },
+      { username: 'planner', name: 'Project Planner', role: 'planner', passwordHash: seedPassword },
+      { username: 'resources', name: 'Resource Manager', role: 'resource_manager', passwordHash: seedPassword },
+      { username: 'finance', name: 'Finance Analyst', role: 'finance', passwordHash: seedPassword },
+      { username: 'viewer', name: 'Read-only Viewer', role: 'viewer', passwordHash: seedPassword },
+    ],
+  })
+
   console.log('✅ Database seeded successfully with comprehensive master data!')
 }
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { allocationLabel, allocationTotals, recordAudit } from '@/lib/audit-log';
 
 // Validation schema for allocation creation
 const createAllocationSchema = z.object({
@@ -84,6 +86,9 @@ export async function GET(request: NextRequest) {
 // POST /api/allocations - Create new allocation(s)
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
 
     // Check if this is a bulk allocation request
@@ -120,6 +125,7 @@ export async function POST(request: NextRequest) {
 
       // Create allocations in transaction
       const createdAllocations = await prisma.$transaction(async (tx) => {
+        const totalsBefore = await allocationTotals(tx, { projectId });
         const results = [];
         
         for (const allocation of allocations) {
@@ -183,6 +189,17 @@ export async function POST(request: NextRequest) {
             }
           }
         }
+
+        await recordAudit(tx, user, {
+          action: 'update',
+          entityType: 'allocation',
+          entityId: projectId,
+          entityLabel: project.code,
+          projectId,
+          summary: `Added ${results.length} weekly allocations`,
+          before: totalsBefore,
+          after: await allocationTotals(tx, { projectId }),
+        });
         
         return results;
       });
@@ -244,30 +261,43 @@ export async function POST(request: NextRequest) {
       }
 
       // Create the allocation
-      const allocation = await prisma.allocation.create({
-        data: {
-          projectId: projectBlock.projectId,
-          projectBlockId,
-          resourceId,
-          weekStartDate: new Date(weekStartDate),
-          allocatedHours,
-        },
-        include: {
-          resource: {
-            select: {
-              id: true,
-              name: true,
-              employeeCode: true,
-            },
+      const allocation = await prisma.$transaction(async (tx) => {
+        const created = await tx.allocation.create({
+          data: {
+            projectId: projectBlock.projectId,
+            projectBlockId,
+            resourceId,
+            weekStartDate: new Date(weekStartDate),
+            allocatedHours,
           },
-          projectBlock: {
-            include: {
-              block: {
-                select: { code: true, name: true },
+          include: {
+            resource: {
+              select: {
+                id: true,
+                name: true,
+                employeeCode: true,
+              },
+            },
+            projectBlock: {
+              include: {
+                block: {
+                  select: { code: true, name: true },
+                },
               },
             },
           },
-        },
+        });
+
+        await recordAudit(tx, user, {
+          action: 'create',
+          entityType: 'allocation',
+          entityId: created.id,
+          entityLabel: allocationLabel(created),
+          projectId: created.projectId,
+          after: created,
+        });
+
+        return created;
       });
 
       return NextResponse.json(allocation, { status: 201 });
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { RATE_FIELDS, parseAuditChanges } from '@/lib/audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// GET /api/audit - List audit entries, newest first, with optional filters
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId');
+    const projectId = searchParams.get('projectId');
+    const action = searchParams.get('action');
+    const actor = searchParams.get('actor');
+    const search = searchParams.get('search');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const cursor = searchParams.get('cursor');
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (entityType) {
+      where.entityType = entityType;
+    }
+    if (entityId) {
+      where.entityId = entityId;
+    }
+    if (projectId) {
+      where.projectId = projectId;
+    }
+    if (action) {
+      where.action = action;
+    }
+    if (actor) {
+      where.actorName = { contains: actor, mode: 'insensitive' };
+    }
+    if (search) {
+      where.OR = [
+        { entityLabel: { contains: search, mode: 'insensitive' } },
+        { summary: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+    if (from || to) {
+      where.createdAt = {
+        ...(from && { gte: new Date(from) }),
+        // The end date is inclusive
+        ...(to && { lt: new Date(new Date(to).getTime() + DAY_MS) }),
+      };
+    }
+
+    // One extra row tells whether there is another page
+    const rows = await prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const entries = rows.slice(0, limit).map(row => {
+      const changes = parseAuditChanges(row.changes);
+      if (!canViewRates) {
+        RATE_FIELDS.forEach(field => delete changes[field]);
+      }
+      return { ...row, changes };
+    });
+
+    return NextResponse.json({
+      entries,
+      nextCursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { verifyPassword } from '@/lib/password';
+import { createSession, setSessionCookie } from '@/lib/auth';
+
+const loginSchema = z.object({
+  username: z.string().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+// POST /api/auth/login - Check credentials and start a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = loginSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { username, password } = validationResult.data;
+
+    const user = await prisma.user.findUnique({
+      where: { username: username.trim() },
+    });
+
+    // Same response for unknown users, wrong passwords and deactivated accounts
+    if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id, request.headers.get('user-agent'));
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    const response = NextResponse.json({
+      user: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
+    });
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { clearSessionCookie, getSessionId } from '@/lib/auth';
+
+// POST /api/auth/logout - End the current session
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = await getSessionId(request);
+    if (sessionId) {
+      await prisma.session.deleteMany({
+        where: { id: sessionId },
+      });
+    }
+
+    const response = NextResponse.json({ message: 'Logged out successfully' });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return NextResponse.json(
+      { error: 'Failed to log out' },
+      { status: 500 }
+    );
+  }
+}
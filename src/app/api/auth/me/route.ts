@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSessionUser } from '@/lib/auth';
+
+// GET /api/auth/me - Current user of the session
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+
+    if (!user) {
+      // The cookie may still be signed but its session revoked; drop it
+      const response = NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+      clearSessionCookie(response);
+      return response;
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch current user' },
+      { status: 500 }
+    );
+  }
+}
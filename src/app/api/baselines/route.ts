@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/baselines - Baseline block dates across projects, for drawing them on the schedule
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+
+    const baselines = await prisma.projectBaseline.findMany({
+      where: projectId ? { projectId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        projectId: true,
+        name: true,
+        createdAt: true,
+        blocks: {
+          select: {
+            blockId: true,
+            plannedStart: true,
+            plannedEnd: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(baselines);
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch baselines' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { cashFlowCsv, rollUpCashFlow } from '@/lib/cash-flow';
+import { loadCashFlow } from '@/lib/cash-flow-snapshot';
+import { portfolioProjectFilter } from '@/lib/earned-value-snapshot';
+
+// GET /api/cash-flow - Monthly cash flow of every project rolled up to the portfolio.
+// ?status=a,b limits it to projects in those statuses; ?format=csv downloads it with a row per project and month.
+export async function GET(request: NextRequest) {
+  try {
+    // Forecasts are derived from resource rates
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const filter = portfolioProjectFilter(searchParams.get('status'));
+
+    if ('unknown' in filter) {
+      return NextResponse.json(
+        { error: `Unknown project status: ${filter.unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const asOf = new Date();
+    const projects = await loadCashFlow(prisma, filter.where, asOf);
+    const portfolio = rollUpCashFlow(projects.map(project => project.cashFlow), asOf);
+
+    if (searchParams.get('format') === 'csv') {
+      const csv = cashFlowCsv([
+        ...projects.map(project => ({ label: project.code, flow: project.cashFlow })),
+        { label: 'Portfolio', flow: portfolio },
+      ]);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="cash-flow-${asOf.toISOString().split('T')[0]}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      portfolio,
+      // Per-project months are served by /api/projects/[id]/cash-flow
+      projects: projects.map(({ cashFlow: { months, ...totals }, ...project }) => ({
+        ...project,
+        cashFlow: totals,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching portfolio cash flow:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio cash flow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { rollUpEarnedValue } from '@/lib/earned-value';
+import { loadEarnedValue, portfolioProjectFilter } from '@/lib/earned-value-snapshot';
+
+// GET /api/earned-value - Earned value of every project rolled up to the portfolio.
+// ?status=a,b limits it to projects in those statuses; cancelled projects are left out otherwise.
+export async function GET(request: NextRequest) {
+  try {
+    // Every figure is a cost
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const filter = portfolioProjectFilter(searchParams.get('status'));
+
+    if ('unknown' in filter) {
+      return NextResponse.json(
+        { error: `Unknown project status: ${filter.unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const asOf = new Date();
+    const projects = await loadEarnedValue(prisma, filter.where, asOf);
+
+    return NextResponse.json({
+      portfolio: rollUpEarnedValue(projects.map(project => project.earnedValue), asOf),
+      // Per-project curves are served by /api/projects/[id]/earned-value
+      projects: projects.map(({ earnedValue: { curve, ...metrics }, ...project }) => ({
+        ...project,
+        earnedValue: metrics,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching portfolio earned value:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio earned value' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { dependencyLinkSchema } from '@/lib/validations/master-data';
+import { DependencyLink, parseDependencyLinks, validateDependencyLinks } from '@/lib/dependencies';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 const prisma = new PrismaClient();
 
@@ -9,15 +13,28 @@ const updateBlockSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
   defaultDurationWeeks: z.number().min(1),
-  defaultDependencies: z.string().optional(),
+  optimisticDurationWeeks: z.number().positive().nullable().optional(),
+  pessimisticDurationWeeks: z.number().positive().nullable().optional(),
+  defaultDependencies: z.array(dependencyLinkSchema).optional(),
   defaultSkillsMix: z.string().optional(),
-});
+})
+  .refine(
+    data => !data.optimisticDurationWeeks || data.optimisticDurationWeeks <= data.defaultDurationWeeks,
+    { message: 'Optimistic duration cannot exceed the default duration', path: ['optimisticDurationWeeks'] }
+  )
+  .refine(
+    data => !data.pessimisticDurationWeeks || data.pessimisticDurationWeeks >= data.defaultDurationWeeks,
+    { message: 'Pessimistic duration cannot be below the default duration', path: ['pessimisticDurationWeeks'] }
+  );
 
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = updateBlockSchema.parse(body);
 
@@ -48,26 +65,63 @@ export async function PUT(
       );
     }
 
+    // Dependencies must point at existing blocks and keep the block network acyclic
+    const dependencies: DependencyLink[] = (validatedData.defaultDependencies || []).map(link => ({
+      ...link,
+      successor: validatedData.code,
+    }));
+    const otherBlocks = await prisma.block.findMany({
+      where: { id: { not: params.id } },
+      select: { code: true, defaultDependencies: true },
+    });
+    const dependencyErrors = validateDependencyLinks(
+      dependencies,
+      new Set(otherBlocks.map(other => other.code)),
+      otherBlocks.flatMap(other => parseDependencyLinks(other.defaultDependencies, other.code) || [])
+    );
+
+    if (dependencyErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid dependencies', details: dependencyErrors },
+        { status: 400 }
+      );
+    }
+
     // Update the block
-    const updatedBlock = await prisma.block.update({
-      where: { id: params.id },
-      data: {
-        code: validatedData.code,
-        name: validatedData.name,
-        description: validatedData.description || null,
-        defaultDurationWeeks: validatedData.defaultDurationWeeks,
-        defaultDependencies: validatedData.defaultDependencies || null,
-        defaultSkillsMix: validatedData.defaultSkillsMix || null,
-      },
-      include: {
-        deliverables: true,
-        _count: {
-          select: {
-            tierBlocks: true,
-            projectBlocks: true,
+    const updatedBlock = await prisma.$transaction(async (tx) => {
+      const updated = await tx.block.update({
+        where: { id: params.id },
+        data: {
+          code: validatedData.code,
+          name: validatedData.name,
+          description: validatedData.description || null,
+          defaultDurationWeeks: validatedData.defaultDurationWeeks,
+          optimisticDurationWeeks: validatedData.optimisticDurationWeeks ?? null,
+          pessimisticDurationWeeks: validatedData.pessimisticDurationWeeks ?? null,
+          defaultDependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+          defaultSkillsMix: validatedData.defaultSkillsMix || null,
+        },
+        include: {
+          deliverables: true,
+          _count: {
+            select: {
+              tierBlocks: true,
+              projectBlocks: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'block',
+        entityId: params.id,
+        entityLabel: updated.code,
+        before: existingBlock,
+        after: updated,
+      });
+
+      return updated;
     });
 
     return NextResponse.json(updatedBlock);
@@ -89,10 +143,13 @@ export async function PUT(
 }
 
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     // Check if block exists
     const existingBlock = await prisma.block.findUnique({
       where: { id: params.id },
@@ -132,8 +189,19 @@ export async function DELETE(
     }
 
     // Delete the block
-    await prisma.block.delete({
-      where: { id: params.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.block.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'block',
+        entityId: params.id,
+        entityLabel: existingBlock.code,
+        summary: existingBlock._count.deliverables > 0 ? `Deleted with ${existingBlock._count.deliverables} deliverable(s)` : undefined,
+        before: existingBlock,
+      });
     });
 
     return NextResponse.json({ message: 'Block deleted successfully' });
@@ -1,6 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { dependencyLinkSchema } from '@/lib/validations/master-data';
+import { DependencyLink, parseDependencyLinks, validateDependencyLinks } from '@/lib/dependencies';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 const prisma = new PrismaClient();
 
@@ -9,9 +13,19 @@ const createBlockSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
   defaultDurationWeeks: z.number().min(1),
-  defaultDependencies: z.string().optional(),
+  optimisticDurationWeeks: z.number().positive().nullable().optional(),
+  pessimisticDurationWeeks: z.number().positive().nullable().optional(),
+  defaultDependencies: z.array(dependencyLinkSchema).optional(),
   defaultSkillsMix: z.string().optional(),
-});
+})
+  .refine(
+    data => !data.optimisticDurationWeeks || data.optimisticDurationWeeks <= data.defaultDurationWeeks,
+    { message: 'Optimistic duration cannot exceed the default duration', path: ['optimisticDurationWeeks'] }
+  )
+  .refine(
+    data => !data.pessimisticDurationWeeks || data.pessimisticDurationWeeks >= data.defaultDurationWeeks,
+    { message: 'Pessimistic duration cannot be below the default duration', path: ['pessimisticDurationWeeks'] }
+  );
 
 export async function GET() {
   try {
@@ -40,8 +54,11 @@ export async function GET() {
   }
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = createBlockSchema.parse(body);
 
@@ -57,25 +74,60 @@ export async function POST(request: Request) {
       );
     }
 
+    // Dependencies must point at existing blocks and keep the block network acyclic
+    const dependencies: DependencyLink[] = (validatedData.defaultDependencies || []).map(link => ({
+      ...link,
+      successor: validatedData.code,
+    }));
+    const otherBlocks = await prisma.block.findMany({
+      select: { code: true, defaultDependencies: true },
+    });
+    const dependencyErrors = validateDependencyLinks(
+      dependencies,
+      new Set(otherBlocks.map(other => other.code)),
+      otherBlocks.flatMap(other => parseDependencyLinks(other.defaultDependencies, other.code) || [])
+    );
+
+    if (dependencyErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid dependencies', details: dependencyErrors },
+        { status: 400 }
+      );
+    }
+
     // Create the block
-    const block = await prisma.block.create({
-      data: {
-        code: validatedData.code,
-        name: validatedData.name,
-        description: validatedData.description || null,
-        defaultDurationWeeks: validatedData.defaultDurationWeeks,
-        defaultDependencies: validatedData.defaultDependencies || null,
-        defaultSkillsMix: validatedData.defaultSkillsMix || null,
-      },
-      include: {
-        deliverables: true,
-        _count: {
-          select: {
-            tierBlocks: true,
-            projectBlocks: true,
+    const block = await prisma.$transaction(async (tx) => {
+      const created = await tx.block.create({
+        data: {
+          code: validatedData.code,
+          name: validatedData.name,
+          description: validatedData.description || null,
+          defaultDurationWeeks: validatedData.defaultDurationWeeks,
+          optimisticDurationWeeks: validatedData.optimisticDurationWeeks ?? null,
+          pessimisticDurationWeeks: validatedData.pessimisticDurationWeeks ?? null,
+          defaultDependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+          defaultSkillsMix: validatedData.defaultSkillsMix || null,
+        },
+        include: {
+          deliverables: true,
+          _count: {
+            select: {
+              tierBlocks: true,
+              projectBlocks: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'block',
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+
+      return created;
     });
 
     return NextResponse.json(block, { status: 201 });
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// DELETE /api/master-data/calendar/holidays/[id] - Remove a holiday or shutdown period
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const holiday = await prisma.calendarHoliday.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!holiday) {
+      return NextResponse.json(
+        { error: 'Holiday not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.calendarHoliday.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'calendar_holiday',
+        entityId: params.id,
+        entityLabel: holiday.name,
+        before: holiday,
+      });
+    });
+
+    return NextResponse.json({ message: 'Holiday deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting calendar holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete calendar holiday' },
+      { status: 500 }
+    );
+  }
+}
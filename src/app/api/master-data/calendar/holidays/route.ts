@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { calendarHolidaySchema } from '@/lib/validations/master-data';
+import { DEFAULT_HOURS_PER_DAY, DEFAULT_WORKING_DAYS } from '@/lib/working-calendar';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// POST /api/master-data/calendar/holidays - Add a public holiday or shutdown period
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = calendarHolidaySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, type, startDate, endDate, region } = validationResult.data;
+
+    // Holidays belong to the organisation calendar; create it on first use
+    const calendar = await prisma.workingCalendar.findFirst({
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    }) ?? await prisma.workingCalendar.create({
+      data: {
+        name: 'Standard',
+        workingDays: JSON.stringify(DEFAULT_WORKING_DAYS),
+        hoursPerDay: DEFAULT_HOURS_PER_DAY,
+        isDefault: true,
+      },
+    });
+
+    const holiday = await prisma.$transaction(async (tx) => {
+      const created = await tx.calendarHoliday.create({
+        data: {
+          calendarId: calendar.id,
+          name,
+          type,
+          startDate: new Date(startDate),
+          endDate: new Date(endDate || startDate),
+          region: region || null,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'calendar_holiday',
+        entityId: created.id,
+        entityLabel: created.name,
+        after: created,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(holiday, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar holiday' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { workingCalendarSchema } from '@/lib/validations/master-data';
+import { DEFAULT_HOURS_PER_DAY, DEFAULT_WORKING_DAYS } from '@/lib/working-calendar';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// GET /api/master-data/calendar - Get the organisation working calendar
+export async function GET() {
+  try {
+    const calendar = await prisma.workingCalendar.findFirst({
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      include: {
+        holidays: {
+          orderBy: { startDate: 'asc' },
+        },
+      },
+    });
+
+    if (!calendar) {
+      return NextResponse.json({
+        id: null,
+        name: 'Standard',
+        workingDays: DEFAULT_WORKING_DAYS,
+        hoursPerDay: DEFAULT_HOURS_PER_DAY,
+        hoursPerMonth: null,
+        holidays: [],
+      });
+    }
+
+    return NextResponse.json({
+      ...calendar,
+      workingDays: JSON.parse(calendar.workingDays),
+    });
+  } catch (error) {
+    console.error('Error fetching working calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch working calendar' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/master-data/calendar - Update working days and hours of the organisation calendar
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = workingCalendarSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, workingDays, hoursPerDay, hoursPerMonth } = validationResult.data;
+    const data = {
+      name,
+      workingDays: JSON.stringify([...workingDays].sort()),
+      hoursPerDay,
+      ...(hoursPerMonth !== undefined && { hoursPerMonth }),
+    };
+
+    const existing = await prisma.workingCalendar.findFirst({
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    const calendar = await prisma.$transaction(async (tx) => {
+      const saved = existing
+        ? await tx.workingCalendar.update({
+            where: { id: existing.id },
+            data,
+            include: { holidays: { orderBy: { startDate: 'asc' } } },
+          })
+        : await tx.workingCalendar.create({
+            data: { ...data, isDefault: true },
+            include: { holidays: { orderBy: { startDate: 'asc' } } },
+          });
+
+      await recordAudit(tx, user, {
+        action: existing ? 'update' : 'create',
+        entityType: 'working_calendar',
+        entityId: saved.id,
+        entityLabel: saved.name,
+        before: existing,
+        after: saved,
+      });
+
+      return saved;
+    });
+
+    return NextResponse.json({
+      ...calendar,
+      workingDays: JSON.parse(calendar.workingDays),
+    });
+  } catch (error) {
+    console.error('Error updating working calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to update working calendar' },
+      { status: 500 }
+    );
+  }
+}
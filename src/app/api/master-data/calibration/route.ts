@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { applyCalibrationSchema } from '@/lib/validations/master-data';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { loadCalibrationReport } from '@/lib/calibration-snapshot';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// GET /api/master-data/calibration - Planned vs actual durations of completed blocks with suggested templates
+export async function GET() {
+  try {
+    const calendar = await loadWorkingCalendar(prisma);
+    return NextResponse.json(await loadCalibrationReport(prisma, calendar));
+  } catch (error) {
+    console.error('Error building calibration report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calibration report' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/master-data/calibration - Accept a suggested duration, range or skills mix for a block or tier block
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = applyCalibrationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const calendar = await loadWorkingCalendar(prisma);
+    const report = await loadCalibrationReport(prisma, calendar);
+    const suggestion = (data.target === 'block' ? report.blocks : report.tierBlocks)
+      .find(candidate => candidate.id === data.id);
+    const summary = suggestion
+      ? `Calibrated from ${suggestion.samples} completed block${suggestion.samples === 1 ? '' : 's'}`
+      : 'Calibrated from completed blocks';
+
+    if (data.target === 'block') {
+      const existingBlock = await prisma.block.findUnique({
+        where: { id: data.id },
+      });
+
+      if (!existingBlock) {
+        return NextResponse.json(
+          { error: 'Block not found' },
+          { status: 404 }
+        );
+      }
+
+      const durationWeeks = data.durationWeeks ?? existingBlock.defaultDurationWeeks;
+      const optimisticWeeks = data.optimisticDurationWeeks ?? existingBlock.optimisticDurationWeeks;
+      const pessimisticWeeks = data.pessimisticDurationWeeks ?? existingBlock.pessimisticDurationWeeks;
+      if ((optimisticWeeks && optimisticWeeks > durationWeeks) || (pessimisticWeeks && pessimisticWeeks < durationWeeks)) {
+        return NextResponse.json(
+          { error: 'The duration range must include the default duration' },
+          { status: 400 }
+        );
+      }
+
+      const updatedBlock = await prisma.$transaction(async (tx) => {
+        const updated = await tx.block.update({
+          where: { id: data.id },
+          data: {
+            defaultDurationWeeks: durationWeeks,
+            optimisticDurationWeeks: optimisticWeeks,
+            pessimisticDurationWeeks: pessimisticWeeks,
+            ...(data.skillsMix && { defaultSkillsMix: JSON.stringify(data.skillsMix) }),
+          },
+        });
+
+        await recordAudit(tx, user, {
+          action: 'update',
+          entityType: 'block',
+          entityId: updated.id,
+          entityLabel: updated.code,
+          summary,
+          before: existingBlock,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return NextResponse.json(updatedBlock);
+    }
+
+    const existingTierBlock = await prisma.tierBlock.findUnique({
+      where: { id: data.id },
+      include: {
+        block: { select: { code: true } },
+        tier: { select: { code: true } },
+      },
+    });
+
+    if (!existingTierBlock) {
+      return NextResponse.json(
+        { error: 'Tier block not found' },
+        { status: 404 }
+      );
+    }
+
+    const { block, tier, ...before } = existingTierBlock;
+    const updatedTierBlock = await prisma.$transaction(async (tx) => {
+      const updated = await tx.tierBlock.update({
+        where: { id: data.id },
+        data: {
+          ...(data.durationWeeks !== undefined && { overrideDurationWeeks: data.durationWeeks }),
+          ...(data.skillsMix && { overrideSkillsMix: JSON.stringify(data.skillsMix) }),
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'tier_block',
+        entityId: updated.id,
+        entityLabel: `${tier.code} / ${block.code}`,
+        summary,
+        before,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(updatedTierBlock);
+  } catch (error) {
+    console.error('Error applying calibration:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply calibration' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // Validation schema for deliverable
 const deliverableSchema = z.object({
@@ -17,6 +19,9 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = deliverableSchema.parse(body);
 
@@ -58,17 +63,30 @@ export async function PUT(
       );
     }
 
-    const deliverable = await prisma.deliverable.update({
-      where: { id: params.id },
-      data: validatedData,
-      include: {
-        block: {
-          select: {
-            code: true,
-            name: true,
+    const deliverable = await prisma.$transaction(async (tx) => {
+      const updated = await tx.deliverable.update({
+        where: { id: params.id },
+        data: validatedData,
+        include: {
+          block: {
+            select: {
+              code: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'deliverable',
+        entityId: params.id,
+        entityLabel: updated.code,
+        before: existingDeliverable,
+        after: updated,
+      });
+
+      return updated;
     });
 
     return NextResponse.json(deliverable);
@@ -93,6 +111,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     // Check if deliverable exists
     const deliverable = await prisma.deliverable.findUnique({
       where: { id: params.id },
@@ -108,8 +129,18 @@ export async function DELETE(
     // Note: No usage checking needed for deliverables as they are leaf nodes
     // in the data structure (nothing references them)
 
-    await prisma.deliverable.delete({
-      where: { id: params.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.deliverable.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'deliverable',
+        entityId: params.id,
+        entityLabel: deliverable.code,
+        before: deliverable,
+      });
     });
 
     return NextResponse.json(
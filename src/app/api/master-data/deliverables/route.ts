@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // Validation schema for deliverable
 const deliverableSchema = z.object({
@@ -41,6 +43,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = deliverableSchema.parse(body);
 
@@ -68,16 +73,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const deliverable = await prisma.deliverable.create({
-      data: validatedData,
-      include: {
-        block: {
-          select: {
-            code: true,
-            name: true,
+    const deliverable = await prisma.$transaction(async (tx) => {
+      const created = await tx.deliverable.create({
+        data: validatedData,
+        include: {
+          block: {
+            select: {
+              code: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'deliverable',
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+
+      return created;
     });
 
     return NextResponse.json(deliverable, { status: 201 });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { updateProjectTypeSchema } from '@/lib/validations/master-data';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // GET /api/master-data/project-types/[id] - Get a specific project type
 export async function GET(
@@ -45,6 +47,9 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -97,9 +102,22 @@ export async function PUT(
     }
 
     // Update the project type
-    const projectType = await prisma.projectType.update({
-      where: { id: params.id },
-      data: validationResult.data,
+    const projectType = await prisma.$transaction(async (tx) => {
+      const updated = await tx.projectType.update({
+        where: { id: params.id },
+        data: validationResult.data,
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'project_type',
+        entityId: params.id,
+        entityLabel: updated.code,
+        before: existingProjectType,
+        after: updated,
+      });
+
+      return updated;
     });
 
     return NextResponse.json(projectType);
@@ -118,6 +136,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     // Check if project type exists
     const existingProjectType = await prisma.projectType.findUnique({
       where: { id: params.id },
@@ -149,8 +170,18 @@ export async function DELETE(
     }
 
     // Delete the project type
-    await prisma.projectType.delete({
-      where: { id: params.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.projectType.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'project_type',
+        entityId: params.id,
+        entityLabel: existingProjectType.code,
+        before: existingProjectType,
+      });
     });
 
     return NextResponse.json(
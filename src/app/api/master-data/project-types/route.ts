@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createProjectTypeSchema } from '@/lib/validations/master-data';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // GET /api/master-data/project-types - List all project types
 export async function GET() {
@@ -37,6 +39,9 @@ export async function GET() {
 // POST /api/master-data/project-types - Create a new project type
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -77,13 +82,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the project type
-    const projectType = await prisma.projectType.create({
-      data: {
-        code,
-        name,
-        description,
-        active,
-      },
+    const projectType = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectType.create({
+        data: {
+          code,
+          name,
+          description,
+          active,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'project_type',
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+
+      return created;
     });
 
     return NextResponse.json(
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { rateCardSchema } from '@/lib/validations/master-data';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const updateRateCardSchema = rateCardSchema.partial();
+
+// Rate cards are labelled by role and the date they take effect
+function rateCardLabel(rateCard: { role: string; effectiveFrom: Date }) {
+  return `${rateCard.role} from ${rateCard.effectiveFrom.toISOString().split('T')[0]}`;
+}
+
+// PUT /api/master-data/rate-cards/[id] - Update a rate card
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = updateRateCardSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.rateCard.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rate card not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = validationResult.data;
+    const role = data.role?.trim() ?? existing.role;
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom.split('T')[0]) : existing.effectiveFrom;
+
+    if (role !== existing.role || effectiveFrom.getTime() !== existing.effectiveFrom.getTime()) {
+      const clash = await prisma.rateCard.findUnique({
+        where: { role_effectiveFrom: { role, effectiveFrom } },
+      });
+      if (clash) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            validationErrors: [
+              { field: 'effectiveFrom', message: 'The role already has a rate card from this date' },
+            ],
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const rateCard = await prisma.$transaction(async (tx) => {
+      const updated = await tx.rateCard.update({
+        where: { id: params.id },
+        data: {
+          role,
+          effectiveFrom,
+          ...(data.costRate !== undefined && { costRate: data.costRate }),
+          ...(data.billingRate !== undefined && { billingRate: data.billingRate }),
+          ...(data.notes !== undefined && { notes: data.notes || null }),
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'rate_card',
+        entityId: updated.id,
+        entityLabel: rateCardLabel(updated),
+        before: existing,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(rateCard);
+  } catch (error) {
+    console.error('Error updating rate card:', error);
+    return NextResponse.json(
+      { error: 'Failed to update rate card' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/master-data/rate-cards/[id] - Remove a rate card
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const existing = await prisma.rateCard.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rate card not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.rateCard.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'rate_card',
+        entityId: existing.id,
+        entityLabel: rateCardLabel(existing),
+        before: existing,
+      });
+    });
+
+    return NextResponse.json({ message: 'Rate card deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting rate card:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete rate card' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { rateCardSchema } from '@/lib/validations/master-data';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// GET /api/master-data/rate-cards - List the rate cards of every role
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const rateCards = await prisma.rateCard.findMany({
+      orderBy: [
+        { role: 'asc' },
+        { effectiveFrom: 'desc' },
+      ],
+    });
+
+    return NextResponse.json(rateCards);
+  } catch (error) {
+    console.error('Error fetching rate cards:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rate cards' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/master-data/rate-cards - Set the rates of a role from a date on
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = rateCardSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const role = data.role.trim();
+    // Rates take effect from the start of the day
+    const effectiveFrom = new Date(data.effectiveFrom.split('T')[0]);
+
+    const existing = await prisma.rateCard.findUnique({
+      where: { role_effectiveFrom: { role, effectiveFrom } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            { field: 'effectiveFrom', message: 'The role already has a rate card from this date' },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateCard = await prisma.$transaction(async (tx) => {
+      const created = await tx.rateCard.create({
+        data: {
+          role,
+          effectiveFrom,
+          costRate: data.costRate,
+          billingRate: data.billingRate ?? null,
+          notes: data.notes || null,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'rate_card',
+        entityId: created.id,
+        entityLabel: `${role} from ${effectiveFrom.toISOString().split('T')[0]}`,
+        after: created,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(rateCard, { status: 201 });
+  } catch (error) {
+    console.error('Error creating rate card:', error);
+    return NextResponse.json(
+      { error: 'Failed to create rate card' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 const prisma = new PrismaClient();
 
@@ -12,10 +14,13 @@ const updateSkillSchema = z.object({
 });
 
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = updateSkillSchema.parse(body);
 
@@ -47,14 +52,27 @@ export async function PUT(
     }
 
     // Update the skill
-    const updatedSkill = await prisma.skill.update({
-      where: { id: params.id },
-      data: {
-        code: validatedData.code,
-        name: validatedData.name,
-        category: validatedData.category,
-        description: validatedData.description || null,
-      },
+    const updatedSkill = await prisma.$transaction(async (tx) => {
+      const updated = await tx.skill.update({
+        where: { id: params.id },
+        data: {
+          code: validatedData.code,
+          name: validatedData.name,
+          category: validatedData.category,
+          description: validatedData.description || null,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'skill',
+        entityId: params.id,
+        entityLabel: updated.code,
+        before: existingSkill,
+        after: updated,
+      });
+
+      return updated;
     });
 
     return NextResponse.json(updatedSkill);
@@ -76,10 +94,13 @@ export async function PUT(
 }
 
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     // Check if skill exists
     const existingSkill = await prisma.skill.findUnique({
       where: { id: params.id },
@@ -106,8 +127,18 @@ export async function DELETE(
     // }
 
     // Delete the skill
-    await prisma.skill.delete({
-      where: { id: params.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.skill.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'skill',
+        entityId: params.id,
+        entityLabel: existingSkill.code,
+        before: existingSkill,
+      });
     });
 
     return NextResponse.json({ message: 'Skill deleted successfully' });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createSkillSchema } from '@/lib/validations/master-data';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // GET /api/master-data/skills - List all skills
 export async function GET() {
@@ -25,6 +27,9 @@ export async function GET() {
 // POST /api/master-data/skills - Create a new skill
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -65,13 +70,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the skill
-    const skill = await prisma.skill.create({
-      data: {
-        code,
-        name,
-        description,
-        category,
-      },
+    const skill = await prisma.$transaction(async (tx) => {
+      const created = await tx.skill.create({
+        data: {
+          code,
+          name,
+          description,
+          category,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'skill',
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+
+      return created;
     });
 
     return NextResponse.json(
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { dependencyLinkSchema } from '@/lib/validations/master-data';
+import { DependencyLink, parseDependencyLinks, validateDependencyLinks } from '@/lib/dependencies';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const updateTierBlockSchema = z.object({
+  // null clears the override so the block falls back to its default dependencies
+  overrideDependencies: z.array(dependencyLinkSchema).nullable(),
+});
+
+// PUT /api/master-data/tiers/[id]/blocks/[blockId] - Override a block's dependencies within a tier
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; blockId: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+    const validatedData = updateTierBlockSchema.parse(body);
+
+    const tierBlocks = await prisma.tierBlock.findMany({
+      where: { tierId: params.id },
+      orderBy: { sequenceIndex: 'asc' },
+      include: { block: true },
+    });
+
+    const tierBlock = tierBlocks.find(tb => tb.id === params.blockId);
+    if (!tierBlock) {
+      return NextResponse.json(
+        { error: 'Tier block not found' },
+        { status: 404 }
+      );
+    }
+
+    const overrideDependencies: DependencyLink[] | null = validatedData.overrideDependencies
+      ? validatedData.overrideDependencies.map(link => ({ ...link, successor: tierBlock.block.code }))
+      : null;
+
+    // Effective network of the rest of the tier; undeclared blocks follow the
+    // previous block in sequence, as the planner schedules them
+    const network = tierBlocks.flatMap((other, index) => {
+      if (other.id === tierBlock.id) {
+        return [];
+      }
+      const declared = parseDependencyLinks(
+        other.overrideDependencies ?? other.block.defaultDependencies,
+        other.block.code
+      );
+      if (declared) {
+        return declared;
+      }
+      return index > 0
+        ? [{ predecessor: tierBlocks[index - 1].block.code, successor: other.block.code, type: 'FS' as const, lagDays: 0 }]
+        : [];
+    });
+
+    const dependencyErrors = overrideDependencies
+      ? validateDependencyLinks(
+          overrideDependencies,
+          new Set(tierBlocks.map(tb => tb.block.code)),
+          network
+        )
+      : [];
+
+    if (dependencyErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid dependencies', details: dependencyErrors },
+        { status: 400 }
+      );
+    }
+
+    const updatedTierBlock = await prisma.$transaction(async (tx) => {
+      const updated = await tx.tierBlock.update({
+        where: { id: tierBlock.id },
+        data: {
+          overrideDependencies: overrideDependencies ? JSON.stringify(overrideDependencies) : null,
+        },
+        include: { block: true },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'tier_block',
+        entityId: tierBlock.id,
+        entityLabel: tierBlock.block.code,
+        before: tierBlock,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      ...updatedTierBlock,
+      overrideDependencies,
+    });
+  } catch (error) {
+    console.error('Error updating tier block:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
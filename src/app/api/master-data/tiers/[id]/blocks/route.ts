@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { parseDependencyLinks } from '@/lib/dependencies';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
 
 // GET /api/master-data/tiers/[id]/blocks - Get blocks for a specific tier
 export async function GET(
@@ -59,9 +62,10 @@ export async function GET(
           ? JSON.parse(tierBlock.block.defaultSkillsMix)
           : null;
       
-      const dependencies = tierBlock.block.defaultDependencies
-        ? JSON.parse(tierBlock.block.defaultDependencies)
-        : [];
+      const dependencies = parseDependencyLinks(
+        tierBlock.overrideDependencies ?? tierBlock.block.defaultDependencies,
+        tierBlock.block.code
+      );
 
       return {
         id: tierBlock.id,
@@ -76,13 +80,31 @@ export async function GET(
         durationWeeks: duration,
         skillsMix,
         dependencies,
+        defaultDependencies: parseDependencyLinks(tierBlock.block.defaultDependencies, tierBlock.block.code),
+        overrideDependencies: parseDependencyLinks(tierBlock.overrideDependencies, tierBlock.block.code),
         isOverride: {
           duration: tierBlock.overrideDurationWeeks !== null,
           skillsMix: tierBlock.overrideSkillsMix !== null,
+          dependencies: tierBlock.overrideDependencies !== null,
         },
       };
     });
 
+    // Resolve the dependency network so duration follows the critical path
+    // rather than the sum of all block durations
+    const plan = AutoPlanningEngine.generateProjectPlan(blocksWithConfig, new Date(), 'strict_start', {
+      calendar: await loadWorkingCalendar(prisma),
+    });
+    const blocksWithSchedule = blocksWithConfig.map((block) => {
+      const planBlock = plan.projectBlocks.find(b => b.blockId === block.block.id)!;
+      return {
+        ...block,
+        dependencies: planBlock.dependencies,
+        slackDays: planBlock.slackDays,
+        isCritical: planBlock.isCritical,
+      };
+    });
+
     return NextResponse.json({
       tier: {
         id: tier.id,
@@ -92,9 +114,10 @@ export async function GET(
         sizeHint: tier.sizeHint,
         projectType: tier.projectType,
       },
-      blocks: blocksWithConfig,
-      totalBlocks: blocksWithConfig.length,
-      totalDurationWeeks: blocksWithConfig.reduce((sum, block) => sum + block.durationWeeks, 0),
+      blocks: blocksWithSchedule,
+      totalBlocks: blocksWithSchedule.length,
+      totalDurationWeeks: plan.totalDurationWeeks,
+      criticalPath: plan.criticalPath,
     });
   } catch (error) {
     console.error('Error fetching tier blocks:', error);
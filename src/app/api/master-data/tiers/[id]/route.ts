@@ -1,6 +1,8 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 const prisma = new PrismaClient();
 
@@ -12,10 +14,13 @@ const updateTierSchema = z.object({
 });
 
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const validatedData = updateTierSchema.parse(body);
 
@@ -60,17 +65,30 @@ export async function PUT(
     }
 
     // Update the tier
-    const updatedTier = await prisma.tier.update({
-      where: { id: params.id },
-      data: {
-        code: validatedData.code,
-        name: validatedData.name,
-        projectTypeId: validatedData.projectTypeId,
-        sizeHint: validatedData.sizeHint || null,
-      },
-      include: {
-        projectType: true,
-      },
+    const updatedTier = await prisma.$transaction(async (tx) => {
+      const updated = await tx.tier.update({
+        where: { id: params.id },
+        data: {
+          code: validatedData.code,
+          name: validatedData.name,
+          projectTypeId: validatedData.projectTypeId,
+          sizeHint: validatedData.sizeHint || null,
+        },
+        include: {
+          projectType: true,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'tier',
+        entityId: params.id,
+        entityLabel: updated.code,
+        before: existingTier,
+        after: updated,
+      });
+
+      return updated;
     });
 
     return NextResponse.json(updatedTier);
@@ -92,10 +110,13 @@ export async function PUT(
 }
 
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     // Check if tier exists
     const existingTier = await prisma.tier.findUnique({
       where: { id: params.id },
@@ -122,8 +143,18 @@ export async function DELETE(
     // }
 
     // Delete the tier
-    await prisma.tier.delete({
-      where: { id: params.id },
+    await prisma.$transaction(async (tx) => {
+      await tx.tier.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'tier',
+        entityId: params.id,
+        entityLabel: existingTier.code,
+        before: existingTier,
+      });
     });
 
     return NextResponse.json({ message: 'Tier deleted successfully' });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createTierSchema } from '@/lib/validations/master-data';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
 
 // GET /api/master-data/tiers - List all tiers
 export async function GET() {
@@ -36,6 +38,9 @@ export async function GET() {
 // POST /api/master-data/tiers - Create a new tier
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'master_data:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -79,23 +84,35 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the tier
-    const tier = await prisma.tier.create({
-      data: {
-        code,
-        name,
-        description,
-        sizeHint,
-        projectTypeId,
-      },
-      include: {
-        projectType: {
-          select: {
-            id: true,
-            code: true,
-            name: true,
+    const tier = await prisma.$transaction(async (tx) => {
+      const created = await tx.tier.create({
+        data: {
+          code,
+          name,
+          description,
+          sizeHint,
+          projectTypeId,
+        },
+        include: {
+          projectType: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'tier',
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+
+      return created;
     });
 
     return NextResponse.json(
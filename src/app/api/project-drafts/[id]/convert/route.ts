@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { createPlannedProjectSchema } from '@/lib/validations/projects';
+import { loadProjectDraft } from '@/lib/project-drafts';
+import {
+  createPlannedProject,
+  hasWizardAllocations,
+  plannedProjectResult,
+  preparePlannedProject,
+} from '@/lib/project-creation';
+
+// POST /api/project-drafts/[id]/convert - Create the project a complete draft describes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => ({}));
+
+    const access = await loadProjectDraft(prisma, params.id, user);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.isOwner) {
+      return NextResponse.json(
+        { error: 'Only the owner of a draft can turn it into a project' },
+        { status: 403 }
+      );
+    }
+
+    if (access.draft.status === 'converted') {
+      return NextResponse.json(
+        { error: 'The draft has already been turned into a project' },
+        { status: 409 }
+      );
+    }
+
+    // The saved values are checked in full now, like a wizard submission
+    const validationResult = createPlannedProjectSchema.safeParse({
+      ...JSON.parse(access.draft.data),
+      allowOverallocation: body.allowOverallocation === true,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    // Allocating needs its own permission on top of creating the project
+    if (hasWizardAllocations(input)) {
+      const allocator = await requirePermission(request, 'allocations:edit');
+      if (allocator instanceof NextResponse) return allocator;
+    }
+
+    // Checking, claiming the draft and creating the project share one transaction, so a draft cannot
+    // become two projects and its code cannot be taken between the check and the create
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Everything that is wrong with the draft is reported at once, before anything is written
+      const prepared = await preparePlannedProject(tx, input);
+      if (!prepared.ok) {
+        return { report: prepared.report };
+      }
+
+      const { count } = await tx.projectDraft.updateMany({
+        where: { id: params.id, status: 'draft' },
+        data: { status: 'converted', convertedAt: new Date() },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const created = await createPlannedProject(tx, user, prepared.fields, prepared.plan, prepared.allocations, prepared.blockSourcing);
+      await tx.projectDraft.update({
+        where: { id: params.id },
+        data: { convertedProjectId: created.project.id },
+      });
+      return { prepared, created };
+    }, { timeout: 30000 });
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'The draft has already been turned into a project' },
+        { status: 409 }
+      );
+    }
+
+    if ('report' in outcome) {
+      return NextResponse.json(
+        { error: 'Validation failed', ...outcome.report },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(plannedProjectResult(outcome.created, outcome.prepared), { status: 201 });
+  } catch (error) {
+    // A concurrent request took the code before this transaction committed
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      (error.meta?.target as string[] | undefined)?.includes('code')
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [{ field: 'code', message: 'A project with this code already exists' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error converting project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to convert project draft' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { projectDraftSchema } from '@/lib/validations/projects';
+import { loadProjectDraft, projectDraftTitle, projectDraftView } from '@/lib/project-drafts';
+
+// GET /api/project-drafts/[id] - A draft to resume or review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const access = await loadProjectDraft(prisma, params.id, user);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project draft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(projectDraftView(access.draft, user));
+  } catch (error) {
+    console.error('Error fetching project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project draft' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/project-drafts/[id] - Autosave the wizard's values and step
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = projectDraftSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadProjectDraft(prisma, params.id, user);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.isOwner) {
+      return NextResponse.json(
+        { error: 'Only the owner of a draft can change it' },
+        { status: 403 }
+      );
+    }
+
+    if (access.draft.status === 'converted') {
+      return NextResponse.json(
+        { error: 'The draft has already been turned into a project' },
+        { status: 409 }
+      );
+    }
+
+    const { data, currentStep } = validationResult.data;
+
+    const draft = await prisma.projectDraft.update({
+      where: { id: params.id },
+      data: {
+        title: projectDraftTitle(data),
+        data: JSON.stringify(data),
+        currentStep,
+      },
+      include: { shares: true },
+    });
+
+    return NextResponse.json(projectDraftView(draft, user));
+  } catch (error) {
+    console.error('Error updating project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project draft' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/project-drafts/[id] - Discard a draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const access = await loadProjectDraft(prisma, params.id, user);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.isOwner) {
+      return NextResponse.json(
+        { error: 'Only the owner of a draft can delete it' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.projectDraft.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ message: 'Project draft deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project draft' },
+      { status: 500 }
+    );
+  }
+}
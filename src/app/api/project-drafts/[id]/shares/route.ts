@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { shareProjectDraftSchema } from '@/lib/validations/projects';
+import { loadProjectDraft, projectDraftView } from '@/lib/project-drafts';
+
+// PUT /api/project-drafts/[id]/shares - Replace the colleagues a draft is shared with for review
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = shareProjectDraftSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadProjectDraft(prisma, params.id, user);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Project draft not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!access.isOwner) {
+      return NextResponse.json(
+        { error: 'Only the owner of a draft can share it' },
+        { status: 403 }
+      );
+    }
+
+    const userIds = Array.from(new Set(validationResult.data.userIds)).filter(id => id !== user.id);
+    const colleagues = await prisma.user.findMany({
+      where: { id: { in: userIds }, active: true },
+      select: { id: true, name: true },
+    });
+
+    const unknown = userIds.filter(id => !colleagues.some(colleague => colleague.id === id));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            { field: 'userIds', message: `Unknown or inactive users: ${unknown.join(', ')}` },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await prisma.$transaction(async (tx) => {
+      await tx.projectDraftShare.deleteMany({ where: { draftId: params.id } });
+      await tx.projectDraftShare.createMany({
+        data: colleagues.map(colleague => ({
+          draftId: params.id,
+          userId: colleague.id,
+          userName: colleague.name,
+        })),
+      });
+      return tx.projectDraft.findUniqueOrThrow({
+        where: { id: params.id },
+        include: { shares: { orderBy: { userName: 'asc' } } },
+      });
+    });
+
+    return NextResponse.json(projectDraftView(draft, user));
+  } catch (error) {
+    console.error('Error sharing project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to share project draft' },
+      { status: 500 }
+    );
+  }
+}
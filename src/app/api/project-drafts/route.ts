@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { projectDraftSchema } from '@/lib/validations/projects';
+import { listProjectDrafts, projectDraftTitle, projectDraftView } from '@/lib/project-drafts';
+
+// GET /api/project-drafts - Drafts the user owns or has been shared, most recently saved first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeConverted = searchParams.get('includeConverted') === 'true';
+
+    const drafts = await listProjectDrafts(prisma, user, includeConverted);
+
+    return NextResponse.json(drafts.map(draft => projectDraftView(draft, user)));
+  } catch (error) {
+    console.error('Error fetching project drafts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project drafts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/project-drafts - Save the wizard's values as a new draft
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = projectDraftSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, currentStep } = validationResult.data;
+
+    const draft = await prisma.projectDraft.create({
+      data: {
+        title: projectDraftTitle(data),
+        data: JSON.stringify(data),
+        currentStep,
+        createdById: user.id,
+        createdByName: user.name,
+      },
+      include: { shares: true },
+    });
+
+    return NextResponse.json(projectDraftView(draft, user), { status: 201 });
+  } catch (error) {
+    console.error('Error creating project draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project draft' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
 
 // POST /api/projects/[id]/allocate - Auto-allocate resources to project blocks
 export async function POST(
@@ -7,6 +9,9 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const { id: projectId } = params;
 
     // Get project with blocks
@@ -31,9 +36,9 @@ export async function POST(
       );
     }
 
-    // Get all active resources
+    // Get all active named resources
     const resources = await prisma.resource.findMany({
-      where: { active: true },
+      where: { active: true, placeholder: false },
       include: {
         resourceSkills: {
           include: {
@@ -113,6 +118,8 @@ export async function POST(
 
     // Use bulk insert with createMany for better performance
     const createdAllocations = await prisma.$transaction(async (tx) => {
+      const totalsBefore = await allocationTotals(tx, { projectId });
+
       // Delete any existing allocations for this project first
       await tx.allocation.deleteMany({
         where: { projectId: projectId },
@@ -123,6 +130,18 @@ export async function POST(
         data: allocationRecords,
       });
 
+      // One entry for the whole replacement, comparing hours per block and resource
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'allocation',
+        entityId: projectId,
+        entityLabel: project.code,
+        projectId,
+        summary: `Re-ran automatic allocation: ${allocationRecords.length} weekly allocations`,
+        before: totalsBefore,
+        after: await allocationTotals(tx, { projectId }),
+      });
+
       // Fetch the created allocations with relations for response
       const results = await tx.allocation.findMany({
         where: { projectId: projectId },
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
+import { loadProjectPlan } from '@/lib/plan-snapshot';
+import { compareToBaseline } from '@/lib/baselines';
+
+// GET /api/projects/[id]/baselines/[baselineId] - A baseline compared with the current plan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; baselineId: string } }
+) {
+  try {
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
+
+    const baseline = await prisma.projectBaseline.findFirst({
+      where: { id: params.baselineId, projectId: params.id },
+      include: { blocks: true },
+    });
+
+    if (!baseline) {
+      return NextResponse.json(
+        { error: 'Baseline not found' },
+        { status: 404 }
+      );
+    }
+
+    const plan = await loadProjectPlan(prisma, params.id);
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = compareToBaseline(baseline, plan);
+
+    // Costs are derived from resource rates
+    if (!canViewRates) {
+      comparison.blocks.forEach(block => {
+        block.baselineCost = 0;
+        block.currentCost = 0;
+      });
+      comparison.totals.baselineCost = 0;
+      comparison.totals.currentCost = 0;
+    }
+
+    const { blocks, ...summary } = baseline;
+    return NextResponse.json({
+      baseline: summary,
+      comparison,
+      costsVisible: canViewRates,
+    });
+  } catch (error) {
+    console.error('Error comparing baseline:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare baseline' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/baselines/[baselineId] - Delete a baseline
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; baselineId: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const baseline = await prisma.projectBaseline.findFirst({
+      where: { id: params.baselineId, projectId: params.id },
+    });
+
+    if (!baseline) {
+      return NextResponse.json(
+        { error: 'Baseline not found' },
+        { status: 404 }
+      );
+    }
+
+    // Blocks and allocations of the baseline cascade
+    await prisma.$transaction(async (tx) => {
+      await tx.projectBaseline.delete({
+        where: { id: baseline.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'project_baseline',
+        entityId: baseline.id,
+        entityLabel: baseline.name,
+        projectId: params.id,
+        before: baseline,
+      });
+    });
+
+    return NextResponse.json({ message: 'Baseline deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting baseline:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete baseline' },
+      { status: 500 }
+    );
+  }
+}
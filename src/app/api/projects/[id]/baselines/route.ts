@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
+import { loadProjectPlan } from '@/lib/plan-snapshot';
+
+const createBaselineSchema = z.object({
+  name: z.string().trim().min(1, 'Baseline name is required').max(100, 'Baseline name must not exceed 100 characters'),
+  description: z.string().max(500, 'Description must not exceed 500 characters').optional(),
+});
+
+// GET /api/projects/[id]/baselines - List a project's baselines, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
+
+    const baselines = await prisma.projectBaseline.findMany({
+      where: { projectId: params.id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        blocks: {
+          select: { plannedStart: true, plannedEnd: true, plannedHours: true, plannedCost: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      baselines.map(({ blocks, ...baseline }) => ({
+        ...baseline,
+        blockCount: blocks.length,
+        finishDate: blocks.length > 0
+          ? new Date(Math.max(...blocks.map(block => block.plannedEnd.getTime())))
+          : null,
+        plannedHours: Math.round(blocks.reduce((total, block) => total + block.plannedHours, 0) * 100) / 100,
+        plannedCost: canViewRates
+          ? Math.round(blocks.reduce((total, block) => total + block.plannedCost, 0) * 100) / 100
+          : null,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch baselines' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/baselines - Snapshot the current plan as a named baseline
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = createBaselineSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description } = validationResult.data;
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true, code: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const existingBaseline = await prisma.projectBaseline.findUnique({
+      where: { projectId_name: { projectId: project.id, name } },
+    });
+
+    if (existingBaseline) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            {
+              field: 'name',
+              message: 'This project already has a baseline with this name',
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Read the plan and write the snapshot in one transaction so it is consistent
+    const baseline = await prisma.$transaction(async (tx) => {
+      const plan = await loadProjectPlan(tx, project.id);
+      if (!plan) {
+        throw new Error(`Project ${project.id} not found`);
+      }
+
+      const created = await tx.projectBaseline.create({
+        data: {
+          projectId: project.id,
+          name,
+          description: description || null,
+          targetStartDate: plan.targetStartDate,
+          budgetCapex: plan.budgetCapex,
+          budgetOpex: plan.budgetOpex,
+          createdById: user.id,
+          createdByName: user.name,
+          blocks: {
+            create: plan.blocks.map(block => ({
+              projectBlockId: block.projectBlockId,
+              blockId: block.blockId,
+              blockCode: block.blockCode,
+              blockName: block.blockName,
+              plannedStart: block.plannedStart,
+              plannedEnd: block.plannedEnd,
+              plannedDurationWeeks: block.plannedDurationWeeks,
+              plannedHours: block.plannedHours,
+              plannedCost: block.plannedCost,
+              allocations: {
+                create: block.allocations,
+              },
+            })),
+          },
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'project_baseline',
+        entityId: created.id,
+        entityLabel: name,
+        projectId: project.id,
+        summary: `Baseline "${name}" of ${plan.blocks.length} blocks`,
+        after: created,
+      });
+
+      return created;
+    }, { timeout: 10000 });
+
+    return NextResponse.json(baseline, { status: 201 });
+  } catch (error) {
+    console.error('Error creating baseline:', error);
+    return NextResponse.json(
+      { error: 'Failed to create baseline' },
+      { status: 500 }
+    );
+  }
+}
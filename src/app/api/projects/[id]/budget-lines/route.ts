@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import { budgetLinesSchema } from '@/lib/validations/projects';
+import { monthKey, monthsBetween } from '@/lib/cash-flow';
+
+// Audit values keyed by month and category
+const lineValues = (lines: Array<{ month: string; category: string; amount: number }>) =>
+  Object.fromEntries(lines.map(line => [`${line.month} ${line.category}`, line.amount]));
+
+// GET /api/projects/[id]/budget-lines - The project budget phased by month, oldest month first,
+// with the months the plan spans
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        budgetCapex: true,
+        budgetOpex: true,
+        budgetLines: { orderBy: [{ month: 'asc' }, { category: 'asc' }] },
+        projectBlocks: { select: { plannedStart: true, plannedEnd: true } },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    // Planned ends are exclusive
+    const blocks = project.projectBlocks;
+    const planMonths = blocks.length > 0
+      ? monthsBetween(
+        monthKey(new Date(Math.min(...blocks.map(block => block.plannedStart.getTime())))),
+        monthKey(new Date(Math.max(...blocks.map(block => block.plannedEnd.getTime())) - 1))
+      )
+      : [];
+
+    return NextResponse.json({
+      budgetCapex: project.budgetCapex,
+      budgetOpex: project.budgetOpex,
+      planMonths,
+      lines: project.budgetLines,
+    });
+  } catch (error) {
+    console.error('Error fetching budget lines:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budget lines' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/budget-lines - Replace the project's budget lines
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = budgetLinesSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      include: { budgetLines: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    // Zero lines carry nothing
+    const lines = validationResult.data.lines.filter(line => line.amount > 0);
+
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.budgetLine.deleteMany({
+        where: { projectId: project.id },
+      });
+      await tx.budgetLine.createMany({
+        data: lines.map(line => ({
+          projectId: project.id,
+          month: line.month,
+          category: line.category,
+          amount: line.amount,
+          notes: line.notes ?? null,
+        })),
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'project',
+        entityId: project.id,
+        entityLabel: project.code,
+        projectId: project.id,
+        summary: `Budget phased into ${lines.length} monthly line${lines.length === 1 ? '' : 's'}`,
+        before: lineValues(project.budgetLines),
+        after: lineValues(lines),
+      });
+
+      return tx.budgetLine.findMany({
+        where: { projectId: project.id },
+        orderBy: [{ month: 'asc' }, { category: 'asc' }],
+      });
+    });
+
+    return NextResponse.json({
+      budgetCapex: project.budgetCapex,
+      budgetOpex: project.budgetOpex,
+      lines: saved,
+    });
+  } catch (error) {
+    console.error('Error saving budget lines:', error);
+    return NextResponse.json(
+      { error: 'Failed to save budget lines' },
+      { status: 500 }
+    );
+  }
+}
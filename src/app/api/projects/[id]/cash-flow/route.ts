@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { cashFlowCsv } from '@/lib/cash-flow';
+import { loadCashFlow } from '@/lib/cash-flow-snapshot';
+
+// GET /api/projects/[id]/cash-flow - Planned, forecast and actual cost of a project by month; ?format=csv downloads it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Forecasts are derived from resource rates
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const [project] = await loadCashFlow(prisma, { id: params.id }, new Date());
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (new URL(request.url).searchParams.get('format') === 'csv') {
+      return new NextResponse(cashFlowCsv([{ label: project.code, flow: project.cashFlow }]), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="cash-flow-${project.code}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Error fetching cash flow:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cash flow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { buildProjectClone, cloneTeam, loadCloneSource } from '@/lib/project-cloning';
+import { projectDraftTitle, projectDraftView } from '@/lib/project-drafts';
+import { cloneProjectSchema } from '@/lib/validations/projects';
+
+// GET /api/projects/[id]/clone - The source project's team, to pick replacements for unavailable resources
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const source = await loadCloneSource(prisma, params.id);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      project: { id: source.id, code: source.code, name: source.name, targetStartDate: source.targetStartDate },
+      blockCount: source.projectBlocks.length,
+      team: cloneTeam(source),
+    });
+  } catch (error) {
+    console.error('Error fetching clone source:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project to clone' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/clone - Start a draft shaped like the project, to finish in the creation wizard
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = cloneProjectSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const [source, calendar] = await Promise.all([
+      loadCloneSource(prisma, params.id),
+      loadWorkingCalendar(prisma),
+    ]);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (source.projectBlocks.length === 0) {
+      return NextResponse.json(
+        { error: `${source.code} has no planned blocks to clone` },
+        { status: 400 }
+      );
+    }
+
+    const clone = await buildProjectClone(prisma, calendar, source, validationResult.data);
+    if (!clone.ok) {
+      return NextResponse.json(
+        { error: 'Validation failed', validationErrors: clone.validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const draft = await prisma.projectDraft.create({
+      data: {
+        title: projectDraftTitle(clone.data),
+        data: JSON.stringify(clone.data),
+        currentStep: 1,
+        createdById: user.id,
+        createdByName: user.name,
+      },
+      include: { shares: true },
+    });
+
+    return NextResponse.json(
+      {
+        draft: projectDraftView(draft, user),
+        carriedResources: clone.carried,
+        droppedResources: clone.dropped,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error cloning project:', error);
+    return NextResponse.json(
+      { error: 'Failed to clone project' },
+      { status: 500 }
+    );
+  }
+}
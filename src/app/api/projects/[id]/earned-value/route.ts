@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { loadEarnedValue } from '@/lib/earned-value-snapshot';
+
+// GET /api/projects/[id]/earned-value - Earned value metrics and S-curve of a project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Every figure is a cost
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const [project] = await loadEarnedValue(prisma, { id: params.id }, new Date());
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Error fetching earned value:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch earned value' },
+      { status: 500 }
+    );
+  }
+}
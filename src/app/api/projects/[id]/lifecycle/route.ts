@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { projectStatusOf, projectTransitionOptions } from '@/lib/project-lifecycle';
+import { loadLifecycleFacts } from '@/lib/project-transitions';
+
+// GET /api/projects/[id]/lifecycle - Current status, possible transitions with their blockers, and status history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, budgetCapex: true, budgetOpex: true, winProbability: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const status = projectStatusOf(project.status);
+    const [facts, history] = await Promise.all([
+      loadLifecycleFacts(prisma, project),
+      prisma.projectStatusChange.findMany({
+        where: { projectId: project.id },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      status,
+      winProbability: project.winProbability,
+      transitions: projectTransitionOptions(status, facts),
+      history,
+    });
+  } catch (error) {
+    console.error('Error fetching project lifecycle:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project lifecycle' },
+      { status: 500 }
+    );
+  }
+}
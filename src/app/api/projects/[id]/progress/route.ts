@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { blockProgressSchema } from '@/lib/validations/projects';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { canTransitionBlock, projectStatusOf } from '@/lib/project-lifecycle';
+import { applyProjectTransition } from '@/lib/project-transitions';
+import { reforecastProject } from '@/lib/progress-reforecast';
+import { loadProgressBlocks, saveReforecast } from '@/lib/progress-snapshot';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+// Projects whose blocks can report progress
+const TRACKED_PROJECT_STATUSES = ['approved', 'in_progress'];
+
+// GET /api/projects/[id]/progress - Block progress with the forecast it gives today
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, forecastEndDate: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const [calendar, blocks] = await Promise.all([
+      loadWorkingCalendar(prisma),
+      loadProgressBlocks(prisma, project.id),
+    ]);
+    const forecast = blocks.length > 0 ? reforecastProject(blocks, calendar, new Date()) : null;
+
+    return NextResponse.json({
+      status: projectStatusOf(project.status),
+      canReportProgress: TRACKED_PROJECT_STATUSES.includes(projectStatusOf(project.status)),
+      forecastEndDate: project.forecastEndDate,
+      plannedEnd: forecast?.plannedEnd ?? null,
+      forecastEnd: forecast?.forecastEnd ?? null,
+      blocks: blocks.map((block, index) => ({
+        ...block,
+        forecastStart: forecast!.blocks[index].start,
+        forecastEnd: forecast!.blocks[index].end,
+        slipDays: forecast!.blocks[index].slipDays,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching project progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project progress' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/progress - Report progress on a block and reforecast the blocks after it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = blockProgressSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const projectBlock = await prisma.projectBlock.findFirst({
+      where: { id: data.projectBlockId, projectId: project.id },
+      include: { block: { select: { code: true } } },
+    });
+
+    if (!projectBlock) {
+      return NextResponse.json(
+        { error: 'Project block not found' },
+        { status: 404 }
+      );
+    }
+
+    const projectStatus = projectStatusOf(project.status);
+    if (!TRACKED_PROJECT_STATUSES.includes(projectStatus)) {
+      return NextResponse.json(
+        { error: 'Progress can only be reported on approved or in-progress projects' },
+        { status: 409 }
+      );
+    }
+
+    if (data.status !== projectBlock.status && !canTransitionBlock(projectBlock.status, data.status)) {
+      return NextResponse.json(
+        { error: `A block cannot move from ${projectBlock.status.replace('_', ' ')} to ${data.status.replace('_', ' ')}` },
+        { status: 409 }
+      );
+    }
+
+    const started = data.status !== 'not_started';
+    const completed = data.status === 'completed';
+    const progress = {
+      status: data.status,
+      percentComplete: completed ? 100 : started ? data.percentComplete : 0,
+      actualStart: started ? new Date(data.actualStart!) : null,
+      actualEnd: completed ? new Date(data.actualEnd!) : null,
+      actualHours: data.actualHours !== undefined ? data.actualHours : projectBlock.actualHours,
+      remainingHours: completed ? 0 : data.remainingHours !== undefined ? data.remainingHours : projectBlock.remainingHours,
+    };
+    const code = projectBlock.block.code;
+    const calendar = await loadWorkingCalendar(prisma);
+
+    const result = await prisma.$transaction(async (tx) => {
+      // The first block to start starts the project
+      const startsProject = projectStatus === 'approved' && started;
+      if (startsProject) {
+        await applyProjectTransition(tx, user, project, 'approved', 'in_progress', `${code} started`);
+        await tx.project.update({
+          where: { id: project.id },
+          data: { status: 'in_progress' },
+        });
+      }
+
+      const updatedBlock = await tx.projectBlock.update({
+        where: { id: projectBlock.id },
+        data: { ...progress, progressUpdatedAt: new Date() },
+      });
+
+      const reforecast = await saveReforecast(tx, project.id, calendar, new Date());
+      const movedBlocks = Object.keys(reforecast.after).length / 2;
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'project',
+        entityId: project.id,
+        entityLabel: project.code,
+        projectId: project.id,
+        summary: `Progress on ${code}: ${data.status.replace('_', ' ')}, ${progress.percentComplete}% complete` +
+          (movedBlocks > 0 ? `; reforecast moved ${movedBlocks} block${movedBlocks === 1 ? '' : 's'}` : ''),
+        before: {
+          ...(startsProject && { status: project.status }),
+          [`${code} status`]: projectBlock.status,
+          [`${code} complete`]: projectBlock.percentComplete,
+          [`${code} actual start`]: projectBlock.actualStart,
+          [`${code} actual end`]: projectBlock.actualEnd,
+          [`${code} actual hours`]: projectBlock.actualHours,
+          [`${code} remaining hours`]: projectBlock.remainingHours,
+          forecastEndDate: project.forecastEndDate,
+          ...reforecast.before,
+        },
+        after: {
+          ...(startsProject && { status: 'in_progress' }),
+          [`${code} status`]: progress.status,
+          [`${code} complete`]: progress.percentComplete,
+          [`${code} actual start`]: progress.actualStart,
+          [`${code} actual end`]: progress.actualEnd,
+          [`${code} actual hours`]: progress.actualHours,
+          [`${code} remaining hours`]: progress.remainingHours,
+          forecastEndDate: reforecast.forecast?.forecastEnd ?? null,
+          ...reforecast.after,
+        },
+      });
+
+      return {
+        block: updatedBlock,
+        movedBlocks,
+        movedAllocations: reforecast.movedAllocations,
+        forecastEndDate: reforecast.forecast?.forecastEnd ?? null,
+      };
+    }, { timeout: 30000 });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error reporting block progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to report block progress' },
+      { status: 500 }
+    );
+  }
+}
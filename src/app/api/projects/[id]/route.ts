@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  PROJECT_STATUSES,
+  PROJECT_STATUS_LABELS,
+  projectStatusOf,
+  projectTransitionBlockers,
+} from '@/lib/project-lifecycle';
+import { applyProjectTransition, loadLifecycleFacts } from '@/lib/project-transitions';
 
 // Validation schema for project updates
 const updateProjectSchema = z.object({
@@ -9,9 +19,13 @@ const updateProjectSchema = z.object({
   clientType: z.string().optional(),
   priority: z.number().int().min(1).max(10).optional(),
   targetStartDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid date format').optional(),
-  status: z.enum(['planning', 'active', 'on_hold', 'completed', 'cancelled']).optional(),
+  status: z.enum(PROJECT_STATUSES).optional(),
+  // Recorded in the status history with the transition
+  statusReason: z.string().max(500).optional(),
   budgetCapex: z.number().optional(),
   budgetOpex: z.number().optional(),
+  // Chance of winning a pipeline project, in percent
+  winProbability: z.number().int().min(0).max(100).nullable().optional(),
   notes: z.string().optional(),
 });
 
@@ -73,6 +87,9 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
     const { id } = params;
     const body = await request.json();
 
@@ -125,49 +142,90 @@ export async function PATCH(
       }
     }
 
-    // Prepare update data
-    const updateData: any = {};
-    Object.keys(validationResult.data).forEach(key => {
-      const value = (validationResult.data as any)[key];
-      if (value !== undefined) {
-        if (key === 'targetStartDate') {
-          updateData[key] = new Date(value);
-        } else {
-          updateData[key] = value;
-        }
+    // Status changes follow the lifecycle and must pass its guards
+    const { statusReason, ...changes } = validationResult.data;
+    const fromStatus = projectStatusOf(existingProject.status);
+    const toStatus = changes.status && changes.status !== fromStatus ? changes.status : null;
+
+    if (toStatus) {
+      const facts = await loadLifecycleFacts(prisma, {
+        id,
+        budgetCapex: changes.budgetCapex ?? existingProject.budgetCapex,
+        budgetOpex: changes.budgetOpex ?? existingProject.budgetOpex,
+        winProbability: changes.winProbability !== undefined ? changes.winProbability : existingProject.winProbability,
+      });
+      const blockers = projectTransitionBlockers(fromStatus, toStatus, facts);
+
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Cannot move the project to ${PROJECT_STATUS_LABELS[toStatus]}`,
+            blockers,
+          },
+          { status: 409 }
+        );
       }
-    });
+    }
 
-    // Update the project
-    const updatedProject = await prisma.project.update({
-      where: { id },
-      data: {
-        ...updateData,
-        updatedAt: new Date(),
-      },
-      include: {
-        projectType: {
-          select: { code: true, name: true },
-        },
-        tier: {
-          select: { code: true, name: true },
+    // Prepare update data; fields left undefined are not changed
+    const { targetStartDate, ...fields } = changes;
+    const updateData: Prisma.ProjectUpdateInput = {
+      ...fields,
+      ...(targetStartDate !== undefined && { targetStartDate: new Date(targetStartDate) }),
+    };
+
+    // Update the project and record the change together
+    const updatedProject = await prisma.$transaction(async (tx) => {
+      // Side effects run first so the returned project reflects them
+      if (toStatus) {
+        await applyProjectTransition(tx, user, existingProject, fromStatus, toStatus, statusReason);
+      }
+
+      const project = await tx.project.update({
+        where: { id },
+        data: {
+          ...updateData,
+          updatedAt: new Date(),
         },
-        projectBlocks: {
-          include: {
-            block: {
-              select: { code: true, name: true },
-            },
-            allocations: {
-              include: {
-                resource: {
-                  select: { id: true, name: true, employeeCode: true },
+        include: {
+          projectType: {
+            select: { code: true, name: true },
+          },
+          tier: {
+            select: { code: true, name: true },
+          },
+          projectBlocks: {
+            include: {
+              block: {
+                select: { code: true, name: true },
+              },
+              allocations: {
+                include: {
+                  resource: {
+                    select: { id: true, name: true, employeeCode: true },
+                  },
                 },
               },
             },
+            orderBy: { sequenceIndex: 'asc' },
           },
-          orderBy: { sequenceIndex: 'asc' },
         },
-      },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'project',
+        entityId: id,
+        entityLabel: project.code,
+        projectId: id,
+        summary: toStatus
+          ? `Moved from ${PROJECT_STATUS_LABELS[fromStatus]} to ${PROJECT_STATUS_LABELS[toStatus]}${statusReason ? `: ${statusReason}` : ''}`
+          : undefined,
+        before: existingProject,
+        after: project,
+      });
+
+      return project;
     });
 
     return NextResponse.json(updatedProject);
@@ -186,6 +244,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
     const { id } = params;
 
     // Check if project exists
@@ -220,6 +281,15 @@ export async function DELETE(
       await tx.project.delete({
         where: { id },
       });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'project',
+        entityId: id,
+        entityLabel: existingProject.code,
+        projectId: id,
+        before: existingProject,
+      });
     });
 
     return NextResponse.json({ message: 'Project deleted successfully' });
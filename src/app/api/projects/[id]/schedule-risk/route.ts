@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { analyzeScheduleRisk, DEFAULT_RISK_ITERATIONS, MAX_RISK_ITERATIONS } from '@/lib/schedule-risk';
+import { loadProjectRiskInput } from '@/lib/schedule-risk-snapshot';
+
+const scheduleRiskSchema = z.object({
+  iterations: z.number().int().min(100).max(MAX_RISK_ITERATIONS).default(DEFAULT_RISK_ITERATIONS),
+  seed: z.number().int().min(0).optional(),
+});
+
+// POST /api/projects/[id]/schedule-risk - Monte Carlo finish dates and critical blocks of a project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = scheduleRiskSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendar = await loadWorkingCalendar(prisma);
+    const input = await loadProjectRiskInput(prisma, project.id, calendar);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: 'The project has no blocks to simulate' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      analyzeScheduleRisk(input.blocks, input.projectStart, calendar, validationResult.data)
+    );
+  } catch (error) {
+    console.error('Error analyzing schedule risk:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze schedule risk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createPlannedProjectSchema } from '@/lib/validations/projects';
+import {
+  createPlannedProject,
+  hasWizardAllocations,
+  plannedProjectResult,
+  preparePlannedProject,
+} from '@/lib/project-creation';
+import { requirePermission } from '@/lib/auth';
+
+// POST /api/projects/planned - Create a project with its planned blocks, allocations and budget in one transaction
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = createPlannedProjectSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    // Allocating needs its own permission on top of creating the project
+    if (hasWizardAllocations(input)) {
+      const allocator = await requirePermission(request, 'allocations:edit');
+      if (allocator instanceof NextResponse) return allocator;
+    }
+
+    // Checked and created in one transaction, so the code cannot be taken in between
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Everything that is wrong with the request is reported at once
+      const prepared = await preparePlannedProject(tx, input);
+      if (!prepared.ok) {
+        return { report: prepared.report };
+      }
+
+      const created = await createPlannedProject(tx, user, prepared.fields, prepared.plan, prepared.allocations, prepared.blockSourcing);
+      return { prepared, created };
+    }, { timeout: 30000 });
+
+    if ('report' in outcome) {
+      return NextResponse.json(
+        { error: 'Validation failed', ...outcome.report },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(plannedProjectResult(outcome.created, outcome.prepared), { status: 201 });
+  } catch (error) {
+    // Another request created a project with the same code while this one ran
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      (error.meta?.target as string[] | undefined)?.includes('code')
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [{ field: 'code', message: 'A project with this code already exists' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating planned project:', error);
+    return NextResponse.json(
+      { error: 'Failed to create planned project' },
+      { status: 500 }
+    );
+  }
+}
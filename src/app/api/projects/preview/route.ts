@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { loadCapacitySnapshot, loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { loadBlocksForPlanning } from '@/lib/project-creation';
+import { analyzeScheduleRisk, riskDurations } from '@/lib/schedule-risk';
+import { projectTemplateSchema } from '@/lib/validations/projects';
 import { z } from 'zod';
 
 // Validation schema for project preview
@@ -9,6 +13,9 @@ const previewProjectSchema = z.object({
   tierId: z.string().min(1, 'Tier is required'),
   targetStartDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid date format'),
   mode: z.enum(['strict_start', 'priority_fit']),
+  // Required: under priority fit, the plan depends on which bookings outrank it
+  priority: z.number({ required_error: 'Priority is required' }).int().min(1).max(10),
+  template: projectTemplateSchema.optional(),
 });
 
 // POST /api/projects/preview - Preview auto-planned project structure without saving
@@ -36,6 +43,8 @@ export async function POST(request: NextRequest) {
       tierId,
       targetStartDate,
       mode,
+      priority,
+      template,
     } = validationResult.data;
 
     // Validate that the project type and tier exist and are compatible
@@ -74,28 +83,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get tier blocks for auto-planning
-    const tierBlocks = await prisma.tierBlock.findMany({
-      where: { tierId },
-      orderBy: { sequenceIndex: 'asc' },
-      include: {
-        block: {
-          include: {
-            deliverables: {
-              select: {
-                id: true,
-                code: true,
-                name: true,
-                description: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    // Blocks for auto-planning: a cloned project's as planned there, else the tier's
+    const blocksForPlanning = await loadBlocksForPlanning(
+      prisma,
+      tierId,
+      template?.tierId === tierId ? template : undefined
+    );
 
     // Check if tier has blocks
-    if (tierBlocks.length === 0) {
+    if (blocksForPlanning.length === 0) {
       return NextResponse.json(
         {
           error: 'No blocks configured for this tier',
@@ -105,27 +101,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Transform tier blocks for auto-planning
-    const blocksForPlanning = tierBlocks.map((tierBlock) => ({
-      id: tierBlock.id,
-      sequenceIndex: tierBlock.sequenceIndex,
-      block: tierBlock.block,
-      durationWeeks: tierBlock.overrideDurationWeeks || tierBlock.block.defaultDurationWeeks,
-      skillsMix: tierBlock.overrideSkillsMix 
-        ? JSON.parse(tierBlock.overrideSkillsMix)
-        : tierBlock.block.defaultSkillsMix 
-          ? JSON.parse(tierBlock.block.defaultSkillsMix)
-          : null,
-      dependencies: tierBlock.block.defaultDependencies
-        ? JSON.parse(tierBlock.block.defaultDependencies)
-        : [],
-    }));
+    // Priority fit needs the current booking load to pick a start week
+    const capacity = mode === 'priority_fit'
+      ? await loadCapacitySnapshot(prisma, { priority, from: new Date(targetStartDate) })
+      : undefined;
+    const calendar = await loadWorkingCalendar(prisma);
 
     // Generate project plan using auto-planning engine
     const projectPlan = AutoPlanningEngine.generateProjectPlan(
       blocksForPlanning,
       new Date(targetStartDate),
-      mode
+      mode,
+      { capacity, calendar }
     );
 
     // Validate the generated plan
@@ -134,6 +121,27 @@ export async function POST(request: NextRequest) {
     // Calculate planning summary
     const planningSummary = AutoPlanningEngine.calculateProjectSummary(projectPlan);
 
+    // Finish date spread from the duration ranges of the blocks
+    const blocks = await prisma.block.findMany({
+      where: { id: { in: blocksForPlanning.map(tierBlock => tierBlock.block.id) } },
+    });
+    const blockRanges = new Map(blocks.map(block => [block.code, block]));
+    const scheduleRisk = analyzeScheduleRisk(
+      projectPlan.projectBlocks.map(block => ({
+        code: block.blockCode,
+        name: block.blockName,
+        ...riskDurations(
+          block.plannedDurationWeeks * calendar.workingDaysPerWeek,
+          block.plannedDurationWeeks,
+          blockRanges.get(block.blockCode)!
+        ),
+        dependencies: block.dependencies,
+        notBeforeDays: 0,
+      })),
+      projectPlan.projectStart,
+      calendar
+    );
+
     // Return the preview without creating anything in the database
     return NextResponse.json({
       isValid: validation.isValid,
@@ -147,6 +155,7 @@ export async function POST(request: NextRequest) {
       },
       projectPlan: {
         blocks: projectPlan.projectBlocks.map(block => ({
+          blockId: block.blockId,
           blockCode: block.blockCode,
           blockName: block.blockName,
           sequenceIndex: block.sequenceIndex,
@@ -156,13 +165,28 @@ export async function POST(request: NextRequest) {
           dependencies: block.dependencies,
           deliverables: block.deliverables,
           skillsMix: block.requiredSkillsMix,
+          earliestStart: block.earliestStart.toISOString(),
+          earliestFinish: block.earliestFinish.toISOString(),
+          latestStart: block.latestStart.toISOString(),
+          latestFinish: block.latestFinish.toISOString(),
+          slackDays: block.slackDays,
+          isCritical: block.isCritical,
         })),
         projectStart: projectPlan.projectStart.toISOString(),
         projectEnd: projectPlan.projectEnd.toISOString(),
         totalDurationWeeks: projectPlan.totalDurationWeeks,
         totalBlocks: projectPlan.totalBlocks,
+        criticalPath: projectPlan.criticalPath,
+        priorityFit: projectPlan.priorityFit && {
+          requestedStart: projectPlan.priorityFit.requestedStart.toISOString(),
+          fittedStart: projectPlan.priorityFit.fittedStart.toISOString(),
+          shiftWeeks: projectPlan.priorityFit.shiftWeeks,
+          feasible: projectPlan.priorityFit.feasible,
+          reasons: projectPlan.priorityFit.reasons,
+        },
       },
       planningSummary,
+      scheduleRisk,
       validation: {
         isValid: validation.isValid,
         warnings: validation.warnings,
@@ -170,6 +194,7 @@ export async function POST(request: NextRequest) {
       },
       metadata: {
         mode,
+        priority,
         targetStartDate,
         generatedAt: new Date().toISOString(),
       },
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { loadCapacitySnapshot, loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { createPlannedProject, loadTierBlocksForPlanning } from '@/lib/project-creation';
 import { z } from 'zod';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
 
 // Validation schema for project creation
 const createProjectSchema = z.object({
@@ -19,8 +24,12 @@ const createProjectSchema = z.object({
 });
 
 // GET /api/projects - List all projects (basic implementation)
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    // Costs are left out for roles that may not see rates
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
+
     const projects = await prisma.project.findMany({
       orderBy: { createdAt: 'desc' },
       include: {
@@ -51,7 +60,29 @@ export async function GET() {
       },
     });
 
-    return NextResponse.json(projects);
+    // Labour cost and billing of the allocations at the rates in effect each week
+    const rates = canViewRates ? await loadRateBook(prisma) : null;
+    const costed = projects.map(project => {
+      if (!rates) {
+        return { ...project, plannedCost: null, plannedBilling: null };
+      }
+      let plannedCost = 0;
+      let plannedBilling = 0;
+      for (const projectBlock of project.projectBlocks) {
+        for (const allocation of projectBlock.allocations) {
+          const inEffect = rates.ratesAt(allocation.resourceId, allocation.weekStartDate);
+          plannedCost += allocation.allocatedHours * inEffect.hourlyCost;
+          plannedBilling += allocation.allocatedHours * (inEffect.hourlyBilling ?? 0);
+        }
+      }
+      return {
+        ...project,
+        plannedCost: Math.round(plannedCost * 100) / 100,
+        plannedBilling: Math.round(plannedBilling * 100) / 100,
+      };
+    });
+
+    return NextResponse.json(costed);
   } catch (error) {
     console.error('Error fetching projects:', error);
     return NextResponse.json(
@@ -64,6 +95,9 @@ export async function GET() {
 // POST /api/projects - Create a new project with auto-planning
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -146,46 +180,20 @@ export async function POST(request: NextRequest) {
     }
 
     // Get tier blocks for auto-planning
-    const tierBlocks = await prisma.tierBlock.findMany({
-      where: { tierId },
-      orderBy: { sequenceIndex: 'asc' },
-      include: {
-        block: {
-          include: {
-            deliverables: {
-              select: {
-                id: true,
-                code: true,
-                name: true,
-                description: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    const blocksForPlanning = await loadTierBlocksForPlanning(prisma, tierId);
 
-    // Transform tier blocks for auto-planning
-    const blocksForPlanning = tierBlocks.map((tierBlock) => ({
-      id: tierBlock.id,
-      sequenceIndex: tierBlock.sequenceIndex,
-      block: tierBlock.block,
-      durationWeeks: tierBlock.overrideDurationWeeks || tierBlock.block.defaultDurationWeeks,
-      skillsMix: tierBlock.overrideSkillsMix 
-        ? JSON.parse(tierBlock.overrideSkillsMix)
-        : tierBlock.block.defaultSkillsMix 
-          ? JSON.parse(tierBlock.block.defaultSkillsMix)
-          : null,
-      dependencies: tierBlock.block.defaultDependencies
-        ? JSON.parse(tierBlock.block.defaultDependencies)
-        : [],
-    }));
+    // Priority fit needs the current booking load to pick a start week
+    const capacity = mode === 'priority_fit'
+      ? await loadCapacitySnapshot(prisma, { priority, from: new Date(targetStartDate) })
+      : undefined;
+    const calendar = await loadWorkingCalendar(prisma);
 
     // Generate project plan using auto-planning engine
     const projectPlan = AutoPlanningEngine.generateProjectPlan(
       blocksForPlanning,
       new Date(targetStartDate),
-      mode
+      mode,
+      { capacity, calendar }
     );
 
     // Validate the generated plan
@@ -202,49 +210,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Create project and project blocks in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create the project
-      const project = await tx.project.create({
-        data: {
-          code,
-          name,
-          clientType,
-          projectTypeId,
-          tierId,
-          priority,
-          targetStartDate: new Date(targetStartDate),
-          mode,
-          budgetCapex,
-          budgetOpex,
-          notes,
-          status: 'planning',
-        },
-      });
-
-      // Create project blocks
-      const projectBlocks = await Promise.all(
-        projectPlan.projectBlocks.map(async (planBlock, index) => {
-          return tx.projectBlock.create({
-            data: {
-              projectId: project.id,
-              blockId: planBlock.blockId,
-              plannedStart: planBlock.plannedStart,
-              plannedEnd: planBlock.plannedEnd,
-              plannedDurationWeeks: planBlock.plannedDurationWeeks,
-              sequenceIndex: planBlock.sequenceIndex,
-              dependencies: JSON.stringify(planBlock.dependencies),
-              requiredSkillsMix: planBlock.requiredSkillsMix 
-                ? JSON.stringify(planBlock.requiredSkillsMix)
-                : null,
-              inhouseVsExternal: 'inhouse', // Default value
-              status: 'not_started',
-            },
-          });
-        })
-      );
-
-      return { project, projectBlocks };
-    });
+    const result = await prisma.$transaction(tx => createPlannedProject(tx, user, {
+      code,
+      name,
+      clientType,
+      projectTypeId,
+      tierId,
+      priority,
+      targetStartDate: new Date(targetStartDate),
+      mode,
+      budgetCapex,
+      budgetOpex,
+      notes,
+    }, projectPlan));
 
     // Return the created project with planning summary
     const planningSummary = AutoPlanningEngine.calculateProjectSummary(projectPlan);
@@ -255,6 +233,7 @@ export async function POST(request: NextRequest) {
         projectBlocks: result.projectBlocks,
         planningSummary,
         planningWarnings: validation.warnings,
+        priorityFit: projectPlan.priorityFit,
       },
       { status: 201 }
     );
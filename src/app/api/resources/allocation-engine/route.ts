@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { CONFIRMED_ALLOCATIONS, loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
+import { optimizeAllocation } from '@/lib/allocation-optimizer';
 
 // Validation schemas
 const skillRequirementSchema = z.object({
@@ -16,6 +22,9 @@ const allocationRequestSchema = z.object({
   startDate: z.string().datetime('Start date must be a valid ISO datetime'),
   endDate: z.string().datetime('End date must be a valid ISO datetime'),
   skillRequirements: z.array(skillRequirementSchema),
+  // greedy fills requirements one by one from the best-scored resource;
+  // optimized assigns all requirements and weeks at once as a min-cost flow
+  mode: z.enum(['greedy', 'optimized']).default('greedy'),
   preferences: z.object({
     preferredTeams: z.array(z.string()).optional(),
     excludeResources: z.array(z.string()).optional(),
@@ -36,6 +45,27 @@ const bulkAllocationSchema = z.object({
   projectBlockId: z.string(),
 });
 
+// One recommended weekly allocation
+interface PlannedAllocation {
+  resourceId: string;
+  resourceName: string;
+  employeeCode: string;
+  homeTeam: string;
+  skillId: string;
+  skillName: string;
+  // Index into the request's skill requirements
+  requirementIndex: number;
+  requiredLevel: number;
+  resourceSkillLevel: number;
+  // Levels below the required level; only the optimized mode uses such resources
+  skillShortfall?: number;
+  priority: string;
+  weekStartDate: Date;
+  allocatedHours: number;
+  utilizationAfterAllocation: number;
+  isOverallocation: boolean;
+}
+
 // POST /api/resources/allocation-engine - Find optimal resource allocation
 export async function POST(request: NextRequest) {
   try {
@@ -78,9 +108,10 @@ export async function POST(request: NextRequest) {
     // Calculate number of weeks
     const weeksDuration = Math.ceil((endDate.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
 
-    // Build resource filter
+    // Build resource filter; placeholders are never candidates
     const resourceWhere: any = {
       active: true,
+      placeholder: false,
     };
 
     if (preferences.preferredTeams && preferences.preferredTeams.length > 0) {
@@ -91,10 +122,18 @@ export async function POST(request: NextRequest) {
       resourceWhere.id = { notIn: preferences.excludeResources };
     }
 
-    // Get all active resources with their skills
+    // Get all active resources with their skills and calendar exceptions
     const allResources = await prisma.resource.findMany({
       where: resourceWhere,
       include: {
+        calendarExceptions: {
+          where: {
+            date: {
+              gte: startDate,
+              lt: new Date(endDate.getTime() + 7 * 24 * 60 * 60 * 1000),
+            },
+          },
+        },
         resourceSkills: {
           include: {
             skill: true
@@ -110,18 +149,23 @@ export async function POST(request: NextRequest) {
         weekStartDate: {
           gte: startDate,
           lt: endDate,
-        }
+        },
+        ...CONFIRMED_ALLOCATIONS,
       }
     });
 
+    const [calendar, rates] = await Promise.all([loadWorkingCalendar(prisma), loadRateBook(prisma)]);
+
     // Calculate weekly availability for each resource
     const resourceAvailability = allResources.map(resource => {
       const weeklyAllocations: { [key: string]: number } = {};
+      const weeklyCapacity: { [key: string]: number } = {};
       
-      // Calculate existing allocations per week
+      // Calculate existing allocations and calendar-adjusted capacity per week
       const current = new Date(startDate);
       while (current < endDate) {
         const weekKey = current.toISOString().split('T')[0];
+        weeklyCapacity[weekKey] = calendar.resourceWeeklyHours(resource, current);
         const weekAllocations = existingAllocations.filter(alloc => 
           alloc.resourceId === resource.id && 
           alloc.weekStartDate.toISOString().split('T')[0] === weekKey
@@ -137,6 +181,7 @@ export async function POST(request: NextRequest) {
       return {
         resource,
         weeklyAllocations,
+        weeklyCapacity,
         skills: resource.resourceSkills.map((rs: any) => ({
           skillId: rs.skillId,
           skillCode: rs.skill.code,
@@ -178,8 +223,9 @@ export async function POST(request: NextRequest) {
           while (current < endDate) {
             const weekKey = current.toISOString().split('T')[0];
             const allocatedHours = ra.weeklyAllocations[weekKey] || 0;
-            const availableHours = Math.max(0, ra.resource.capacityHoursPerWeek - allocatedHours);
-            const utilizationPercentage = (allocatedHours / ra.resource.capacityHoursPerWeek) * 100;
+            const capacityHours = ra.weeklyCapacity[weekKey];
+            const availableHours = Math.max(0, capacityHours - allocatedHours);
+            const utilizationPercentage = capacityHours > 0 ? (allocatedHours / capacityHours) * 100 : 100;
             
             totalAvailableHours += availableHours;
             
@@ -187,7 +233,7 @@ export async function POST(request: NextRequest) {
             if (utilizationPercentage > preferences.maxUtilizationPercentage && !preferences.allowOverallocation) {
               availabilityScore -= 20; // Penalty for over-utilization
             } else {
-              availabilityScore += Math.min(availableHours / ra.resource.capacityHoursPerWeek * 100, 100);
+              availabilityScore += capacityHours > 0 ? Math.min(availableHours / capacityHours * 100, 100) : 0;
             }
             
             current.setDate(current.getDate() + 7);
@@ -214,9 +260,12 @@ export async function POST(request: NextRequest) {
             compositeScore: Math.round(compositeScore * 100) / 100,
             weeklyAvailability: Object.keys(ra.weeklyAllocations).map(weekKey => ({
               weekStartDate: weekKey,
+              capacityHours: ra.weeklyCapacity[weekKey],
               allocatedHours: ra.weeklyAllocations[weekKey] || 0,
-              availableHours: Math.max(0, ra.resource.capacityHoursPerWeek - (ra.weeklyAllocations[weekKey] || 0)),
-              utilization: Math.round(((ra.weeklyAllocations[weekKey] || 0) / ra.resource.capacityHoursPerWeek) * 100 * 100) / 100,
+              availableHours: Math.max(0, ra.weeklyCapacity[weekKey] - (ra.weeklyAllocations[weekKey] || 0)),
+              utilization: ra.weeklyCapacity[weekKey] > 0
+                ? Math.round(((ra.weeklyAllocations[weekKey] || 0) / ra.weeklyCapacity[weekKey]) * 100 * 100) / 100
+                : 0,
             })),
           };
         })
@@ -233,10 +282,70 @@ export async function POST(request: NextRequest) {
     });
 
     // Generate allocation recommendations
-    const allocationPlan = [];
+    const allocationPlan: PlannedAllocation[] = [];
     const resourceUtilization: { [key: string]: { [key: string]: number } } = {};
 
-    for (const skillMatch of skillMatches) {
+    if (data.mode === 'optimized') {
+      const weekStartDates = Object.keys(resourceAvailability[0]?.weeklyCapacity || {});
+      // Below-level resources may be used at a penalty, so every holder of the skill is a candidate
+      const candidates = resourceAvailability
+        .filter(ra => ra.skills.some(skill => data.skillRequirements.some(req => req.skillId === skill.skillId)))
+        .map(ra => ({
+          resourceId: ra.resource.id,
+          skillLevels: Object.fromEntries(ra.skills.map(skill => [skill.skillId, skill.level])),
+          weeks: weekStartDates.map(weekKey => {
+            const capacityHours = ra.weeklyCapacity[weekKey];
+            const allocatedHours = ra.weeklyAllocations[weekKey] || 0;
+            const utilizationLimit = capacityHours * preferences.maxUtilizationPercentage / 100;
+            return {
+              weekStartDate: weekKey,
+              hourlyRate: rates.costPerHour(ra.resource.id, new Date(weekKey)),
+              availableHours: Math.max(0, utilizationLimit - allocatedHours),
+              // Same 20% ceiling as the greedy mode
+              overallocationHours: preferences.allowOverallocation
+                ? Math.max(0, capacityHours * 1.2 - Math.max(allocatedHours, utilizationLimit))
+                : 0,
+            };
+          }),
+        }));
+
+      const { assignments } = optimizeAllocation(data.skillRequirements, candidates, weekStartDates);
+
+      for (const assignment of assignments) {
+        const requirement = data.skillRequirements[assignment.requirementIndex];
+        const ra = resourceAvailability.find(ra => ra.resource.id === assignment.resourceId)!;
+        const resourceSkill = ra.skills.find(skill => skill.skillId === requirement.skillId)!;
+        const currentWeekUtilization = resourceUtilization[ra.resource.id]?.[assignment.weekStartDate] || 0;
+        const totalUtilization =
+          (ra.weeklyAllocations[assignment.weekStartDate] || 0) + currentWeekUtilization + assignment.hours;
+        const weekCapacity = ra.weeklyCapacity[assignment.weekStartDate];
+
+        allocationPlan.push({
+          resourceId: ra.resource.id,
+          resourceName: ra.resource.name,
+          employeeCode: ra.resource.employeeCode,
+          homeTeam: ra.resource.homeTeam,
+          skillId: requirement.skillId,
+          skillName: resourceSkill.skillName,
+          requirementIndex: assignment.requirementIndex,
+          requiredLevel: requirement.requiredLevel,
+          resourceSkillLevel: resourceSkill.level,
+          skillShortfall: assignment.skillShortfall,
+          priority: requirement.priority,
+          weekStartDate: new Date(assignment.weekStartDate),
+          allocatedHours: assignment.hours,
+          utilizationAfterAllocation: weekCapacity > 0
+            ? Math.round((totalUtilization / weekCapacity) * 100 * 100) / 100
+            : 0,
+          isOverallocation: totalUtilization > weekCapacity,
+        });
+
+        resourceUtilization[ra.resource.id] = resourceUtilization[ra.resource.id] || {};
+        resourceUtilization[ra.resource.id][assignment.weekStartDate] = currentWeekUtilization + assignment.hours;
+      }
+    }
+
+    for (const skillMatch of data.mode === 'greedy' ? skillMatches : []) {
       if (!skillMatch.bestMatch) {
         continue; // Skip if no matching resources found
       }
@@ -258,13 +367,15 @@ export async function POST(request: NextRequest) {
         
         // Get current utilization for this resource in this week
         const currentWeekUtilization = resourceUtilization[resource.resourceId][weekKey] || 0;
-        const baseUtilization = resource.weeklyAvailability.find(w => w.weekStartDate === weekKey)?.allocatedHours || 0;
+        const week = resource.weeklyAvailability.find(w => w.weekStartDate === weekKey);
+        const baseUtilization = week?.allocatedHours || 0;
         const totalCurrentUtilization = currentWeekUtilization + baseUtilization;
+        const weekCapacity = week?.capacityHours ?? resource.capacityHoursPerWeek;
         
         // Calculate how many hours we can allocate this week
         const maxAllowableHours = preferences.allowOverallocation 
-          ? resource.capacityHoursPerWeek * 1.2 // Allow 20% overallocation
-          : resource.capacityHoursPerWeek;
+          ? weekCapacity * 1.2 // Allow 20% overallocation
+          : weekCapacity;
         
         const availableThisWeek = Math.max(0, maxAllowableHours - totalCurrentUtilization);
         const hoursToAllocate = Math.min(hoursPerWeek, availableThisWeek);
@@ -277,13 +388,14 @@ export async function POST(request: NextRequest) {
             homeTeam: resource.homeTeam,
             skillId: requirement.skillId,
             skillName: skillMatch.requirement.skillId, // Will be resolved with skill name in response
+            requirementIndex: skillMatches.indexOf(skillMatch),
             requiredLevel: requirement.requiredLevel,
             resourceSkillLevel: resource.skillLevel,
             priority: requirement.priority,
             weekStartDate: new Date(current),
             allocatedHours: hoursToAllocate,
-            utilizationAfterAllocation: Math.round(((totalCurrentUtilization + hoursToAllocate) / resource.capacityHoursPerWeek) * 100 * 100) / 100,
-            isOverallocation: (totalCurrentUtilization + hoursToAllocate) > resource.capacityHoursPerWeek,
+            utilizationAfterAllocation: Math.round(((totalCurrentUtilization + hoursToAllocate) / weekCapacity) * 100 * 100) / 100,
+            isOverallocation: (totalCurrentUtilization + hoursToAllocate) > weekCapacity,
           });
           
           // Update resource utilization tracking
@@ -301,9 +413,38 @@ export async function POST(request: NextRequest) {
       ? Math.round((totalAllocatedHours / totalRequiredHours) * 100 * 100) / 100
       : 0;
 
+    // Unmet hours per requirement, in request order
+    const requirementOutcomes = data.skillRequirements.map((requirement, requirementIndex) => {
+      const allocations = allocationPlan.filter(allocation => allocation.requirementIndex === requirementIndex);
+      const allocatedHours = Math.round(allocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0) * 100) / 100;
+      return {
+        requirementIndex,
+        skillId: requirement.skillId,
+        requiredHours: requirement.requiredHours,
+        allocatedHours,
+        unmetHours: Math.max(0, Math.round((requirement.requiredHours - allocatedHours) * 100) / 100),
+        // Hours given to resources below the required level
+        shortfallHours: Math.round(
+          allocations
+            .filter(allocation => allocation.resourceSkillLevel < requirement.requiredLevel)
+            .reduce((sum, allocation) => sum + allocation.allocatedHours, 0) * 100
+        ) / 100,
+      };
+    });
+    const unmetRequirements = requirementOutcomes.filter(outcome => outcome.unmetHours > 0);
+
     const uniqueResources = [...new Set(allocationPlan.map(a => a.resourceId))];
     const overAllocations = allocationPlan.filter(a => a.isOverallocation);
 
+    // Labour cost at the rate in effect each week, for those allowed to see rates
+    const user = await getSessionUser(request);
+    const estimatedCost = hasPermission(user?.role, 'rates:view')
+      ? Math.round(allocationPlan.reduce(
+          (sum, allocation) => sum + allocation.allocatedHours * rates.costPerHour(allocation.resourceId, allocation.weekStartDate),
+          0
+        ) * 100) / 100
+      : null;
+
     const responseData = {
       request: {
         projectId: data.projectId,
@@ -312,6 +453,7 @@ export async function POST(request: NextRequest) {
         endDate,
         weeksDuration,
         skillRequirements: data.skillRequirements,
+        mode: data.mode,
         preferences,
       },
       analysis: {
@@ -322,10 +464,14 @@ export async function POST(request: NextRequest) {
         hasOverAllocations: overAllocations.length > 0,
         overAllocationCount: overAllocations.length,
         canFullyFulfill: fulfillmentPercentage >= 95,
+        estimatedCost,
       },
       skillMatches,
       allocationPlan,
+      requirementOutcomes,
       warnings: [
+        ...unmetRequirements.map(outcome => `Requirement ${outcome.requirementIndex + 1}: ${outcome.unmetHours}h of ${outcome.requiredHours}h unmet`),
+        ...(requirementOutcomes.some(outcome => outcome.shortfallHours > 0) ? ['Some hours are assigned to resources below the required skill level'] : []),
         ...(overAllocations.length > 0 ? [`${overAllocations.length} allocations would result in over-utilization`] : []),
         ...(fulfillmentPercentage < 100 ? [`Only ${fulfillmentPercentage}% of required hours can be allocated`] : []),
         ...(skillMatches.some(sm => !sm.canBeFulfilled) ? ['Some skill requirements cannot be fulfilled with available resources'] : []),
@@ -345,6 +491,9 @@ export async function POST(request: NextRequest) {
 // PUT /api/resources/allocation-engine - Apply allocation recommendations
 export async function PUT(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -366,6 +515,7 @@ export async function PUT(request: NextRequest) {
 
     // Apply allocations in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      const totalsBefore = await allocationTotals(tx, { projectBlockId: data.projectBlockId });
       const createdAllocations = [];
       
       for (const allocation of data.allocations) {
@@ -421,6 +571,17 @@ export async function PUT(request: NextRequest) {
           createdAllocations.push(created);
         }
       }
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'allocation',
+        entityId: data.projectId,
+        entityLabel: createdAllocations[0]?.projectBlock.project.code ?? null,
+        projectId: data.projectId,
+        summary: `Applied ${createdAllocations.length} engine allocations`,
+        before: totalsBefore,
+        after: await allocationTotals(tx, { projectBlockId: data.projectBlockId }),
+      });
       
       return createdAllocations;
     });
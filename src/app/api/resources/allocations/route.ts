@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { allocationLabel, recordAudit } from '@/lib/audit-log';
+import { CONFIRMED_ALLOCATIONS } from '@/lib/capacity-snapshot';
 
 // Validation schemas
 const createAllocationSchema = z.object({
@@ -26,6 +30,22 @@ export async function GET(request: NextRequest) {
     const includeProject = searchParams.get('includeProject') === 'true';
     const includeProjectBlock = searchParams.get('includeProjectBlock') === 'true';
 
+    // Rates are left out for roles that may not see them
+    const user = await getSessionUser(request);
+    const resourceFields = hasPermission(user?.role, 'rates:view')
+      ? true
+      : {
+          select: {
+            id: true,
+            name: true,
+            employeeCode: true,
+            homeTeam: true,
+            employmentType: true,
+            capacityHoursPerWeek: true,
+            active: true,
+          },
+        };
+
     // Build where clause for filtering
     const where: any = {};
     
@@ -60,7 +80,7 @@ export async function GET(request: NextRequest) {
     const allocations = await prisma.allocation.findMany({
       where,
       include: {
-        resource: includeResource,
+        resource: includeResource ? resourceFields : false,
         projectBlock: includeProjectBlock ? {
           include: {
             project: includeProject,
@@ -103,6 +123,9 @@ export async function GET(request: NextRequest) {
 // POST /api/resources/allocations - Create a new resource allocation
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -158,6 +181,7 @@ export async function POST(request: NextRequest) {
       where: {
         resourceId: data.resourceId,
         weekStartDate: weekStart,
+        ...CONFIRMED_ALLOCATIONS,
       }
     });
 
@@ -179,23 +203,36 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the allocation
-    const newAllocation = await prisma.allocation.create({
-      data: {
-        projectId: data.projectId,
-        projectBlockId: data.projectBlockId,
-        resourceId: data.resourceId,
-        weekStartDate: new Date(data.weekStartDate),
-        allocatedHours: data.allocatedHours,
-      },
-      include: {
-        resource: true,
-        projectBlock: {
-          include: {
-            project: true,
-            block: true,
-          }
+    const newAllocation = await prisma.$transaction(async (tx) => {
+      const created = await tx.allocation.create({
+        data: {
+          projectId: data.projectId,
+          projectBlockId: data.projectBlockId,
+          resourceId: data.resourceId,
+          weekStartDate: new Date(data.weekStartDate),
+          allocatedHours: data.allocatedHours,
         },
-      },
+        include: {
+          resource: true,
+          projectBlock: {
+            include: {
+              project: true,
+              block: true,
+            }
+          },
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'allocation',
+        entityId: created.id,
+        entityLabel: allocationLabel(created),
+        projectId: created.projectId,
+        after: created,
+      });
+
+      return created;
     });
 
     // Calculate derived metrics
@@ -224,6 +261,9 @@ export async function POST(request: NextRequest) {
 // PUT /api/resources/allocations - Update a resource allocation
 export async function PUT(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const { id, ...updateData } = body;
 
@@ -265,24 +305,38 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update the allocation
-    const updatedAllocation = await prisma.allocation.update({
-      where: { id },
-      data: {
-        ...(data.projectId && { projectId: data.projectId }),
-        ...(data.projectBlockId && { projectBlockId: data.projectBlockId }),
-        ...(data.resourceId && { resourceId: data.resourceId }),
-        ...(data.weekStartDate && { weekStartDate: new Date(data.weekStartDate) }),
-        ...(data.allocatedHours && { allocatedHours: data.allocatedHours }),
-      },
-      include: {
-        resource: true,
-        projectBlock: {
-          include: {
-            project: true,
-            block: true,
-          }
+    const updatedAllocation = await prisma.$transaction(async (tx) => {
+      const updated = await tx.allocation.update({
+        where: { id },
+        data: {
+          ...(data.projectId && { projectId: data.projectId }),
+          ...(data.projectBlockId && { projectBlockId: data.projectBlockId }),
+          ...(data.resourceId && { resourceId: data.resourceId }),
+          ...(data.weekStartDate && { weekStartDate: new Date(data.weekStartDate) }),
+          ...(data.allocatedHours && { allocatedHours: data.allocatedHours }),
         },
-      },
+        include: {
+          resource: true,
+          projectBlock: {
+            include: {
+              project: true,
+              block: true,
+            }
+          },
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'allocation',
+        entityId: id,
+        entityLabel: allocationLabel(updated),
+        projectId: updated.projectId,
+        before: existingAllocation,
+        after: updated,
+      });
+
+      return updated;
     });
 
     // Calculate derived metrics
@@ -313,6 +367,9 @@ export async function PUT(request: NextRequest) {
 // DELETE /api/resources/allocations - Delete a resource allocation
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -323,8 +380,34 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    await prisma.allocation.delete({
-      where: { id }
+    const existingAllocation = await prisma.allocation.findUnique({
+      where: { id },
+      include: {
+        resource: { select: { employeeCode: true } },
+        projectBlock: { select: { block: { select: { code: true } } } },
+      },
+    });
+
+    if (!existingAllocation) {
+      return NextResponse.json(
+        { error: 'Allocation not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.allocation.delete({
+        where: { id }
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'allocation',
+        entityId: id,
+        entityLabel: allocationLabel(existingAllocation),
+        projectId: existingAllocation.projectId,
+        before: existingAllocation,
+      });
     });
 
     return NextResponse.json({
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { CONFIRMED_ALLOCATIONS, loadWorkingCalendar } from '@/lib/capacity-snapshot';
 
 // Validation schemas
 const getAvailabilitySchema = z.object({
@@ -44,10 +45,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get resource details
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    // Get resource details with calendar exceptions around the requested weeks
     const resource = await prisma.resource.findUnique({
       where: { id: resourceId },
       include: {
+        calendarExceptions: {
+          where: {
+            date: {
+              gte: new Date(start.getTime() - 7 * 24 * 60 * 60 * 1000),
+              lte: new Date(end.getTime() + 7 * 24 * 60 * 60 * 1000),
+            },
+          },
+          orderBy: { date: 'asc' },
+        },
         resourceSkills: {
           include: {
             skill: true
@@ -64,16 +77,14 @@ export async function GET(request: NextRequest) {
     }
 
     // Get all allocations for the resource in the date range
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
     const allocations = await prisma.allocation.findMany({
       where: {
         resourceId: resourceId,
         weekStartDate: {
           gte: start,
           lte: end,
-        }
+        },
+        ...CONFIRMED_ALLOCATIONS,
       },
       include: {
         projectBlock: {
@@ -88,6 +99,8 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    const calendar = await loadWorkingCalendar(prisma);
+
     // Generate weekly availability data
     const weeklyAvailability = [];
     const current = new Date(start);
@@ -109,17 +122,30 @@ export async function GET(request: NextRequest) {
         sum + allocation.allocatedHours, 0
       );
       
-      const availableHours = resource.capacityHoursPerWeek - totalAllocatedHours;
-      const utilizationPercentage = Math.round((totalAllocatedHours / resource.capacityHoursPerWeek) * 100 * 100) / 100;
+      // Holidays, shutdowns and calendar exceptions reduce the hours that can be worked
+      const capacityHours = calendar.resourceWeeklyHours(resource, weekStart);
+      const availableHours = capacityHours - totalAllocatedHours;
+      const utilizationPercentage = capacityHours > 0
+        ? Math.round((totalAllocatedHours / capacityHours) * 100 * 100) / 100
+        : 0;
       
       weeklyAvailability.push({
         weekStartDate: weekStart,
         weekEndDate: weekEnd,
-        capacityHours: resource.capacityHoursPerWeek,
+        workingDays: calendar.workingDaysBetween(weekStart, new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000), resource.region),
+        capacityHours,
         allocatedHours: totalAllocatedHours,
         availableHours: Math.max(0, availableHours),
         utilizationPercentage,
-        isOverallocated: totalAllocatedHours > resource.capacityHoursPerWeek,
+        isOverallocated: totalAllocatedHours > capacityHours,
+        calendarExceptions: resource.calendarExceptions
+          .filter(exception => exception.date >= weekStart && exception.date <= weekEnd)
+          .map(exception => ({
+            id: exception.id,
+            date: exception.date,
+            capacityOverrideHours: exception.capacityOverrideHours,
+            reason: exception.reason,
+          })),
         allocations: weekAllocations.map(allocation => ({
           id: allocation.id,
           projectId: allocation.projectId,
@@ -134,10 +160,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Calculate summary metrics
-    const totalCapacityHours = weeklyAvailability.length * resource.capacityHoursPerWeek;
+    const totalCapacityHours = weeklyAvailability.reduce((sum, week) => sum + week.capacityHours, 0);
     const totalAllocatedHours = weeklyAvailability.reduce((sum, week) => sum + week.allocatedHours, 0);
     const totalAvailableHours = Math.max(0, totalCapacityHours - totalAllocatedHours);
-    const averageUtilization = weeklyAvailability.length > 0 
+    const averageUtilization = totalCapacityHours > 0 
       ? Math.round((totalAllocatedHours / totalCapacityHours) * 100 * 100) / 100
       : 0;
 
@@ -206,9 +232,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Build resource filter
+    // Placeholders have no availability of their own
     const resourceWhere: any = {
       id: { in: resourceIds },
       active: true,
+      placeholder: false,
     };
 
     // Add skill filters if provided
@@ -220,10 +248,16 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    // Get resources
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    // Get resources with their calendar exceptions in the date range
     const resources = await prisma.resource.findMany({
       where: resourceWhere,
       include: {
+        calendarExceptions: {
+          where: { date: { gte: start, lte: end } },
+        },
         resourceSkills: {
           include: {
             skill: true
@@ -246,16 +280,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Get all allocations for these resources in the date range
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
     const allocations = await prisma.allocation.findMany({
       where: {
         resourceId: { in: resourceIds },
         weekStartDate: {
           gte: start,
           lte: end,
-        }
+        },
+        ...CONFIRMED_ALLOCATIONS,
       },
       include: {
         projectBlock: {
@@ -267,20 +299,25 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    const calendar = await loadWorkingCalendar(prisma);
+
     // Calculate availability for each resource
     const resourceAvailability = resources.map(resource => {
       const resourceAllocations = allocations.filter(alloc => alloc.resourceId === resource.id);
       
       // Calculate weekly data
       let totalAllocatedHours = 0;
-      const current = new Date(start);
       const weekCount = Math.ceil((end.getTime() - start.getTime()) / (7 * 24 * 60 * 60 * 1000));
       
       resourceAllocations.forEach(allocation => {
         totalAllocatedHours += allocation.allocatedHours;
       });
 
-      const totalCapacityHours = weekCount * resource.capacityHoursPerWeek;
+      let totalCapacityHours = 0;
+      for (let week = 0; week < weekCount; week++) {
+        const weekStart = new Date(start.getTime() + week * 7 * 24 * 60 * 60 * 1000);
+        totalCapacityHours += calendar.resourceWeeklyHours(resource, weekStart);
+      }
       const totalAvailableHours = Math.max(0, totalCapacityHours - totalAllocatedHours);
       const utilizationPercentage = totalCapacityHours > 0 
         ? Math.round((totalAllocatedHours / totalCapacityHours) * 100 * 100) / 100
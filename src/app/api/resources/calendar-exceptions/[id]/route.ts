@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const updateExceptionSchema = z.object({
+  // null marks the resource as unavailable for the day
+  capacityOverrideHours: z.number().min(0, 'Hours cannot be negative').max(24, 'Hours cannot exceed 24').nullable().optional(),
+  reason: z.string().max(200, 'Reason must not exceed 200 characters').nullable().optional(),
+});
+
+// PUT /api/resources/calendar-exceptions/[id] - Update a calendar exception
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = updateExceptionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.resourceCalendarException.findUnique({
+      where: { id: params.id },
+      include: { resource: { select: { employeeCode: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Calendar exception not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = validationResult.data;
+    const exception = await prisma.$transaction(async (tx) => {
+      const updated = await tx.resourceCalendarException.update({
+        where: { id: params.id },
+        data: {
+          ...(data.capacityOverrideHours !== undefined && { capacityOverrideHours: data.capacityOverrideHours }),
+          ...(data.reason !== undefined && { reason: data.reason || null }),
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'calendar_exception',
+        entityId: existing.resourceId,
+        entityLabel: existing.resource.employeeCode,
+        before: existing,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(exception);
+  } catch (error) {
+    console.error('Error updating calendar exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to update calendar exception' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/resources/calendar-exceptions/[id] - Remove a calendar exception
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const existing = await prisma.resourceCalendarException.findUnique({
+      where: { id: params.id },
+      include: { resource: { select: { employeeCode: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Calendar exception not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.resourceCalendarException.delete({
+        where: { id: params.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'calendar_exception',
+        entityId: existing.resourceId,
+        entityLabel: existing.resource.employeeCode,
+        before: existing,
+      });
+    });
+
+    return NextResponse.json({ message: 'Calendar exception deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting calendar exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete calendar exception' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schema
+const createExceptionSchema = z.object({
+  resourceId: z.string().min(1, 'Resource is required'),
+  startDate: z.string().datetime('Start date must be a valid date'),
+  endDate: z.string().datetime('End date must be a valid date').optional(),
+  // null (or omitted) marks the resource as unavailable for the day
+  capacityOverrideHours: z.number().min(0, 'Hours cannot be negative').max(24, 'Hours cannot exceed 24').nullable().optional(),
+  reason: z.string().max(200, 'Reason must not exceed 200 characters').nullable().optional(),
+}).refine(
+  (data) => !data.endDate || new Date(data.endDate) >= new Date(data.startDate),
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+// GET /api/resources/calendar-exceptions - List calendar exceptions
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const resourceId = searchParams.get('resourceId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    const where: Prisma.ResourceCalendarExceptionWhereInput = {};
+    if (resourceId) {
+      where.resourceId = resourceId;
+    }
+    if (startDate || endDate) {
+      where.date = {
+        ...(startDate && { gte: new Date(startDate) }),
+        ...(endDate && { lte: new Date(endDate) }),
+      };
+    }
+
+    const exceptions = await prisma.resourceCalendarException.findMany({
+      where,
+      include: {
+        resource: {
+          select: {
+            id: true,
+            name: true,
+            employeeCode: true,
+          },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { resourceId: 'asc' }],
+    });
+
+    return NextResponse.json(exceptions);
+  } catch (error) {
+    console.error('Error fetching calendar exceptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar exceptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/resources/calendar-exceptions - Record leave, training or part-time days
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = createExceptionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    const resource = await prisma.resource.findUnique({
+      where: { id: data.resourceId },
+      select: { id: true, employeeCode: true, region: true },
+    });
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    // A single date is recorded as given; a range covers its working days only
+    const calendar = await loadWorkingCalendar(prisma);
+    const start = new Date(data.startDate.split('T')[0]);
+    const dates: Date[] = [];
+    if (!data.endDate) {
+      dates.push(start);
+    } else {
+      const end = new Date(data.endDate.split('T')[0]);
+      for (let day = start; day <= end; day = new Date(day.getTime() + DAY_MS)) {
+        if (calendar.isWorkingDay(day, resource.region)) {
+          dates.push(day);
+        }
+      }
+    }
+
+    if (dates.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            { field: 'endDate', message: 'The range contains no working days' },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const capacityOverrideHours = data.capacityOverrideHours ?? null;
+    const reason = data.reason || null;
+
+    // Existing exceptions on the same days are replaced
+    const exceptions = await prisma.$transaction(async (tx) => {
+      const saved = [];
+      for (const date of dates) {
+        saved.push(
+          await tx.resourceCalendarException.upsert({
+            where: {
+              resourceId_date: { resourceId: resource.id, date },
+            },
+            create: {
+              resourceId: resource.id,
+              date,
+              capacityOverrideHours,
+              reason,
+            },
+            update: {
+              capacityOverrideHours,
+              reason,
+            },
+          })
+        );
+      }
+
+      // Exceptions are audited against their resource, one entry per range
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'calendar_exception',
+        entityId: resource.id,
+        entityLabel: resource.employeeCode,
+        summary: `${dates.length} day(s) from ${dates[0].toISOString().split('T')[0]}`,
+        after: {
+          startDate: dates[0],
+          endDate: dates[dates.length - 1],
+          capacityOverrideHours,
+          reason,
+        },
+      });
+
+      return saved;
+    });
+
+    return NextResponse.json(exceptions, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar exceptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar exceptions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CONFIRMED_ALLOCATIONS, loadWorkingCalendar } from '@/lib/capacity-snapshot';
 
 interface ResourceCapacity {
   resourceId: string;
@@ -94,7 +95,10 @@ async function validateResourceCapacity(
     };
   }
 
-  // Get resource information
+  const startDate = new Date(timeframe.startDate);
+  const endDate = new Date(timeframe.endDate);
+
+  // Get resource information with calendar exceptions in the timeframe
   const resources = await prisma.resource.findMany({
     where: {
       id: { in: resourceIds },
@@ -106,6 +110,18 @@ async function validateResourceCapacity(
       employeeCode: true,
       homeTeam: true,
       capacityHoursPerWeek: true,
+      region: true,
+      availabilityCalendar: true,
+      placeholder: true,
+      calendarExceptions: {
+        where: { date: { gte: startDate, lt: endDate } },
+        select: {
+          date: true,
+          capacityOverrideHours: true,
+          reason: true,
+        },
+        orderBy: { date: 'asc' },
+      },
     },
   });
 
@@ -117,6 +133,7 @@ async function validateResourceCapacity(
         gte: new Date(timeframe.startDate),
         lte: new Date(timeframe.endDate),
       },
+      ...CONFIRMED_ALLOCATIONS,
     },
     select: {
       resourceId: true,
@@ -136,14 +153,10 @@ async function validateResourceCapacity(
   });
 
   // Calculate timeframe duration in weeks
-  const startDate = new Date(timeframe.startDate);
-  const endDate = new Date(timeframe.endDate);
   const durationWeeks = Math.ceil(
     (endDate.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000)
   );
-
-  const standardWeeklyHours = 40;
-  const maxCapacityPerResource = durationWeeks * standardWeeklyHours;
+  const calendar = await loadWorkingCalendar(prisma);
 
   // Build capacity analysis for each resource
   const resourceCapacities: ResourceCapacity[] = [];
@@ -158,6 +171,18 @@ async function validateResourceCapacity(
       continue;
     }
 
+    // A placeholder is demand still to staff; there is no one's capacity to exceed
+    if (resource.placeholder) {
+      continue;
+    }
+
+    // Capacity over the timeframe, net of holidays and calendar exceptions
+    let maxCapacityPerResource = 0;
+    for (let week = 0; week < durationWeeks; week++) {
+      const weekStart = new Date(startDate.getTime() + week * 7 * 24 * 60 * 60 * 1000);
+      maxCapacityPerResource += calendar.resourceWeeklyHours(resource, weekStart);
+    }
+
     // Calculate current allocation for this resource across all blocks
     const newAllocationHours = Object.values(allocations).reduce((total, blockAllocations) => {
       return total + (blockAllocations[resourceId] || 0);
@@ -169,7 +194,8 @@ async function validateResourceCapacity(
       .reduce((total: number, alloc: any) => total + alloc.allocatedHours, 0);
 
     const totalAllocatedHours = newAllocationHours + existingAllocationHours;
-    const utilizationPercentage = (totalAllocatedHours / maxCapacityPerResource) * 100;
+    // A resource on leave for the whole timeframe has no capacity at all
+    const utilizationPercentage = (totalAllocatedHours / Math.max(maxCapacityPerResource, 1)) * 100;
     const availableHours = Math.max(0, maxCapacityPerResource - existingAllocationHours);
 
     // Detect conflicts
@@ -200,6 +226,30 @@ async function validateResourceCapacity(
       recommendations.push('Consider adding buffer time or reducing allocation slightly');
     }
 
+    // Leave, training and part-time days in the timeframe
+    if (resource.calendarExceptions.length > 0) {
+      const hoursLost = resource.calendarExceptions.reduce((total, exception) => {
+        const standardHours = calendar.resourceDayHours(
+          {
+            capacityHoursPerWeek: resource.capacityHoursPerWeek,
+            region: resource.region,
+            availabilityCalendar: resource.availabilityCalendar,
+          },
+          exception.date
+        );
+        return total + Math.max(0, standardHours - (exception.capacityOverrideHours ?? 0));
+      }, 0);
+      const first = resource.calendarExceptions[0].date.toISOString().split('T')[0];
+      const last = resource.calendarExceptions[resource.calendarExceptions.length - 1].date.toISOString().split('T')[0];
+
+      conflicts.push({
+        type: 'vacation',
+        severity: hoursLost > maxCapacityPerResource * 0.25 ? 'medium' : 'low',
+        description: `${resource.calendarExceptions.length} day(s) of reduced availability (${Math.round(hoursLost)} hours)`,
+        period: first === last ? first : `${first} - ${last}`,
+      });
+    }
+
     // Project overlap detection
     const overlappingProjects = existingAllocations
       .filter((alloc: any) => alloc.resourceId === resourceId)
@@ -227,7 +277,7 @@ async function validateResourceCapacity(
     resourceCapacities.push({
       resourceId,
       availableHours,
-      totalCapacity: maxCapacityPerResource,
+      totalCapacity: Math.round(maxCapacityPerResource * 100) / 100,
       utilizationPercentage,
       conflicts,
       recommendations,
@@ -239,8 +289,13 @@ async function validateResourceCapacity(
     return total + Object.values(blockAllocations).reduce((blockTotal, hours) => blockTotal + hours, 0);
   }, 0);
 
-  const totalAvailableCapacity = resourceIds.length * maxCapacityPerResource;
-  const overallUtilization = (totalRequiredHours / totalAvailableCapacity) * 100;
+  const totalAvailableCapacity = resourceCapacities.reduce(
+    (total, capacity) => total + capacity.totalCapacity,
+    0
+  );
+  const overallUtilization = totalAvailableCapacity > 0
+    ? (totalRequiredHours / totalAvailableCapacity) * 100
+    : 0;
 
   // Generate project-level suggestions
   if (overallUtilization < 50) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CONFIRMED_ALLOCATIONS, TENTATIVE_ALLOCATIONS, loadWorkingCalendar } from '@/lib/capacity-snapshot';
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic';
@@ -39,10 +40,19 @@ export async function GET(request: NextRequest) {
       };
     }
 
-    // Get resources with their skills
+    // Get named resources with their skills and calendar exceptions in range
     const resources = await prisma.resource.findMany({
-      where: resourceWhere,
+      where: { ...resourceWhere, placeholder: false },
       include: {
+        calendarExceptions: {
+          // Weeks are aligned to Mondays, so include the partial weeks at both ends
+          where: {
+            date: {
+              gte: new Date(start.getTime() - 7 * 24 * 60 * 60 * 1000),
+              lte: new Date(end.getTime() + 7 * 24 * 60 * 60 * 1000),
+            },
+          },
+        },
         resourceSkills: {
           include: {
             skill: true
@@ -52,14 +62,15 @@ export async function GET(request: NextRequest) {
       orderBy: { name: 'asc' }
     });
 
-    // Get all allocations in the date range
+    // Get all confirmed allocations in the date range
     const allocations = await prisma.allocation.findMany({
       where: {
         resourceId: { in: resources.map(r => r.id) },
         weekStartDate: {
           gte: start,
           lte: end,
-        }
+        },
+        ...CONFIRMED_ALLOCATIONS,
       },
       include: {
         projectBlock: {
@@ -71,6 +82,51 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    // Placeholder hours are demand still to staff: they add to what the teams
+    // must deliver but to no one's capacity or utilisation
+    const placeholderAllocations = await prisma.allocation.findMany({
+      where: {
+        resource: { ...resourceWhere, placeholder: true },
+        weekStartDate: {
+          gte: start,
+          lte: end,
+        },
+        ...CONFIRMED_ALLOCATIONS,
+      },
+      select: {
+        weekStartDate: true,
+        allocatedHours: true,
+        resource: { select: { homeTeam: true } },
+      },
+    });
+
+    // Pipeline projects book tentatively, by named resources or placeholders.
+    // Their hours are shown apart, and weighted by the chance of winning.
+    const tentativeAllocations = (await prisma.allocation.findMany({
+      where: {
+        resource: resourceWhere,
+        weekStartDate: {
+          gte: start,
+          lte: end,
+        },
+        ...TENTATIVE_ALLOCATIONS,
+      },
+      select: {
+        weekStartDate: true,
+        allocatedHours: true,
+        resource: { select: { homeTeam: true } },
+        projectBlock: { select: { project: { select: { winProbability: true } } } },
+      },
+    })).map(allocation => ({
+      ...allocation,
+      weightedHours: allocation.allocatedHours * (allocation.projectBlock.project.winProbability ?? 0) / 100,
+    }));
+
+    // Weekly capacity follows the working calendar and each resource's exceptions,
+    // so holiday and leave weeks count fewer hours
+    const calendar = await loadWorkingCalendar(prisma);
+    const capacityTotals = new Map<string, number>();
+
     // Calculate weekly capacity data
     const weeklyCapacity = [];
     const current = new Date(start);
@@ -88,24 +144,44 @@ export async function GET(request: NextRequest) {
         allocation.weekStartDate.getTime() === weekStart.getTime()
       );
       
+      const resourceCapacity = new Map(resources.map(resource => [
+        resource.id,
+        calendar.resourceWeeklyHours(resource, weekStart),
+      ]));
+      resourceCapacity.forEach((hours, resourceId) => {
+        capacityTotals.set(resourceId, (capacityTotals.get(resourceId) || 0) + hours);
+      });
+
       const totalCapacity = resources.reduce((sum, resource) => 
-        sum + resource.capacityHoursPerWeek, 0
+        sum + resourceCapacity.get(resource.id)!, 0
       );
       
       const totalAllocated = weekAllocations.reduce((sum, allocation) => 
         sum + allocation.allocatedHours, 0
       );
       
+      const weekPlaceholderAllocations = placeholderAllocations.filter(allocation =>
+        allocation.weekStartDate.getTime() === weekStart.getTime()
+      );
+      const placeholderDemand = weekPlaceholderAllocations.reduce((sum, allocation) =>
+        sum + allocation.allocatedHours, 0
+      );
+
+      const weekTentativeAllocations = tentativeAllocations.filter(allocation =>
+        allocation.weekStartDate.getTime() === weekStart.getTime()
+      );
+      const tentative = weekTentativeAllocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0);
+      const weightedTentative = weekTentativeAllocations.reduce((sum, allocation) => sum + allocation.weightedHours, 0);
+
       const totalAvailable = Math.max(0, totalCapacity - totalAllocated);
       const utilizationPercentage = totalCapacity > 0 
         ? Math.round((totalAllocated / totalCapacity) * 100 * 100) / 100
         : 0;
 
-      // Calculate per-team breakdown
+      // Calculate per-team breakdown. A team with placeholder or tentative
+      // demand but no named resources still gets an entry, with no capacity.
       const teamBreakdown: { [key: string]: any } = {};
-      
-      resources.forEach(resource => {
-        const teamName = resource.homeTeam;
+      const teamEntry = (teamName: string) => {
         if (!teamBreakdown[teamName]) {
           teamBreakdown[teamName] = {
             teamName,
@@ -114,10 +190,19 @@ export async function GET(request: NextRequest) {
             available: 0,
             utilization: 0,
             resourceCount: 0,
+            placeholderDemand: 0,
+            tentative: 0,
+            weightedTentative: 0,
           };
         }
+        return teamBreakdown[teamName];
+      };
+      
+      resources.forEach(resource => {
+        const teamName = resource.homeTeam;
+        teamEntry(teamName);
         
-        teamBreakdown[teamName].capacity += resource.capacityHoursPerWeek;
+        teamBreakdown[teamName].capacity += resourceCapacity.get(resource.id)!;
         teamBreakdown[teamName].resourceCount += 1;
         
         const resourceAllocations = weekAllocations.filter(alloc => 
@@ -131,8 +216,20 @@ export async function GET(request: NextRequest) {
         teamBreakdown[teamName].allocated += resourceAllocated;
       });
 
-      // Calculate team utilization
+      weekPlaceholderAllocations.forEach(allocation => {
+        teamEntry(allocation.resource.homeTeam).placeholderDemand += allocation.allocatedHours;
+      });
+
+      weekTentativeAllocations.forEach(allocation => {
+        const team = teamEntry(allocation.resource.homeTeam);
+        team.tentative += allocation.allocatedHours;
+        team.weightedTentative += allocation.weightedHours;
+      });
+
+      // Calculate team utilization, on confirmed allocations only
       Object.values(teamBreakdown).forEach((team: any) => {
+        team.confirmed = team.allocated;
+        team.weightedTentative = Math.round(team.weightedTentative * 100) / 100;
         team.available = Math.max(0, team.capacity - team.allocated);
         team.utilization = team.capacity > 0 
           ? Math.round((team.allocated / team.capacity) * 100 * 100) / 100
@@ -142,11 +239,17 @@ export async function GET(request: NextRequest) {
       weeklyCapacity.push({
         weekStartDate: weekStart,
         weekEndDate: weekEnd,
+        workingDays: calendar.workingDaysBetween(weekStart, new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000)),
         capacity: {
           total: totalCapacity,
           allocated: totalAllocated,
           available: totalAvailable,
           utilization: utilizationPercentage,
+          placeholderDemand,
+          // Named and placeholder hours together
+          demand: totalAllocated + placeholderDemand,
+          tentative,
+          weightedTentative: Math.round(weightedTentative * 100) / 100,
         },
         teams: Object.values(teamBreakdown),
         resourceCount: resources.length,
@@ -168,8 +271,8 @@ export async function GET(request: NextRequest) {
       );
       
       const totalSkillCapacity = skillResources.reduce((sum, resource) => 
-        sum + resource.capacityHoursPerWeek, 0
-      ) * weeklyCapacity.length;
+        sum + (capacityTotals.get(resource.id) || 0), 0
+      );
       
       const totalSkillAllocated = skillAllocations.reduce((sum, allocation) => 
         sum + allocation.allocatedHours, 0
@@ -201,6 +304,11 @@ export async function GET(request: NextRequest) {
     const totalCapacityHours = weeklyCapacity.reduce((sum, week) => sum + week.capacity.total, 0);
     const totalAllocatedHours = weeklyCapacity.reduce((sum, week) => sum + week.capacity.allocated, 0);
     const totalAvailableHours = Math.max(0, totalCapacityHours - totalAllocatedHours);
+    const totalPlaceholderHours = weeklyCapacity.reduce((sum, week) => sum + week.capacity.placeholderDemand, 0);
+    const totalTentativeHours = weeklyCapacity.reduce((sum, week) => sum + week.capacity.tentative, 0);
+    const totalWeightedTentativeHours = Math.round(
+      weeklyCapacity.reduce((sum, week) => sum + week.capacity.weightedTentative, 0) * 100
+    ) / 100;
     const averageUtilization = totalWeeks > 0 
       ? Math.round((weeklyCapacity.reduce((sum, week) => sum + week.capacity.utilization, 0) / totalWeeks) * 100) / 100
       : 0;
@@ -224,18 +332,32 @@ export async function GET(request: NextRequest) {
         totalCapacityHours,
         totalAllocatedHours,
         totalAvailableHours,
+        totalPlaceholderHours,
+        totalDemandHours: totalAllocatedHours + totalPlaceholderHours,
         averageUtilization,
         isOverallocated: totalAllocatedHours > totalCapacityHours,
+        // Staffing the placeholders from this pool would overbook it
+        isOverdemanded: totalAllocatedHours + totalPlaceholderHours > totalCapacityHours,
+        totalTentativeHours,
+        totalWeightedTentativeHours,
+        // The pipeline, at its expected win rate, would overbook the pool
+        isOverdemandedWithPipeline:
+          totalAllocatedHours + totalPlaceholderHours + totalWeightedTentativeHours > totalCapacityHours,
       },
       skillCapacity,
       weeklyCapacity,
       teams: teams.map(teamName => {
         const teamResources = resources.filter(r => r.homeTeam === teamName);
-        const teamCapacity = teamResources.reduce((sum, r) => sum + r.capacityHoursPerWeek, 0) * totalWeeks;
+        const teamCapacity = teamResources.reduce((sum, r) => sum + (capacityTotals.get(r.id) || 0), 0);
         const teamAllocations = allocations.filter(alloc => 
           teamResources.some(r => r.id === alloc.resourceId)
         );
         const teamAllocated = teamAllocations.reduce((sum, alloc) => sum + alloc.allocatedHours, 0);
+        const teamPlaceholderDemand = placeholderAllocations
+          .filter(allocation => allocation.resource.homeTeam === teamName)
+          .reduce((sum, allocation) => sum + allocation.allocatedHours, 0);
+        const teamTentativeAllocations = tentativeAllocations
+          .filter(allocation => allocation.resource.homeTeam === teamName);
         
         return {
           name: teamName,
@@ -243,6 +365,13 @@ export async function GET(request: NextRequest) {
           totalCapacity: teamCapacity,
           totalAllocated: teamAllocated,
           totalAvailable: Math.max(0, teamCapacity - teamAllocated),
+          placeholderDemand: teamPlaceholderDemand,
+          // Confirmed hours against the pipeline's tentative and probability-weighted hours
+          confirmedHours: teamAllocated,
+          tentativeHours: teamTentativeAllocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0),
+          weightedTentativeHours: Math.round(
+            teamTentativeAllocations.reduce((sum, allocation) => sum + allocation.weightedHours, 0) * 100
+          ) / 100,
           utilization: teamCapacity > 0 
             ? Math.round((teamAllocated / teamCapacity) * 100 * 100) / 100
             : 0,
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import { levelPortfolio } from '@/lib/resource-leveling';
+import { loadLevelingInput } from '@/lib/leveling-snapshot';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const levelingOptionsSchema = z.object({
+  maxDelayWeeks: z.number().int().min(1).max(52).default(12),
+  allowProjectDelay: z.boolean().default(true),
+});
+
+const applyLevelingSchema = z.object({
+  // Options the proposal was computed with; it is computed again before applying
+  options: levelingOptionsSchema,
+  moves: z.array(z.object({
+    projectBlockId: z.string().min(1),
+    // Start the proposal was computed from, to detect plans changed since
+    fromStart: z.string().datetime(),
+    shiftWeeks: z.number().int().min(1).max(52),
+  }))
+    .min(1, 'There are no moves to apply')
+    .refine(
+      moves => new Set(moves.map(move => move.projectBlockId)).size === moves.length,
+      'Each block can only be moved once'
+    ),
+});
+
+// POST /api/resources/leveling - Propose delays that remove resource overallocation across projects
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = levelingOptionsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const today = new Date();
+    const input = await loadLevelingInput(prisma, today);
+    const proposal = levelPortfolio(input, { ...validationResult.data, today });
+
+    return NextResponse.json(proposal);
+  } catch (error) {
+    console.error('Error leveling resources:', error);
+    return NextResponse.json(
+      { error: 'Failed to level resources' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/resources/leveling - Apply a leveling proposal
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    // Validate the input
+    const validationResult = applyLevelingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { options, moves } = validationResult.data;
+
+    // Move blocks and their allocations together, or nothing at all
+    const result = await prisma.$transaction(async (tx) => {
+      const today = new Date();
+      const proposal = levelPortfolio(await loadLevelingInput(tx, today), { ...options, today });
+      const proposedMoves = new Map(proposal.moves.map(move => [move.projectBlockId, move]));
+
+      const projectBlocks = await tx.projectBlock.findMany({
+        where: { id: { in: moves.map(move => move.projectBlockId) } },
+        include: {
+          project: { select: { code: true } },
+          block: { select: { code: true } },
+          allocations: {
+            // Later weeks first, so no allocation lands on a week another one still occupies
+            orderBy: { weekStartDate: 'desc' },
+          },
+        },
+      });
+
+      const blocksById = new Map(projectBlocks.map(projectBlock => [projectBlock.id, projectBlock]));
+      const started = moves.flatMap(move => {
+        const projectBlock = blocksById.get(move.projectBlockId);
+        return projectBlock && projectBlock.status !== 'not_started'
+          ? [`${projectBlock.project.code} ${projectBlock.block.code}`]
+          : [];
+      });
+      if (started.length > 0) {
+        return { started };
+      }
+
+      // Only moves the current schedule still calls for are applied
+      const isStale = moves.some(move => {
+        const proposed = proposedMoves.get(move.projectBlockId);
+        return !proposed ||
+          proposed.shiftWeeks !== move.shiftWeeks ||
+          proposed.fromStart.getTime() !== new Date(move.fromStart).getTime() ||
+          blocksById.get(move.projectBlockId)?.plannedStart.getTime() !== proposed.fromStart.getTime();
+      });
+      if (isStale) {
+        return null;
+      }
+
+      const changesByProject = new Map<string, {
+        code: string;
+        before: Record<string, Date>;
+        after: Record<string, Date>;
+      }>();
+      let movedAllocations = 0;
+
+      for (const move of moves) {
+        const projectBlock = blocksById.get(move.projectBlockId)!;
+        const shiftMs = move.shiftWeeks * 7 * DAY_MS;
+        const plannedStart = new Date(projectBlock.plannedStart.getTime() + shiftMs);
+        const plannedEnd = new Date(projectBlock.plannedEnd.getTime() + shiftMs);
+
+        // A saved forecast moves with the plan, as the allocations following it do
+        await tx.projectBlock.update({
+          where: { id: projectBlock.id },
+          data: {
+            plannedStart,
+            plannedEnd,
+            forecastStart: projectBlock.forecastStart && new Date(projectBlock.forecastStart.getTime() + shiftMs),
+            forecastEnd: projectBlock.forecastEnd && new Date(projectBlock.forecastEnd.getTime() + shiftMs),
+          },
+        });
+
+        for (const allocation of projectBlock.allocations) {
+          await tx.allocation.update({
+            where: { id: allocation.id },
+            data: { weekStartDate: new Date(allocation.weekStartDate.getTime() + shiftMs) },
+          });
+          movedAllocations++;
+        }
+
+        const changes = changesByProject.get(projectBlock.projectId) ||
+          { code: projectBlock.project.code, before: {}, after: {} };
+        changes.before[`${projectBlock.block.code} start`] = projectBlock.plannedStart;
+        changes.before[`${projectBlock.block.code} end`] = projectBlock.plannedEnd;
+        changes.after[`${projectBlock.block.code} start`] = plannedStart;
+        changes.after[`${projectBlock.block.code} end`] = plannedEnd;
+        changesByProject.set(projectBlock.projectId, changes);
+      }
+
+      for (const [projectId, changes] of Array.from(changesByProject.entries())) {
+        await recordAudit(tx, user, {
+          action: 'update',
+          entityType: 'project',
+          entityId: projectId,
+          entityLabel: changes.code,
+          projectId,
+          summary: `Resource leveling delayed ${Object.keys(changes.before).length / 2} blocks`,
+          before: changes.before,
+          after: changes.after,
+        });
+      }
+
+      return {
+        movedBlocks: moves.length,
+        movedAllocations,
+        projectsChanged: changesByProject.size,
+      };
+    }, { timeout: 30000 });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'The schedule changed since this proposal was made; run leveling again' },
+        { status: 409 }
+      );
+    }
+
+    if (result.started) {
+      return NextResponse.json(
+        { error: `Blocks that have started cannot be moved: ${result.started.join(', ')}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error applying leveling:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply leveling' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { fillPlaceholder, loadPlaceholder, overbookedWeeks, placeholderDemand } from '@/lib/placeholder-fill';
+import { fillPlaceholderSchema } from '@/lib/validations/resources';
+
+// GET /api/resources/placeholders/fill - Skills, weeks and hours a placeholder needs filled
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const placeholderId = searchParams.get('placeholderId');
+    const projectId = searchParams.get('projectId') || undefined;
+
+    if (!placeholderId) {
+      return NextResponse.json(
+        { error: 'placeholderId is required' },
+        { status: 400 }
+      );
+    }
+
+    const placeholder = await loadPlaceholder(prisma, placeholderId, projectId);
+    if (!placeholder) {
+      return NextResponse.json(
+        { error: 'Placeholder not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(placeholderDemand(placeholder));
+  } catch (error) {
+    console.error('Error fetching placeholder demand:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch placeholder demand' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/resources/placeholders/fill - Swap a named resource in for a placeholder
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'allocations:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = fillPlaceholderSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { placeholderId, resourceId, projectId } = validationResult.data;
+
+    const [placeholder, resource] = await Promise.all([
+      loadPlaceholder(prisma, placeholderId, projectId),
+      prisma.resource.findUnique({ where: { id: resourceId } }),
+    ]);
+
+    if (!placeholder) {
+      return NextResponse.json(
+        { error: 'Placeholder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!resource || !resource.active || resource.placeholder) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [{ field: 'resourceId', message: 'A placeholder can only be filled by an active named resource' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (placeholder.allocations.length === 0) {
+      return NextResponse.json(
+        { error: `${placeholder.employeeCode} has no allocations to fill` },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(tx => fillPlaceholder(tx, user, placeholder, resource));
+
+    // Filling is allowed to overbook; the weeks are reported so they can be levelled
+    const weeks = Array.from(new Set(placeholder.allocations.map(allocation => allocation.weekStartDate.getTime())))
+      .map(time => new Date(time));
+    const overbooked = await overbookedWeeks(prisma, await loadWorkingCalendar(prisma), resource.id, weeks);
+
+    return NextResponse.json({
+      message: `Moved ${result.movedCount} weekly allocations from ${placeholder.employeeCode} to ${resource.employeeCode}`,
+      ...result,
+      overbookedWeeks: overbooked,
+    });
+  } catch (error) {
+    console.error('Error filling placeholder:', error);
+    return NextResponse.json(
+      { error: 'Failed to fill placeholder' },
+      { status: 500 }
+    );
+  }
+}
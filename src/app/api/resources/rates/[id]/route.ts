@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resourceRateSchema } from '@/lib/validations/resources';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const updateRateSchema = resourceRateSchema.partial();
+
+// PUT /api/resources/rates/[id] - Update a dated rate of a resource
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = updateRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.resourceRate.findUnique({
+      where: { id: params.id },
+      include: { resource: { select: { employeeCode: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Resource rate not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = validationResult.data;
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom.split('T')[0]) : undefined;
+
+    if (effectiveFrom && effectiveFrom.getTime() !== existing.effectiveFrom.getTime()) {
+      const clash = await prisma.resourceRate.findUnique({
+        where: { resourceId_effectiveFrom: { resourceId: existing.resourceId, effectiveFrom } },
+      });
+      if (clash) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            validationErrors: [
+              { field: 'effectiveFrom', message: 'The resource already has rates from this date' },
+            ],
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const rate = await prisma.$transaction(async (tx) => {
+      const updated = await tx.resourceRate.update({
+        where: { id: params.id },
+        data: {
+          ...(effectiveFrom && { effectiveFrom }),
+          ...(data.costRate !== undefined && { costRate: data.costRate }),
+          ...(data.billingRate !== undefined && { billingRate: data.billingRate }),
+          ...(data.notes !== undefined && { notes: data.notes || null }),
+        },
+      });
+
+      const { resource, ...before } = existing;
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'resource_rate',
+        entityId: existing.resourceId,
+        entityLabel: resource.employeeCode,
+        before,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(rate);
+  } catch (error) {
+    console.error('Error updating resource rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to update resource rate' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/resources/rates/[id] - Remove a dated rate of a resource
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const existing = await prisma.resourceRate.findUnique({
+      where: { id: params.id },
+      include: { resource: { select: { employeeCode: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Resource rate not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.resourceRate.delete({
+        where: { id: params.id },
+      });
+
+      const { resource, ...before } = existing;
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'resource_rate',
+        entityId: existing.resourceId,
+        entityLabel: resource.employeeCode,
+        before,
+      });
+    });
+
+    return NextResponse.json({ message: 'Resource rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting resource rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete resource rate' },
+      { status: 500 }
+    );
+  }
+}
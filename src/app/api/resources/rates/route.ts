@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { resourceRateSchema } from '@/lib/validations/resources';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+
+const createRateSchema = resourceRateSchema.extend({
+  resourceId: z.string().min(1, 'Resource is required'),
+});
+
+// GET /api/resources/rates - Rate history of a resource, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'rates:view');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const resourceId = searchParams.get('resourceId');
+
+    const rates = await prisma.resourceRate.findMany({
+      where: resourceId ? { resourceId } : {},
+      include: {
+        resource: {
+          select: {
+            id: true,
+            name: true,
+            employeeCode: true,
+          },
+        },
+      },
+      orderBy: [{ resourceId: 'asc' }, { effectiveFrom: 'desc' }],
+    });
+
+    return NextResponse.json(rates);
+  } catch (error) {
+    console.error('Error fetching resource rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch resource rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/resources/rates - Set the rates of a resource from a date on
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = createRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    const resource = await prisma.resource.findUnique({
+      where: { id: data.resourceId },
+      select: { id: true, employeeCode: true },
+    });
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    // Rates take effect from the start of the day
+    const effectiveFrom = new Date(data.effectiveFrom.split('T')[0]);
+    const existing = await prisma.resourceRate.findUnique({
+      where: { resourceId_effectiveFrom: { resourceId: resource.id, effectiveFrom } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            { field: 'effectiveFrom', message: 'The resource already has rates from this date' },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const rate = await prisma.$transaction(async (tx) => {
+      const created = await tx.resourceRate.create({
+        data: {
+          resourceId: resource.id,
+          effectiveFrom,
+          costRate: data.costRate,
+          billingRate: data.billingRate ?? null,
+          notes: data.notes || null,
+        },
+      });
+
+      // Rates are audited against their resource
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'resource_rate',
+        entityId: resource.id,
+        entityLabel: resource.employeeCode,
+        summary: `From ${effectiveFrom.toISOString().split('T')[0]}`,
+        after: created,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(rate, { status: 201 });
+  } catch (error) {
+    console.error('Error creating resource rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create resource rate' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CONFIRMED_ALLOCATIONS } from '@/lib/capacity-snapshot';
 
 // Define types for resources with relationships
 interface ResourceSkill {
@@ -148,6 +149,7 @@ async function generateIntelligentRecommendations(
   const resources = await prisma.resource.findMany({
     where: {
       active: true,
+      placeholder: false,
       ...(preferences.excludeResources && preferences.excludeResources.length > 0 && {
         id: {
           notIn: preferences.excludeResources,
@@ -175,6 +177,7 @@ async function generateIntelligentRecommendations(
         gte: new Date(timeframe.startDate),
         lte: new Date(timeframe.endDate),
       },
+      ...CONFIRMED_ALLOCATIONS,
     },
     include: {
       resource: true,
@@ -245,7 +248,7 @@ async function calculateResourceAvailability(
       alloc => alloc.resourceId === resource.id
     );
     const totalAllocatedHours = resourceAllocations.reduce(
-      (sum, alloc) => sum + alloc.hoursAllocated,
+      (sum, alloc) => sum + alloc.allocatedHours,
       0
     );
 
@@ -275,7 +278,7 @@ async function calculateResourceAvailability(
       currentProjects: resourceAllocations.map(alloc => ({
         projectName: alloc.projectBlock.project.name,
         blockName: alloc.projectBlock.name,
-        hoursAllocated: alloc.hoursAllocated,
+        hoursAllocated: alloc.allocatedHours,
         weekStartDate: alloc.weekStartDate,
       })),
     });
@@ -685,8 +688,8 @@ function calculateTeamSkillCoverage(requiredSkills: any[], teamMembers: any[]):
   const coveredSkills = new Set();
   
   for (const member of teamMembers) {
-    for (const match of member.analysis.skillMatch.matches) {
-      coveredSkills.add(match.skillName);
+    for (const skillName of member.analysis.skillMatch.matchingSkills) {
+      coveredSkills.add(skillName);
     }
   }
   
@@ -1,16 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { availabilityCalendarSchema } from '@/lib/validations/resources';
+import {
+  activeAvailabilityPattern,
+  parseAvailabilityCalendar,
+  patternWeeklyHours,
+} from '@/lib/working-calendar';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
+import type { RatesInEffect } from '@/lib/rate-cards';
 
 // Validation schemas
 const createResourceSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   employeeCode: z.string().min(1, 'Employee code is required'),
   homeTeam: z.string().min(1, 'Home team is required'),
+  role: z.string().max(100, 'Role must not exceed 100 characters').nullable().optional(),
+  region: z.string().max(50, 'Region must not exceed 50 characters').nullable().optional(),
   employmentType: z.enum(['FTE', 'Contractor', 'Intern', 'Consultant']),
   monthlyRate: z.number().positive('Monthly rate must be positive'),
   capacityHoursPerWeek: z.number().positive('Capacity hours per week must be positive'),
-  availabilityCalendar: z.string().optional(),
+  availabilityCalendar: availabilityCalendarSchema.nullable().optional(),
+  placeholder: z.boolean().optional(),
   skills: z.array(z.object({
     skillId: z.string(),
     level: z.number().min(1).max(10),
@@ -19,6 +33,37 @@ const createResourceSchema = z.object({
 
 const updateResourceSchema = createResourceSchema.partial();
 
+// Hours per week under the availability pattern in force today, else the contracted hours
+function currentWeeklyCapacity(resource: { capacityHoursPerWeek: number; availabilityCalendar: string | null }) {
+  const availability = parseAvailabilityCalendar(resource.availabilityCalendar);
+  const pattern = availability && activeAvailabilityPattern(availability, new Date());
+  return pattern ? patternWeeklyHours(pattern) : resource.capacityHoursPerWeek;
+}
+
+// Hourly cost and billing rates in force today, and where they come from
+function rateMetrics(rates: RatesInEffect) {
+  return {
+    hourlyRate: Math.round(rates.hourlyCost * 100) / 100,
+    hourlyBillingRate: rates.hourlyBilling !== null ? Math.round(rates.hourlyBilling * 100) / 100 : null,
+    rateSource: rates.source,
+  };
+}
+
+// Audited fields of a resource, with its skills flattened to "CODE L5, ..."
+function resourceAuditSnapshot(resource: {
+  resourceSkills: Array<{ level: number; skill: { code: string } }>;
+  [field: string]: unknown;
+}) {
+  const { resourceSkills, ...fields } = resource;
+  return {
+    ...fields,
+    skills: resourceSkills
+      .map(resourceSkill => `${resourceSkill.skill.code} L${resourceSkill.level}`)
+      .sort()
+      .join(', '),
+  };
+}
+
 // GET /api/resources - Retrieve all resources with optional filters
 export async function GET(request: NextRequest) {
   try {
@@ -27,6 +72,12 @@ export async function GET(request: NextRequest) {
     const team = searchParams.get('team');
     const employmentType = searchParams.get('employmentType');
     const activeOnly = searchParams.get('activeOnly') !== 'false'; // Default to true
+    // "exclude" lists named people only, "only" the placeholders
+    const placeholders = searchParams.get('placeholders');
+
+    // Rates are left out for roles that may not see them
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
 
     // Build where clause
     const where: any = {};
@@ -39,36 +90,44 @@ export async function GET(request: NextRequest) {
     if (employmentType) {
       where.employmentType = employmentType;
     }
+    if (placeholders === 'exclude' || placeholders === 'only') {
+      where.placeholder = placeholders === 'only';
+    }
 
-    const resources = await prisma.resource.findMany({
-      where,
-      include: includeSkills ? { 
-        resourceSkills: {
-          include: {
-            skill: true
-          }
-        } 
-      } : { resourceSkills: false },
-      orderBy: { name: 'asc' },
-    });
+    const [resources, rates] = await Promise.all([
+      prisma.resource.findMany({
+        where,
+        include: includeSkills ? { 
+          resourceSkills: {
+            include: {
+              skill: true
+            }
+          } 
+        } : { resourceSkills: false },
+        orderBy: { name: 'asc' },
+      }),
+      loadRateBook(prisma),
+    ]);
+    const today = new Date();
 
     // Calculate derived fields and format response
     const resourcesWithMetrics = resources.map(resource => {
-      const hourlyRate = resource.monthlyRate / (resource.capacityHoursPerWeek * 52 / 12);
-      
       return {
         id: resource.id,
         name: resource.name,
         employeeCode: resource.employeeCode,
         homeTeam: resource.homeTeam,
+        role: resource.role,
+        region: resource.region,
         employmentType: resource.employmentType,
-        monthlyRate: resource.monthlyRate,
+        monthlyRate: canViewRates ? resource.monthlyRate : undefined,
         capacityHoursPerWeek: resource.capacityHoursPerWeek,
-        availabilityCalendar: resource.availabilityCalendar,
+        availabilityCalendar: parseAvailabilityCalendar(resource.availabilityCalendar),
         active: resource.active,
+        placeholder: resource.placeholder,
         derivedMetrics: {
-          hourlyRate: Math.round(hourlyRate * 100) / 100,
-          weeklyCapacity: resource.capacityHoursPerWeek,
+          ...(canViewRates && rateMetrics(rates.ratesAt(resource.id, today))),
+          weeklyCapacity: currentWeeklyCapacity(resource),
           annualCapacity: resource.capacityHoursPerWeek * 52,
         },
         skills: includeSkills && 'resourceSkills' in resource && resource.resourceSkills ? 
@@ -95,6 +154,9 @@ export async function GET(request: NextRequest) {
 // POST /api/resources - Create a new resource
 export async function POST(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     
     // Validate the input
@@ -122,11 +184,14 @@ export async function POST(request: NextRequest) {
           name: data.name,
           employeeCode: data.employeeCode,
           homeTeam: data.homeTeam,
+          role: data.role || null,
+          region: data.region || null,
           employmentType: data.employmentType,
           monthlyRate: data.monthlyRate,
           capacityHoursPerWeek: data.capacityHoursPerWeek,
-          availabilityCalendar: data.availabilityCalendar,
+          availabilityCalendar: data.availabilityCalendar ? JSON.stringify(data.availabilityCalendar) : null,
           active: true,
+          placeholder: data.placeholder ?? false,
         },
       });
 
@@ -142,7 +207,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Return the resource with skills included
-      return await tx.resource.findUnique({
+      const created = await tx.resource.findUnique({
         where: { id: newResource.id },
         include: {
           resourceSkills: {
@@ -152,6 +217,18 @@ export async function POST(request: NextRequest) {
           }
         },
       });
+
+      if (created) {
+        await recordAudit(tx, user, {
+          action: 'create',
+          entityType: 'resource',
+          entityId: created.id,
+          entityLabel: created.employeeCode,
+          after: resourceAuditSnapshot(created),
+        });
+      }
+
+      return created;
     });
 
     if (!result) {
@@ -159,21 +236,24 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate derived metrics
-    const hourlyRate = result.monthlyRate / (result.capacityHoursPerWeek * 52 / 12);
+    const rates = (await loadRateBook(prisma)).ratesAt(result.id, new Date());
 
     const responseData = {
       id: result.id,
       name: result.name,
       employeeCode: result.employeeCode,
       homeTeam: result.homeTeam,
+      role: result.role,
+      region: result.region,
       employmentType: result.employmentType,
       monthlyRate: result.monthlyRate,
       capacityHoursPerWeek: result.capacityHoursPerWeek,
-      availabilityCalendar: result.availabilityCalendar,
+      availabilityCalendar: parseAvailabilityCalendar(result.availabilityCalendar),
       active: result.active,
+      placeholder: result.placeholder,
       derivedMetrics: {
-        hourlyRate: Math.round(hourlyRate * 100) / 100,
-        weeklyCapacity: result.capacityHoursPerWeek,
+        ...rateMetrics(rates),
+        weeklyCapacity: currentWeeklyCapacity(result),
         annualCapacity: result.capacityHoursPerWeek * 52,
       },
       skills: result.resourceSkills.map((rs: any) => ({
@@ -198,6 +278,9 @@ export async function POST(request: NextRequest) {
 // PUT /api/resources/[id] - Update a resource
 export async function PUT(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const { id, ...updateData } = body;
 
@@ -227,17 +310,31 @@ export async function PUT(request: NextRequest) {
 
     // Update resource in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      const existingResource = await tx.resource.findUnique({
+        where: { id },
+        include: { resourceSkills: { include: { skill: true } } },
+      });
+
+      if (!existingResource) {
+        return null;
+      }
+
       // Update the resource
-      const updatedResource = await tx.resource.update({
+      await tx.resource.update({
         where: { id },
         data: {
           ...(data.name && { name: data.name }),
           ...(data.employeeCode && { employeeCode: data.employeeCode }),
           ...(data.homeTeam && { homeTeam: data.homeTeam }),
+          ...(data.role !== undefined && { role: data.role || null }),
+          ...(data.region !== undefined && { region: data.region || null }),
           ...(data.employmentType && { employmentType: data.employmentType }),
           ...(data.monthlyRate && { monthlyRate: data.monthlyRate }),
           ...(data.capacityHoursPerWeek && { capacityHoursPerWeek: data.capacityHoursPerWeek }),
-          ...(data.availabilityCalendar !== undefined && { availabilityCalendar: data.availabilityCalendar }),
+          ...(data.availabilityCalendar !== undefined && {
+            availabilityCalendar: data.availabilityCalendar ? JSON.stringify(data.availabilityCalendar) : null,
+          }),
+          ...(data.placeholder !== undefined && { placeholder: data.placeholder }),
         },
       });
 
@@ -261,7 +358,7 @@ export async function PUT(request: NextRequest) {
       }
 
       // Return the updated resource with skills
-      return await tx.resource.findUnique({
+      const updated = await tx.resource.findUnique({
         where: { id },
         include: {
           resourceSkills: {
@@ -271,6 +368,19 @@ export async function PUT(request: NextRequest) {
           }
         },
       });
+
+      if (updated) {
+        await recordAudit(tx, user, {
+          action: 'update',
+          entityType: 'resource',
+          entityId: id,
+          entityLabel: updated.employeeCode,
+          before: resourceAuditSnapshot(existingResource),
+          after: resourceAuditSnapshot(updated),
+        });
+      }
+
+      return updated;
     });
 
     if (!result) {
@@ -281,21 +391,24 @@ export async function PUT(request: NextRequest) {
     }
 
     // Calculate derived metrics
-    const hourlyRate = result.monthlyRate / (result.capacityHoursPerWeek * 52 / 12);
+    const rates = (await loadRateBook(prisma)).ratesAt(result.id, new Date());
 
     const responseData = {
       id: result.id,
       name: result.name,
       employeeCode: result.employeeCode,
       homeTeam: result.homeTeam,
+      role: result.role,
+      region: result.region,
       employmentType: result.employmentType,
       monthlyRate: result.monthlyRate,
       capacityHoursPerWeek: result.capacityHoursPerWeek,
-      availabilityCalendar: result.availabilityCalendar,
+      availabilityCalendar: parseAvailabilityCalendar(result.availabilityCalendar),
       active: result.active,
+      placeholder: result.placeholder,
       derivedMetrics: {
-        hourlyRate: Math.round(hourlyRate * 100) / 100,
-        weeklyCapacity: result.capacityHoursPerWeek,
+        ...rateMetrics(rates),
+        weeklyCapacity: currentWeeklyCapacity(result),
         annualCapacity: result.capacityHoursPerWeek * 52,
       },
       skills: result.resourceSkills.map((rs: any) => ({
@@ -320,6 +433,9 @@ export async function PUT(request: NextRequest) {
 // DELETE /api/resources/[id] - Soft delete a resource
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await requirePermission(request, 'resources:edit');
+    if (user instanceof NextResponse) return user;
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -331,9 +447,23 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Soft delete the resource (set active to false)
-    const result = await prisma.resource.update({
-      where: { id },
-      data: { active: false },
+    const result = await prisma.$transaction(async (tx) => {
+      const deactivated = await tx.resource.update({
+        where: { id },
+        data: { active: false },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'resource',
+        entityId: id,
+        entityLabel: deactivated.employeeCode,
+        summary: 'Deactivated',
+        before: { active: true },
+        after: { active: false },
+      });
+
+      return deactivated;
     });
 
     return NextResponse.json({
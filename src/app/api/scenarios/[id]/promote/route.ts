@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
+import { isNewResource, parseScenarioWorkspace } from '@/lib/scenarios';
+import { loadLiveWorkspace, promoteScenario, scenarioTransitionBlockers } from '@/lib/scenario-workspace';
+
+const promoteScenarioSchema = z.object({
+  // Promote even though the live plan changed since the scenario was created
+  force: z.boolean().default(false),
+});
+
+// Why a scenario that is not a draft, or no longer exists, cannot be promoted
+function notPromotableError(status: string | null): string {
+  if (status === null) {
+    return 'This scenario was discarded while it was being promoted';
+  }
+  return status === 'promoted'
+    ? 'This scenario has already been promoted'
+    : `Only draft scenarios can be promoted; this one is ${status}`;
+}
+
+// POST /api/scenarios/[id]/promote - Make a scenario the live plan
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = promoteScenarioSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    if (scenario.status !== 'draft') {
+      return NextResponse.json(
+        { error: notPromotableError(scenario.status) },
+        { status: 409 }
+      );
+    }
+
+    const workspace = parseScenarioWorkspace(scenario.workspace);
+    const live = await loadLiveWorkspace(prisma);
+    const liveResources = new Map(live.resources.map(resource => [resource.id, resource]));
+    const changesResources = workspace.resources.some(resource => {
+      const liveResource = liveResources.get(resource.id);
+      return isNewResource(resource.id) || (
+        liveResource !== undefined && (
+          liveResource.capacityHoursPerWeek !== resource.capacityHoursPerWeek ||
+          liveResource.active !== resource.active
+        )
+      );
+    });
+
+    if (changesResources && !hasPermission(user.role, 'resources:edit')) {
+      return NextResponse.json(
+        { error: 'This scenario changes resources, which you do not have permission to do' },
+        { status: 403 }
+      );
+    }
+
+    // Promoting overwrites whatever was changed live in the meantime
+    if (!validationResult.data.force) {
+      const liveChanges = await prisma.auditLog.count({
+        where: {
+          createdAt: { gt: scenario.createdAt },
+          OR: [
+            { projectId: { in: workspace.projects.map(project => project.id) } },
+            { entityType: { in: ['resource', 'allocation'] } },
+          ],
+        },
+      });
+
+      if (liveChanges > 0) {
+        return NextResponse.json(
+          {
+            error: `The live plan has ${liveChanges} changes made after this scenario was created; promoting will overwrite them`,
+            liveChanges,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // The guards are checked and the scenario claimed in the same transaction,
+    // so two promotes cannot both apply it
+    const result = await prisma.$transaction(async (tx) => {
+      const blockers = await scenarioTransitionBlockers(tx, workspace);
+      if (blockers.length > 0) {
+        return { blockers };
+      }
+
+      const { count } = await tx.scenario.updateMany({
+        where: { id: scenario.id, status: 'draft' },
+        data: {
+          status: 'promoted',
+          promotedAt: new Date(),
+          promotedByName: user.name,
+        },
+      });
+      // Promoted or discarded by someone else since it was read
+      if (count === 0) {
+        const current = await tx.scenario.findUnique({
+          where: { id: scenario.id },
+          select: { status: true },
+        });
+        return { claimedStatus: current?.status ?? null };
+      }
+
+      const promoted = await promoteScenario(tx, user, scenario.name, workspace);
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'scenario',
+        entityId: scenario.id,
+        entityLabel: scenario.name,
+        summary: `Promoted to live: ${promoted.projectsChanged} projects and ${promoted.resourcesChanged} resources changed`,
+        before: { status: scenario.status },
+        after: { status: 'promoted' },
+      });
+
+      return { promoted };
+    }, { timeout: 30000 });
+
+    if (result.claimedStatus !== undefined) {
+      return NextResponse.json(
+        { error: notPromotableError(result.claimedStatus) },
+        { status: 409 }
+      );
+    }
+
+    if ('blockers' in result) {
+      return NextResponse.json(
+        {
+          error: 'The scenario changes project statuses the live projects cannot move to',
+          blockers: result.blockers,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result.promoted);
+  } catch (error) {
+    console.error('Error promoting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to promote scenario' },
+      { status: 500 }
+    );
+  }
+}
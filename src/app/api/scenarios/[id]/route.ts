@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit-log';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { applyScenarioOperation, compareScenario, parseScenarioWorkspace } from '@/lib/scenarios';
+import { loadLiveWorkspace } from '@/lib/scenario-workspace';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
+import { scenarioOperationSchema } from '@/lib/validations/scenarios';
+
+// GET /api/scenarios/[id] - A scenario's workspace compared with the live plan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser(request);
+    const canViewRates = hasPermission(user?.role, 'rates:view');
+
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const { workspace: storedWorkspace, ...summary } = scenario;
+    const workspace = parseScenarioWorkspace(storedWorkspace);
+    const [live, calendar, rates] = await Promise.all([
+      loadLiveWorkspace(prisma),
+      loadWorkingCalendar(prisma),
+      loadRateBook(prisma),
+    ]);
+    const comparison = compareScenario(live, workspace, calendar, new Date(), rates);
+
+    // Costs are derived from resource rates
+    if (!canViewRates) {
+      comparison.projects.forEach(project => {
+        project.liveCost = 0;
+        project.scenarioCost = 0;
+      });
+      comparison.totals.liveCost = 0;
+      comparison.totals.scenarioCost = 0;
+    }
+
+    return NextResponse.json({
+      scenario: summary,
+      changes: workspace.changes,
+      // Allocations are summarised per block to keep the response small
+      projects: workspace.projects.map(({ blocks, ...project }) => ({
+        ...project,
+        blocks: blocks.map(({ allocations, ...block }) => ({
+          ...block,
+          allocatedHours: Math.round(allocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0) * 100) / 100,
+        })),
+      })),
+      resources: workspace.resources.map(({ monthlyRate, availabilityCalendar, ...resource }) => ({
+        ...resource,
+        monthlyRate: canViewRates ? monthlyRate : null,
+      })),
+      comparison,
+      costsVisible: canViewRates,
+    });
+  } catch (error) {
+    console.error('Error fetching scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/scenarios/[id] - Apply one edit to a scenario's workspace
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = scenarioOperationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    if (scenario.status === 'promoted') {
+      return NextResponse.json(
+        { error: 'A promoted scenario can no longer be edited' },
+        { status: 400 }
+      );
+    }
+
+    const result = applyScenarioOperation(parseScenarioWorkspace(scenario.workspace), validationResult.data);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    result.workspace.changes.push({
+      at: new Date().toISOString(),
+      by: user.name,
+      description: result.description,
+    });
+
+    // Only succeeds if nobody saved the scenario since it was read
+    const updated = await prisma.scenario.updateMany({
+      where: { id: scenario.id, updatedAt: scenario.updatedAt },
+      data: { workspace: JSON.stringify(result.workspace) },
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: 'The scenario was changed by someone else; reload it and try again' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ description: result.description });
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to update scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/scenarios/[id] - Discard a scenario
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.scenario.delete({
+        where: { id: scenario.id },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'scenario',
+        entityId: scenario.id,
+        entityLabel: scenario.name,
+        before: { name: scenario.name, description: scenario.description, status: scenario.status },
+      });
+    });
+
+    return NextResponse.json({ message: 'Scenario discarded successfully' });
+  } catch (error) {
+    console.error('Error discarding scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard scenario' },
+      { status: 500 }
+    );
+  }
+}
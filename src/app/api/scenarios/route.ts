@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import { isNewResource, parseScenarioWorkspace } from '@/lib/scenarios';
+import { loadLiveWorkspace } from '@/lib/scenario-workspace';
+import { createScenarioSchema } from '@/lib/validations/scenarios';
+
+// GET /api/scenarios - List scenarios, newest first
+export async function GET() {
+  try {
+    const scenarios = await prisma.scenario.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(
+      scenarios.map(({ workspace, ...scenario }) => {
+        const parsed = parseScenarioWorkspace(workspace);
+        return {
+          ...scenario,
+          projectCount: parsed.projects.length,
+          newResourceCount: parsed.resources.filter(resource => isNewResource(resource.id)).length,
+          changeCount: parsed.changes.length,
+        };
+      })
+    );
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scenarios' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/scenarios - Copy the live plan into a new scenario
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'projects:edit');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+
+    const validationResult = createScenarioSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description } = validationResult.data;
+
+    const existingScenario = await prisma.scenario.findUnique({
+      where: { name },
+    });
+
+    if (existingScenario) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: [
+            {
+              field: 'name',
+              message: 'A scenario with this name already exists',
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Copy the plan in one transaction so the workspace is consistent
+    const scenario = await prisma.$transaction(async (tx) => {
+      const workspace = await loadLiveWorkspace(tx);
+
+      const created = await tx.scenario.create({
+        data: {
+          name,
+          description: description || null,
+          workspace: JSON.stringify(workspace),
+          createdById: user.id,
+          createdByName: user.name,
+        },
+      });
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'scenario',
+        entityId: created.id,
+        entityLabel: name,
+        summary: `Scenario "${name}" of ${workspace.projects.length} projects`,
+        after: { name: created.name, description: created.description, status: created.status },
+      });
+
+      return created;
+    }, { timeout: 10000 });
+
+    const { workspace, ...summary } = scenario;
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    console.error('Error creating scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to create scenario' },
+      { status: 500 }
+    );
+  }
+}
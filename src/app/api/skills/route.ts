@@ -16,7 +16,9 @@ export async function GET(request: NextRequest) {
   const fullUrl = `${baseUrl}${redirectUrl}`;
   
   try {
-    const response = await fetch(fullUrl);
+    const response = await fetch(fullUrl, {
+      headers: { cookie: request.headers.get('cookie') || '' },
+    });
     const data = await response.json();
     
     return NextResponse.json(data, { 
@@ -46,6 +48,8 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        // Forward the session so the target route can authorise the user
+        cookie: request.headers.get('cookie') || '',
       },
       body: body,
     });
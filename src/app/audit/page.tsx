@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { History, Home, Search } from 'lucide-react';
+import AuditEntryList, { AuditEntryView } from '@/components/audit/AuditEntryList';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/audit';
+
+const emptyFilters = {
+  entityType: '',
+  action: '',
+  actor: '',
+  search: '',
+  from: '',
+  to: '',
+};
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [entries, setEntries] = useState<AuditEntryView[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Text filters as last submitted; replaced on every search so it re-runs the query
+  const [textFilters, setTextFilters] = useState({ actor: '', search: '' });
+
+  const fetchEntries = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      const query = {
+        entityType: filters.entityType,
+        action: filters.action,
+        from: filters.from,
+        to: filters.to,
+        ...textFilters,
+      };
+      Object.entries(query).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch audit log');
+      const data = await response.json();
+      setEntries(current => cursor ? [...current, ...data.entries] : data.entries);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters.entityType, filters.action, filters.from, filters.to, textFilters]);
+
+  // Text filters are applied on submit; the rest as soon as they change
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTextFilters({ actor: filters.actor, search: filters.search });
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setTextFilters({ actor: '', search: '' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href="/" className="flex items-center text-gray-600 hover:text-gray-900 mr-4">
+                <Home className="h-5 w-5 mr-1" />
+                <span className="text-sm font-medium">Home</span>
+              </Link>
+              <History className="h-8 w-8 text-primary-600" />
+              <h1 className="ml-2 text-2xl font-bold text-gray-900">Audit Log</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-6">
+            <p className="text-gray-600">
+              Every change to projects, allocations, resources and master data, with who made it and what changed.
+              Click an entry to see its before and after values.
+            </p>
+          </div>
+
+          {/* Filters */}
+          <form onSubmit={handleSearch} className="bg-white shadow rounded-lg mb-6 p-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              <div className="sm:col-span-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Search code, name or summary..."
+                    value={filters.search}
+                    onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                    className="input-field pl-10"
+                  />
+                </div>
+              </div>
+              <input
+                type="text"
+                placeholder="User"
+                value={filters.actor}
+                onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                className="input-field"
+              />
+              <select
+                value={filters.entityType}
+                onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+                className="input-field"
+              >
+                <option value="">All records</option>
+                {AUDIT_ENTITY_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              <select
+                value={filters.action}
+                onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+                className="input-field"
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map(action => (
+                  <option key={action.value} value={action.value}>{action.label}</option>
+                ))}
+              </select>
+              <button type="submit" className="btn-primary">
+                Apply
+              </button>
+            </div>
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <label className="flex items-center space-x-2">
+                <span>From</span>
+                <input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                  className="input-field"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>To</span>
+                <input
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                  className="input-field"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={clearFilters}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Clear filters
+              </button>
+            </div>
+          </form>
+
+          {error && (
+            <div className="mb-6 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {loading && entries.length === 0 ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : (
+              <AuditEntryList entries={entries} />
+            )}
+          </div>
+
+          {nextCursor && (
+            <div className="mt-4 text-center">
+              <button
+                onClick={() => fetchEntries(nextCursor)}
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Load older entries'}
+              </button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -22,6 +22,10 @@ import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/components/auth/AuthProvider';
+import CashFlowPanel from '@/components/budget/CashFlowPanel';
+import EarnedValuePanel from '@/components/budget/EarnedValuePanel';
+import { PROJECT_STATUSES, PROJECT_STATUS_LABELS, projectStatusLabel, projectStatusOf } from '@/lib/project-lifecycle';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart as RechartsPieChart, Pie, Cell } from 'recharts';
 
 interface Project {
@@ -31,6 +35,9 @@ interface Project {
   status: string;
   budgetCapex: number;
   budgetOpex: number;
+  // Labour cost of the allocations at the rates in effect each week; null without rates:view
+  plannedCost: number | null;
+  plannedBilling: number | null;
   projectType: {
     name: string;
     code: string;
@@ -53,7 +60,6 @@ interface Project {
       allocatedHours: number;
       resource: {
         name: string;
-        monthlyRate: number;
         employeeCode: string;
       };
     }>;
@@ -72,6 +78,7 @@ interface BudgetSummary {
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 export default function BudgetPage() {
+  const { can } = useAuth();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -114,10 +121,7 @@ export default function BudgetPage() {
     const summary = projects.reduce((acc, project) => {
       const totalBudget = (project.budgetCapex || 0) + (project.budgetOpex || 0);
       const totalSpent = (project.projectBlocks || []).reduce((sum, block) => sum + (block.actualCost || 0), 0);
-      const totalAllocated = (project.projectBlocks || []).reduce((sum, block) => 
-        sum + (block.allocations || []).reduce((allocSum, alloc) => 
-          allocSum + (alloc.allocatedHours * (alloc.resource.monthlyRate / 160)), 0), 0
-      );
+      const totalAllocated = project.plannedCost || 0;
 
       return {
         totalBudget: acc.totalBudget + totalBudget,
@@ -146,7 +150,7 @@ export default function BudgetPage() {
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          project.code.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' || projectStatusOf(project.status) === statusFilter;
     const matchesType = typeFilter === 'all' || project.projectType.code === typeFilter;
     
     return matchesSearch && matchesStatus && matchesType;
@@ -161,10 +165,7 @@ export default function BudgetPage() {
   };
 
   const getProjectTotalAllocated = (project: Project) => {
-    return (project.projectBlocks || []).reduce((sum, block) => 
-      sum + (block.allocations || []).reduce((allocSum, alloc) => 
-        allocSum + (alloc.allocatedHours * (alloc.resource.monthlyRate / 160)), 0), 0
-    );
+    return project.plannedCost || 0;
   };
 
   const getProjectVariance = (project: Project) => {
@@ -241,10 +242,18 @@ export default function BudgetPage() {
               <h1 className="text-xl font-semibold text-gray-900">Budget & Cost Tracking</h1>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="outline" size="sm">
-                <Download className="h-4 w-4 mr-2" />
-                Export Report
-              </Button>
+              {can('rates:view') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    window.location.href = `/api/cash-flow?format=csv${statusFilter === 'all' ? '' : `&status=${statusFilter}`}`;
+                  }}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Cash Flow
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -331,10 +340,9 @@ export default function BudgetPage() {
                 </div>
                 <Select value={statusFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatusFilter(e.target.value)}>
                   <option value="all">All Status</option>
-                  <option value="planning">Planning</option>
-                  <option value="active">Active</option>
-                  <option value="on_hold">On Hold</option>
-                  <option value="completed">Completed</option>
+                  {PROJECT_STATUSES.map(status => (
+                    <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                  ))}
                 </Select>
                 <Select value={typeFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTypeFilter(e.target.value)}>
                   <option value="all">All Types</option>
@@ -348,6 +356,10 @@ export default function BudgetPage() {
           </div>
         </div>
 
+        {/* Earned value and cash flow follow the status filter */}
+        {can('rates:view') && <EarnedValuePanel statusFilter={statusFilter} />}
+        {can('rates:view') && <CashFlowPanel statusFilter={statusFilter} />}
+
         {/* Budget Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           <Card>
@@ -469,8 +481,11 @@ export default function BudgetPage() {
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {formatCurrency(totalSpent)}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {formatCurrency(totalAllocated)}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{formatCurrency(totalAllocated)}</div>
+                            {!!project.plannedBilling && (
+                              <div className="text-xs text-gray-500">{formatCurrency(project.plannedBilling)} billable</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className={`text-sm font-medium ${variance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -481,8 +496,8 @@ export default function BudgetPage() {
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Badge variant={project.status === 'active' ? 'default' : 'secondary'}>
-                              {project.status}
+                            <Badge variant={projectStatusOf(project.status) === 'in_progress' ? 'default' : 'secondary'}>
+                              {projectStatusLabel(project.status)}
                             </Badge>
                           </td>
                         </tr>
@@ -21,6 +21,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { projectStatusOf } from '@/lib/project-lifecycle';
 import { 
   BarChart, 
   Bar, 
@@ -174,7 +175,8 @@ export default function DashboardPage() {
     try {
       const [projectsResponse, resourcesResponse] = await Promise.all([
         fetch('/api/projects'),
-        fetch('/api/resources')
+        // Placeholders are demand, not people whose utilisation is tracked
+        fetch('/api/resources?placeholders=exclude')
       ]);
 
       if (projectsResponse.ok && resourcesResponse.ok) {
@@ -224,7 +226,7 @@ export default function DashboardPage() {
     const overutilized = resourceUtilization.filter(r => r.utilization > 100).length;
 
     // Calculate Project Delivery Performance
-    const activeProjects = projects.filter(p => p.status === 'active' || p.status === 'completed');
+    const activeProjects = projects.filter(p => ['in_progress', 'completed'].includes(projectStatusOf(p.status)));
     const onTimeProjects = activeProjects.filter(p => {
       const hasDelayedBlocks = (p.projectBlocks || []).some(block => block.status === 'delayed');
       return !hasDelayedBlocks && p.status === 'completed';
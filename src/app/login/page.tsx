@@ -0,0 +1,5 @@
+import LoginForm from '@/components/auth/LoginForm';
+
+export default function LoginPage() {
+  return <LoginForm />;
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import DependencyLinksEditor, { DependencyLinkValue } from './DependencyLinksEditor';
 import { X, Plus, Loader2 } from 'lucide-react';
 
 const createBlockSchema = z.object({
@@ -11,26 +12,38 @@ const createBlockSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
   description: z.string().max(500, 'Description must be at most 500 characters').optional(),
   defaultDurationWeeks: z.number().min(1, 'Duration must be at least 1 week'),
-  defaultDependencies: z.string().optional(),
+  optimisticDurationWeeks: z.number().positive('Duration must be positive').nullable(),
+  pessimisticDurationWeeks: z.number().positive('Duration must be positive').nullable(),
   defaultSkillsMix: z.string().optional(),
-});
+})
+  .refine(
+    data => !data.optimisticDurationWeeks || data.optimisticDurationWeeks <= data.defaultDurationWeeks,
+    { message: 'Cannot exceed the default duration', path: ['optimisticDurationWeeks'] }
+  )
+  .refine(
+    data => !data.pessimisticDurationWeeks || data.pessimisticDurationWeeks >= data.defaultDurationWeeks,
+    { message: 'Cannot be below the default duration', path: ['pessimisticDurationWeeks'] }
+  );
 
 type CreateBlockFormData = z.infer<typeof createBlockSchema>;
 
 interface CreateBlockFormProps {
   onSuccess: () => void;
+  blocks: Array<{ code: string; name: string }>;
 }
 
-export default function CreateBlockForm({ onSuccess }: CreateBlockFormProps) {
+export default function CreateBlockForm({ onSuccess, blocks }: CreateBlockFormProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [dependencies, setDependencies] = useState<DependencyLinkValue[]>([]);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
   } = useForm<CreateBlockFormData>({
     resolver: zodResolver(createBlockSchema),
   });
@@ -45,16 +58,21 @@ export default function CreateBlockForm({ onSuccess }: CreateBlockFormProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, defaultDependencies: dependencies }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create block');
+        throw new Error(
+          Array.isArray(errorData.details) && typeof errorData.details[0] === 'string'
+            ? errorData.details.join('; ')
+            : errorData.error || 'Failed to create block'
+        );
       }
 
       // Success
       reset();
+      setDependencies([]);
       setIsOpen(false);
       onSuccess();
     } catch (error) {
@@ -69,6 +87,7 @@ export default function CreateBlockForm({ onSuccess }: CreateBlockFormProps) {
     setIsOpen(false);
     setError(null);
     reset();
+    setDependencies([]);
   };
 
   return (
@@ -147,6 +166,44 @@ export default function CreateBlockForm({ onSuccess }: CreateBlockFormProps) {
                 )}
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="optimisticDurationWeeks" className="block text-sm font-medium text-gray-700 mb-1">
+                    Optimistic (Weeks)
+                  </label>
+                  <input
+                    {...register('optimisticDurationWeeks', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Same as default"
+                  />
+                  {errors.optimisticDurationWeeks && (
+                    <p className="mt-1 text-sm text-red-600">{errors.optimisticDurationWeeks.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="pessimisticDurationWeeks" className="block text-sm font-medium text-gray-700 mb-1">
+                    Pessimistic (Weeks)
+                  </label>
+                  <input
+                    {...register('pessimisticDurationWeeks', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Same as default"
+                  />
+                  {errors.pessimisticDurationWeeks && (
+                    <p className="mt-1 text-sm text-red-600">{errors.pessimisticDurationWeeks.message}</p>
+                  )}
+                </div>
+                <p className="col-span-2 text-xs text-gray-500">
+                  Duration range used by schedule risk analysis; leave empty for no uncertainty.
+                </p>
+              </div>
+
               <div>
                 <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
                   Description
@@ -163,18 +220,14 @@ export default function CreateBlockForm({ onSuccess }: CreateBlockFormProps) {
               </div>
 
               <div>
-                <label htmlFor="defaultDependencies" className="block text-sm font-medium text-gray-700 mb-1">
-                  Default Dependencies (JSON)
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Default Dependencies
                 </label>
-                <textarea
-                  {...register('defaultDependencies')}
-                  rows={2}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  placeholder='["previous_block_code"]'
+                <DependencyLinksEditor
+                  value={dependencies}
+                  onChange={setDependencies}
+                  blocks={blocks.filter(b => b.code !== watch('code'))}
                 />
-                {errors.defaultDependencies && (
-                  <p className="mt-1 text-sm text-red-600">{errors.defaultDependencies.message}</p>
-                )}
               </div>
 
               <div>
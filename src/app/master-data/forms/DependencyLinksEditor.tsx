@@ -0,0 +1,98 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { DEPENDENCY_TYPES, DependencyType } from '@/lib/dependencies';
+
+export interface DependencyLinkValue {
+  predecessor: string;
+  type: DependencyType;
+  lagDays: number;
+}
+
+interface DependencyLinksEditorProps {
+  value: DependencyLinkValue[];
+  onChange: (links: DependencyLinkValue[]) => void;
+  // Blocks that can be chosen as predecessors
+  blocks: Array<{ code: string; name: string }>;
+}
+
+export default function DependencyLinksEditor({ value, onChange, blocks }: DependencyLinksEditorProps) {
+  const updateLink = (index: number, changes: Partial<DependencyLinkValue>) => {
+    onChange(value.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+  };
+
+  const addLink = () => {
+    const used = new Set(value.map(link => link.predecessor));
+    const next = blocks.find(block => !used.has(block.code));
+    onChange([...value, { predecessor: next?.code || '', type: 'FS', lagDays: 0 }]);
+  };
+
+  const removeLink = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">No predecessors</p>
+      )}
+
+      {value.map((link, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <select
+            value={link.predecessor}
+            onChange={(e) => updateLink(index, { predecessor: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="">Select block...</option>
+            {blocks.map(block => (
+              <option key={block.code} value={block.code}>
+                {block.code} - {block.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={link.type}
+            onChange={(e) => updateLink(index, { type: e.target.value as DependencyType })}
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            title={DEPENDENCY_TYPES.find(t => t.value === link.type)?.label}
+          >
+            {DEPENDENCY_TYPES.map(type => (
+              <option key={type.value} value={type.value} title={type.label}>
+                {type.value}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={link.lagDays}
+            onChange={(e) => updateLink(index, { lagDays: parseInt(e.target.value) || 0 })}
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            title="Lag in days (negative for lead)"
+          />
+          <span className="text-xs text-gray-500">d</span>
+          <button
+            type="button"
+            onClick={() => removeLink(index)}
+            className="text-gray-400 hover:text-red-600"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addLink}
+        disabled={blocks.length === 0}
+        className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add predecessor
+      </button>
+      <p className="text-xs text-gray-500">
+        FS: starts after predecessor finishes. SS: starts with it. FF: finishes with it. SF: finishes when it starts. Negative lag is a lead.
+      </p>
+    </div>
+  );
+}
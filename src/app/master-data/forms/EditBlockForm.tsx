@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import DependencyLinksEditor, { DependencyLinkValue } from './DependencyLinksEditor';
+import { parseDependencyLinks } from '@/lib/dependencies';
 import { X, Loader2 } from 'lucide-react';
 
 const updateBlockSchema = z.object({
@@ -11,9 +13,18 @@ const updateBlockSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
   description: z.string().max(500, 'Description must be at most 500 characters').optional(),
   defaultDurationWeeks: z.number().min(1, 'Duration must be at least 1 week'),
-  defaultDependencies: z.string().optional(),
+  optimisticDurationWeeks: z.number().positive('Duration must be positive').nullable(),
+  pessimisticDurationWeeks: z.number().positive('Duration must be positive').nullable(),
   defaultSkillsMix: z.string().optional(),
-});
+})
+  .refine(
+    data => !data.optimisticDurationWeeks || data.optimisticDurationWeeks <= data.defaultDurationWeeks,
+    { message: 'Cannot exceed the default duration', path: ['optimisticDurationWeeks'] }
+  )
+  .refine(
+    data => !data.pessimisticDurationWeeks || data.pessimisticDurationWeeks >= data.defaultDurationWeeks,
+    { message: 'Cannot be below the default duration', path: ['pessimisticDurationWeeks'] }
+  );
 
 type UpdateBlockFormData = z.infer<typeof updateBlockSchema>;
 
@@ -23,6 +34,8 @@ interface Block {
   name: string;
   description?: string;
   defaultDurationWeeks: number;
+  optimisticDurationWeeks?: number | null;
+  pessimisticDurationWeeks?: number | null;
   defaultDependencies?: string;
   defaultSkillsMix?: string;
 }
@@ -32,11 +45,13 @@ interface EditBlockFormProps {
   onClose: () => void;
   onSuccess: () => void;
   block: Block | null;
+  blocks: Array<{ code: string; name: string }>;
 }
 
-export default function EditBlockForm({ isOpen, onClose, onSuccess, block }: EditBlockFormProps) {
+export default function EditBlockForm({ isOpen, onClose, onSuccess, block, blocks }: EditBlockFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [dependencies, setDependencies] = useState<DependencyLinkValue[]>([]);
 
   const {
     register,
@@ -55,7 +70,9 @@ export default function EditBlockForm({ isOpen, onClose, onSuccess, block }: Edi
       setValue('name', block.name);
       setValue('description', block.description || '');
       setValue('defaultDurationWeeks', block.defaultDurationWeeks);
-      setValue('defaultDependencies', block.defaultDependencies || '');
+      setValue('optimisticDurationWeeks', block.optimisticDurationWeeks ?? null);
+      setValue('pessimisticDurationWeeks', block.pessimisticDurationWeeks ?? null);
+      setDependencies(parseDependencyLinks(block.defaultDependencies, block.code) || []);
       setValue('defaultSkillsMix', block.defaultSkillsMix || '');
     }
   }, [block, isOpen, setValue]);
@@ -72,12 +89,16 @@ export default function EditBlockForm({ isOpen, onClose, onSuccess, block }: Edi
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, defaultDependencies: dependencies }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update block');
+        throw new Error(
+          Array.isArray(errorData.details) && typeof errorData.details[0] === 'string'
+            ? errorData.details.join('; ')
+            : errorData.error || 'Failed to update block'
+        );
       }
 
       // Success
@@ -165,6 +186,44 @@ export default function EditBlockForm({ isOpen, onClose, onSuccess, block }: Edi
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="optimisticDurationWeeks" className="block text-sm font-medium text-gray-700 mb-1">
+                Optimistic (Weeks)
+              </label>
+              <input
+                {...register('optimisticDurationWeeks', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                type="number"
+                min="0.5"
+                step="0.5"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="Same as default"
+              />
+              {errors.optimisticDurationWeeks && (
+                <p className="mt-1 text-sm text-red-600">{errors.optimisticDurationWeeks.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="pessimisticDurationWeeks" className="block text-sm font-medium text-gray-700 mb-1">
+                Pessimistic (Weeks)
+              </label>
+              <input
+                {...register('pessimisticDurationWeeks', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                type="number"
+                min="0.5"
+                step="0.5"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="Same as default"
+              />
+              {errors.pessimisticDurationWeeks && (
+                <p className="mt-1 text-sm text-red-600">{errors.pessimisticDurationWeeks.message}</p>
+              )}
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">
+              Duration range used by schedule risk analysis; leave empty for no uncertainty.
+            </p>
+          </div>
+
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
               Description
@@ -181,18 +240,14 @@ export default function EditBlockForm({ isOpen, onClose, onSuccess, block }: Edi
           </div>
 
           <div>
-            <label htmlFor="defaultDependencies" className="block text-sm font-medium text-gray-700 mb-1">
-              Default Dependencies (JSON)
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Default Dependencies
             </label>
-            <textarea
-              {...register('defaultDependencies')}
-              rows={2}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              placeholder='["previous_block_code"]'
+            <DependencyLinksEditor
+              value={dependencies}
+              onChange={setDependencies}
+              blocks={blocks.filter(b => b.code !== block?.code)}
             />
-            {errors.defaultDependencies && (
-              <p className="mt-1 text-sm text-red-600">{errors.defaultDependencies.message}</p>
-            )}
           </div>
 
           <div>
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import DependencyLinksEditor, { DependencyLinkValue } from './DependencyLinksEditor';
+import { DependencyLink, formatDependencyLink } from '@/lib/dependencies';
+
+interface Tier {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface TierBlockConfig {
+  id: string;
+  sequenceIndex: number;
+  block: {
+    id: string;
+    code: string;
+    name: string;
+  };
+  durationWeeks: number;
+  dependencies: DependencyLink[];
+  defaultDependencies: DependencyLink[] | null;
+  overrideDependencies: DependencyLink[] | null;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+interface EditTierBlocksFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tier: Tier | null;
+}
+
+const toValues = (links: DependencyLink[] | null): DependencyLinkValue[] =>
+  (links || []).map(({ predecessor, type, lagDays }) => ({ predecessor, type, lagDays }));
+
+export default function EditTierBlocksForm({ isOpen, onClose, tier }: EditTierBlocksFormProps) {
+  const [tierBlocks, setTierBlocks] = useState<TierBlockConfig[]>([]);
+  const [totalDurationWeeks, setTotalDurationWeeks] = useState(0);
+  const [overrides, setOverrides] = useState<Record<string, DependencyLinkValue[] | null>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTierBlocks = useCallback(async () => {
+    if (!tier) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`/api/master-data/tiers/${tier.id}/blocks`);
+      if (!response.ok) {
+        throw new Error('Failed to load tier blocks');
+      }
+      const data = await response.json();
+      setTierBlocks(data.blocks);
+      setTotalDurationWeeks(data.totalDurationWeeks);
+      setOverrides(
+        Object.fromEntries(
+          data.blocks.map((tb: TierBlockConfig) => [
+            tb.id,
+            tb.overrideDependencies ? toValues(tb.overrideDependencies) : null,
+          ])
+        )
+      );
+    } catch (error) {
+      console.error('Error loading tier blocks:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load tier blocks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tier]);
+
+  useEffect(() => {
+    if (tier && isOpen) {
+      loadTierBlocks();
+    }
+  }, [tier, isOpen, loadTierBlocks]);
+
+  const toggleOverride = (tierBlock: TierBlockConfig) => {
+    setOverrides(prev => ({
+      ...prev,
+      [tierBlock.id]: prev[tierBlock.id] ? null : toValues(tierBlock.dependencies),
+    }));
+  };
+
+  const saveTierBlock = async (tierBlock: TierBlockConfig) => {
+    if (!tier) return;
+
+    setSavingId(tierBlock.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/master-data/tiers/${tier.id}/blocks/${tierBlock.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ overrideDependencies: overrides[tierBlock.id] }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          Array.isArray(errorData.details) && typeof errorData.details[0] === 'string'
+            ? errorData.details.join('; ')
+            : errorData.error || 'Failed to update dependencies'
+        );
+      }
+
+      await loadTierBlocks();
+    } catch (error) {
+      console.error('Error updating tier block dependencies:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update dependencies');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setTierBlocks([]);
+    onClose();
+  };
+
+  if (!isOpen || !tier) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Block Dependencies</h2>
+            <p className="text-sm text-gray-500">
+              {tier.code} - {tier.name}
+              {tierBlocks.length > 0 && ` · ${totalDurationWeeks} weeks on the critical path`}
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : tierBlocks.length === 0 ? (
+            <p className="text-sm text-gray-500">This tier has no blocks.</p>
+          ) : (
+            tierBlocks.map((tierBlock) => {
+              const override = overrides[tierBlock.id];
+              const otherBlocks = tierBlocks
+                .filter(tb => tb.id !== tierBlock.id)
+                .map(tb => ({ code: tb.block.code, name: tb.block.name }));
+
+              return (
+                <div key={tierBlock.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-xs font-medium text-gray-500 uppercase">
+                        {tierBlock.block.code}
+                      </span>
+                      <h4 className="text-sm font-medium text-gray-900">{tierBlock.block.name}</h4>
+                    </div>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                      tierBlock.isCritical ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {tierBlock.isCritical ? 'Critical' : `${tierBlock.slackDays}d slack`}
+                    </span>
+                  </div>
+
+                  <label className="mt-3 flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={override !== null && override !== undefined}
+                      onChange={() => toggleOverride(tierBlock)}
+                      className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Override dependencies for this tier
+                  </label>
+
+                  <div className="mt-3">
+                    {override ? (
+                      <DependencyLinksEditor
+                        value={override}
+                        onChange={(links) => setOverrides(prev => ({ ...prev, [tierBlock.id]: links }))}
+                        blocks={otherBlocks}
+                      />
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        {tierBlock.dependencies.length > 0
+                          ? `After: ${tierBlock.dependencies
+                              .map(link => `${link.predecessor} (${formatDependencyLink(link)})`)
+                              .join(', ')}`
+                          : 'Starts with the project'}
+                        {!tierBlock.defaultDependencies && tierBlock.dependencies.length > 0 && ' · follows sequence order'}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="mt-3 flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => saveTierBlock(tierBlock)}
+                      disabled={savingId !== null}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    >
+                      {savingId === tierBlock.id && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                      Save
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Plus, Settings, Search, Edit, Trash2, Home } from 'lucide-react';
+import { Plus, Settings, Search, Edit, Trash2, Home, GitBranch } from 'lucide-react';
 import ProjectTypeForm from '@/components/master-data/ProjectTypeForm';
 import EditProjectTypeForm from '@/components/master-data/EditProjectTypeForm';
 import DeleteProjectTypeDialog from '@/components/master-data/DeleteProjectTypeDialog';
 import CreateTierForm from './forms/CreateTierForm';
 import EditTierForm from './forms/EditTierForm';
+import EditTierBlocksForm from './forms/EditTierBlocksForm';
 import DeleteTierDialog from './forms/DeleteTierDialog';
 import CreateSkillForm from './forms/CreateSkillForm';
 import EditSkillForm from './forms/EditSkillForm';
@@ -18,6 +19,11 @@ import DeleteBlockDialog from '@/app/master-data/forms/DeleteBlockDialog';
 import CreateDeliverableForm from '@/components/master-data/CreateDeliverableForm';
 import EditDeliverableForm from '@/components/master-data/EditDeliverableForm';
 import DeleteDeliverableDialog from '@/components/master-data/DeleteDeliverableDialog';
+import WorkingCalendarSettings from '@/components/master-data/WorkingCalendarSettings';
+import RateCardSettings from '@/components/master-data/RateCardSettings';
+import DurationCalibration from '@/components/master-data/DurationCalibration';
+import { parseDependencyLinks, formatDependencyLink } from '@/lib/dependencies';
+import { useAuth } from '@/components/auth/AuthProvider';
 
 interface ProjectType {
   id: string;
@@ -61,6 +67,8 @@ interface Block {
   name: string;
   description?: string;
   defaultDurationWeeks: number;
+  optimisticDurationWeeks?: number | null;
+  pessimisticDurationWeeks?: number | null;
   defaultDependencies?: string;
   defaultSkillsMix?: string;
   createdAt: string;
@@ -94,9 +102,15 @@ const tabs = [
   { id: 'blocks', name: 'Blocks', icon: Settings },
   { id: 'deliverables', name: 'Deliverables', icon: Settings },
   { id: 'skills', name: 'Skills', icon: Settings },
+  { id: 'calendar', name: 'Calendar', icon: Settings },
+  { id: 'rate-cards', name: 'Rate Cards', icon: Settings },
+  { id: 'calibration', name: 'Calibration', icon: Settings },
 ];
 
 export default function MasterDataPage() {
+  const { can } = useAuth();
+  const canEditMasterData = can('master_data:edit');
+  const canViewRates = can('rates:view');
   const [activeTab, setActiveTab] = useState('project-types');
   const [isProjectTypeFormOpen, setIsProjectTypeFormOpen] = useState(false);
   const [isEditProjectTypeFormOpen, setIsEditProjectTypeFormOpen] = useState(false);
@@ -105,6 +119,7 @@ export default function MasterDataPage() {
   
   // Tier form states
   const [isEditTierFormOpen, setIsEditTierFormOpen] = useState(false);
+  const [isTierBlocksFormOpen, setIsTierBlocksFormOpen] = useState(false);
   const [isTierDeleteDialogOpen, setIsTierDeleteDialogOpen] = useState(false);
   const [selectedTier, setSelectedTier] = useState<Tier | null>(null);
   
@@ -260,6 +275,11 @@ export default function MasterDataPage() {
     setIsEditTierFormOpen(true);
   };
 
+  const handleEditTierBlocks = (tier: Tier) => {
+    setSelectedTier(tier);
+    setIsTierBlocksFormOpen(true);
+  };
+
   const handleDeleteTier = (tier: Tier) => {
     setSelectedTier(tier);
     setIsTierDeleteDialogOpen(true);
@@ -341,13 +361,15 @@ export default function MasterDataPage() {
             Get started by creating a new project type.
           </p>
           <div className="mt-6">
-            <button
-              onClick={() => setIsProjectTypeFormOpen(true)}
-              className="btn-primary"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Add project type
-            </button>
+            {canEditMasterData && (
+              <button
+                onClick={() => setIsProjectTypeFormOpen(true)}
+                className="btn-primary"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add project type
+              </button>
+            )}
           </div>
         </div>
       );
@@ -367,13 +389,15 @@ export default function MasterDataPage() {
               />
             </div>
           </div>
-          <button
-            onClick={() => setIsProjectTypeFormOpen(true)}
-            className="btn-primary"
-          >
-            <Plus className="h-4 w-4 mr-1" />
-            Add Project Type
-          </button>
+          {canEditMasterData && (
+            <button
+              onClick={() => setIsProjectTypeFormOpen(true)}
+              className="btn-primary"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Project Type
+            </button>
+          )}
         </div>
 
         {/* Table */}
@@ -421,20 +445,24 @@ export default function MasterDataPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     <div className="flex items-center space-x-2">
-                      <button 
-                        onClick={() => handleEditProjectType(projectType)}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="Edit project type"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button 
-                        onClick={() => handleDeleteProjectType(projectType)}
-                        className="text-red-600 hover:text-red-900"
-                        title="Delete project type"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {canEditMasterData && (
+                        <button 
+                          onClick={() => handleEditProjectType(projectType)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Edit project type"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      )}
+                      {canEditMasterData && (
+                        <button 
+                          onClick={() => handleDeleteProjectType(projectType)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete project type"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -520,18 +548,31 @@ export default function MasterDataPage() {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                   <div className="flex justify-end space-x-2">
-                    <button
-                      onClick={() => handleEditTier(tier)}
-                      className="text-primary-600 hover:text-primary-900"
-                    >
-                      <Edit className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteTier(tier)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    {canEditMasterData && (
+                      <button
+                        onClick={() => handleEditTierBlocks(tier)}
+                        className="text-primary-600 hover:text-primary-900"
+                        title="Block dependencies"
+                      >
+                        <GitBranch className="h-4 w-4" />
+                      </button>
+                    )}
+                    {canEditMasterData && (
+                      <button
+                        onClick={() => handleEditTier(tier)}
+                        className="text-primary-600 hover:text-primary-900"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                    )}
+                    {canEditMasterData && (
+                      <button
+                        onClick={() => handleDeleteTier(tier)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </td>
               </tr>
@@ -603,18 +644,22 @@ export default function MasterDataPage() {
                         {skill.code}
                       </span>
                       <div className="flex space-x-1">
-                        <button
-                          onClick={() => handleEditSkill(skill)}
-                          className="text-primary-600 hover:text-primary-900"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteSkill(skill)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canEditMasterData && (
+                          <button
+                            onClick={() => handleEditSkill(skill)}
+                            className="text-primary-600 hover:text-primary-900"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canEditMasterData && (
+                          <button
+                            onClick={() => handleDeleteSkill(skill)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                     <h4 className="mt-2 text-sm font-medium text-gray-900">
@@ -680,18 +725,22 @@ export default function MasterDataPage() {
                   {block.code}
                 </span>
                 <div className="flex space-x-1">
-                  <button
-                    onClick={() => handleEditBlock(block)}
-                    className="text-primary-600 hover:text-primary-900"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDeleteBlock(block)}
-                    className="text-red-600 hover:text-red-900"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  {canEditMasterData && (
+                    <button
+                      onClick={() => handleEditBlock(block)}
+                      className="text-primary-600 hover:text-primary-900"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                  )}
+                  {canEditMasterData && (
+                    <button
+                      onClick={() => handleDeleteBlock(block)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
                 </div>
               </div>
               <h3 className="mt-2 text-lg font-medium text-gray-900">{block.name}</h3>
@@ -704,6 +753,22 @@ export default function MasterDataPage() {
                   <div className="flex items-center text-sm text-gray-600">
                     <span className="font-medium">Duration:</span>
                     <span className="ml-1">{block.defaultDurationWeeks} weeks</span>
+                    {(block.optimisticDurationWeeks || block.pessimisticDurationWeeks) && (
+                      <span className="ml-1 text-gray-400">
+                        ({block.optimisticDurationWeeks ?? block.defaultDurationWeeks}–{block.pessimisticDurationWeeks ?? block.defaultDurationWeeks})
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {block.defaultDependencies && (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <span className="font-medium">After:</span>
+                    <span className="ml-1">
+                      {(parseDependencyLinks(block.defaultDependencies, block.code) || [])
+                        .map(link => `${link.predecessor} (${formatDependencyLink(link)})`)
+                        .join(', ') || '—'}
+                    </span>
                   </div>
                 )}
                 
@@ -789,18 +854,22 @@ export default function MasterDataPage() {
                         {deliverable.code}
                       </span>
                       <div className="flex space-x-1">
-                        <button
-                          onClick={() => handleEditDeliverable(deliverable)}
-                          className="text-primary-600 hover:text-primary-900"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteDeliverable(deliverable)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canEditMasterData && (
+                          <button
+                            onClick={() => handleEditDeliverable(deliverable)}
+                            className="text-primary-600 hover:text-primary-900"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canEditMasterData && (
+                          <button
+                            onClick={() => handleDeleteDeliverable(deliverable)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                     <h4 className="mt-2 text-sm font-medium text-gray-900">
@@ -847,13 +916,15 @@ export default function MasterDataPage() {
                   Define the different types of projects your organization manages
                 </p>
               </div>
-              <button
-                onClick={() => setIsProjectTypeFormOpen(true)}
-                className="btn-primary"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Project Type
-              </button>
+              {canEditMasterData && (
+                <button
+                  onClick={() => setIsProjectTypeFormOpen(true)}
+                  className="btn-primary"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Project Type
+                </button>
+              )}
             </div>
             {renderProjectTypes()}
           </div>
@@ -868,7 +939,7 @@ export default function MasterDataPage() {
                   Define project sizes within each project type
                 </p>
               </div>
-              <CreateTierForm onSuccess={handleTierSuccess} />
+              {canEditMasterData && <CreateTierForm onSuccess={handleTierSuccess} />}
             </div>
             {renderTiers()}
           </div>
@@ -883,7 +954,7 @@ export default function MasterDataPage() {
                   Define reusable project components with standard durations and skill mixes
                 </p>
               </div>
-              <CreateBlockForm onSuccess={handleBlockSuccess} />
+              {canEditMasterData && <CreateBlockForm onSuccess={handleBlockSuccess} blocks={blocks} />}
             </div>
             {renderBlocks()}
           </div>
@@ -898,7 +969,7 @@ export default function MasterDataPage() {
                   Define standard deliverables and outputs for each block
                 </p>
               </div>
-              <CreateDeliverableForm onSuccess={handleDeliverableSuccess} />
+              {canEditMasterData && <CreateDeliverableForm onSuccess={handleDeliverableSuccess} />}
             </div>
             {renderDeliverables()}
           </div>
@@ -913,11 +984,47 @@ export default function MasterDataPage() {
                   Define the skills and capabilities available for project planning
                 </p>
               </div>
-              <CreateSkillForm onSuccess={handleSkillSuccess} />
+              {canEditMasterData && <CreateSkillForm onSuccess={handleSkillSuccess} />}
             </div>
             {renderSkills()}
           </div>
         );
+      case 'calendar':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Working Calendar</h3>
+              <p className="text-sm text-gray-600">
+                Define working days, public holidays and shutdown periods used for scheduling and capacity
+              </p>
+            </div>
+            <WorkingCalendarSettings readOnly={!canEditMasterData} />
+          </div>
+        );
+      case 'rate-cards':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Rate Cards</h3>
+              <p className="text-sm text-gray-600">
+                Cost and billing rates by role over time, and the hours a monthly rate pays for
+              </p>
+            </div>
+            <RateCardSettings readOnly={!canEditMasterData} />
+          </div>
+        );
+      case 'calibration':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Duration Calibration</h3>
+              <p className="text-sm text-gray-600">
+                Compare planned and actual durations of completed blocks and tune block and tier templates
+              </p>
+            </div>
+            <DurationCalibration readOnly={!canEditMasterData} />
+          </div>
+        );
       default:
         return null;
     }
@@ -948,7 +1055,7 @@ export default function MasterDataPage() {
       {/* Tabs */}
       <div className="border-b border-gray-200 mb-8">
         <nav className="-mb-px flex space-x-8">
-          {tabs.map((tab) => {
+          {tabs.filter(tab => tab.id !== 'rate-cards' || canViewRates).map((tab) => {
             const Icon = tab.icon;
             return (
               <button
@@ -1001,6 +1108,12 @@ export default function MasterDataPage() {
         tier={selectedTier}
       />
 
+      <EditTierBlocksForm
+        isOpen={isTierBlocksFormOpen}
+        onClose={() => setIsTierBlocksFormOpen(false)}
+        tier={selectedTier}
+      />
+
       <DeleteTierDialog
         isOpen={isTierDeleteDialogOpen}
         onClose={() => setIsTierDeleteDialogOpen(false)}
@@ -1027,6 +1140,7 @@ export default function MasterDataPage() {
         onClose={() => setIsEditBlockFormOpen(false)}
         onSuccess={handleBlockSuccess}
         block={selectedBlock}
+        blocks={blocks}
       />
 
       <DeleteBlockDialog
@@ -27,6 +27,12 @@ export default function HomePage() {
               <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium">
                 Dashboard
               </Link>
+              <Link href="/audit" className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium">
+                Audit Log
+              </Link>
+              <Link href="/scenarios" className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium">
+                Scenarios
+              </Link>
               <div className="ml-6 border-l border-gray-300 pl-6">
                 <UserMenu />
               </div>
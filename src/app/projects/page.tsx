@@ -2,8 +2,22 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Building2, Plus, Calendar, Users, DollarSign, Home, Search, Filter, Edit, Play, Pause, CheckCircle, MoreVertical, UserCheck } from 'lucide-react';
+import { Building2, Plus, Calendar, Users, DollarSign, Home, Search, Filter, Edit, Play, Pause, CheckCircle, MoreVertical, UserCheck, History, ThumbsUp, Undo2, XCircle, Copy, TrendingUp } from 'lucide-react';
 import ProjectCreationWizard from '@/components/projects/ProjectCreationWizard';
+import ProjectDraftList from '@/components/projects/ProjectDraftList';
+import CloneProjectDialog from '@/components/projects/CloneProjectDialog';
+import ProjectDetails, { ProjectDetailsTab } from '@/components/projects/ProjectDetails';
+import { useAuth } from '@/components/auth/AuthProvider';
+import {
+  type ProjectStatus,
+  PROJECT_STATUSES,
+  PROJECT_STATUS_LABELS,
+  TENTATIVE_PROJECT_STATUSES,
+  nextProjectStatuses,
+  releasedAllocationWeeks,
+  projectStatusLabel,
+  projectStatusOf,
+} from '@/lib/project-lifecycle';
 
 interface Project {
   id: string;
@@ -15,6 +29,7 @@ interface Project {
   mode: string;
   budgetCapex?: number;
   budgetOpex?: number;
+  winProbability?: number | null;
   createdAt: string;
   projectType: {
     code: string;
@@ -29,15 +44,33 @@ interface Project {
   };
 }
 
+// Quick action for moving a project to each status
+const STATUS_ACTIONS: Record<ProjectStatus, { label: string; icon: typeof Play; color: string }> = {
+  draft: { label: 'Back to Draft', icon: Undo2, color: 'text-gray-600 hover:text-gray-800' },
+  pipeline: { label: 'Move to Pipeline', icon: TrendingUp, color: 'text-purple-600 hover:text-purple-800' },
+  planning: { label: 'Plan Project', icon: Edit, color: 'text-blue-600 hover:text-blue-800' },
+  approved: { label: 'Approve Project', icon: ThumbsUp, color: 'text-green-600 hover:text-green-800' },
+  in_progress: { label: 'Start Project', icon: Play, color: 'text-green-600 hover:text-green-800' },
+  on_hold: { label: 'Pause Project', icon: Pause, color: 'text-yellow-600 hover:text-yellow-800' },
+  completed: { label: 'Complete Project', icon: CheckCircle, color: 'text-green-600 hover:text-green-800' },
+  cancelled: { label: 'Cancel Project', icon: XCircle, color: 'text-red-600 hover:text-red-800' },
+};
+
 export default function ProjectsPage() {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [showWizard, setShowWizard] = useState(false);
+  const [openDraftId, setOpenDraftId] = useState<string | null>(null);
+  const [draftsVersion, setDraftsVersion] = useState(0);
+  const [cloningProject, setCloningProject] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [editingProject, setEditingProject] = useState<string | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
   const [allocatingResources, setAllocatingResources] = useState<string | null>(null);
+  const [viewingProject, setViewingProject] = useState<{ id: string; tab: ProjectDetailsTab } | null>(null);
 
   useEffect(() => {
     fetchProjects();
@@ -61,10 +94,33 @@ export default function ProjectsPage() {
     fetchProjects();
   };
 
-  const updateProjectStatus = async (projectId: string, newStatus: string) => {
-    setUpdatingStatus(projectId);
+  const openDraft = (draftId: string) => {
+    setOpenDraftId(draftId);
+    setShowWizard(true);
+  };
+
+  const closeWizard = () => {
+    setShowWizard(false);
+    setOpenDraftId(null);
+    setDraftsVersion(prev => prev + 1);
+  };
+
+  const updateProjectStatus = async (project: Project, newStatus: ProjectStatus) => {
+    const released = releasedAllocationWeeks(projectStatusOf(project.status), newStatus);
+    if (
+      released &&
+      !confirm(`Move ${project.code} to ${PROJECT_STATUS_LABELS[newStatus]}? ${
+        released === 'all'
+          ? 'All of its tentative allocations will be released.'
+          : 'Allocations for weeks that have not started will be released.'
+      }`)
+    ) {
+      return;
+    }
+
+    setUpdatingStatus(project.id);
     try {
-      const response = await fetch(`/api/projects/${projectId}`, {
+      const response = await fetch(`/api/projects/${project.id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -75,7 +131,9 @@ export default function ProjectsPage() {
       if (response.ok) {
         await fetchProjects(); // Refresh the projects list
       } else {
-        console.error('Failed to update project status');
+        const error = await response.json();
+        console.error('Failed to update project status:', error);
+        alert([error.error || 'Failed to update project status', ...(error.blockers || [])].join('\n'));
       }
     } catch (error) {
       console.error('Error updating project status:', error);
@@ -84,43 +142,16 @@ export default function ProjectsPage() {
     }
   };
 
+  // Leaving the pipeline wins the deal, confirming its allocations, or loses it
   const getStatusActions = (project: Project) => {
-    const actions = [];
-    
-    switch (project.status) {
-      case 'planning':
-        actions.push({
-          label: 'Start Project',
-          icon: Play,
-          action: () => updateProjectStatus(project.id, 'active'),
-          color: 'text-green-600 hover:text-green-800'
-        });
-        break;
-      case 'active':
-        actions.push({
-          label: 'Pause Project',
-          icon: Pause,
-          action: () => updateProjectStatus(project.id, 'on_hold'),
-          color: 'text-yellow-600 hover:text-yellow-800'
-        });
-        actions.push({
-          label: 'Complete Project',
-          icon: CheckCircle,
-          action: () => updateProjectStatus(project.id, 'completed'),
-          color: 'text-green-600 hover:text-green-800'
-        });
-        break;
-      case 'on_hold':
-        actions.push({
-          label: 'Resume Project',
-          icon: Play,
-          action: () => updateProjectStatus(project.id, 'active'),
-          color: 'text-green-600 hover:text-green-800'
-        });
-        break;
-    }
-    
-    return actions;
+    const inPipeline = TENTATIVE_PROJECT_STATUSES.includes(projectStatusOf(project.status));
+    return nextProjectStatuses(projectStatusOf(project.status)).map(status => ({
+      ...STATUS_ACTIONS[status],
+      ...(inPipeline && {
+        label: status === 'cancelled' ? 'Mark Lost' : `Mark Won (${PROJECT_STATUS_LABELS[status]})`,
+      }),
+      action: () => updateProjectStatus(project, status),
+    }));
   };
 
   const allocateResources = async (projectId: string) => {
@@ -168,13 +199,19 @@ export default function ProjectsPage() {
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
+    switch (projectStatusOf(status)) {
+      case 'pipeline':
+        return 'bg-purple-100 text-purple-800';
       case 'planning':
         return 'bg-blue-100 text-blue-800';
-      case 'active':
+      case 'approved':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'in_progress':
         return 'bg-green-100 text-green-800';
       case 'on_hold':
         return 'bg-yellow-100 text-yellow-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
       default:
@@ -199,7 +236,7 @@ export default function ProjectsPage() {
                          project.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          project.projectType.name.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' || projectStatusOf(project.status) === statusFilter;
     
     return matchesSearch && matchesStatus;
   });
@@ -218,14 +255,16 @@ export default function ProjectsPage() {
               <Building2 className="h-8 w-8 text-primary-600" />
               <h1 className="ml-2 text-2xl font-bold text-gray-900">Projects</h1>
             </div>
-            <button
-              onClick={() => setShowWizard(true)}
-              className="btn-primary flex items-center"
-              data-testid="create-project-button"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Create Project
-            </button>
+            {canEditProjects && (
+              <button
+                onClick={() => setShowWizard(true)}
+                className="btn-primary flex items-center"
+                data-testid="create-project-button"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Create Project
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -242,6 +281,9 @@ export default function ProjectsPage() {
             </p>
           </div>
 
+          {/* Saved wizard progress */}
+          <ProjectDraftList refreshKey={draftsVersion} onOpen={openDraft} />
+
           {/* Filters and Search */}
           <div className="bg-white shadow rounded-lg mb-6">
             <div className="p-4">
@@ -268,10 +310,9 @@ export default function ProjectsPage() {
                     className="input-field"
                   >
                     <option value="all">All Statuses</option>
-                    <option value="planning">Planning</option>
-                    <option value="active">Active</option>
-                    <option value="on_hold">On Hold</option>
-                    <option value="completed">Completed</option>
+                    {PROJECT_STATUSES.map(status => (
+                      <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -293,7 +334,7 @@ export default function ProjectsPage() {
                   : "Try adjusting your search or filter criteria."
                 }
               </p>
-              {projects.length === 0 && (
+              {projects.length === 0 && canEditProjects && (
                 <div className="mt-6">
                   <button
                     onClick={() => setShowWizard(true)}
@@ -318,7 +359,12 @@ export default function ProjectsPage() {
                             <div className="flex items-center justify-between">
                               <div>
                                 <h3 className="text-lg font-medium text-gray-900 truncate">
-                                  {project.name}
+                                  <button
+                                    onClick={() => setViewingProject({ id: project.id, tab: 'overview' })}
+                                    className="hover:text-primary-600 text-left"
+                                  >
+                                    {project.name}
+                                  </button>
                                 </h3>
                                 <p className="text-sm text-gray-500">
                                   {project.code} • {project.projectType.name} ({project.tier.name})
@@ -326,7 +372,10 @@ export default function ProjectsPage() {
                               </div>
                               <div className="flex items-center space-x-2">
                                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                                  {project.status.replace('_', ' ').toUpperCase()}
+                                  {projectStatusLabel(project.status).toUpperCase()}
+                                  {projectStatusOf(project.status) === 'pipeline' && project.winProbability != null && (
+                                    <> · {project.winProbability}%</>
+                                  )}
                                 </span>
                                 <span className={`text-sm font-medium ${getPriorityColor(project.priority)}`}>
                                   {getPriorityLabel(project.priority)} Priority
@@ -357,7 +406,7 @@ export default function ProjectsPage() {
                               
                               {/* Action Buttons */}
                               <div className="flex items-center space-x-2">
-                                {getStatusActions(project).map((action, index) => (
+                                {canEditProjects && getStatusActions(project).map((action, index) => (
                                   <button
                                     key={index}
                                     onClick={action.action}
@@ -373,26 +422,48 @@ export default function ProjectsPage() {
                                   </button>
                                 ))}
                                 
-                                <button
-                                  onClick={() => allocateResources(project.id)}
-                                  disabled={allocatingResources === project.id}
-                                  className="p-2 rounded-full text-blue-600 hover:text-blue-800 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                                  title="Allocate Resources"
-                                >
-                                  {allocatingResources === project.id ? (
-                                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                                  ) : (
-                                    <UserCheck className="h-4 w-4" />
-                                  )}
-                                </button>
+                                {can('allocations:edit') && (
+                                  <button
+                                    onClick={() => allocateResources(project.id)}
+                                    disabled={allocatingResources === project.id}
+                                    className="p-2 rounded-full text-blue-600 hover:text-blue-800 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Allocate Resources"
+                                  >
+                                    {allocatingResources === project.id ? (
+                                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                                    ) : (
+                                      <UserCheck className="h-4 w-4" />
+                                    )}
+                                  </button>
+                                )}
                                 
                                 <button
-                                  onClick={() => setEditingProject(project.id)}
+                                  onClick={() => setViewingProject({ id: project.id, tab: 'history' })}
                                   className="p-2 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
-                                  title="Edit Project"
+                                  title="Project History"
                                 >
-                                  <Edit className="h-4 w-4" />
+                                  <History className="h-4 w-4" />
                                 </button>
+                                
+                                {canEditProjects && (
+                                  <button
+                                    onClick={() => setCloningProject(project.id)}
+                                    className="p-2 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                                    title="Duplicate Project"
+                                  >
+                                    <Copy className="h-4 w-4" />
+                                  </button>
+                                )}
+
+                                {canEditProjects && (
+                                  <button
+                                    onClick={() => setEditingProject(project.id)}
+                                    className="p-2 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                                    title="Edit Project"
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </button>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -432,9 +503,9 @@ export default function ProjectsPage() {
                     </div>
                     <div className="ml-5 w-0 flex-1">
                       <dl>
-                        <dt className="text-sm font-medium text-gray-500 truncate">Active</dt>
+                        <dt className="text-sm font-medium text-gray-500 truncate">In Progress</dt>
                         <dd className="text-lg font-medium text-gray-900">
-                          {projects.filter(p => p.status === 'active').length}
+                          {projects.filter(p => projectStatusOf(p.status) === 'in_progress').length}
                         </dd>
                       </dl>
                     </div>
@@ -452,7 +523,7 @@ export default function ProjectsPage() {
                       <dl>
                         <dt className="text-sm font-medium text-gray-500 truncate">Planning</dt>
                         <dd className="text-lg font-medium text-gray-900">
-                          {projects.filter(p => p.status === 'planning').length}
+                          {projects.filter(p => projectStatusOf(p.status) === 'planning').length}
                         </dd>
                       </dl>
                     </div>
@@ -484,11 +555,28 @@ export default function ProjectsPage() {
         </div>
       </main>
 
+      {/* Project Details */}
+      {viewingProject && (
+        <ProjectDetails
+          projectId={viewingProject.id}
+          initialTab={viewingProject.tab}
+          onClose={() => setViewingProject(null)}
+        />
+      )}
+
+      {/* Duplicate Project */}
+      <CloneProjectDialog
+        projectId={cloningProject}
+        onClose={() => setCloningProject(null)}
+        onCloned={openDraft}
+      />
+
       {/* Project Creation Wizard */}
       <ProjectCreationWizard
         isOpen={showWizard}
-        onClose={() => setShowWizard(false)}
+        onClose={closeWizard}
         onSuccess={handleProjectCreated}
+        draftId={openDraftId}
       />
     </div>
   );
@@ -20,8 +20,16 @@ interface UtilizationData {
     totalCapacityHours: number;
     totalAllocatedHours: number;
     totalAvailableHours: number;
+    // Hours booked on placeholders, still to be staffed from the pool
+    totalPlaceholderHours: number;
+    totalDemandHours: number;
+    // Hours pipeline projects hold tentatively, and weighted by their win probability
+    totalTentativeHours: number;
+    totalWeightedTentativeHours: number;
     averageUtilization: number;
     isOverallocated: boolean;
+    isOverdemanded: boolean;
+    isOverdemandedWithPipeline: boolean;
   };
   weeklyCapacity: Array<{
     weekStartDate: string;
@@ -31,6 +39,10 @@ interface UtilizationData {
       allocated: number;
       available: number;
       utilization: number;
+      placeholderDemand: number;
+      demand: number;
+      tentative: number;
+      weightedTentative: number;
     };
     teams: Array<{
       teamName: string;
@@ -49,6 +61,9 @@ interface UtilizationData {
     totalAllocated: number;
     totalAvailable: number;
     utilization: number;
+    confirmedHours: number;
+    tentativeHours: number;
+    weightedTentativeHours: number;
   }>;
 }
 
@@ -111,7 +126,7 @@ export default function ResourceUtilizationDashboard() {
       setUtilizationData(capacityData);
 
       // Fetch resource availability data
-      const resourcesResponse = await fetch('/api/resources?includeSkills=true&activeOnly=true');
+      const resourcesResponse = await fetch('/api/resources?includeSkills=true&activeOnly=true&placeholders=exclude');
       if (!resourcesResponse.ok) throw new Error('Failed to fetch resources');
       const resources = await resourcesResponse.json();
       
@@ -301,6 +316,17 @@ export default function ResourceUtilizationDashboard() {
                   <p className="text-xs text-gray-500">
                     {Math.round((utilizationData.summary.totalAvailableHours / utilizationData.summary.totalCapacityHours) * 100)}% free
                   </p>
+                  {utilizationData.summary.totalPlaceholderHours > 0 && (
+                    <p className={`text-xs ${utilizationData.summary.isOverdemanded ? 'text-red-600' : 'text-gray-500'}`}>
+                      {utilizationData.summary.totalPlaceholderHours.toLocaleString()}h on placeholders to staff
+                    </p>
+                  )}
+                  {utilizationData.summary.totalTentativeHours > 0 && (
+                    <p className={`text-xs ${utilizationData.summary.isOverdemandedWithPipeline ? 'text-red-600' : 'text-gray-500'}`}>
+                      {utilizationData.summary.totalWeightedTentativeHours.toLocaleString()}h weighted pipeline
+                      ({utilizationData.summary.totalTentativeHours.toLocaleString()}h tentative)
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -385,7 +411,10 @@ export default function ResourceUtilizationDashboard() {
                       Capacity
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Allocated
+                      Confirmed
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Pipeline (weighted)
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Available
@@ -408,7 +437,13 @@ export default function ResourceUtilizationDashboard() {
                         {team.totalCapacity.toLocaleString()}h
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {team.totalAllocated.toLocaleString()}h
+                        {team.confirmedHours.toLocaleString()}h
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {team.weightedTentativeHours.toLocaleString()}h
+                        {team.tentativeHours > 0 && (
+                          <span className="text-xs text-gray-400"> of {team.tentativeHours.toLocaleString()}h</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {team.totalAvailable.toLocaleString()}h
@@ -7,6 +7,10 @@ import ResourceCard from '@/components/resources/ResourceCard';
 import ResourceForm from '@/components/resources/ResourceForm';
 import ResourceFilters from '@/components/resources/ResourceFilters';
 import CapacityOverview from '@/components/resources/CapacityOverview';
+import ResourceCalendarExceptions from '@/components/resources/ResourceCalendarExceptions';
+import FillPlaceholderDialog from '@/components/resources/FillPlaceholderDialog';
+import { AvailabilityCalendar } from '@/lib/working-calendar';
+import { useAuth } from '@/components/auth/AuthProvider';
 
 interface Resource {
   id: string;
@@ -14,12 +18,14 @@ interface Resource {
   employeeCode: string;
   homeTeam: string;
   employmentType: string;
-  monthlyRate: number;
+  // Only returned to roles that may see rates
+  monthlyRate?: number;
   capacityHoursPerWeek: number;
-  availabilityCalendar?: string;
+  availabilityCalendar?: AvailabilityCalendar | null;
   active: boolean;
+  placeholder?: boolean;
   derivedMetrics: {
-    hourlyRate: number;
+    hourlyRate?: number;
     weeklyCapacity: number;
     annualCapacity: number;
   };
@@ -41,11 +47,15 @@ interface Filters {
 }
 
 export default function ResourcesPage() {
+  const { can } = useAuth();
+  const canEditResources = can('resources:edit');
   const [resources, setResources] = useState<Resource[]>([]);
   const [filteredResources, setFilteredResources] = useState<Resource[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingResource, setEditingResource] = useState<Resource | null>(null);
+  const [calendarResource, setCalendarResource] = useState<Resource | null>(null);
+  const [fillingPlaceholderId, setFillingPlaceholderId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<Filters>({
     search: '',
@@ -143,10 +153,12 @@ export default function ResourcesPage() {
 
   // Calculate summary metrics
   const totalResources = filteredResources.length;
-  const totalCapacity = filteredResources.reduce((sum, r) => sum + r.capacityHoursPerWeek, 0);
+  // Placeholders are demand waiting to be staffed, not capacity
+  const namedResources = filteredResources.filter(r => !r.placeholder);
+  const totalCapacity = namedResources.reduce((sum, r) => sum + r.derivedMetrics.weeklyCapacity, 0);
   const uniqueTeams = [...new Set(filteredResources.map(r => r.homeTeam))].length;
   const averageHourlyRate = filteredResources.length > 0
-    ? Math.round(filteredResources.reduce((sum, r) => sum + r.derivedMetrics.hourlyRate, 0) / filteredResources.length)
+    ? Math.round(filteredResources.reduce((sum, r) => sum + (r.derivedMetrics.hourlyRate || 0), 0) / filteredResources.length)
     : 0;
 
   return (
@@ -175,13 +187,15 @@ export default function ResourcesPage() {
                 <BarChart3 className="h-4 w-4 mr-2" />
                 Utilization Dashboard
               </Link>
-              <button
-                onClick={() => setShowForm(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Resource
-              </button>
+              {canEditResources && (
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Resource
+                </button>
+              )}
             </div>
           </div>
 
@@ -217,15 +231,17 @@ export default function ResourcesPage() {
               </div>
             </div>
 
-            <div className="bg-orange-50 p-4 rounded-lg">
-              <div className="flex items-center">
-                <TrendingUp className="h-8 w-8 text-orange-600" />
-                <div className="ml-3">
-                  <p className="text-sm font-medium text-orange-600">Avg. Hourly Rate</p>
-                  <p className="text-2xl font-bold text-orange-900">${averageHourlyRate}</p>
+            {can('rates:view') && (
+              <div className="bg-orange-50 p-4 rounded-lg">
+                <div className="flex items-center">
+                  <TrendingUp className="h-8 w-8 text-orange-600" />
+                  <div className="ml-3">
+                    <p className="text-sm font-medium text-orange-600">Avg. Hourly Rate</p>
+                    <p className="text-2xl font-bold text-orange-900">${averageHourlyRate}</p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
@@ -265,7 +281,7 @@ export default function ResourcesPage() {
         )}
 
         {/* Capacity Overview */}
-        <CapacityOverview resources={filteredResources} />
+        <CapacityOverview resources={namedResources} />
 
         {/* Resources Grid */}
         {loading ? (
@@ -281,7 +297,7 @@ export default function ResourcesPage() {
                 ? 'Try adjusting your filters or search terms.'
                 : 'Get started by adding your first resource.'}
             </p>
-            {!filters.search && !filters.team && !filters.employmentType && !filters.skillId && (
+            {canEditResources && !filters.search && !filters.team && !filters.employmentType && !filters.skillId && (
               <div className="mt-6">
                 <button
                   onClick={() => setShowForm(true)}
@@ -299,8 +315,10 @@ export default function ResourcesPage() {
               <ResourceCard
                 key={resource.id}
                 resource={resource}
-                onEdit={handleEditResource}
-                onDelete={handleDeleteResource}
+                onEdit={canEditResources ? handleEditResource : undefined}
+                onDelete={canEditResources ? handleDeleteResource : undefined}
+                onManageCalendar={canEditResources ? setCalendarResource : undefined}
+                onFill={can('allocations:edit') ? setFillingPlaceholderId : undefined}
               />
             ))}
           </div>
@@ -318,6 +336,21 @@ export default function ResourcesPage() {
           }}
         />
       )}
+
+      {/* Calendar Exceptions Modal */}
+      {calendarResource && (
+        <ResourceCalendarExceptions
+          resource={calendarResource}
+          onClose={() => setCalendarResource(null)}
+        />
+      )}
+
+      {/* Fill Placeholder Modal */}
+      <FillPlaceholderDialog
+        placeholderId={fillingPlaceholderId}
+        onClose={() => setFillingPlaceholderId(null)}
+        onFilled={fetchResources}
+      />
     </div>
   );
 }
\ No newline at end of file
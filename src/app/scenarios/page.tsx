@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FlaskConical, Home, Plus } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import ScenarioDetails from '@/components/scenarios/ScenarioDetails';
+
+interface ScenarioSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  status: 'draft' | 'promoted';
+  createdByName: string;
+  createdAt: string;
+  projectCount: number;
+  newResourceCount: number;
+  changeCount: number;
+}
+
+export default function ScenariosPage() {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchScenarios = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/scenarios');
+      if (!response.ok) throw new Error('Failed to fetch scenarios');
+      const data: ScenarioSummary[] = await response.json();
+      setScenarios(data);
+      setSelectedId(current =>
+        current && data.some(scenario => scenario.id === current) ? current : data[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error('Error fetching scenarios:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch scenarios');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchScenarios();
+  }, []);
+
+  const createScenario = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/scenarios', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to create scenario');
+      }
+
+      const created = await response.json();
+      setForm({ name: '', description: '' });
+      setSelectedId(created.id);
+      await fetchScenarios();
+    } catch (error) {
+      console.error('Error creating scenario:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href="/" className="flex items-center text-gray-600 hover:text-gray-900 mr-4">
+                <Home className="h-5 w-5 mr-1" />
+                <span className="text-sm font-medium">Home</span>
+              </Link>
+              <FlaskConical className="h-8 w-8 text-primary-600" />
+              <h1 className="ml-2 text-2xl font-bold text-gray-900">Scenarios</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-6">
+            <p className="text-gray-600">
+              Copy the live plan into a sandbox, try moving projects or changing the team, and compare capacity,
+              schedule and budget with the live plan. Nothing changes live until a scenario is promoted.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+            {/* Scenario list */}
+            <div className="space-y-4">
+              {canEditProjects && (
+                <form onSubmit={createScenario} className="bg-white shadow rounded-lg p-4 space-y-2">
+                  <input
+                    type="text"
+                    required
+                    placeholder="Scenario name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="input-field"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Description (optional)"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="input-field"
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving || !form.name.trim()}
+                    className="btn-primary w-full inline-flex items-center justify-center"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {saving ? 'Copying plan...' : 'New Scenario'}
+                  </button>
+                </form>
+              )}
+
+              <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+                {loading ? (
+                  <p className="p-4 text-sm text-gray-500">Loading scenarios...</p>
+                ) : scenarios.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500">No scenarios yet.</p>
+                ) : (
+                  scenarios.map(scenario => (
+                    <button
+                      key={scenario.id}
+                      onClick={() => setSelectedId(scenario.id)}
+                      className={`w-full p-4 text-left hover:bg-gray-50 ${
+                        scenario.id === selectedId ? 'bg-primary-50' : ''
+                      }`}
+                      title={scenario.description || undefined}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{scenario.name}</span>
+                        {scenario.status === 'promoted' && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded-full">
+                            Promoted
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {scenario.changeCount} changes · {scenario.projectCount} projects
+                        {scenario.newResourceCount > 0 && ` · ${scenario.newResourceCount} hires`}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {new Date(scenario.createdAt).toLocaleDateString()} by {scenario.createdByName}
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Selected scenario */}
+            <div className="lg:col-span-3">
+              {selectedId ? (
+                <ScenarioDetails scenarioId={selectedId} onChanged={fetchScenarios} />
+              ) : (
+                !loading && (
+                  <div className="bg-white shadow rounded-lg p-12 text-center text-gray-500">
+                    Create a scenario to start planning what-ifs.
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
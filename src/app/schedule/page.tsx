@@ -19,13 +19,18 @@ import {
   TrendingDown,
   Edit,
   Lightbulb,
-  RefreshCw
+  RefreshCw,
+  Scale
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { PROJECT_STATUSES, PROJECT_STATUS_LABELS, projectStatusLabel, projectStatusOf } from '@/lib/project-lifecycle';
+import { parseDependencyLinks, formatDependencyLink, dependencyShortfallDays } from '@/lib/dependencies';
+import { useAuth } from '@/components/auth/AuthProvider';
+import LevelingPanel from '@/components/resources/LevelingPanel';
 
 interface Project {
   id: string;
@@ -44,10 +49,12 @@ interface Project {
   };
   projectBlocks: Array<{
     id: string;
+    blockId: string;
     plannedStart: string;
     plannedEnd: string;
     plannedDurationWeeks: number;
     status: string;
+    dependencies?: string | null;
     block: {
       name: string;
       code: string;
@@ -135,7 +142,8 @@ const ResourceUtilizationTimeline = ({
   projects: Project[];
   timePeriods: string[];
   viewMode: 'week' | 'month' | 'year';
-  onProjectDateChange: (projectId: string, newStartDate: string) => void;
+  // Omitted for roles that cannot reschedule projects
+  onProjectDateChange?: (projectId: string, newStartDate: string) => void;
   onShowRecommendations: () => void;
 }) => {
   const [selectedResource, setSelectedResource] = React.useState<string | null>(null);
@@ -316,23 +324,25 @@ const ResourceUtilizationTimeline = ({
                         <div key={proj.projectId} className="flex justify-between text-sm border-b py-1">
                           <span>{proj.projectName}</span>
                           <span>{proj.hours}h</span>
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            onClick={() => {
-                              // Open project edit modal
-                              const project = projects.find(p => p.id === proj.projectId);
-                              if (project) {
-                                // This would open a date picker to adjust start date
-                                const newDate = prompt('New start date (YYYY-MM-DD):', project.targetStartDate);
-                                if (newDate) {
-                                  onProjectDateChange(proj.projectId, newDate);
+                          {onProjectDateChange && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={() => {
+                                // Open project edit modal
+                                const project = projects.find(p => p.id === proj.projectId);
+                                if (project) {
+                                  // This would open a date picker to adjust start date
+                                  const newDate = prompt('New start date (YYYY-MM-DD):', project.targetStartDate);
+                                  if (newDate) {
+                                    onProjectDateChange(proj.projectId, newDate);
+                                  }
                                 }
-                              }
-                            }}
-                          >
-                            <Edit className="h-3 w-3" />
-                          </Button>
+                              }}
+                            >
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -347,8 +357,25 @@ const ResourceUtilizationTimeline = ({
   );
 };
 
+interface BaselineBlock {
+  blockId: string;
+  plannedStart: string;
+  plannedEnd: string;
+}
+
+interface ScheduleBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  blocks: BaselineBlock[];
+}
+
 interface GanttBarProps {
   block: Project['projectBlocks'][0];
+  siblings: Project['projectBlocks'];
+  // Dates of the same block in the baseline being compared against
+  baselineBlock?: BaselineBlock;
   projectId: string;
   startDate: Date;
   endDate: Date;
@@ -356,15 +383,33 @@ interface GanttBarProps {
   index: number;
 }
 
-const GanttBar: React.FC<GanttBarProps> = ({ block, startDate, endDate, totalDays, index }) => {
+const GanttBar: React.FC<GanttBarProps> = ({ block, siblings, baselineBlock, startDate, endDate, totalDays, index }) => {
   const blockStart = new Date(block.plannedStart);
   const blockEnd = new Date(block.plannedEnd);
+
+  // Incoming links, flagged when the current dates no longer satisfy them
+  const incomingLinks = (parseDependencyLinks(block.dependencies, block.block.code) || []).map(link => {
+    const predecessor = siblings.find(b => b.block.code === link.predecessor);
+    const shortfallDays = predecessor
+      ? dependencyShortfallDays(
+          link,
+          { start: new Date(predecessor.plannedStart), end: new Date(predecessor.plannedEnd) },
+          { start: blockStart, end: blockEnd }
+        )
+      : 0;
+    return { link, shortfallDays };
+  });
+  const violatedLinks = incomingLinks.filter(l => l.shortfallDays > 0);
   
   const daysDiff = (date1: Date, date2: Date) => 
     Math.ceil((date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24));
   
   const leftOffset = Math.max(0, daysDiff(blockStart, startDate)) / totalDays * 100;
   const width = daysDiff(blockEnd, blockStart) / totalDays * 100;
+
+  const baselineStart = baselineBlock ? new Date(baselineBlock.plannedStart) : null;
+  const baselineEnd = baselineBlock ? new Date(baselineBlock.plannedEnd) : null;
+  const finishSlipDays = baselineEnd ? daysDiff(blockEnd, baselineEnd) : 0;
   
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -378,18 +423,45 @@ const GanttBar: React.FC<GanttBarProps> = ({ block, startDate, endDate, totalDay
 
   return (
     <div className="relative h-8 bg-gray-100 rounded mb-2">
+      {baselineStart && baselineEnd && (
+        <div
+          className="absolute h-7 top-0.5 rounded border-2 border-dashed border-gray-500 bg-gray-300 bg-opacity-40"
+          style={{
+            left: `${Math.max(0, daysDiff(baselineStart, startDate)) / totalDays * 100}%`,
+            width: `${Math.max(daysDiff(baselineEnd, baselineStart) / totalDays * 100, 2)}%`
+          }}
+          title={`Baseline: ${baselineStart.toLocaleDateString()} – ${baselineEnd.toLocaleDateString()}${
+            finishSlipDays !== 0 ? ` (finish ${finishSlipDays > 0 ? '+' : ''}${finishSlipDays}d)` : ''
+          }`}
+        />
+      )}
       <div
-        className={`absolute h-6 top-1 rounded ${getStatusColor(block.status)} flex items-center px-2`}
+        className={`absolute h-6 top-1 rounded ${getStatusColor(block.status)} flex items-center px-2 ${
+          violatedLinks.length > 0 ? 'ring-2 ring-red-500' : ''
+        }`}
         style={{
           left: `${leftOffset}%`,
           width: `${Math.max(width, 2)}%`
         }}
+        title={incomingLinks.length > 0
+          ? `After: ${incomingLinks.map(({ link, shortfallDays }) =>
+              `${link.predecessor} (${formatDependencyLink(link)})${shortfallDays > 0 ? ` violated by ${shortfallDays}d` : ''}`
+            ).join(', ')}`
+          : undefined}
       >
+        {violatedLinks.length > 0 && (
+          <AlertTriangle className="h-3 w-3 text-white mr-1 flex-shrink-0" />
+        )}
         <span className="text-xs text-white font-medium truncate">
           {block.block.name}
         </span>
       </div>
       <div className="absolute right-2 top-1 text-xs text-gray-600">
+        {incomingLinks.length > 0 && (
+          <span className={`mr-2 ${violatedLinks.length > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+            {incomingLinks.map(({ link }) => `${link.predecessor} ${formatDependencyLink(link)}`).join(', ')}
+          </span>
+        )}
         {block.plannedDurationWeeks}w
       </div>
     </div>
@@ -397,6 +469,7 @@ const GanttBar: React.FC<GanttBarProps> = ({ block, startDate, endDate, totalDay
 };
 
 export default function SchedulePage() {
+  const { can } = useAuth();
   const [projects, setProjects] = useState<Project[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
   const [utilizations, setUtilizations] = useState<ResourceUtilization[]>([]);
@@ -408,10 +481,15 @@ export default function SchedulePage() {
   const [displayMode, setDisplayMode] = useState<'timeline' | 'utilization'>('utilization');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [recommendations, setRecommendations] = useState<UtilizationRecommendation[]>([]);
+  const [baselines, setBaselines] = useState<ScheduleBaseline[]>([]);
+  // 'none', 'latest' or a baseline name shared across projects
+  const [baselineChoice, setBaselineChoice] = useState('none');
+  const [showLeveling, setShowLeveling] = useState(false);
 
   useEffect(() => {
     fetchProjects();
     fetchResources();
+    fetchBaselines();
   }, []);
 
   useEffect(() => {
@@ -446,6 +524,29 @@ export default function SchedulePage() {
     }
   };
 
+  const fetchBaselines = async () => {
+    try {
+      const response = await fetch('/api/baselines');
+      if (response.ok) {
+        const data = await response.json();
+        setBaselines(data);
+      }
+    } catch (error) {
+      console.error('Error fetching baselines:', error);
+    }
+  };
+
+  // Baselines arrive newest first, so the first match per project wins
+  const baselineNames = Array.from(new Set(baselines.map(baseline => baseline.name))).sort();
+  const comparedBaselines = new Map<string, Map<string, BaselineBlock>>();
+  if (baselineChoice !== 'none') {
+    baselines.forEach(baseline => {
+      if (comparedBaselines.has(baseline.projectId)) return;
+      if (baselineChoice !== 'latest' && baseline.name !== baselineChoice) return;
+      comparedBaselines.set(baseline.projectId, new Map(baseline.blocks.map(block => [block.blockId, block])));
+    });
+  }
+
   const calculateUtilizations = () => {
     if (!resources || !projects || resources.length === 0) {
       setUtilizations([]);
@@ -638,7 +739,7 @@ export default function SchedulePage() {
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          project.code.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' || projectStatusOf(project.status) === statusFilter;
     const matchesPriority = priorityFilter === 'all' || project.priority.toString() === priorityFilter;
     
     return matchesSearch && matchesStatus && matchesPriority;
@@ -728,10 +829,9 @@ export default function SchedulePage() {
                 </div>
                 <Select value={statusFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatusFilter(e.target.value)}>
                   <option value="all">All Status</option>
-                  <option value="planning">Planning</option>
-                  <option value="active">Active</option>
-                  <option value="on_hold">On Hold</option>
-                  <option value="completed">Completed</option>
+                  {PROJECT_STATUSES.map(status => (
+                    <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                  ))}
                 </Select>
                 <Select value={priorityFilter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPriorityFilter(e.target.value)}>
                   <option value="all">All Priorities</option>
@@ -829,6 +929,10 @@ export default function SchedulePage() {
                     Over-utilized: <span className="font-medium text-red-600">{utilizations?.filter((u: ResourceUtilization) => u.isOverutilized).length || 0}</span> |
                     Under-utilized: <span className="font-medium text-blue-600">{utilizations?.filter((u: ResourceUtilization) => u.isUnderutilized).length || 0}</span>
                   </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowLeveling(true)}>
+                    <Scale className="h-4 w-4 mr-1" />
+                    Level Resources
+                  </Button>
                 </div>
               </div>
               
@@ -838,7 +942,7 @@ export default function SchedulePage() {
                   projects={projects}
                   timePeriods={generateTimeScale().map(d => d.toISOString())}
                   viewMode={viewMode}
-                  onProjectDateChange={handleProjectDateChange}
+                  onProjectDateChange={can('projects:edit') ? handleProjectDateChange : undefined}
                   onShowRecommendations={generateRecommendations}
                 />
               </div>
@@ -880,7 +984,24 @@ export default function SchedulePage() {
           /* Project Timeline View */
           <div className="bg-white shadow rounded-lg">
             <div className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Project Timeline</h3>
+              <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 space-y-2 md:space-y-0">
+                <h3 className="text-lg font-medium text-gray-900">Project Timeline</h3>
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <label htmlFor="baseline-choice">Compare with baseline</label>
+                  <select
+                    id="baseline-choice"
+                    value={baselineChoice}
+                    onChange={(e) => setBaselineChoice(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="none">None</option>
+                    <option value="latest">Latest</option>
+                    {baselineNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
               
               {/* Time Scale */}
               <div className="mb-4 pb-2 border-b border-gray-200">
@@ -908,8 +1029,8 @@ export default function SchedulePage() {
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center space-x-3">
                           <h4 className="font-medium text-gray-900">{project.name}</h4>
-                          <Badge variant={project.status === 'active' ? 'default' : 'secondary'}>
-                            {project.status}
+                          <Badge variant={projectStatusOf(project.status) === 'in_progress' ? 'default' : 'secondary'}>
+                            {projectStatusLabel(project.status)}
                           </Badge>
                           <Badge variant="outline">
                           Priority {project.priority}
@@ -933,6 +1054,8 @@ export default function SchedulePage() {
                         <GanttBar
                           key={block.id}
                           block={block}
+                          siblings={project.projectBlocks}
+                          baselineBlock={comparedBaselines.get(project.id)?.get(block.blockId)}
                           projectId={project.id}
                           startDate={startDate}
                           endDate={endDate}
@@ -958,7 +1081,7 @@ export default function SchedulePage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {filteredProjects.filter(p => p.status === 'active').length}
+                {filteredProjects.filter(p => projectStatusOf(p.status) === 'in_progress').length}
               </div>
               <p className="text-xs text-muted-foreground">
                 of {filteredProjects.length} total projects
@@ -1021,6 +1144,13 @@ export default function SchedulePage() {
           </Card>
         </div>
       </div>
+
+      {showLeveling && (
+        <LevelingPanel
+          onClose={() => setShowLeveling(false)}
+          onApplied={fetchProjects}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
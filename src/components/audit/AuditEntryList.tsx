@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  AuditChanges,
+  auditEntityLabel,
+  formatAuditValue,
+} from '@/lib/audit';
+
+export interface AuditEntryView {
+  id: string;
+  actorName: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  entityLabel: string | null;
+  summary: string | null;
+  changes: AuditChanges;
+  createdAt: string;
+}
+
+interface AuditEntryListProps {
+  entries: AuditEntryView[];
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function AuditEntryList({ entries }: AuditEntryListProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  if (entries.length === 0) {
+    return <p className="py-6 text-sm text-center text-gray-500">No changes recorded.</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="w-8 px-2 py-2"></th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Who</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {entries.map(entry => {
+          const fields = Object.keys(entry.changes);
+          const isOpen = expanded.has(entry.id);
+          return [
+            <tr
+              key={entry.id}
+              onClick={() => fields.length > 0 && toggle(entry.id)}
+              className={fields.length > 0 ? 'cursor-pointer hover:bg-gray-50' : undefined}
+            >
+              <td className="px-2 py-2 text-gray-400">
+                {fields.length > 0 && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">{formatTimestamp(entry.createdAt)}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{entry.actorName}</td>
+              <td className="px-4 py-2">
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action] || 'bg-gray-100 text-gray-800'}`}>
+                  {entry.action}
+                </span>
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-700">
+                <span className="text-gray-500">{auditEntityLabel(entry.entityType)}</span>{' '}
+                <span className="font-medium text-gray-900">{entry.entityLabel || entry.entityId}</span>
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-700">
+                {entry.summary || (fields.length > 0 ? fields.join(', ') : '—')}
+              </td>
+            </tr>,
+            isOpen && (
+              <tr key={`${entry.id}-changes`} className="bg-gray-50">
+                <td></td>
+                <td colSpan={5} className="px-4 py-2">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500">
+                        <th className="py-1 pr-4 text-left font-medium">Field</th>
+                        <th className="py-1 pr-4 text-left font-medium">Before</th>
+                        <th className="py-1 text-left font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map(field => (
+                        <tr key={field}>
+                          <td className="py-1 pr-4 text-gray-600">{field}</td>
+                          <td className="py-1 pr-4 text-red-700 break-all">{formatAuditValue(entry.changes[field].before)}</td>
+                          <td className="py-1 text-green-700 break-all">{formatAuditValue(entry.changes[field].after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </td>
+              </tr>
+            ),
+          ];
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import React from 'react';
+import { usePathname } from 'next/navigation';
 import { useAuth } from './AuthProvider';
 import LoginForm from './LoginForm';
 
@@ -9,12 +10,27 @@ interface AuthGuardProps {
 }
 
 export default function AuthGuard({ children }: AuthGuardProps) {
-  // Temporarily disabled for testing
-  // const { isAuthenticated, login } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+  const pathname = usePathname();
 
-  // if (!isAuthenticated) {
-  //   return <LoginForm onLogin={login} />;
-  // }
+  // The login page renders its own form
+  if (pathname === '/login') {
+    return <>{children}</>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  // Middleware redirects requests without a session; this covers sessions
+  // that expire or are revoked while a page is open
+  if (!isAuthenticated) {
+    return <LoginForm />;
+  }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
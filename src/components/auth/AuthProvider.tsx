@@ -1,69 +1,90 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Permission, hasPermission } from '@/lib/permissions';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  email: string | null;
+  role: string;
+}
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
-  logout: () => void;
-  user: { username: string } | null;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  logout: () => Promise<void>;
+  user: AuthUser | null;
+  // Whether the current user's role grants a permission
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Static credentials for demo
-const DEMO_CREDENTIALS = {
-  username: 'admin',
-  password: 'pmprg2024'
-};
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [user, setUser] = useState<{ username: string } | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
 
-  // Check for existing session on mount
-  useEffect(() => {
-    const savedAuth = localStorage.getItem('pmprg-auth');
-    if (savedAuth) {
-      try {
-        const authData = JSON.parse(savedAuth);
-        if (authData.isAuthenticated && authData.user) {
-          setIsAuthenticated(true);
-          setUser(authData.user);
-        }
-      } catch (error) {
-        // Clear invalid auth data
-        localStorage.removeItem('pmprg-auth');
+  // Restore the session from the HTTP-only cookie on mount
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      if (response.ok) {
+        const data = await response.json();
+        setUser(data.user);
+      } else {
+        setUser(null);
       }
+    } catch (error) {
+      console.error('Error loading session:', error);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
     }
   }, []);
 
-  const login = (username: string, password: string): boolean => {
-    if (username === DEMO_CREDENTIALS.username && password === DEMO_CREDENTIALS.password) {
-      const userData = { username };
-      setIsAuthenticated(true);
-      setUser(userData);
-      
-      // Save to localStorage
-      localStorage.setItem('pmprg-auth', JSON.stringify({
-        isAuthenticated: true,
-        user: userData,
-        timestamp: Date.now()
-      }));
-      
-      return true;
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const login = async (username: string, password: string) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.validationErrors?.[0]?.message || data.error || 'Login failed',
+      };
     }
-    return false;
+
+    setUser(data.user);
+    return { success: true };
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    setUser(null);
-    localStorage.removeItem('pmprg-auth');
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user]
+  );
+
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, user }}>
+    <AuthContext.Provider value={{ isAuthenticated: user !== null, isLoading, login, logout, user, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -75,4 +96,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -1,22 +1,18 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useRouter } from 'next/navigation';
 import { Building2, Lock, User, Eye, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { useAuth } from './AuthProvider';
 
-interface LoginFormProps {
-  onLogin: (username: string, password: string) => boolean;
-}
-
-export default function LoginForm({ onLogin }: LoginFormProps) {
+export default function LoginForm() {
+  const { login } = useAuth();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,11 +20,16 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     setIsLoading(true);
 
     try {
-      const success = onLogin(username, password);
-      if (success) {
-        router.push('/');
+      const result = await login(username, password);
+      if (result.success) {
+        // On the login page, return to where the middleware redirected from;
+        // elsewhere the guarded page simply renders once the user is set
+        if (window.location.pathname === '/login') {
+          const next = new URLSearchParams(window.location.search).get('next');
+          window.location.replace(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+        }
       } else {
-        setError('Invalid username or password');
+        setError(result.error || 'Invalid username or password');
       }
     } catch (error) {
       setError('Login failed. Please try again.');
@@ -122,6 +123,8 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
             </div>
           </form>
 
+          {/* Seeded account; not shown in production builds */}
+          {process.env.NODE_ENV !== 'production' && (
           <div className="mt-6">
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
@@ -140,6 +143,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
               </div>
             </div>
           </div>
+          )}
         </div>
       </div>
 
@@ -1,25 +1,36 @@
 'use client';
 
 import React from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { LogOut, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ROLES } from '@/lib/permissions';
 
 export default function UserMenu() {
   const { user, logout } = useAuth();
+  const router = useRouter();
 
   if (!user) return null;
 
+  const handleLogout = async () => {
+    await logout();
+    router.push('/login');
+  };
+
   return (
     <div className="flex items-center space-x-4">
       <div className="flex items-center space-x-2 text-sm text-gray-600">
         <User className="h-4 w-4" />
-        <span>Welcome, {user.username}</span>
+        <span>Welcome, {user.name}</span>
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+          {ROLES.find(role => role.value === user.role)?.label || user.role}
+        </span>
       </div>
       <Button
         variant="outline"
         size="sm"
-        onClick={logout}
+        onClick={handleLogout}
         className="flex items-center space-x-1"
       >
         <LogOut className="h-4 w-4" />
@@ -0,0 +1,44 @@
+'use client';
+
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { CashFlow } from '@/lib/cash-flow';
+
+interface CashFlowChartProps {
+  flow: CashFlow;
+  height?: number;
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+}
+
+// Monthly planned, forecast and actual cost as bars, with their running totals as lines
+export default function CashFlowChart({ flow, height = 300 }: CashFlowChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={flow.months} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="month" tickFormatter={formatMonth} tick={{ fontSize: 12 }} />
+        <YAxis yAxisId="month" tickFormatter={(value) => `$${Math.round(value / 1000)}k`} tick={{ fontSize: 12 }} />
+        <YAxis yAxisId="total" orientation="right" tickFormatter={(value) => `$${Math.round(value / 1000)}k`} tick={{ fontSize: 12 }} />
+        <Tooltip labelFormatter={formatMonth} formatter={(value) => formatCurrency(value as number)} />
+        <Legend />
+        <Bar yAxisId="month" dataKey="planned" name="Planned" fill="#8884d8" />
+        <Bar yAxisId="month" dataKey="forecast" name="Forecast" fill="#ffc658" />
+        <Bar yAxisId="month" dataKey="actual" name="Actual" fill="#82ca9d" />
+        <Line yAxisId="total" type="monotone" dataKey="cumulativePlanned" name="Planned to date" stroke="#6d5fd3" dot={false} />
+        <Line yAxisId="total" type="monotone" dataKey="cumulativeForecast" name="Forecast to date" stroke="#d4a017" dot={false} />
+        <Line yAxisId="total" type="monotone" dataKey="cumulativeActual" name="Actual to date" stroke="#16a34a" dot={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
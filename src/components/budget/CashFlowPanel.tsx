@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import CashFlowChart from '@/components/budget/CashFlowChart';
+import type { CashFlow } from '@/lib/cash-flow';
+
+interface CashFlowPanelProps {
+  // Project status to roll up, or 'all'
+  statusFilter: string;
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function CashFlowPanel({ statusFilter }: CashFlowPanelProps) {
+  const [portfolio, setPortfolio] = useState<CashFlow | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCashFlow = async () => {
+      try {
+        const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+        const response = await fetch(`/api/cash-flow${query}`);
+        if (!response.ok) throw new Error('Failed to fetch cash flow');
+        setPortfolio((await response.json()).portfolio);
+        setError(null);
+      } catch (error) {
+        console.error('Error fetching cash flow:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch cash flow');
+      }
+    };
+
+    fetchCashFlow();
+  }, [statusFilter]);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Monthly Cash Flow</CardTitle>
+        <CardDescription>
+          Phased budget vs labour cost forecast from allocations vs actual cost
+          {statusFilter === 'all' && ' · drafts, pipeline and cancelled projects left out'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        ) : !portfolio ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5 text-sm">
+              {([
+                ['Budget', portfolio.budget],
+                ['Phased', portfolio.planned],
+                ['Not phased', portfolio.unphased],
+                ['Forecast', portfolio.forecast],
+                ['Actual to date', portfolio.actual],
+              ] as const).map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className={`font-medium ${value < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatCurrency(value)}</dd>
+                </div>
+              ))}
+            </dl>
+            {portfolio.months.length === 0
+              ? <p className="text-sm text-gray-500">No budget lines or allocations yet.</p>
+              : <CashFlowChart flow={portfolio} />}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { EarnedValue, EarnedValueMetrics } from '@/lib/earned-value';
+import type { PlannedValueSource } from '@/lib/earned-value-snapshot';
+import { projectStatusLabel } from '@/lib/project-lifecycle';
+
+interface EarnedValuePanelProps {
+  // Project status to roll up, or 'all'
+  statusFilter: string;
+}
+
+interface ProjectEarnedValueRow {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  plannedValueSource: PlannedValueSource;
+  earnedValue: EarnedValueMetrics;
+}
+
+interface PortfolioEarnedValue {
+  portfolio: EarnedValue;
+  projects: ProjectEarnedValueRow[];
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatIndex(value: number | null) {
+  return value === null ? '–' : value.toFixed(2);
+}
+
+// Below 1 means over cost or behind schedule
+const indexClass = (value: number | null) =>
+  value === null ? 'text-gray-500' : value < 0.95 ? 'text-red-600' : value < 1 ? 'text-amber-600' : 'text-green-600';
+
+function formatWeek(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export default function EarnedValuePanel({ statusFilter }: EarnedValuePanelProps) {
+  const [data, setData] = useState<PortfolioEarnedValue | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<EarnedValue | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEarnedValue = async () => {
+      try {
+        const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+        const response = await fetch(`/api/earned-value${query}`);
+        if (!response.ok) throw new Error('Failed to fetch earned value');
+        setData(await response.json());
+        setError(null);
+      } catch (error) {
+        console.error('Error fetching earned value:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch earned value');
+      }
+    };
+
+    setSelectedId(null);
+    fetchEarnedValue();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+
+    const fetchProjectEarnedValue = async () => {
+      try {
+        const response = await fetch(`/api/projects/${selectedId}/earned-value`);
+        if (!response.ok) throw new Error('Failed to fetch project earned value');
+        const project = await response.json();
+        setSelected(project.earnedValue);
+      } catch (error) {
+        console.error('Error fetching project earned value:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch project earned value');
+      }
+    };
+
+    fetchProjectEarnedValue();
+  }, [selectedId]);
+
+  if (!data) {
+    return error ? (
+      <div className="p-3 mb-6 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const selectedProject = data.projects.find(project => project.id === selectedId);
+  const shown = selectedId ? selected : data.portfolio;
+  const asOfWeek = shown?.curve.find((point, index, curve) =>
+    point.ev !== null && (index === curve.length - 1 || curve[index + 1].ev === null)
+  )?.week;
+
+  const metrics: Array<[string, string, string]> = shown ? [
+    ['Budget at completion', formatCurrency(shown.bac), ''],
+    ['Planned value', formatCurrency(shown.pv), ''],
+    ['Earned value', formatCurrency(shown.ev), `${shown.percentComplete}% of budget`],
+    ['Actual cost', formatCurrency(shown.ac), ''],
+    ['Estimate at completion', formatCurrency(shown.eac), `${formatCurrency(shown.etc)} to go`],
+    ['Variance at completion', formatCurrency(shown.vac), shown.vac >= 0 ? 'under budget' : 'over budget'],
+  ] : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Earned Value</CardTitle>
+        <CardDescription>
+          {selectedProject
+            ? `${selectedProject.code} ${selectedProject.name} · planned value from ${
+                selectedProject.plannedValueSource.type === 'baseline'
+                  ? `baseline "${selectedProject.plannedValueSource.baselineName}"`
+                  : 'the current allocations, as it has no baseline'
+              }`
+            : 'Portfolio · planned value from each project\'s latest baseline, else its allocations'}
+          , earned value from block progress
+          {!selectedProject && statusFilter === 'all' && ' · drafts, pipeline and cancelled projects left out'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {!shown ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-8 text-sm">
+              <div>
+                <dt className="text-gray-500">CPI</dt>
+                <dd className={`text-lg font-semibold ${indexClass(shown.cpi)}`}>{formatIndex(shown.cpi)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">SPI</dt>
+                <dd className={`text-lg font-semibold ${indexClass(shown.spi)}`}>{formatIndex(shown.spi)}</dd>
+              </div>
+              {metrics.map(([label, value, note]) => (
+                <div key={label}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="font-medium text-gray-900">{value}</dd>
+                  {note && <dd className="text-xs text-gray-500">{note}</dd>}
+                </div>
+              ))}
+            </dl>
+
+            {/* S-curve */}
+            {shown.curve.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing is allocated yet.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={shown.curve} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" tickFormatter={formatWeek} tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(value) => `$${Math.round(value / 1000)}k`} tick={{ fontSize: 12 }} />
+                  <Tooltip
+                    labelFormatter={(week: string) => `Week of ${formatWeek(week)}`}
+                    formatter={(value) => formatCurrency(value as number)}
+                  />
+                  <Legend />
+                  {asOfWeek && <ReferenceLine x={asOfWeek} stroke="#6b7280" strokeDasharray="4 4" label={{ value: 'Today', fontSize: 11 }} />}
+                  <Line type="monotone" dataKey="pv" name="Planned value" stroke="#8884d8" dot={false} />
+                  <Line type="monotone" dataKey="ev" name="Earned value" stroke="#16a34a" dot={false} connectNulls={false} />
+                  <Line type="monotone" dataKey="ac" name="Actual cost" stroke="#dc2626" dot={false} connectNulls={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </>
+        )}
+
+        {/* Projects */}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Project', 'Status', 'BAC', 'EV', 'AC', 'CPI', 'SPI', 'EAC', 'VAC'].map(heading => (
+                  <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.projects.map(project => (
+                <tr
+                  key={project.id}
+                  onClick={() => setSelectedId(selectedId === project.id ? null : project.id)}
+                  className={`cursor-pointer ${selectedId === project.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="px-3 py-2 text-gray-900">
+                    <span className="font-medium">{project.code}</span> <span className="text-gray-500">{project.name}</span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{projectStatusLabel(project.status)}</td>
+                  <td className="px-3 py-2 text-gray-900">{formatCurrency(project.earnedValue.bac)}</td>
+                  <td className="px-3 py-2 text-gray-900">{formatCurrency(project.earnedValue.ev)}</td>
+                  <td className="px-3 py-2 text-gray-900">{formatCurrency(project.earnedValue.ac)}</td>
+                  <td className={`px-3 py-2 font-medium ${indexClass(project.earnedValue.cpi)}`}>{formatIndex(project.earnedValue.cpi)}</td>
+                  <td className={`px-3 py-2 font-medium ${indexClass(project.earnedValue.spi)}`}>{formatIndex(project.earnedValue.spi)}</td>
+                  <td className="px-3 py-2 text-gray-900">{formatCurrency(project.earnedValue.eac)}</td>
+                  <td className={`px-3 py-2 ${project.earnedValue.vac < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {formatCurrency(project.earnedValue.vac)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">
+            Select a project to see its own S-curve. Progress and cost are not recorded by week, so the earned value and
+            actual cost curves spread each block evenly over the time it ran.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
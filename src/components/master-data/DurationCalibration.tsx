@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { type CalibrationSuggestion, type EstimationBias, MIN_CALIBRATION_SAMPLES } from '@/lib/duration-calibration';
+
+interface CalibrationReport {
+  sampleCount: number;
+  blocks: CalibrationSuggestion[];
+  tierBlocks: CalibrationSuggestion[];
+}
+
+const BIAS_STYLES: Record<EstimationBias, { label: string; className: string }> = {
+  underestimated: { label: 'Underestimated', className: 'bg-red-100 text-red-800' },
+  overestimated: { label: 'Overestimated', className: 'bg-yellow-100 text-yellow-800' },
+  accurate: { label: 'Accurate', className: 'bg-green-100 text-green-800' },
+  insufficient_data: { label: 'Too few samples', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatMix = (mix: Record<string, number> | null) =>
+  mix ? Object.entries(mix).map(([skillCode, percentage]) => `${skillCode} ${percentage}%`).join(', ') : '—';
+
+const hasSuggestion = (suggestion: CalibrationSuggestion) =>
+  suggestion.suggestedWeeks !== null ||
+  suggestion.suggestedOptimisticWeeks !== null ||
+  suggestion.suggestedSkillsMix !== null;
+
+interface DurationCalibrationProps {
+  // Show the report without accepting suggestions
+  readOnly?: boolean;
+}
+
+export default function DurationCalibration({ readOnly = false }: DurationCalibrationProps) {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch('/api/master-data/calibration');
+      if (!response.ok) {
+        throw new Error('Failed to load calibration report');
+      }
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error loading calibration report:', error);
+      setError('Failed to load calibration report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const acceptSuggestion = async (suggestion: CalibrationSuggestion) => {
+    setApplyingId(suggestion.id);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/master-data/calibration', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          target: suggestion.target,
+          id: suggestion.id,
+          durationWeeks: suggestion.suggestedWeeks ?? undefined,
+          optimisticDurationWeeks: suggestion.suggestedOptimisticWeeks ?? undefined,
+          pessimisticDurationWeeks: suggestion.suggestedPessimisticWeeks ?? undefined,
+          skillsMix: suggestion.suggestedSkillsMix ?? undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to apply calibration');
+      }
+
+      await loadReport();
+    } catch (error) {
+      console.error('Error applying calibration:', error);
+      setError(error instanceof Error ? error.message : 'Failed to apply calibration');
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const renderTable = (title: string, suggestions: CalibrationSuggestion[]) => (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500">No completed blocks yet.</p>
+      ) : (
+        <div className="overflow-x-auto bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Block</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Samples</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actual / planned</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estimate</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Skills mix</th>
+                {!readOnly && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suggestions.map(suggestion => (
+                <tr key={suggestion.id} className="hover:bg-gray-50 text-sm">
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{suggestion.blockCode}</div>
+                    <div className="text-xs text-gray-500">
+                      {suggestion.tierLabel ? `${suggestion.tierLabel} · ` : ''}{suggestion.blockName}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-900">{suggestion.samples}</td>
+                  <td className="px-4 py-3 text-right text-gray-900">
+                    {suggestion.medianRatio !== null ? `${suggestion.medianRatio.toFixed(2)}×` : '—'}
+                    {suggestion.meanRatio !== null && (
+                      <div className="text-xs text-gray-500">mean {suggestion.meanRatio.toFixed(2)}×</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${BIAS_STYLES[suggestion.bias].className}`}>
+                      {BIAS_STYLES[suggestion.bias].label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {suggestion.currentWeeks}w
+                    {suggestion.suggestedWeeks !== null && (
+                      <span className="font-medium text-primary-700"> → {suggestion.suggestedWeeks}w</span>
+                    )}
+                    {suggestion.suggestedOptimisticWeeks !== null && suggestion.suggestedPessimisticWeeks !== null && (
+                      <div className="text-xs text-gray-500">
+                        range {suggestion.suggestedOptimisticWeeks}–{suggestion.suggestedPessimisticWeeks}w
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    <div>{formatMix(suggestion.currentSkillsMix)}</div>
+                    {suggestion.suggestedSkillsMix && (
+                      <div className="text-xs font-medium text-primary-700">→ {formatMix(suggestion.suggestedSkillsMix)}</div>
+                    )}
+                    {suggestion.effortRatio !== null && (
+                      <div className="text-xs text-gray-500">effort {suggestion.effortRatio.toFixed(2)}× planned</div>
+                    )}
+                  </td>
+                  {!readOnly && (
+                    <td className="px-4 py-3 text-right">
+                      {hasSuggestion(suggestion) && (
+                        <button
+                          onClick={() => acceptSuggestion(suggestion)}
+                          disabled={applyingId !== null}
+                          className="inline-flex items-center px-3 py-1 text-sm font-medium text-primary-700 bg-primary-50 rounded-md hover:bg-primary-100 disabled:opacity-50"
+                        >
+                          {applyingId === suggestion.id
+                            ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            : <Check className="w-4 h-4 mr-1" />}
+                          Accept
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  if (isLoading && !report) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <p className="text-sm text-gray-600">
+            Based on {report.sampleCount} completed project block{report.sampleCount === 1 ? '' : 's'} with actual dates.
+            Suggestions need at least {MIN_CALIBRATION_SAMPLES} samples.
+          </p>
+          {renderTable('Blocks', report.blocks)}
+          {renderTable('Tier blocks', report.tierBlocks)}
+        </>
+      )}
+    </div>
+  );
+}
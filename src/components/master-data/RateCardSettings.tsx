@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface RateCard {
+  id: string;
+  role: string;
+  effectiveFrom: string;
+  costRate: number;
+  billingRate: number | null;
+  notes: string | null;
+}
+
+interface CalendarData {
+  name: string;
+  workingDays: number[];
+  hoursPerDay: number;
+  hoursPerMonth: number | null;
+}
+
+const emptyRateCard = {
+  role: '',
+  effectiveFrom: '',
+  costRate: '',
+  billingRate: '',
+  notes: '',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+interface RateCardSettingsProps {
+  // Show the rate cards without editing controls
+  readOnly?: boolean;
+}
+
+export default function RateCardSettings({ readOnly = false }: RateCardSettingsProps) {
+  const [rateCards, setRateCards] = useState<RateCard[] | null>(null);
+  const [calendar, setCalendar] = useState<CalendarData | null>(null);
+  const [hoursPerMonth, setHoursPerMonth] = useState('');
+  const [rateCardForm, setRateCardForm] = useState(emptyRateCard);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRateCards = async () => {
+    try {
+      setError(null);
+      const [rateCardsResponse, calendarResponse] = await Promise.all([
+        fetch('/api/master-data/rate-cards'),
+        fetch('/api/master-data/calendar'),
+      ]);
+      if (!rateCardsResponse.ok || !calendarResponse.ok) {
+        throw new Error('Failed to load rate cards');
+      }
+      const calendarData: CalendarData = await calendarResponse.json();
+      setRateCards(await rateCardsResponse.json());
+      setCalendar(calendarData);
+      setHoursPerMonth(calendarData.hoursPerMonth !== null ? String(calendarData.hoursPerMonth) : '');
+    } catch (error) {
+      console.error('Error loading rate cards:', error);
+      setError('Failed to load rate cards');
+    }
+  };
+
+  useEffect(() => {
+    loadRateCards();
+  }, []);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const saveHoursPerMonth = async () => {
+    if (!calendar) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/master-data/calendar', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: calendar.name,
+          workingDays: calendar.workingDays,
+          hoursPerDay: calendar.hoursPerDay,
+          hoursPerMonth: hoursPerMonth ? parseFloat(hoursPerMonth) : null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save hours per month'));
+      }
+
+      await loadRateCards();
+    } catch (error) {
+      console.error('Error saving hours per month:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save hours per month');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addRateCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/master-data/rate-cards', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          role: rateCardForm.role,
+          effectiveFrom: new Date(rateCardForm.effectiveFrom).toISOString(),
+          costRate: parseFloat(rateCardForm.costRate),
+          billingRate: rateCardForm.billingRate ? parseFloat(rateCardForm.billingRate) : null,
+          notes: rateCardForm.notes || null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add rate card'));
+      }
+
+      setRateCardForm(emptyRateCard);
+      await loadRateCards();
+    } catch (error) {
+      console.error('Error adding rate card:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add rate card');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteRateCard = async (rateCard: RateCard) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/master-data/rate-cards/${rateCard.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete rate card'));
+      }
+
+      await loadRateCards();
+    } catch (error) {
+      console.error('Error deleting rate card:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete rate card');
+    }
+  };
+
+  if (!rateCards || !calendar) {
+    return error ? (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error: {error}</p>
+        <button
+          onClick={loadRateCards}
+          className="mt-2 btn-primary"
+        >
+          Retry
+        </button>
+      </div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h4 className="text-sm font-semibold text-gray-900">Hourly Basis</h4>
+        <p className="text-sm text-gray-500">
+          Hours a monthly rate pays for. Leave empty to spread it over each resource&apos;s contracted hours.
+        </p>
+
+        <div className="mt-4 flex items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hours per Month</label>
+            <input
+              type="number"
+              min="1"
+              step="0.5"
+              value={hoursPerMonth}
+              disabled={readOnly}
+              onChange={(e) => setHoursPerMonth(e.target.value)}
+              className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="Contracted"
+            />
+          </div>
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={saveHoursPerMonth}
+              disabled={isSaving}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Basis
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900">Role Rate Cards</h4>
+          <p className="text-sm text-gray-500">
+            Monthly rates of each role from a date on. A resource&apos;s own rate history takes precedence.
+          </p>
+        </div>
+
+        {!readOnly && (
+        <form onSubmit={addRateCard} className="p-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end border-b border-gray-200">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Role</label>
+            <input
+              type="text"
+              required
+              value={rateCardForm.role}
+              onChange={(e) => setRateCardForm({ ...rateCardForm, role: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="Senior Engineer"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              required
+              value={rateCardForm.effectiveFrom}
+              onChange={(e) => setRateCardForm({ ...rateCardForm, effectiveFrom: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Cost</label>
+            <input
+              type="number"
+              required
+              min="0"
+              value={rateCardForm.costRate}
+              onChange={(e) => setRateCardForm({ ...rateCardForm, costRate: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Billing</label>
+            <input
+              type="number"
+              min="0"
+              value={rateCardForm.billingRate}
+              onChange={(e) => setRateCardForm({ ...rateCardForm, billingRate: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="Not billed"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={rateCardForm.notes}
+              onChange={(e) => setRateCardForm({ ...rateCardForm, notes: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="Notes"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Add rate card"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        </form>
+        )}
+
+        {rateCards.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No rate cards configured. Resources are costed at their monthly rate.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Billing</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                {!readOnly && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rateCards.map(rateCard => (
+                <tr key={rateCard.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rateCard.role}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(rateCard.effectiveFrom)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(rateCard.costRate)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {rateCard.billingRate !== null ? formatCurrency(rateCard.billingRate) : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{rateCard.notes || ''}</td>
+                  {!readOnly && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => deleteRateCard(rateCard)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
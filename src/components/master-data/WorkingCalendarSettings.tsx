@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { WEEKDAYS } from '@/lib/working-calendar';
+
+interface CalendarHoliday {
+  id: string;
+  name: string;
+  type: 'public_holiday' | 'shutdown';
+  startDate: string;
+  endDate: string;
+  region: string | null;
+}
+
+interface WorkingCalendarData {
+  id: string | null;
+  name: string;
+  workingDays: number[];
+  hoursPerDay: number;
+  holidays: CalendarHoliday[];
+}
+
+const emptyHoliday = {
+  name: '',
+  type: 'public_holiday' as CalendarHoliday['type'],
+  startDate: '',
+  endDate: '',
+  region: '',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+interface WorkingCalendarSettingsProps {
+  // Show the calendar without editing controls
+  readOnly?: boolean;
+}
+
+export default function WorkingCalendarSettings({ readOnly = false }: WorkingCalendarSettingsProps) {
+  const [calendar, setCalendar] = useState<WorkingCalendarData | null>(null);
+  const [holidayForm, setHolidayForm] = useState(emptyHoliday);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCalendar = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch('/api/master-data/calendar');
+      if (!response.ok) {
+        throw new Error('Failed to load working calendar');
+      }
+      setCalendar(await response.json());
+    } catch (error) {
+      console.error('Error loading working calendar:', error);
+      setError('Failed to load working calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    if (!calendar) return;
+    setCalendar({
+      ...calendar,
+      workingDays: calendar.workingDays.includes(day)
+        ? calendar.workingDays.filter(d => d !== day)
+        : [...calendar.workingDays, day],
+    });
+  };
+
+  const saveCalendar = async () => {
+    if (!calendar) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/master-data/calendar', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: calendar.name,
+          workingDays: calendar.workingDays,
+          hoursPerDay: calendar.hoursPerDay,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save working calendar'));
+      }
+
+      setCalendar(await response.json());
+    } catch (error) {
+      console.error('Error saving working calendar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save working calendar');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/master-data/calendar/holidays', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: holidayForm.name,
+          type: holidayForm.type,
+          startDate: new Date(holidayForm.startDate).toISOString(),
+          endDate: holidayForm.endDate ? new Date(holidayForm.endDate).toISOString() : undefined,
+          region: holidayForm.region || null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add holiday'));
+      }
+
+      setHolidayForm(emptyHoliday);
+      await loadCalendar();
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add holiday');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteHoliday = async (holiday: CalendarHoliday) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/master-data/calendar/holidays/${holiday.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete holiday'));
+      }
+
+      await loadCalendar();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete holiday');
+    }
+  };
+
+  if (isLoading && !calendar) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!calendar) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error: {error}</p>
+        <button
+          onClick={loadCalendar}
+          className="mt-2 btn-primary"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h4 className="text-sm font-semibold text-gray-900">Working Week</h4>
+        <p className="text-sm text-gray-500">
+          Block durations and resource capacity are counted on these days
+        </p>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleWorkingDay(day.value)}
+              disabled={readOnly}
+              className={`px-3 py-1.5 text-sm rounded-md border ${
+                calendar.workingDays.includes(day.value)
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={calendar.name}
+              disabled={readOnly}
+              onChange={(e) => setCalendar({ ...calendar, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hours per Day</label>
+            <input
+              type="number"
+              min="1"
+              max="24"
+              step="0.5"
+              value={calendar.hoursPerDay}
+              disabled={readOnly}
+              onChange={(e) => setCalendar({ ...calendar, hoursPerDay: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {!readOnly && (
+          <div className="mt-4 flex justify-end">
+            <button
+              type="button"
+              onClick={saveCalendar}
+              disabled={isSaving}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Working Week
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900">Holidays and Shutdowns</h4>
+          <p className="text-sm text-gray-500">
+            Regional holidays only apply to resources in that region
+          </p>
+        </div>
+
+        {!readOnly && (
+        <form onSubmit={addHoliday} className="p-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end border-b border-gray-200">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              required
+              value={holidayForm.name}
+              onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="New Year's Day"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={holidayForm.type}
+              onChange={(e) => setHolidayForm({ ...holidayForm, type: e.target.value as CalendarHoliday['type'] })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="public_holiday">Public holiday</option>
+              <option value="shutdown">Shutdown</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              required
+              value={holidayForm.startDate}
+              onChange={(e) => setHolidayForm({ ...holidayForm, startDate: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={holidayForm.endDate}
+              onChange={(e) => setHolidayForm({ ...holidayForm, endDate: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={holidayForm.region}
+              onChange={(e) => setHolidayForm({ ...holidayForm, region: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="All regions"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Add holiday"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        </form>
+        )}
+
+        {calendar.holidays.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No holidays configured.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Region</th>
+                {!readOnly && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {calendar.holidays.map(holiday => (
+                <tr key={holiday.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{holiday.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {holiday.type === 'shutdown' ? 'Shutdown' : 'Public holiday'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(holiday.startDate)}
+                    {holiday.endDate !== holiday.startDate && ` – ${formatDate(holiday.endDate)}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{holiday.region || 'All'}</td>
+                  {!readOnly && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => deleteHoliday(holiday)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
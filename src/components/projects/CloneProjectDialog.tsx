@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Copy, X } from 'lucide-react';
+
+interface TeamMember {
+  resourceId: string;
+  employeeCode: string;
+  name: string;
+  active: boolean;
+  blockCount: number;
+}
+
+interface ActiveResource {
+  id: string;
+  employeeCode: string;
+  name: string;
+}
+
+interface CloneSource {
+  project: { id: string; code: string; name: string };
+  blockCount: number;
+  team: TeamMember[];
+}
+
+interface CloneProjectDialogProps {
+  projectId: string | null;
+  onClose: () => void;
+  // Opens the draft the clone was saved as in the creation wizard
+  onCloned: (draftId: string) => void;
+}
+
+export default function CloneProjectDialog({ projectId, onClose, onCloned }: CloneProjectDialogProps) {
+  const [source, setSource] = useState<CloneSource | null>(null);
+  const [resources, setResources] = useState<ActiveResource[]>([]);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [targetStartDate, setTargetStartDate] = useState('');
+  const [resourceSwaps, setResourceSwaps] = useState<Record<string, string>>({});
+  const [isCloning, setIsCloning] = useState(false);
+  const [cloneError, setCloneError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const loadSource = async () => {
+      try {
+        const [sourceResponse, resourcesResponse] = await Promise.all([
+          fetch(`/api/projects/${projectId}/clone`),
+          fetch('/api/resources?activeOnly=true'),
+        ]);
+        if (!sourceResponse.ok || !resourcesResponse.ok) {
+          throw new Error('Failed to load project to clone');
+        }
+
+        const data: CloneSource = await sourceResponse.json();
+        setSource(data);
+        setResources(await resourcesResponse.json());
+        setCode(`${data.project.code}-COPY`);
+        setName(`${data.project.name} (copy)`);
+      } catch (error) {
+        console.error('Error loading project to clone:', error);
+        setCloneError(error instanceof Error ? error.message : 'Failed to load project to clone');
+      }
+    };
+
+    loadSource();
+  }, [projectId]);
+
+  const handleClose = () => {
+    setSource(null);
+    setResourceSwaps({});
+    setTargetStartDate('');
+    setCloneError(null);
+    onClose();
+  };
+
+  const handleClone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectId) return;
+
+    setIsCloning(true);
+    setCloneError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code,
+          name,
+          targetStartDate,
+          resourceSwaps: Object.fromEntries(Object.entries(resourceSwaps).filter(([, replacementId]) => replacementId)),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setCloneError(result.validationErrors?.[0]?.message || result.error || 'Failed to clone project');
+        return;
+      }
+
+      const droppedResources: Array<{ employeeCode: string }> = result.droppedResources;
+      if (droppedResources.length > 0) {
+        alert(`Allocations of ${droppedResources.map(resource => resource.employeeCode).join(', ')} were not carried over: they are no longer available.`);
+      }
+
+      handleClose();
+      onCloned(result.draft.id);
+    } catch (error) {
+      console.error('Error cloning project:', error);
+      setCloneError('An unexpected error occurred');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  if (!projectId) return null;
+
+  const unavailable = source?.team.filter(member => !member.active) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Copy className="h-6 w-6 text-primary-600 mr-2" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              Duplicate {source?.project.code ?? 'Project'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleClone} className="p-6 space-y-4">
+          {cloneError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-700">{cloneError}</p>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            The new project keeps the {source?.blockCount ?? ''} planned blocks, budget and team of the original, with each
+            person&apos;s share of their week moved to the new start. It opens in the creation wizard as a draft for edits.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Project Code</label>
+              <input
+                type="text"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="label">Start Date</label>
+              <input
+                type="date"
+                required
+                value={targetStartDate}
+                onChange={(e) => setTargetStartDate(e.target.value)}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Project Name</label>
+            <input
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input-field"
+            />
+          </div>
+
+          {unavailable.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 space-y-2">
+              <p className="text-sm text-yellow-800">
+                These resources are no longer available. Pick a replacement, or leave their work unallocated.
+              </p>
+              {unavailable.map(member => (
+                <div key={member.resourceId} className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-gray-900">
+                    {member.name} <span className="text-xs text-gray-500">{member.employeeCode}</span>
+                  </span>
+                  <select
+                    value={resourceSwaps[member.resourceId] ?? ''}
+                    onChange={(e) => setResourceSwaps({ ...resourceSwaps, [member.resourceId]: e.target.value })}
+                    className="input-field w-56"
+                  >
+                    <option value="">No replacement</option>
+                    {resources.map(resource => (
+                      <option key={resource.id} value={resource.id}>
+                        {resource.name} ({resource.employeeCode})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn-secondary"
+              disabled={isCloning}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary flex items-center"
+              disabled={isCloning || !source}
+            >
+              <Copy className="h-4 w-4 mr-1" />
+              {isCloning ? 'Duplicating...' : 'Duplicate & Edit'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
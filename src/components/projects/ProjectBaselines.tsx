@@ -0,0 +1,380 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Loader } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+
+interface ProjectBaselinesProps {
+  projectId: string;
+}
+
+interface BaselineSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  createdByName: string;
+  createdAt: string;
+  blockCount: number;
+  finishDate: string | null;
+  plannedHours: number;
+  plannedCost: number | null;
+}
+
+interface BlockVariance {
+  blockId: string;
+  blockCode: string;
+  blockName: string;
+  change: 'unchanged' | 'changed' | 'added' | 'removed';
+  baselineStart: string | null;
+  currentStart: string | null;
+  startSlipDays: number;
+  baselineEnd: string | null;
+  currentEnd: string | null;
+  finishSlipDays: number;
+  baselineHours: number;
+  currentHours: number;
+  baselineCost: number;
+  currentCost: number;
+}
+
+interface Comparison {
+  costsVisible: boolean;
+  comparison: {
+    blocks: BlockVariance[];
+    totals: {
+      baselineFinish: string | null;
+      currentFinish: string | null;
+      finishSlipDays: number;
+      baselineHours: number;
+      currentHours: number;
+      baselineCost: number;
+      currentCost: number;
+      baselineBudget: number;
+      currentBudget: number;
+    };
+  };
+}
+
+const CHANGE_STYLES: Record<BlockVariance['change'], string> = {
+  unchanged: 'text-gray-500',
+  changed: 'text-yellow-700',
+  added: 'text-green-700',
+  removed: 'text-red-700',
+};
+
+function formatDate(value: string | null) {
+  return value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+    : '—';
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatSlip(days: number) {
+  if (days === 0) return 'on baseline';
+  return days > 0 ? `+${days}d late` : `${-days}d early`;
+}
+
+function Delta({ value, unit = '', inverse = false }: { value: number; unit?: string; inverse?: boolean }) {
+  if (Math.abs(value) < 0.005) {
+    return <span className="text-gray-400">—</span>;
+  }
+  // Increases are bad for dates, hours and cost
+  const worse = inverse ? value < 0 : value > 0;
+  return (
+    <span className={worse ? 'text-red-600' : 'text-green-600'}>
+      {value > 0 ? '+' : ''}{Math.round(value * 100) / 100}{unit}
+    </span>
+  );
+}
+
+export default function ProjectBaselines({ projectId }: ProjectBaselinesProps) {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const [baselines, setBaselines] = useState<BaselineSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const fetchBaselines = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/baselines`);
+      if (!response.ok) throw new Error('Failed to fetch baselines');
+      const data: BaselineSummary[] = await response.json();
+      setBaselines(data);
+      setSelectedId(current =>
+        current && data.some(baseline => baseline.id === current) ? current : data[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error('Error fetching baselines:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch baselines');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchBaselines();
+  }, [fetchBaselines]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setComparison(null);
+      return;
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setComparison(null);
+        const response = await fetch(`/api/projects/${projectId}/baselines/${selectedId}`);
+        if (!response.ok) throw new Error('Failed to compare baseline');
+        setComparison(await response.json());
+      } catch (error) {
+        console.error('Error comparing baseline:', error);
+        setError(error instanceof Error ? error.message : 'Failed to compare baseline');
+      }
+    };
+    fetchComparison();
+  }, [projectId, selectedId]);
+
+  const createBaseline = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/baselines`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create baseline'));
+      }
+
+      const created = await response.json();
+      setForm({ name: '', description: '' });
+      setSelectedId(created.id);
+      await fetchBaselines();
+    } catch (error) {
+      console.error('Error creating baseline:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create baseline');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteBaseline = async (baseline: BaselineSummary) => {
+    if (!confirm(`Delete baseline "${baseline.name}"?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/baselines/${baseline.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete baseline'));
+      }
+
+      await fetchBaselines();
+    } catch (error) {
+      console.error('Error deleting baseline:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete baseline');
+    }
+  };
+
+  if (!baselines) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const totals = comparison?.comparison.totals;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {canEditProjects && (
+        <form onSubmit={createBaseline} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            required
+            placeholder="Baseline name, e.g. Approved"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={saving || !form.name.trim()}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Save Baseline
+          </button>
+        </form>
+      )}
+
+      {baselines.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No baselines yet. Save one to keep the current dates, hours and budget as a reference.
+        </p>
+      ) : (
+        <>
+          {/* Baselines */}
+          <div className="flex flex-wrap gap-2">
+            {baselines.map(baseline => (
+              <div
+                key={baseline.id}
+                className={`flex items-center border rounded-md text-sm ${
+                  baseline.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <button
+                  onClick={() => setSelectedId(baseline.id)}
+                  className="px-3 py-2 text-left"
+                  title={baseline.description || undefined}
+                >
+                  <div className="font-medium text-gray-900">{baseline.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(baseline.createdAt)} by {baseline.createdByName}
+                  </div>
+                </button>
+                {canEditProjects && (
+                  <button
+                    onClick={() => deleteBaseline(baseline)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Delete baseline"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Comparison */}
+          {!comparison || !totals ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Finish</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatDate(totals.currentFinish)}{' '}
+                    <span className={totals.finishSlipDays > 0 ? 'text-red-600' : 'text-gray-500'}>
+                      ({formatSlip(totals.finishSlipDays)})
+                    </span>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Hours</dt>
+                  <dd className="font-medium text-gray-900">
+                    {totals.currentHours}h <Delta value={totals.currentHours - totals.baselineHours} unit="h" />
+                  </dd>
+                </div>
+                {comparison.costsVisible && (
+                  <div>
+                    <dt className="text-gray-500">Planned cost</dt>
+                    <dd className="font-medium text-gray-900">
+                      {formatCurrency(totals.currentCost)}{' '}
+                      <Delta value={Math.round(totals.currentCost - totals.baselineCost)} />
+                    </dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-gray-500">Budget</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatCurrency(totals.currentBudget)}{' '}
+                    <Delta value={Math.round(totals.currentBudget - totals.baselineBudget)} />
+                  </dd>
+                </div>
+              </dl>
+
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Block</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Finish slip</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+                    {comparison.costsVisible && (
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {comparison.comparison.blocks.map(block => (
+                    <tr key={block.blockId}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <span className="font-medium">{block.blockCode}</span> {block.blockName}
+                        {block.change !== 'unchanged' && (
+                          <span className={`ml-2 text-xs ${CHANGE_STYLES[block.change]}`}>{block.change}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {formatDate(block.baselineStart)} – {formatDate(block.baselineEnd)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {formatDate(block.currentStart)} – {formatDate(block.currentEnd)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <Delta value={block.finishSlipDays} unit="d" />
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {block.currentHours}h <Delta value={block.currentHours - block.baselineHours} unit="h" />
+                      </td>
+                      {comparison.costsVisible && (
+                        <td className="px-4 py-2 text-sm text-gray-700">
+                          {formatCurrency(block.currentCost)}{' '}
+                          <Delta value={Math.round(block.currentCost - block.baselineCost)} />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Download, Loader, Plus, Save } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import CashFlowChart from '@/components/budget/CashFlowChart';
+import {
+  type BudgetCategory,
+  type CashFlow,
+  BUDGET_CATEGORIES,
+  BUDGET_CATEGORY_LABELS,
+  monthKey,
+  monthsBetween,
+} from '@/lib/cash-flow';
+
+interface ProjectBudgetLinesProps {
+  projectId: string;
+}
+
+interface BudgetLinesData {
+  budgetCapex: number | null;
+  budgetOpex: number | null;
+  planMonths: string[];
+  lines: Array<{ month: string; category: BudgetCategory; amount: number }>;
+}
+
+// Amounts being edited, by month and category
+type LineForm = Record<string, Record<BudgetCategory, string>>;
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+const emptyMonth = (): Record<BudgetCategory, string> => ({ capex: '', opex: '' });
+
+export default function ProjectBudgetLines({ projectId }: ProjectBudgetLinesProps) {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const canViewRates = can('rates:view');
+  const [data, setData] = useState<BudgetLinesData | null>(null);
+  const [flow, setFlow] = useState<CashFlow | null>(null);
+  const [form, setForm] = useState<LineForm>({});
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBudgetLines = useCallback(async () => {
+    try {
+      const [linesResponse, flowResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/budget-lines`),
+        canViewRates ? fetch(`/api/projects/${projectId}/cash-flow`) : Promise.resolve(null),
+      ]);
+      if (!linesResponse.ok) throw new Error('Failed to fetch budget lines');
+      const lines: BudgetLinesData = await linesResponse.json();
+      setData(lines);
+
+      const months = Array.from(new Set([...lines.planMonths, ...lines.lines.map(line => line.month)])).sort();
+      const next: LineForm = {};
+      for (const month of months.length > 0 ? monthsBetween(months[0], months[months.length - 1]) : []) {
+        next[month] = emptyMonth();
+      }
+      for (const line of lines.lines) {
+        next[line.month][line.category] = String(line.amount);
+      }
+      setForm(next);
+
+      if (flowResponse) {
+        if (!flowResponse.ok) throw new Error('Failed to fetch cash flow');
+        setFlow((await flowResponse.json()).cashFlow);
+      }
+    } catch (error) {
+      console.error('Error fetching budget lines:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch budget lines');
+    }
+  }, [projectId, canViewRates]);
+
+  useEffect(() => {
+    fetchBudgetLines();
+  }, [fetchBudgetLines]);
+
+  const months = Object.keys(form).sort();
+  const totalOf = (category: BudgetCategory) =>
+    months.reduce((total, month) => total + (parseFloat(form[month][category]) || 0), 0);
+
+  const addMonth = () => {
+    const last = months.length > 0 ? months[months.length - 1] : monthKey(new Date());
+    const [year, month] = last.split('-').map(Number);
+    const next = months.length > 0 ? monthKey(new Date(Date.UTC(year, month, 1))) : last;
+    setForm(current => ({ ...current, [next]: emptyMonth() }));
+  };
+
+  // Spread each category's budget over the months in proportion to the labour forecast
+  const phaseLikeForecast = () => {
+    if (!data || !flow) return;
+    const forecastByMonth = new Map(flow.months.map(month => [month.month, month.forecast]));
+    const totalForecast = months.reduce((total, month) => total + (forecastByMonth.get(month) ?? 0), 0);
+    if (totalForecast <= 0) return;
+
+    const budgets: Record<BudgetCategory, number> = { capex: data.budgetCapex ?? 0, opex: data.budgetOpex ?? 0 };
+    setForm(Object.fromEntries(months.map(month => {
+      const share = (forecastByMonth.get(month) ?? 0) / totalForecast;
+      return [month, {
+        capex: budgets.capex > 0 ? String(Math.round(budgets.capex * share * 100) / 100) : '',
+        opex: budgets.opex > 0 ? String(Math.round(budgets.opex * share * 100) / 100) : '',
+      }];
+    })));
+  };
+
+  const saveLines = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/budget-lines`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          lines: months.flatMap(month => BUDGET_CATEGORIES
+            .filter(category => form[month][category] !== '')
+            .map(category => ({ month, category, amount: parseFloat(form[month][category]) || 0 }))),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to save budget lines');
+      }
+
+      setMessage('Budget lines saved.');
+      await fetchBudgetLines();
+    } catch (error) {
+      console.error('Error saving budget lines:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save budget lines');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!data) {
+    return error ? (
+      <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const budgets: Record<BudgetCategory, number | null> = { capex: data.budgetCapex, opex: data.budgetOpex };
+  const forecastByMonth = new Map(flow?.months.map(month => [month.month, month]) ?? []);
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+        {BUDGET_CATEGORIES.map(category => {
+          const unphased = (budgets[category] ?? 0) - totalOf(category);
+          return (
+            <div key={category}>
+              <dt className="text-gray-500">{BUDGET_CATEGORY_LABELS[category]} budget</dt>
+              <dd className="font-medium text-gray-900">{formatCurrency(budgets[category] ?? 0)}</dd>
+              <dd className={`text-xs ${unphased < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                {unphased === 0
+                  ? 'fully phased'
+                  : unphased > 0
+                    ? `${formatCurrency(unphased)} not phased`
+                    : `${formatCurrency(-unphased)} over budget`}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">{message}</div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      )}
+
+      {flow && flow.months.length > 0 && <CashFlowChart flow={flow} height={240} />}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+              {BUDGET_CATEGORIES.map(category => (
+                <th key={category} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {BUDGET_CATEGORY_LABELS[category]}
+                </th>
+              ))}
+              {flow && (
+                <>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actual</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {months.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-gray-500">The project has no planned blocks yet.</td>
+              </tr>
+            ) : months.map(month => (
+              <tr key={month}>
+                <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{formatMonth(month)}</td>
+                {BUDGET_CATEGORIES.map(category => (
+                  <td key={category} className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={form[month][category]}
+                      disabled={!canEditProjects}
+                      onChange={(e) => setForm(current => ({
+                        ...current,
+                        [month]: { ...current[month], [category]: e.target.value },
+                      }))}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                ))}
+                {flow && (
+                  <>
+                    <td className="px-3 py-2 text-gray-700">{formatCurrency(forecastByMonth.get(month)?.forecast ?? 0)}</td>
+                    <td className="px-3 py-2 text-gray-700">
+                      {forecastByMonth.get(month)?.actual != null ? formatCurrency(forecastByMonth.get(month)!.actual!) : '–'}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {canEditProjects && (
+          <>
+            <button onClick={addMonth} className="btn-secondary text-sm inline-flex items-center">
+              <Plus className="w-4 h-4 mr-1" />
+              Add month
+            </button>
+            {flow && flow.forecast > 0 && (
+              <button onClick={phaseLikeForecast} className="btn-secondary text-sm">
+                Phase like forecast
+              </button>
+            )}
+            <button
+              onClick={saveLines}
+              disabled={saving}
+              className="btn-primary text-sm inline-flex items-center disabled:opacity-50"
+            >
+              {saving ? <Loader className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+              Save
+            </button>
+          </>
+        )}
+        {canViewRates && (
+          <a href={`/api/projects/${projectId}/cash-flow?format=csv`} className="btn-secondary text-sm inline-flex items-center">
+            <Download className="w-4 h-4 mr-1" />
+            Export CSV
+          </a>
+        )}
+      </div>
+      {flow && (
+        <p className="text-xs text-gray-500">
+          Forecast is the labour cost of the allocations at the rates in effect each week. Actual cost is booked per block, so it is
+          spread evenly over the months each block ran.
+        </p>
+      )}
+    </div>
+  );
+}
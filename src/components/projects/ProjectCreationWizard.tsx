@@ -1,22 +1,34 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { createProjectWizardSchema, type CreateProjectWizardInput } from '@/lib/validations/projects';
-import { X, ArrowLeft, ArrowRight, Check, FileText, Settings, Calendar, Users, DollarSign, Eye } from 'lucide-react';
+import { X, ArrowLeft, ArrowRight, Check, FileText, Settings, Calendar, Users, DollarSign, Eye, Share2 } from 'lucide-react';
 import BasicInfoStep from './steps/BasicInfoStep';
 import ProjectTypeStep from './steps/ProjectTypeStep';
 import SchedulingStep from './steps/SchedulingStep';
 import ResourceAllocationStep from './steps/ResourceAllocationStep';
 import BudgetStep from './steps/BudgetStep';
 import PreviewStep from './steps/PreviewStep';
+import ProjectDraftSharing, { type DraftShare } from './ProjectDraftSharing';
 import { useToast } from '@/components/ui/Toast';
 
 interface ProjectCreationWizardProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess?: () => void;
+  // Saved draft to resume or review
+  draftId?: string | null;
+}
+
+interface DraftState {
+  id: string;
+  createdById: string;
+  createdByName: string;
+  isOwner: boolean;
+  sharedWith: DraftShare[];
+  updatedAt: string;
 }
 
 const STEPS = [
@@ -28,14 +40,20 @@ const STEPS = [
   { id: 6, name: 'Preview', icon: Eye, description: 'Review & confirm' },
 ];
 
-export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: ProjectCreationWizardProps) {
+export default function ProjectCreationWizard({ isOpen, onClose, onSuccess, draftId }: ProjectCreationWizardProps) {
   const [currentStep, setCurrentStep] = useState(1);
+  const [draft, setDraft] = useState<DraftState | null>(null);
+  const [draftLoading, setDraftLoading] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [projectPreview, setProjectPreview] = useState<any>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
 
   // Toast hook for notifications
-  const { toast, promiseToast } = useToast();
+  const { toast } = useToast();
+  // useToast builds new helpers on every render; memoized callbacks reach them through a ref
+  const toastRef = useRef(toast);
+  toastRef.current = toast;
 
   const {
     register,
@@ -56,6 +74,105 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
   });
 
   const watchedValues = watch();
+  const readOnly = draft !== null && !draft.isOwner;
+
+  // A cloned project's blocks only fit the tier they were planned for
+  useEffect(() => {
+    const template = getValues('template');
+    if (template && watchedValues.tierId !== template.tierId) {
+      setValue('template', undefined);
+      toastRef.current.warning('Template blocks dropped', `Blocks are planned from the selected tier instead of ${template.projectCode}.`);
+    }
+  }, [watchedValues.tierId, getValues, setValue]);
+
+  const generatePreview = useCallback(async () => {
+    setPreviewLoading(true);
+    
+    try {
+      const formData = getValues();
+      const response = await fetch('/api/projects/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectTypeId: formData.projectTypeId,
+          tierId: formData.tierId,
+          targetStartDate: formData.targetStartDate,
+          mode: formData.mode,
+          priority: formData.priority,
+          template: formData.template,
+        }),
+      });
+
+      if (response.ok) {
+        const preview = await response.json();
+        setProjectPreview(preview);
+        toastRef.current.success('Project preview generated', `${preview.blocks?.length || 0} project blocks configured`);
+      } else {
+        throw new Error('Failed to generate preview');
+      }
+    } catch (error) {
+      console.error('Error generating preview:', error);
+      toastRef.current.error('Preview generation failed', 'Unable to generate project preview. Please check your configuration.');
+    } finally {
+      setPreviewLoading(false);
+    }
+  }, [getValues]);
+
+  const loadDraft = useCallback(async (id: string) => {
+    setDraftLoading(true);
+
+    try {
+      const response = await fetch(`/api/project-drafts/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load draft');
+      }
+
+      const { data, currentStep: savedStep, ...saved } = await response.json();
+      reset({ priority: 1, mode: 'strict_start', ...data });
+      setDraft(saved);
+      setCurrentStep(savedStep);
+      if (savedStep === STEPS.length) {
+        await generatePreview();
+      }
+    } catch (error) {
+      console.error('Error loading draft:', error);
+      toastRef.current.error('Draft not loaded', 'The draft may have been deleted or is no longer shared with you.');
+    } finally {
+      setDraftLoading(false);
+    }
+  }, [reset, generatePreview]);
+
+  useEffect(() => {
+    if (isOpen && draftId) {
+      loadDraft(draftId);
+    }
+  }, [isOpen, draftId, loadDraft]);
+
+  // Saved on every step, so closing the wizard loses nothing; a failed save does not hold the user up
+  const saveDraft = async (step: number) => {
+    if (readOnly) return;
+
+    try {
+      const response = await fetch(draft ? `/api/project-drafts/${draft.id}` : '/api/project-drafts', {
+        method: draft ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ data: getValues(), currentStep: step }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save draft');
+      }
+
+      setDraft(await response.json());
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      toast.warning('Draft not saved', 'Your progress is kept in the wizard but was not saved.');
+    }
+  };
 
   const validateCurrentStep = async () => {
     const stepFields = getStepFields(currentStep);
@@ -94,7 +211,9 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
       await generatePreview();
     }
 
-    setCurrentStep(prev => Math.min(prev + 1, STEPS.length));
+    const nextStep = Math.min(currentStep + 1, STEPS.length);
+    await saveDraft(nextStep);
+    setCurrentStep(nextStep);
     
     // Show success feedback for step progression
     const nextStepName = STEPS.find(step => step.id === currentStep + 1)?.name;
@@ -107,177 +226,107 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
     setCurrentStep(prev => Math.max(prev - 1, 1));
   };
 
-  const generatePreview = async () => {
-    setPreviewLoading(true);
-    
-    try {
-      const formData = getValues();
-      const response = await fetch('/api/projects/preview', {
-        method: 'POST',
+  // Project, blocks and allocations are saved in one transaction, so a failure leaves nothing behind.
+  // A draft is converted from what is saved, so the values in the wizard are saved first.
+  const createPlannedProject = async (data: CreateProjectWizardInput, allowOverallocation: boolean) => {
+    if (draft) {
+      const saved = await fetch(`/api/project-drafts/${draft.id}`, {
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          projectTypeId: formData.projectTypeId,
-          tierId: formData.tierId,
-          targetStartDate: formData.targetStartDate,
-          mode: formData.mode,
-        }),
+        body: JSON.stringify({ data, currentStep }),
       });
-
-      if (response.ok) {
-        const preview = await response.json();
-        setProjectPreview(preview);
-        toast.success('Project preview generated', `${preview.blocks?.length || 0} project blocks configured`);
-      } else {
-        throw new Error('Failed to generate preview');
+      if (!saved.ok) {
+        return { ok: false, result: await saved.json() };
       }
-    } catch (error) {
-      console.error('Error generating preview:', error);
-      toast.error('Preview generation failed', 'Unable to generate project preview. Please check your configuration.');
-    } finally {
-      setPreviewLoading(false);
+      setDraft(await saved.json());
     }
+
+    const response = draft
+      ? await fetch(`/api/project-drafts/${draft.id}/convert`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ allowOverallocation }),
+        })
+      : await fetch('/api/projects/planned', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...data, allowOverallocation }),
+        });
+    return { ok: response.ok, result: await response.json() };
   };
 
   const onSubmit = async (data: CreateProjectWizardInput) => {
     setIsSubmitting(true);
 
     try {
-      // Step 1: Create the project
-      const projectCreationPromise = fetch('/api/projects', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      }).then(async (response) => {
-        const result = await response.json();
-
-        if (!response.ok) {
-          // Handle validation errors or other errors
-          console.error('Project creation failed:', result);
-          throw new Error(result.message || 'Failed to create project');
+      let { ok, result } = await createPlannedProject(data, false);
+
+      // Only overallocation stands in the way: let the user accept it
+      const onlyCapacity = !ok && result.capacityConflicts?.length > 0 &&
+        result.validationErrors?.length === 0 && result.planningErrors?.length === 0;
+      if (onlyCapacity) {
+        const conflicts: Array<{ employeeCode: string; weekStartDate: string; capacityHours: number; bookedHours: number; requestedHours: number }> =
+          result.capacityConflicts;
+        const listed = conflicts.slice(0, 5).map(conflict =>
+          `${conflict.employeeCode} w/c ${conflict.weekStartDate}: ${conflict.bookedHours + conflict.requestedHours}h of ${conflict.capacityHours}h`
+        );
+        const more = conflicts.length > listed.length ? `\n…and ${conflicts.length - listed.length} more` : '';
+        if (confirm(`These allocations overallocate resources:\n${listed.join('\n')}${more}\n\nCreate the project anyway?`)) {
+          ({ ok, result } = await createPlannedProject(data, true));
         }
+      }
 
-        return result;
-      });
+      if (!ok) {
+        console.error('Project creation failed:', result);
+        const message = result.validationErrors?.[0]?.message
+          || result.planningErrors?.[0]
+          || (result.capacityConflicts?.length > 0 ? `${result.capacityConflicts.length} resource weeks would be overallocated` : null)
+          || result.error
+          || 'Failed to create project';
+        toast.error('Project not created', message);
+        return;
+      }
 
-      const projectResult = await promiseToast(
-        projectCreationPromise,
-        {
-          loading: 'Creating project...',
-          success: (data) => `Project "${data.project?.name || data.project?.code}" created successfully!`,
-          error: (error) => error.message || 'Failed to create project',
-        },
-        {
-          successDuration: 2000,
-          errorDuration: 8000,
-        }
+      toast.success(
+        'Project created',
+        `Project "${result.project.name || result.project.code}" created with ${result.allocationCount} weekly allocations`
       );
 
-      // Step 2: Save resource allocations if any were specified
-      if (data.resourceAllocations && Object.keys(data.resourceAllocations).length > 0) {
-        const project = projectResult.project;
-        const projectBlocks = projectResult.projectBlocks;
-
-        // Transform resource allocations to API format
-        const allocations = [];
-        for (const [blockId, resourceAllocations] of Object.entries(data.resourceAllocations)) {
-          for (const [resourceId, allocationPercentage] of Object.entries(resourceAllocations)) {
-            if (allocationPercentage > 0) {
-              // Find the project block that corresponds to this tier block
-              const projectBlock = projectBlocks.find((pb: any) => pb.blockId === blockId);
-              if (projectBlock) {
-                // Calculate allocated hours per week (assuming 40 hour work week as base)
-                const allocatedHours = (allocationPercentage / 100) * 40;
-                
-                // Generate weeks for the project block duration
-                const weeks = [];
-                const startDate = new Date(projectBlock.plannedStart);
-                const endDate = new Date(projectBlock.plannedEnd);
-                
-                // Generate weekly allocations for the duration of the block
-                const currentDate = new Date(startDate);
-                while (currentDate <= endDate) {
-                  weeks.push(currentDate.toISOString());
-                  currentDate.setDate(currentDate.getDate() + 7); // Add 1 week
-                }
-
-                allocations.push({
-                  projectBlockId: projectBlock.id,
-                  resourceId,
-                  allocatedHours,
-                  weeks,
-                });
-              }
-            }
-          }
-        }
-
-        // Save allocations if we have any
-        if (allocations.length > 0) {
-          const allocationPromise = fetch('/api/allocations', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              projectId: project.id,
-              allocations,
-            }),
-          }).then(async (response) => {
-            const result = await response.json();
-
-            if (!response.ok) {
-              console.error('Allocation creation failed:', result);
-              throw new Error(result.message || 'Failed to save resource allocations');
-            }
-
-            return result;
-          });
-
-          await promiseToast(
-            allocationPromise,
-            {
-              loading: 'Saving resource allocations...',
-              success: (data) => `Saved ${data.allocations?.length || 0} resource allocations`,
-              error: (error) => error.message || 'Failed to save resource allocations',
-            },
-            {
-              successDuration: 3000,
-              errorDuration: 8000,
-            }
-          );
-        }
-      }
-
       // Success - Reset form and close wizard
-      reset();
-      setCurrentStep(1);
-      setProjectPreview(null);
+      resetWizard();
       onSuccess?.();
       onClose();
     } catch (error) {
       console.error('Error creating project:', error);
-      // Error handling is done by promiseToast
+      toast.error('Project not created', error instanceof Error ? error.message : 'Failed to create project');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleClose = () => {
-    // Check if user has made progress and warn about losing data
-    const formData = getValues();
-    const hasData = formData.name || formData.code || formData.projectTypeId || Object.keys(formData.resourceAllocations || {}).length > 0;
-    
-    if (hasData && currentStep > 1) {
-      toast.warning('Wizard closed', 'Your progress has been lost. Use the browser back button to return if needed.');
-    }
-    
+  const resetWizard = () => {
     reset();
     setCurrentStep(1);
     setProjectPreview(null);
+    setDraft(null);
+    setShowSharing(false);
+  };
+
+  const handleClose = () => {
+    // Progress is kept up to the last completed step
+    if (draft?.isOwner) {
+      toast.success('Draft saved', 'Resume it from the drafts on the projects page.');
+    } else if (!draft && currentStep === 1 && (getValues().name || getValues().code)) {
+      toast.warning('Wizard closed', 'Nothing was saved: drafts are saved once the first step is completed.');
+    }
+
+    resetWizard();
     onClose();
   };
 
@@ -322,7 +371,29 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Create New Project</h2>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Create New Project</h2>
+            {draft && (
+              <p className="text-xs text-gray-500">
+                {draft.isOwner
+                  ? `Draft saved ${new Date(draft.updatedAt).toLocaleTimeString()}`
+                  : `Draft by ${draft.createdByName}, shared with you for review`}
+                {draft.isOwner && draft.sharedWith.length > 0 && ` · shared with ${draft.sharedWith.map(share => share.userName).join(', ')}`}
+                {watchedValues.template && ` · blocks planned as in ${watchedValues.template.projectCode}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            {draft?.isOwner && (
+              <button
+                type="button"
+                onClick={() => setShowSharing(prev => !prev)}
+                className="btn-secondary flex items-center"
+              >
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </button>
+            )}
           <button
             onClick={handleClose}
             className="text-gray-400 hover:text-gray-600"
@@ -330,8 +401,32 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
           >
             <X className="h-5 w-5" />
           </button>
+          </div>
         </div>
 
+        {showSharing && draft?.isOwner && (
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+            <ProjectDraftSharing
+              draftId={draft.id}
+              ownerId={draft.createdById}
+              sharedWith={draft.sharedWith}
+              onShared={(sharedWith) => {
+                setDraft({ ...draft, sharedWith });
+                setShowSharing(false);
+                toast.success('Draft shared', sharedWith.length > 0
+                  ? `Shared with ${sharedWith.map(share => share.userName).join(', ')}`
+                  : 'The draft is no longer shared');
+              }}
+            />
+          </div>
+        )}
+
+        {readOnly && (
+          <div className="px-6 py-3 border-b border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+            You are reviewing this draft. Changes you make are not saved and only {draft?.createdByName} can create the project.
+          </div>
+        )}
+
         {/* Progress Steps */}
         <div className="px-6 py-4 border-b border-gray-200">
           <nav aria-label="Progress">
@@ -387,7 +482,15 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
 
         {/* Step Content */}
         <div className="p-6 max-h-96 overflow-y-auto">
-          {renderStep()}
+          {draftLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <fieldset disabled={readOnly}>
+              {renderStep()}
+            </fieldset>
+          )}
         </div>
 
         {/* Footer */}
@@ -419,7 +522,7 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
                 type="button"
                 onClick={handleNext}
                 className="btn-primary flex items-center"
-                disabled={!canProceed() || previewLoading}
+                disabled={!canProceed() || previewLoading || draftLoading}
               >
                 Next
                 <ArrowRight className="h-4 w-4 ml-1" />
@@ -429,7 +532,7 @@ export default function ProjectCreationWizard({ isOpen, onClose, onSuccess }: Pr
                 type="button"
                 onClick={handleSubmit(onSubmit)}
                 className="btn-primary flex items-center"
-                disabled={isSubmitting || !projectPreview?.isValid}
+                disabled={isSubmitting || readOnly || !projectPreview?.isValid}
               >
                 <Check className="h-4 w-4 mr-1" />
                 {isSubmitting ? 'Creating...' : 'Create Project'}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Loader, LayoutList, History, Flag, Dices, GitCommitVertical, Gauge, Wallet } from 'lucide-react';
+import AuditEntryList, { AuditEntryView } from '@/components/audit/AuditEntryList';
+import ProjectBaselines from '@/components/projects/ProjectBaselines';
+import ProjectBudgetLines from '@/components/projects/ProjectBudgetLines';
+import ProjectLifecycle from '@/components/projects/ProjectLifecycle';
+import ProjectProgress from '@/components/projects/ProjectProgress';
+import ProjectScheduleRisk from '@/components/projects/ProjectScheduleRisk';
+import { projectStatusLabel } from '@/lib/project-lifecycle';
+
+export type ProjectDetailsTab = 'overview' | 'lifecycle' | 'progress' | 'budget' | 'baselines' | 'risk' | 'history';
+
+interface ProjectDetailsProps {
+  projectId: string;
+  initialTab?: ProjectDetailsTab;
+  onClose: () => void;
+}
+
+interface ProjectDetail {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  targetStartDate: string;
+  mode: string;
+  notes: string | null;
+  projectType: { code: string; name: string };
+  tier: { code: string; name: string };
+  projectBlocks: Array<{
+    id: string;
+    plannedStart: string;
+    plannedEnd: string;
+    plannedDurationWeeks: number;
+    status: string;
+    block: { code: string; name: string };
+    allocations: Array<{ allocatedHours: number }>;
+  }>;
+}
+
+const TABS: Array<{ id: ProjectDetailsTab; name: string; icon: typeof LayoutList }> = [
+  { id: 'overview', name: 'Overview', icon: LayoutList },
+  { id: 'lifecycle', name: 'Lifecycle', icon: GitCommitVertical },
+  { id: 'progress', name: 'Progress', icon: Gauge },
+  { id: 'budget', name: 'Budget', icon: Wallet },
+  { id: 'baselines', name: 'Baselines', icon: Flag },
+  { id: 'risk', name: 'Schedule Risk', icon: Dices },
+  { id: 'history', name: 'History', icon: History },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export default function ProjectDetails({ projectId, initialTab = 'overview', onClose }: ProjectDetailsProps) {
+  const [activeTab, setActiveTab] = useState<ProjectDetailsTab>(initialTab);
+  const [project, setProject] = useState<ProjectDetail | null>(null);
+  const [history, setHistory] = useState<AuditEntryView[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}`);
+        if (!response.ok) throw new Error('Failed to fetch project');
+        setProject(await response.json());
+      } catch (error) {
+        console.error('Error fetching project:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch project');
+      }
+    };
+    fetchProject();
+  }, [projectId]);
+
+  // History is loaded the first time its tab is opened
+  useEffect(() => {
+    if (activeTab !== 'history' || history) return;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/audit?projectId=${projectId}&limit=500`);
+        if (!response.ok) throw new Error('Failed to fetch project history');
+        const data = await response.json();
+        setHistory(data.entries);
+      } catch (error) {
+        console.error('Error fetching project history:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch project history');
+      }
+    };
+    fetchHistory();
+  }, [activeTab, history, projectId]);
+
+  const spinner = (
+    <div className="flex items-center justify-center py-12">
+      <Loader className="w-6 h-6 animate-spin text-blue-600" />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-8 mx-auto p-5 border w-full max-w-5xl bg-white rounded-lg shadow-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between pb-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{project?.name || 'Project'}</h3>
+            {project && (
+              <p className="text-sm text-gray-500">
+                {project.code} • {project.projectType.name} ({project.tier.name})
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200 mb-4">
+          <nav className="-mb-px flex space-x-8">
+            {TABS.map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2 ${
+                    activeTab === tab.id
+                      ? 'border-primary-500 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span>{tab.name}</span>
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {activeTab === 'overview' && (
+          !project ? spinner : (
+            <div className="space-y-4">
+              <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Status</dt>
+                  <dd className="font-medium text-gray-900">{projectStatusLabel(project.status)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Target start</dt>
+                  <dd className="font-medium text-gray-900">{formatDate(project.targetStartDate)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Mode</dt>
+                  <dd className="font-medium text-gray-900 capitalize">{project.mode.replace('_', ' ')}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Blocks</dt>
+                  <dd className="font-medium text-gray-900">{project.projectBlocks.length}</dd>
+                </div>
+              </dl>
+
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Block</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Planned</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weeks</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Allocated</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {project.projectBlocks.map(projectBlock => (
+                    <tr key={projectBlock.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <span className="font-medium">{projectBlock.block.code}</span> {projectBlock.block.name}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {formatDate(projectBlock.plannedStart)} – {formatDate(projectBlock.plannedEnd)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{projectBlock.plannedDurationWeeks}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {projectBlock.allocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0)}h
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700 capitalize">{projectBlock.status.replace('_', ' ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {project.notes && <p className="text-sm text-gray-600">{project.notes}</p>}
+            </div>
+          )
+        )}
+
+        {activeTab === 'lifecycle' && <ProjectLifecycle projectId={projectId} />}
+
+        {activeTab === 'progress' && <ProjectProgress projectId={projectId} />}
+
+        {activeTab === 'budget' && <ProjectBudgetLines projectId={projectId} />}
+
+        {activeTab === 'baselines' && <ProjectBaselines projectId={projectId} />}
+
+        {activeTab === 'risk' && <ProjectScheduleRisk projectId={projectId} />}
+
+        {activeTab === 'history' && (
+          !history ? spinner : <AuditEntryList entries={history} />
+        )}
+      </div>
+    </div>
+  );
+}
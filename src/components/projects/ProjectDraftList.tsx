@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, Trash2 } from 'lucide-react';
+import type { DraftShare } from './ProjectDraftSharing';
+
+interface ProjectDraft {
+  id: string;
+  title: string;
+  currentStep: number;
+  createdByName: string;
+  isOwner: boolean;
+  sharedWith: DraftShare[];
+  updatedAt: string;
+}
+
+interface ProjectDraftListProps {
+  // Changes whenever the wizard closes, so saved progress shows up
+  refreshKey: number;
+  onOpen: (draftId: string) => void;
+}
+
+// Unfinished wizard runs of the user and those shared with them for review
+export default function ProjectDraftList({ refreshKey, onOpen }: ProjectDraftListProps) {
+  const [drafts, setDrafts] = useState<ProjectDraft[]>([]);
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/project-drafts');
+      if (response.ok) {
+        setDrafts(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching project drafts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts, refreshKey]);
+
+  const deleteDraft = async (draft: ProjectDraft) => {
+    if (!confirm(`Delete the draft "${draft.title}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/project-drafts/${draft.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const error = await response.json();
+        alert(error.error || 'Failed to delete draft');
+        return;
+      }
+      await fetchDrafts();
+    } catch (error) {
+      console.error('Error deleting project draft:', error);
+    }
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-6">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-900">Drafts</h2>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {drafts.map(draft => (
+          <li key={draft.id} className="px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center min-w-0">
+              <FileText className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{draft.title}</p>
+                <p className="text-xs text-gray-500">
+                  Step {draft.currentStep} of 6 · saved {new Date(draft.updatedAt).toLocaleString()}
+                  {draft.isOwner
+                    ? draft.sharedWith.length > 0 && ` · shared with ${draft.sharedWith.map(share => share.userName).join(', ')}`
+                    : ` · shared by ${draft.createdByName}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => onOpen(draft.id)}
+                className="text-sm font-medium text-primary-600 hover:text-primary-800"
+              >
+                {draft.isOwner ? 'Resume' : 'Review'}
+              </button>
+              {draft.isOwner && (
+                <button
+                  onClick={() => deleteDraft(draft)}
+                  className="text-red-600 hover:text-red-900"
+                  title="Delete draft"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface Colleague {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export interface DraftShare {
+  userId: string;
+  userName: string;
+}
+
+interface ProjectDraftSharingProps {
+  draftId: string;
+  ownerId: string;
+  sharedWith: DraftShare[];
+  onShared: (sharedWith: DraftShare[]) => void;
+}
+
+// Colleagues who may open a draft to review it; they cannot change it
+export default function ProjectDraftSharing({ draftId, ownerId, sharedWith, onShared }: ProjectDraftSharingProps) {
+  const [colleagues, setColleagues] = useState<Colleague[]>([]);
+  const [selected, setSelected] = useState<string[]>(sharedWith.map(share => share.userId));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchColleagues = async () => {
+      try {
+        const response = await fetch('/api/users');
+        if (!response.ok) throw new Error('Failed to fetch users');
+        const users: Colleague[] = await response.json();
+        setColleagues(users.filter(user => user.id !== ownerId));
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        setError('Failed to fetch users');
+      }
+    };
+
+    fetchColleagues();
+  }, [ownerId]);
+
+  const toggle = (userId: string) => {
+    setSelected(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const saveSharing = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/project-drafts/${draftId}/shares`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userIds: selected }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.validationErrors?.[0]?.message || result.error || 'Failed to share draft');
+      }
+
+      onShared(result.sharedWith);
+    } catch (error) {
+      console.error('Error sharing draft:', error);
+      setError(error instanceof Error ? error.message : 'Failed to share draft');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Colleagues you share the draft with can open it from their projects page to review it. Only you can change it.
+      </p>
+
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+
+      <div className="max-h-40 overflow-y-auto grid grid-cols-2 gap-2">
+        {colleagues.map(colleague => (
+          <label key={colleague.id} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={selected.includes(colleague.id)}
+              onChange={() => toggle(colleague.id)}
+              className="mr-2"
+            />
+            {colleague.name}
+            <span className="ml-1 text-xs text-gray-400">{colleague.username}</span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={saveSharing}
+        disabled={saving}
+        className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+        Save Sharing
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowRight, Loader } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import {
+  type ProjectStatus,
+  type ProjectTransitionOption,
+  PROJECT_STATUS_LABELS,
+  TENTATIVE_PROJECT_STATUSES,
+  releasedAllocationWeeks,
+} from '@/lib/project-lifecycle';
+
+interface ProjectLifecycleProps {
+  projectId: string;
+}
+
+interface StatusChange {
+  id: string;
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  reason: string | null;
+  releasedAllocations: number;
+  changedByName: string;
+  createdAt: string;
+}
+
+interface LifecycleData {
+  status: ProjectStatus;
+  winProbability: number | null;
+  transitions: ProjectTransitionOption[];
+  history: StatusChange[];
+}
+
+export default function ProjectLifecycle({ projectId }: ProjectLifecycleProps) {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const [lifecycle, setLifecycle] = useState<LifecycleData | null>(null);
+  const [reason, setReason] = useState('');
+  const [winProbability, setWinProbability] = useState('');
+  const [saving, setSaving] = useState<ProjectStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLifecycle = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/lifecycle`);
+      if (!response.ok) throw new Error('Failed to fetch project lifecycle');
+      const data: LifecycleData = await response.json();
+      setLifecycle(data);
+      setWinProbability(data.winProbability === null ? '' : String(data.winProbability));
+    } catch (error) {
+      console.error('Error fetching project lifecycle:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch project lifecycle');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchLifecycle();
+  }, [fetchLifecycle]);
+
+  const moveTo = async (status: ProjectStatus) => {
+    const released = lifecycle && releasedAllocationWeeks(lifecycle.status, status);
+    if (
+      released &&
+      !confirm(`Move to ${PROJECT_STATUS_LABELS[status]}? ${
+        released === 'all'
+          ? 'All of its tentative allocations will be released.'
+          : status === 'on_hold'
+            ? 'Allocations for weeks that have not started will be released, and will need to be re-planned before it resumes.'
+            : 'Allocations for weeks that have not started will be released.'
+      }`)
+    ) {
+      return;
+    }
+
+    setSaving(status);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, statusReason: reason || undefined }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error([errorData.error || 'Failed to change status', ...(errorData.blockers || [])].join('. '));
+      }
+
+      setReason('');
+      await fetchLifecycle();
+    } catch (error) {
+      console.error('Error changing project status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change status');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const saveWinProbability = async () => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ winProbability: winProbability === '' ? null : Number(winProbability) }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to save win probability');
+      }
+
+      await fetchLifecycle();
+    } catch (error) {
+      console.error('Error saving win probability:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save win probability');
+    }
+  };
+
+  if (!lifecycle) {
+    return error ? (
+      <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const inPipeline = TENTATIVE_PROJECT_STATUSES.includes(lifecycle.status);
+  const canEnterPipeline = lifecycle.transitions.some(option => TENTATIVE_PROJECT_STATUSES.includes(option.status));
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm">
+        <span className="text-gray-500">Current status: </span>
+        <span className="font-medium text-gray-900">{PROJECT_STATUS_LABELS[lifecycle.status]}</span>
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      )}
+
+      {/* Win probability weights the tentative allocations of a pipeline project */}
+      {(canEnterPipeline || inPipeline) && (
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="label">Win probability (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={winProbability}
+              onChange={(e) => setWinProbability(e.target.value)}
+              disabled={!canEditProjects}
+              className="input-field w-32"
+            />
+          </div>
+          {canEditProjects && (
+            <button
+              onClick={saveWinProbability}
+              disabled={winProbability === String(lifecycle.winProbability ?? '')}
+              className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Next statuses */}
+      {lifecycle.transitions.length > 0 ? (
+        <div className="space-y-3">
+          {canEditProjects && (
+            <input
+              type="text"
+              placeholder="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              className="input-field"
+            />
+          )}
+          <ul className="space-y-2">
+            {lifecycle.transitions.map(transition => (
+              <li key={transition.status} className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-md">
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">
+                    {PROJECT_STATUS_LABELS[transition.status]}
+                    {inPipeline && (
+                      <span className="text-gray-500"> · {transition.status === 'cancelled' ? 'deal lost' : 'deal won'}</span>
+                    )}
+                  </div>
+                  {transition.blockers.length > 0 ? (
+                    <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
+                      {transition.blockers.map(blocker => <li key={blocker}>{blocker}</li>)}
+                    </ul>
+                  ) : releasedAllocationWeeks(lifecycle.status, transition.status) === 'all' ? (
+                    <p className="mt-1 text-xs text-gray-500">Releases all of its tentative allocations</p>
+                  ) : releasedAllocationWeeks(lifecycle.status, transition.status) === 'future' ? (
+                    <p className="mt-1 text-xs text-gray-500">Releases allocations for weeks that have not started</p>
+                  ) : inPipeline && (
+                    <p className="mt-1 text-xs text-gray-500">Confirms its tentative allocations</p>
+                  )}
+                </div>
+                {canEditProjects && (
+                  <button
+                    onClick={() => moveTo(transition.status)}
+                    disabled={saving !== null || transition.blockers.length > 0}
+                    className="btn-secondary text-sm inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving === transition.status
+                      ? <Loader className="w-4 h-4 mr-1 animate-spin" />
+                      : <ArrowRight className="w-4 h-4 mr-1" />}
+                    Move
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">The project is {PROJECT_STATUS_LABELS[lifecycle.status].toLowerCase()}; its lifecycle has ended.</p>
+      )}
+
+      {/* Status history */}
+      <div>
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Status history</p>
+        {lifecycle.history.length === 0 ? (
+          <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 text-sm">
+            {lifecycle.history.map(change => (
+              <li key={change.id} className="py-2">
+                <div className="text-gray-900">
+                  {PROJECT_STATUS_LABELS[change.fromStatus] ?? change.fromStatus} → {PROJECT_STATUS_LABELS[change.toStatus] ?? change.toStatus}
+                  {change.releasedAllocations > 0 && (
+                    <span className="text-gray-500"> · released {change.releasedAllocations} allocations</span>
+                  )}
+                </div>
+                {change.reason && <div className="text-gray-600">{change.reason}</div>}
+                <div className="text-xs text-gray-500">
+                  {change.changedByName} · {new Date(change.createdAt).toLocaleString()}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader, Save } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { BLOCK_STATUSES, type BlockStatus } from '@/lib/project-lifecycle';
+
+interface ProjectProgressProps {
+  projectId: string;
+}
+
+interface ProgressBlockView {
+  id: string;
+  code: string;
+  blockName: string;
+  status: BlockStatus;
+  plannedStart: string;
+  plannedEnd: string;
+  percentComplete: number;
+  actualStart: string | null;
+  actualEnd: string | null;
+  remainingHours: number | null;
+  plannedHours: number;
+  forecastStart: string;
+  forecastEnd: string;
+  slipDays: number;
+}
+
+interface ProgressData {
+  canReportProgress: boolean;
+  plannedEnd: string | null;
+  forecastEnd: string | null;
+  blocks: ProgressBlockView[];
+}
+
+interface ProgressForm {
+  status: BlockStatus;
+  percentComplete: string;
+  actualStart: string;
+  actualEnd: string;
+  remainingHours: string;
+}
+
+const STATUS_LABELS: Record<BlockStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+const toInput = (value: string | null) => (value ? value.split('T')[0] : '');
+
+const formOf = (block: ProgressBlockView): ProgressForm => ({
+  status: block.status,
+  percentComplete: String(block.percentComplete),
+  actualStart: toInput(block.actualStart),
+  actualEnd: toInput(block.actualEnd),
+  remainingHours: block.remainingHours === null ? '' : String(block.remainingHours),
+});
+
+export default function ProjectProgress({ projectId }: ProjectProgressProps) {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const [progress, setProgress] = useState<ProgressData | null>(null);
+  const [forms, setForms] = useState<Record<string, ProgressForm>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/progress`);
+      if (!response.ok) throw new Error('Failed to fetch project progress');
+      const data: ProgressData = await response.json();
+      setProgress(data);
+      setForms(Object.fromEntries(data.blocks.map(block => [block.id, formOf(block)])));
+    } catch (error) {
+      console.error('Error fetching project progress:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch project progress');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [fetchProgress]);
+
+  const updateForm = (blockId: string, changes: Partial<ProgressForm>) => {
+    setForms(current => ({ ...current, [blockId]: { ...current[blockId], ...changes } }));
+  };
+
+  const saveProgress = async (block: ProgressBlockView) => {
+    const form = forms[block.id];
+    setSavingId(block.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/progress`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectBlockId: block.id,
+          status: form.status,
+          percentComplete: parseFloat(form.percentComplete) || 0,
+          actualStart: form.actualStart ? new Date(form.actualStart).toISOString() : null,
+          actualEnd: form.actualEnd ? new Date(form.actualEnd).toISOString() : null,
+          remainingHours: form.remainingHours === '' ? null : parseFloat(form.remainingHours),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to save progress');
+      }
+
+      const result = await response.json();
+      setMessage(
+        result.movedBlocks > 0
+          ? `Saved. The reforecast moved ${result.movedBlocks} block${result.movedBlocks === 1 ? '' : 's'} and ${result.movedAllocations} allocations.`
+          : 'Saved.'
+      );
+      await fetchProgress();
+    } catch (error) {
+      console.error('Error saving block progress:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save progress');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!progress) {
+    return error ? (
+      <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const editable = canEditProjects && progress.canReportProgress;
+
+  return (
+    <div className="space-y-4">
+      {progress.plannedEnd && progress.forecastEnd && (
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Planned end</dt>
+            <dd className="font-medium text-gray-900">{formatDate(progress.plannedEnd)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Forecast end</dt>
+            <dd className={`font-medium ${progress.forecastEnd > progress.plannedEnd ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatDate(progress.forecastEnd)}
+            </dd>
+          </div>
+        </dl>
+      )}
+
+      {!progress.canReportProgress && (
+        <p className="text-sm text-gray-500">Progress can be reported once the project is approved.</p>
+      )}
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">{message}</div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Block</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">% done</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actual start</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actual end</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hours left</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
+              {editable && <th className="px-3 py-2" />}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {progress.blocks.map(block => {
+              const form = forms[block.id];
+              if (!form) return null;
+              return (
+                <tr key={block.id}>
+                  <td className="px-3 py-2 text-gray-900">
+                    <span className="font-medium">{block.code}</span> {block.blockName}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={form.status}
+                      disabled={!editable}
+                      onChange={(e) => updateForm(block.id, { status: e.target.value as BlockStatus })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {BLOCK_STATUSES.map(status => (
+                        <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={form.status === 'completed' ? '100' : form.percentComplete}
+                      disabled={!editable || form.status !== 'in_progress'}
+                      onChange={(e) => updateForm(block.id, { percentComplete: e.target.value })}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="date"
+                      value={form.actualStart}
+                      disabled={!editable || form.status === 'not_started'}
+                      onChange={(e) => updateForm(block.id, { actualStart: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="date"
+                      value={form.actualEnd}
+                      disabled={!editable || form.status !== 'completed'}
+                      onChange={(e) => updateForm(block.id, { actualEnd: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.remainingHours}
+                      placeholder={`of ${Math.round(block.plannedHours)}h`}
+                      disabled={!editable || form.status !== 'in_progress'}
+                      onChange={(e) => updateForm(block.id, { remainingHours: e.target.value })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                    {formatDate(block.forecastStart)} – {formatDate(block.forecastEnd)}
+                    {block.slipDays !== 0 && (
+                      <div className={`text-xs ${block.slipDays > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {block.slipDays > 0 ? '+' : ''}{block.slipDays} working days
+                      </div>
+                    )}
+                  </td>
+                  {editable && (
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => saveProgress(block)}
+                        disabled={savingId !== null}
+                        className="inline-flex items-center px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        {savingId === block.id
+                          ? <Loader className="w-4 h-4 mr-1 animate-spin" />
+                          : <Save className="w-4 h-4 mr-1" />}
+                        Save
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Actual end is the first day after the work finished, like planned ends. Saving reforecasts the blocks that
+        depend on this one and moves their allocations with them; their planned dates stay as planned.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader, RefreshCw } from 'lucide-react';
+import ScheduleRiskSummary from '@/components/projects/ScheduleRiskSummary';
+import type { ScheduleRiskResult } from '@/lib/schedule-risk';
+
+interface ProjectScheduleRiskProps {
+  projectId: string;
+}
+
+const ITERATION_CHOICES = [1000, 2000, 5000, 10000];
+
+export default function ProjectScheduleRisk({ projectId }: ProjectScheduleRiskProps) {
+  const [iterations, setIterations] = useState(2000);
+  const [risk, setRisk] = useState<ScheduleRiskResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSimulation = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/projects/${projectId}/schedule-risk`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ iterations }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to analyze schedule risk');
+      }
+
+      setRisk(await response.json());
+    } catch (error) {
+      console.error('Error analyzing schedule risk:', error);
+      setError(error instanceof Error ? error.message : 'Failed to analyze schedule risk');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, iterations]);
+
+  useEffect(() => {
+    runSimulation();
+  }, [runSimulation]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Finish dates from simulating block durations between their optimistic and pessimistic estimates.
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={iterations}
+            onChange={(e) => setIterations(parseInt(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            {ITERATION_CHOICES.map(choice => (
+              <option key={choice} value={choice}>{choice.toLocaleString()} runs</option>
+            ))}
+          </select>
+          <button
+            onClick={runSimulation}
+            disabled={loading}
+            className="inline-flex items-center px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Simulate
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {risk ? (
+        <ScheduleRiskSummary risk={risk} />
+      ) : loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ScheduleRiskResult } from '@/lib/schedule-risk';
+
+interface ScheduleRiskSummaryProps {
+  risk: ScheduleRiskResult;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function ScheduleRiskSummary({ risk }: ScheduleRiskSummaryProps) {
+  // Calendar days after the planned finish
+  const slip = (value: string) => Math.round((new Date(value).getTime() - new Date(risk.plannedFinish).getTime()) / DAY_MS);
+  const chartData = risk.curve.map(point => ({
+    time: new Date(point.date).getTime(),
+    probability: Math.round(point.probability * 100),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+        <div>
+          <dt className="text-gray-500">Planned finish</dt>
+          <dd className="font-medium text-gray-900">{formatDate(risk.plannedFinish)}</dd>
+          <dd className="text-xs text-gray-500">{formatPercent(risk.onTimeProbability)} chance to meet</dd>
+        </div>
+        {([['P50', risk.p50], ['P80', risk.p80], ['P95', risk.p95]] as const).map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-gray-500">{label} finish</dt>
+            <dd className="font-medium text-gray-900">{formatDate(value)}</dd>
+            <dd className={`text-xs ${slip(value) > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+              {slip(value) === 0 ? 'as planned' : `${slip(value) > 0 ? '+' : ''}${slip(value)}d vs plan`}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Completion probability */}
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+              tick={{ fontSize: 12 }}
+            />
+            <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+            <Tooltip
+              labelFormatter={(time: number) => `Finished by ${formatDate(new Date(time).toISOString())}`}
+              formatter={(value: number) => [`${value}%`, 'Probability']}
+            />
+            <ReferenceLine x={new Date(risk.plannedFinish).getTime()} stroke="#6b7280" strokeDasharray="4 4" label={{ value: 'Plan', fontSize: 11 }} />
+            <Area type="stepAfter" dataKey="probability" stroke="#2563eb" fill="#bfdbfe" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Blocks driving the finish */}
+      {risk.drivers.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Most often on the critical path</p>
+          <ul className="space-y-1">
+            {risk.drivers.slice(0, 8).map(driver => (
+              <li key={driver.blockCode} className="flex items-center gap-3 text-sm">
+                <span className="w-40 truncate text-gray-900" title={driver.blockName}>
+                  {driver.blockCode} <span className="text-gray-500">{driver.blockName}</span>
+                </span>
+                <div className="flex-1 h-2 bg-gray-100 rounded">
+                  <div className="h-2 bg-red-400 rounded" style={{ width: formatPercent(driver.criticality) }} />
+                </div>
+                <span className="w-12 text-right text-gray-600">{formatPercent(driver.criticality)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {risk.iterations.toLocaleString()} simulated runs.
+        {risk.fixedDurationBlocks.length > 0 &&
+          ` ${risk.fixedDurationBlocks.join(', ')} ${risk.fixedDurationBlocks.length === 1 ? 'has' : 'have'} no duration range in master data and ${risk.fixedDurationBlocks.length === 1 ? 'was' : 'were'} simulated at the planned duration.`}
+      </p>
+    </div>
+  );
+}
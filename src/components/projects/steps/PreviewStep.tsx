@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { CreateProjectWizardInput } from '@/lib/validations/projects';
+import { type DependencyLink, formatDependencyLink } from '@/lib/dependencies';
+import ScheduleRiskSummary from '@/components/projects/ScheduleRiskSummary';
 import { Eye, Calendar, Clock, DollarSign, AlertTriangle, CheckCircle, RefreshCw, Package } from 'lucide-react';
 
 interface PreviewStepProps {
@@ -162,6 +164,30 @@ export default function PreviewStep({ formData, preview, isLoading, onRegenerate
                 </div>
               </div>
 
+              {/* Priority Fit Outcome */}
+              {preview.projectPlan.priorityFit && (
+                <div className={`rounded-lg p-3 border ${
+                  preview.projectPlan.priorityFit.shiftWeeks > 0
+                    ? 'bg-yellow-50 border-yellow-200'
+                    : 'bg-green-50 border-green-200'
+                }`}>
+                  <p className="text-sm font-medium text-gray-900">
+                    {preview.projectPlan.priorityFit.shiftWeeks > 0
+                      ? `Start moved ${preview.projectPlan.priorityFit.shiftWeeks} week${preview.projectPlan.priorityFit.shiftWeeks > 1 ? 's' : ''} later (requested ${formatDate(preview.projectPlan.priorityFit.requestedStart)})`
+                      : preview.projectPlan.priorityFit.feasible
+                        ? 'Requested start date can be staffed'
+                        : 'No staffable start date found'}
+                  </p>
+                  {preview.projectPlan.priorityFit.reasons?.length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-700">
+                      {preview.projectPlan.priorityFit.reasons.map((reason: string, index: number) => (
+                        <li key={index}>• {reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Planning Summary */}
               <div className="bg-gray-50 rounded-lg p-3">
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -176,6 +202,23 @@ export default function PreviewStep({ formData, preview, isLoading, onRegenerate
                 </div>
               </div>
 
+              {/* Critical Path */}
+              {preview.projectPlan.criticalPath?.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Critical Path</p>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {preview.projectPlan.criticalPath.map((blockCode: string, index: number) => (
+                      <React.Fragment key={blockCode}>
+                        {index > 0 && <span className="text-xs text-gray-400">→</span>}
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700">
+                          {blockCode}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Warnings */}
               {preview.validation.warnings?.length > 0 && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -208,6 +251,16 @@ export default function PreviewStep({ formData, preview, isLoading, onRegenerate
         </div>
       </div>
 
+      {/* Schedule Risk */}
+      {preview?.scheduleRisk && (
+        <div>
+          <h4 className="text-lg font-medium text-gray-900 mb-4">Schedule Risk</h4>
+          <div className="card">
+            <ScheduleRiskSummary risk={preview.scheduleRisk} />
+          </div>
+        </div>
+      )}
+
       {/* Project Blocks Detail */}
       {preview?.projectPlan?.blocks && (
         <div>
@@ -222,13 +275,36 @@ export default function PreviewStep({ formData, preview, isLoading, onRegenerate
                         {block.sequenceIndex}
                       </div>
                       <div>
-                        <h5 className="text-sm font-medium text-gray-900">{block.blockName}</h5>
+                        <div className="flex items-center">
+                          <h5 className="text-sm font-medium text-gray-900">{block.blockName}</h5>
+                          {block.isCritical ? (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700">
+                              Critical
+                            </span>
+                          ) : block.slackDays > 0 && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-50 text-green-700">
+                              {block.slackDays}d slack
+                            </span>
+                          )}
+                        </div>
                         <p className="text-xs text-gray-500 mb-2">{block.blockCode}</p>
                         <div className="flex items-center text-xs text-gray-500">
                           <Calendar className="h-3 w-3 mr-1" />
                           {formatDate(block.plannedStart)} - {formatDate(block.plannedEnd)}
                           <span className="ml-2">({block.plannedDurationWeeks} weeks)</span>
                         </div>
+                        {block.dependencies?.length > 0 && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            After: {block.dependencies.map((link: DependencyLink) =>
+                              `${link.predecessor} (${formatDependencyLink(link)})`
+                            ).join(', ')}
+                          </p>
+                        )}
+                        {block.slackDays > 0 && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            Latest start: {formatDate(block.latestStart)} · Latest finish: {formatDate(block.latestFinish)}
+                          </p>
+                        )}
                         {block.deliverables?.length > 0 && (
                           <div className="mt-2">
                             <div className="flex items-center text-xs text-gray-500 mb-1">
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { UseFormRegister, FieldErrors, UseFormWatch, UseFormSetValue } from 'react-hook-form';
 import { CreateProjectWizardInput } from '@/lib/validations/projects';
 import { Settings, ChevronRight, Info } from 'lucide-react';
@@ -42,12 +42,15 @@ export default function ProjectTypeStep({ register, errors, watch, setValue }: P
     fetchProjectTypes();
   }, []);
 
-  // When project type changes, clear tier selection
+  // When project type changes, clear tier selection; a type and tier already
+  // chosen, as in a resumed draft, are kept when the step opens
+  const previousProjectTypeId = useRef(selectedProjectTypeId);
   useEffect(() => {
-    if (selectedProjectTypeId) {
+    if (selectedProjectTypeId && selectedProjectTypeId !== previousProjectTypeId.current) {
       setValue('tierId', '');
       setTierDetails(null);
     }
+    previousProjectTypeId.current = selectedProjectTypeId;
   }, [selectedProjectTypeId, setValue]);
 
   // When tier changes, fetch tier details
@@ -94,7 +94,7 @@ export default function ResourceAllocationStep({ register, errors, watch, setVal
 
   // Watch form values to trigger recommendations when project structure changes
   const watchedValues = watch();
-  const { projectTypeId, tierId, targetStartDate, mode, resourceAllocations } = watchedValues;
+  const { projectTypeId, tierId, targetStartDate, mode, priority, resourceAllocations, template } = watchedValues;
   
   // Calculate project timeframe for capacity validation
   const projectTimeframe = useMemo(() => {
@@ -202,6 +202,8 @@ export default function ResourceAllocationStep({ register, errors, watch, setVal
           tierId,
           targetStartDate,
           mode,
+          priority,
+          template,
         }),
       });
 
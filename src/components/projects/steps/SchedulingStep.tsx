@@ -187,7 +187,7 @@ export default function SchedulingStep({ register, errors, watch, setValue }: Sc
                     </ul>
                   ) : (
                     <ul className="list-disc list-inside space-y-1">
-                      <li>Start date will be optimized based on resource availability</li>
+                      <li>Start moves to the earliest week the required skills mix can be staffed</li>
                       <li>Higher priority projects get resources first</li>
                       <li>May start later than target date if resources are not available</li>
                       <li>Best for internal projects with flexible timelines</li>
@@ -0,0 +1,143 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  AvailabilityPattern,
+  WEEKDAYS,
+  formatAvailabilityPattern,
+  patternWeeklyHours,
+} from '@/lib/working-calendar';
+
+interface AvailabilityPatternEditorProps {
+  value: AvailabilityPattern[];
+  onChange: (patterns: AvailabilityPattern[]) => void;
+  // Contracted hours, used to prefill a standard week
+  capacityHoursPerWeek: number;
+}
+
+const PRESETS = [
+  { label: 'Mon-Fri', days: [1, 2, 3, 4, 5] },
+  { label: 'Mon-Thu, Fri off', days: [1, 2, 3, 4] },
+  { label: 'Mon-Wed', days: [1, 2, 3] },
+];
+
+export default function AvailabilityPatternEditor({
+  value,
+  onChange,
+  capacityHoursPerWeek,
+}: AvailabilityPatternEditorProps) {
+  const standardDayHours = Math.round((capacityHoursPerWeek / 5) * 100) / 100 || 8;
+
+  const presetHours = (days: number[]) =>
+    Array.from({ length: 7 }, (_, weekday) => (days.includes(weekday) ? standardDayHours : 0));
+
+  const updatePattern = (index: number, changes: Partial<AvailabilityPattern>) => {
+    onChange(value.map((pattern, i) => (i === index ? { ...pattern, ...changes } : pattern)));
+  };
+
+  const updateDayHours = (index: number, weekday: number, hours: number) => {
+    const dayHours = [...value[index].dayHours];
+    dayHours[weekday] = hours;
+    updatePattern(index, { dayHours });
+  };
+
+  const addPattern = () => {
+    onChange([
+      ...value,
+      {
+        // The first pattern applies from the start; later ones from today by default
+        effectiveFrom: value.length === 0 ? null : new Date().toISOString().split('T')[0],
+        dayHours: presetHours(PRESETS[0].days),
+      },
+    ]);
+  };
+
+  const removePattern = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No working pattern: {capacityHoursPerWeek}h per week spread evenly over the working days.
+        </p>
+      )}
+
+      {value.map((pattern, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700">Effective from</label>
+              <input
+                type="date"
+                value={pattern.effectiveFrom || ''}
+                onChange={(e) => updatePattern(index, { effectiveFrom: e.target.value || null })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {!pattern.effectiveFrom && (
+                <span className="text-xs text-gray-500">always</span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => updatePattern(index, { dayHours: presetHours(preset.days) })}
+                  className="px-2 py-1 text-xs text-blue-600 bg-blue-50 rounded hover:bg-blue-100"
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => removePattern(index)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove pattern"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-7 gap-2">
+            {WEEKDAYS.map(day => (
+              <div key={day.value} className="text-center">
+                <label className="block text-xs font-medium text-gray-500 mb-1">{day.label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  value={pattern.dayHours[day.value]}
+                  onChange={(e) => updateDayHours(index, day.value, parseFloat(e.target.value) || 0)}
+                  className={`w-full px-2 py-1 text-sm text-center border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    pattern.dayHours[day.value] > 0 ? 'border-blue-300 bg-blue-50' : 'border-gray-300'
+                  }`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="mt-2 text-xs text-gray-500">
+            {patternWeeklyHours(pattern)}h per week
+            {patternWeeklyHours(pattern) > 0 && ` · ${formatAvailabilityPattern(pattern)}`}
+          </p>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addPattern}
+        className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-blue-600 bg-blue-100 hover:bg-blue-200"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        {value.length === 0 ? 'Add Working Pattern' : 'Add Pattern Change'}
+      </button>
+      <p className="text-xs text-gray-500">
+        Patterns replace the even weekly spread from their effective date. Holidays and calendar exceptions still apply.
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { Users, Clock, TrendingUp, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
 
 interface Resource {
   id: string;
@@ -8,10 +9,11 @@ interface Resource {
   employeeCode: string;
   homeTeam: string;
   employmentType: string;
-  monthlyRate: number;
+  // Only returned to roles that may see rates
+  monthlyRate?: number;
   capacityHoursPerWeek: number;
   derivedMetrics: {
-    hourlyRate: number;
+    hourlyRate?: number;
     weeklyCapacity: number;
     annualCapacity: number;
   };
@@ -29,9 +31,12 @@ interface CapacityOverviewProps {
 }
 
 export default function CapacityOverview({ resources }: CapacityOverviewProps) {
+  const { can } = useAuth();
+  const showRates = can('rates:view');
+
   // Calculate metrics
   const totalResources = resources.length;
-  const totalWeeklyCapacity = resources.reduce((sum, r) => sum + r.capacityHoursPerWeek, 0);
+  const totalWeeklyCapacity = resources.reduce((sum, r) => sum + r.derivedMetrics.weeklyCapacity, 0);
   const totalAnnualCapacity = resources.reduce((sum, r) => sum + r.derivedMetrics.annualCapacity, 0);
   
   // Calculate team breakdown
@@ -48,8 +53,8 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
     }
     
     acc[team].count += 1;
-    acc[team].weeklyCapacity += resource.capacityHoursPerWeek;
-    acc[team].totalCost += resource.monthlyRate;
+    acc[team].weeklyCapacity += resource.derivedMetrics.weeklyCapacity;
+    acc[team].totalCost += resource.monthlyRate || 0;
     
     acc[team].employmentTypes[resource.employmentType] = 
       (acc[team].employmentTypes[resource.employmentType] || 0) + 1;
@@ -85,10 +90,10 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
   // Calculate capacity utilization insights
   const avgWeeklyCapacity = totalResources > 0 ? totalWeeklyCapacity / totalResources : 0;
   const avgMonthlyRate = totalResources > 0 
-    ? resources.reduce((sum, r) => sum + r.monthlyRate, 0) / totalResources 
+    ? resources.reduce((sum, r) => sum + (r.monthlyRate || 0), 0) / totalResources 
     : 0;
   const avgHourlyRate = totalResources > 0 
-    ? resources.reduce((sum, r) => sum + r.derivedMetrics.hourlyRate, 0) / totalResources 
+    ? resources.reduce((sum, r) => sum + (r.derivedMetrics.hourlyRate || 0), 0) / totalResources 
     : 0;
 
   const getEmploymentTypeColor = (type: string) => {
@@ -120,7 +125,7 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
       <h3 className="text-lg font-medium text-gray-900 mb-6">Capacity Overview</h3>
       
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+      <div className={`grid grid-cols-1 gap-4 mb-8 ${showRates ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
         <div className="text-center p-4 bg-blue-50 rounded-lg">
           <Users className="h-8 w-8 text-blue-600 mx-auto mb-2" />
           <p className="text-2xl font-bold text-blue-900">{totalResources}</p>
@@ -139,11 +144,13 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
           <p className="text-sm text-purple-700">Avg per Resource</p>
         </div>
         
-        <div className="text-center p-4 bg-orange-50 rounded-lg">
-          <TrendingUp className="h-8 w-8 text-orange-600 mx-auto mb-2" />
-          <p className="text-2xl font-bold text-orange-900">${Math.round(avgHourlyRate)}</p>
-          <p className="text-sm text-orange-700">Avg Hourly Rate</p>
-        </div>
+        {showRates && (
+          <div className="text-center p-4 bg-orange-50 rounded-lg">
+            <TrendingUp className="h-8 w-8 text-orange-600 mx-auto mb-2" />
+            <p className="text-2xl font-bold text-orange-900">${Math.round(avgHourlyRate)}</p>
+            <p className="text-sm text-orange-700">Avg Hourly Rate</p>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -163,10 +170,12 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
                     <span className="text-gray-500">Weekly Capacity:</span>
                     <span className="ml-2 font-medium">{team.weeklyCapacity}h</span>
                   </div>
-                  <div>
-                    <span className="text-gray-500">Monthly Cost:</span>
-                    <span className="ml-2 font-medium">${team.totalCost.toLocaleString()}</span>
-                  </div>
+                  {showRates && (
+                    <div>
+                      <span className="text-gray-500">Monthly Cost:</span>
+                      <span className="ml-2 font-medium">${team.totalCost.toLocaleString()}</span>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="mt-2 flex flex-wrap gap-1">
@@ -226,19 +235,23 @@ export default function CapacityOverview({ resources }: CapacityOverviewProps) {
           <div>
             <h4 className="text-md font-medium text-gray-900 mb-4">Financial Summary</h4>
             <div className="bg-gray-50 rounded-lg p-4 space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Total Monthly Cost:</span>
-                <span className="font-medium">${(avgMonthlyRate * totalResources).toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Average Monthly Rate:</span>
-                <span className="font-medium">${Math.round(avgMonthlyRate).toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Average Hourly Rate:</span>
-                <span className="font-medium">${Math.round(avgHourlyRate)}</span>
-              </div>
-              <div className="flex justify-between text-sm border-t border-gray-200 pt-2">
+              {showRates && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Total Monthly Cost:</span>
+                    <span className="font-medium">${(avgMonthlyRate * totalResources).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Average Monthly Rate:</span>
+                    <span className="font-medium">${Math.round(avgMonthlyRate).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Average Hourly Rate:</span>
+                    <span className="font-medium">${Math.round(avgHourlyRate)}</span>
+                  </div>
+                </>
+              )}
+              <div className={`flex justify-between text-sm ${showRates ? 'border-t border-gray-200 pt-2' : ''}`}>
                 <span className="text-gray-600">Annual Capacity:</span>
                 <span className="font-medium">{totalAnnualCapacity.toLocaleString()} hours</span>
               </div>
@@ -0,0 +1,324 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { UserCheck, X } from 'lucide-react';
+import { useToast } from '@/components/ui/Toast';
+
+interface PlaceholderDemand {
+  placeholder: {
+    id: string;
+    employeeCode: string;
+    name: string;
+    homeTeam: string;
+    role: string | null;
+    capacityHoursPerWeek: number;
+  };
+  skills: Array<{
+    skillId: string;
+    skillCode: string;
+    skillName: string;
+    category: string;
+    level: number;
+  }>;
+  timeframe: { startDate: string; endDate: string } | null;
+  totalHours: number;
+  projects: Array<{
+    projectId: string;
+    projectCode: string;
+    projectName: string;
+    weeks: number;
+    hours: number;
+  }>;
+}
+
+interface Candidate {
+  resourceId: string;
+  resourceName: string;
+  employeeCode: string;
+  homeTeam: string;
+  overallScore: number;
+  analysis: {
+    skillMatch: { matchingSkills: string[]; missingSkills: string[] };
+    capacityFit: { canFit: boolean; availableHours: number };
+  };
+  reasoning: string[];
+}
+
+interface FillPlaceholderDialogProps {
+  placeholderId: string | null;
+  onClose: () => void;
+  onFilled: () => void;
+}
+
+export default function FillPlaceholderDialog({ placeholderId, onClose, onFilled }: FillPlaceholderDialogProps) {
+  const { toast } = useToast();
+  const [projectId, setProjectId] = useState('');
+  const [demand, setDemand] = useState<PlaceholderDemand | null>(null);
+  // Every project the placeholder is on, kept while the dialog is scoped to one of them
+  const [projects, setProjects] = useState<PlaceholderDemand['projects']>([]);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [selectedResourceId, setSelectedResourceId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [isFilling, setIsFilling] = useState(false);
+  const [fillError, setFillError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!placeholderId) return;
+
+    // The engine scores candidates against the placeholder's skills over the weeks it is booked
+    const loadCandidates = async () => {
+      try {
+        setLoading(true);
+        setFillError(null);
+        setSelectedResourceId('');
+
+        const params = new URLSearchParams({
+          placeholderId,
+          ...(projectId && { projectId }),
+        });
+        const demandResponse = await fetch(`/api/resources/placeholders/fill?${params}`);
+        if (!demandResponse.ok) throw new Error('Failed to load placeholder');
+        const data: PlaceholderDemand = await demandResponse.json();
+        setDemand(data);
+        if (!projectId) setProjects(data.projects);
+
+        if (!data.timeframe) {
+          setCandidates([]);
+          return;
+        }
+
+        const recommendationsResponse = await fetch('/api/resources/recommendations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            projectRequirements: [{
+              blockId: data.placeholder.id,
+              blockName: data.placeholder.name,
+              blockCode: data.placeholder.employeeCode,
+              duration: Math.max(...data.projects.map(project => project.weeks)),
+              requiredSkills: data.skills.map(skill => ({
+                skillId: skill.skillId,
+                skillName: skill.skillName,
+                category: skill.category,
+                minimumLevel: skill.level,
+                importance: 8,
+              })),
+              complexity: 5,
+              priority: 5,
+              estimatedEffort: data.totalHours,
+            }],
+            timeframe: data.timeframe,
+            preferences: {},
+          }),
+        });
+        if (!recommendationsResponse.ok) throw new Error('Failed to load recommendations');
+
+        const { recommendations } = await recommendationsResponse.json();
+        const ranked: Candidate[] = recommendations[0]?.recommendations ?? [];
+        setCandidates(ranked.slice(0, 5));
+        setSelectedResourceId(ranked[0]?.resourceId ?? '');
+      } catch (error) {
+        console.error('Error loading placeholder candidates:', error);
+        setFillError(error instanceof Error ? error.message : 'Failed to load candidates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCandidates();
+  }, [placeholderId, projectId]);
+
+  const handleClose = () => {
+    setDemand(null);
+    setCandidates([]);
+    setProjects([]);
+    setProjectId('');
+    setFillError(null);
+    onClose();
+  };
+
+  const handleFill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!placeholderId || !selectedResourceId) return;
+
+    setIsFilling(true);
+    setFillError(null);
+
+    try {
+      const response = await fetch('/api/resources/placeholders/fill', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          placeholderId,
+          resourceId: selectedResourceId,
+          ...(projectId && { projectId }),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setFillError(result.validationErrors?.[0]?.message || result.error || 'Failed to fill placeholder');
+        return;
+      }
+
+      const overbooked: Array<{ weekStartDate: string }> = result.overbookedWeeks;
+      if (overbooked.length > 0) {
+        toast.warning(
+          'Placeholder filled with overbooking',
+          `${result.message}. Overbooked in ${overbooked.length} week(s) from ${overbooked[0].weekStartDate}.`
+        );
+      } else {
+        toast.success('Placeholder filled', result.message);
+      }
+
+      handleClose();
+      onFilled();
+    } catch (error) {
+      console.error('Error filling placeholder:', error);
+      setFillError('An unexpected error occurred');
+    } finally {
+      setIsFilling(false);
+    }
+  };
+
+  if (!placeholderId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <UserCheck className="h-6 w-6 text-primary-600 mr-2" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              Fill {demand?.placeholder.name ?? 'Placeholder'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleFill} className="p-6 space-y-4">
+          {fillError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-700">{fillError}</p>
+            </div>
+          )}
+
+          {demand && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {demand.skills.map(skill => (
+                  <span key={skill.skillId} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {skill.skillName} · level {skill.level}
+                  </span>
+                ))}
+                {demand.skills.length === 0 && (
+                  <span className="text-sm text-gray-500">No skills set on this placeholder</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600">
+                {demand.totalHours}h booked
+                {demand.timeframe && (
+                  <> from {new Date(demand.timeframe.startDate).toLocaleDateString()} to {new Date(demand.timeframe.endDate).toLocaleDateString()}</>
+                )}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="label">Projects</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="input-field"
+              disabled={loading}
+            >
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.projectId} value={project.projectId}>
+                  {project.projectCode} — {project.hours}h over {project.weeks} week(s)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : demand && demand.totalHours === 0 ? (
+            <p className="text-sm text-gray-500">This placeholder holds no allocations to fill.</p>
+          ) : (
+            <div className="space-y-2">
+              <label className="label">Suggested resources</label>
+              {candidates.length === 0 && (
+                <p className="text-sm text-gray-500">No active resources to suggest.</p>
+              )}
+              {candidates.map(candidate => (
+                <label
+                  key={candidate.resourceId}
+                  className={`flex items-start p-3 border rounded-md cursor-pointer ${
+                    selectedResourceId === candidate.resourceId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="resourceId"
+                    checked={selectedResourceId === candidate.resourceId}
+                    onChange={() => setSelectedResourceId(candidate.resourceId)}
+                    className="mt-1 mr-3"
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">
+                        {candidate.resourceName} <span className="text-xs text-gray-500">{candidate.employeeCode} · {candidate.homeTeam}</span>
+                      </span>
+                      <span className="text-sm font-semibold text-gray-700">{candidate.overallScore}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {candidate.analysis.skillMatch.missingSkills.length > 0
+                        ? `Missing ${candidate.analysis.skillMatch.missingSkills.join(', ')}`
+                        : 'Has every required skill'}
+                      {' · '}
+                      {candidate.analysis.capacityFit.canFit
+                        ? `${Math.round(candidate.analysis.capacityFit.availableHours)}h free over the period`
+                        : 'Not enough free hours over the period'}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn-secondary"
+              disabled={isFilling}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary flex items-center"
+              disabled={isFilling || loading || !selectedResourceId}
+            >
+              <UserCheck className="h-4 w-4 mr-1" />
+              {isFilling ? 'Filling...' : 'Swap In'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Loader, Scale, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+
+interface LevelingPanelProps {
+  onClose: () => void;
+  // Called after a proposal was applied, to reload the schedule
+  onApplied: () => void;
+}
+
+// Dates arrive as JSON strings
+interface LevelingProposalView {
+  moves: Array<{
+    projectId: string;
+    projectCode: string;
+    projectBlockId: string;
+    blockCode: string;
+    fromStart: string;
+    fromEnd: string;
+    toStart: string;
+    toEnd: string;
+    shiftWeeks: number;
+    reason: string;
+  }>;
+  allocationMoves: Array<{
+    allocationId: string;
+    projectBlockId: string;
+    employeeCode: string;
+    fromWeek: string;
+    toWeek: string;
+    allocatedHours: number;
+  }>;
+  projectDelays: Array<{
+    projectId: string;
+    projectCode: string;
+    projectName: string;
+    priority: number;
+    fromFinish: string;
+    toFinish: string;
+    delayDays: number;
+  }>;
+  unresolved: Array<{ projectCode: string; blockCode: string; message: string }>;
+  overallocatedWeeksBefore: number;
+  overallocatedWeeksAfter: number;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export default function LevelingPanel({ onClose, onApplied }: LevelingPanelProps) {
+  const { can } = useAuth();
+  const [options, setOptions] = useState({ maxDelayWeeks: 12, allowProjectDelay: true });
+  const [proposal, setProposal] = useState<LevelingProposalView | null>(null);
+  // Applying computes the proposal again with the options it was made with
+  const [proposalOptions, setProposalOptions] = useState(options);
+  const [running, setRunning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [applied, setApplied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const runLeveling = async () => {
+    setRunning(true);
+    setError(null);
+    setApplied(null);
+
+    try {
+      const response = await fetch('/api/resources/leveling', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to level resources'));
+      }
+
+      setProposal(await response.json());
+      setProposalOptions(options);
+    } catch (error) {
+      console.error('Error leveling resources:', error);
+      setError(error instanceof Error ? error.message : 'Failed to level resources');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const applyProposal = async () => {
+    if (!proposal) return;
+    setApplying(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/resources/leveling', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          options: proposalOptions,
+          moves: proposal.moves.map(move => ({
+            projectBlockId: move.projectBlockId,
+            fromStart: move.fromStart,
+            shiftWeeks: move.shiftWeeks,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to apply leveling'));
+      }
+
+      const result = await response.json();
+      setApplied(`Moved ${result.movedBlocks} blocks and ${result.movedAllocations} weekly allocations in ${result.projectsChanged} projects.`);
+      setProposal(null);
+      onApplied();
+    } catch (error) {
+      console.error('Error applying leveling:', error);
+      setError(error instanceof Error ? error.message : 'Failed to apply leveling');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const allocationCount = (projectBlockId: string) =>
+    proposal?.allocationMoves.filter(move => move.projectBlockId === projectBlockId).length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-8 mx-auto p-5 border w-full max-w-5xl bg-white rounded-lg shadow-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between pb-4 mb-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Level Resources</h3>
+            <p className="text-sm text-gray-500">
+              Delays blocks of lower-priority planning and active projects until no resource is booked over capacity
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+          <div>
+            <label htmlFor="max-delay-weeks" className="block text-sm font-medium text-gray-700 mb-1">
+              Max delay per block (weeks)
+            </label>
+            <input
+              id="max-delay-weeks"
+              type="number"
+              min={1}
+              max={52}
+              value={options.maxDelayWeeks}
+              onChange={(e) => setOptions({ ...options, maxDelayWeeks: parseInt(e.target.value) || 1 })}
+              className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={options.allowProjectDelay}
+              onChange={(e) => setOptions({ ...options, allowProjectDelay: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span>Allow project finish dates to move (otherwise only within slack)</span>
+          </label>
+          <button
+            onClick={runLeveling}
+            disabled={running}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed sm:ml-auto"
+          >
+            {running ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Scale className="w-4 h-4 mr-2" />}
+            Propose
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {applied && (
+          <div className="mb-4 p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md flex items-center">
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {applied}
+          </div>
+        )}
+
+        {proposal && (
+          <div className="space-y-6">
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Overbooked resource weeks</dt>
+                <dd className="font-medium text-gray-900">
+                  {proposal.overallocatedWeeksBefore} → {proposal.overallocatedWeeksAfter}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Blocks moved</dt>
+                <dd className="font-medium text-gray-900">{proposal.moves.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Allocations moved</dt>
+                <dd className="font-medium text-gray-900">{proposal.allocationMoves.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Projects finishing later</dt>
+                <dd className="font-medium text-gray-900">{proposal.projectDelays.length}</dd>
+              </div>
+            </dl>
+
+            {proposal.moves.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {proposal.overallocatedWeeksBefore === 0
+                  ? 'No resource is booked over capacity; nothing to level.'
+                  : 'No block can be delayed within the limits to reduce overallocation.'}
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Block</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Proposed</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delay</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {proposal.moves.map(move => (
+                    <tr key={move.projectBlockId}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <span className="font-medium">{move.projectCode}</span> / {move.blockCode}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {formatDate(move.fromStart)} – {formatDate(move.fromEnd)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {formatDate(move.toStart)} – {formatDate(move.toEnd)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        +{move.shiftWeeks}w
+                        <div className="text-xs text-gray-500">{allocationCount(move.projectBlockId)} allocations</div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{move.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {proposal.projectDelays.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Finish dates</h4>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {proposal.projectDelays.map(delay => (
+                    <li key={delay.projectId}>
+                      <span className="font-medium">{delay.projectCode}</span> {delay.projectName} (priority {delay.priority}):{' '}
+                      {formatDate(delay.fromFinish)} → {formatDate(delay.toFinish)}{' '}
+                      <span className="text-red-600">+{delay.delayDays}d</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {proposal.unresolved.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                <h4 className="text-sm font-medium text-yellow-800 mb-2 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  Overallocation left unresolved
+                </h4>
+                <ul className="text-sm text-yellow-800 space-y-1">
+                  {proposal.unresolved.map(item => (
+                    <li key={`${item.projectCode}-${item.blockCode}`}>
+                      <span className="font-medium">{item.projectCode} / {item.blockCode}</span>: {item.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              {can('projects:edit') && (
+                <button
+                  onClick={applyProposal}
+                  disabled={applying || proposal.moves.length === 0}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {applying && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+                  Apply {proposal.moves.length} Moves
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, Plus, Trash2, Loader } from 'lucide-react';
+
+interface ResourceCalendarExceptionsProps {
+  resource: {
+    id: string;
+    name: string;
+    employeeCode: string;
+    capacityHoursPerWeek: number;
+  };
+  onClose: () => void;
+}
+
+interface CalendarException {
+  id: string;
+  date: string;
+  capacityOverrideHours: number | null;
+  reason: string | null;
+}
+
+const EXCEPTION_KINDS = [
+  { value: 'leave', label: 'Leave', reason: 'Leave', unavailable: true },
+  { value: 'training', label: 'Training', reason: 'Training', unavailable: true },
+  { value: 'part_time', label: 'Part-time day', reason: 'Part-time', unavailable: false },
+];
+
+const emptyForm = {
+  kind: 'leave',
+  startDate: '',
+  endDate: '',
+  hours: 4,
+  reason: '',
+};
+
+export default function ResourceCalendarExceptions({ resource, onClose }: ResourceCalendarExceptionsProps) {
+  const [exceptions, setExceptions] = useState<CalendarException[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const fetchExceptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const today = new Date().toISOString().split('T')[0];
+      const response = await fetch(
+        `/api/resources/calendar-exceptions?resourceId=${resource.id}&startDate=${today}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch calendar exceptions');
+      setExceptions(await response.json());
+    } catch (error) {
+      console.error('Error fetching calendar exceptions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch calendar exceptions');
+    } finally {
+      setLoading(false);
+    }
+  }, [resource.id]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const selectedKind = EXCEPTION_KINDS.find(kind => kind.value === form.kind) || EXCEPTION_KINDS[0];
+
+  const addException = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/resources/calendar-exceptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resourceId: resource.id,
+          startDate: new Date(form.startDate).toISOString(),
+          endDate: form.endDate ? new Date(form.endDate).toISOString() : undefined,
+          capacityOverrideHours: selectedKind.unavailable ? null : form.hours,
+          reason: form.reason || selectedKind.reason,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add calendar exception'));
+      }
+
+      setForm(emptyForm);
+      await fetchExceptions();
+    } catch (error) {
+      console.error('Error adding calendar exception:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add calendar exception');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteException = async (exception: CalendarException) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/resources/calendar-exceptions/${exception.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete calendar exception'));
+      }
+
+      await fetchExceptions();
+    } catch (error) {
+      console.error('Error deleting calendar exception:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete calendar exception');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-8 mx-auto p-5 border w-full max-w-2xl bg-white rounded-lg shadow-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between pb-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Calendar Exceptions</h3>
+            <p className="text-sm text-gray-500">
+              {resource.name} ({resource.employeeCode}) · {resource.capacityHoursPerWeek}h per week
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {/* Add exception */}
+        <form onSubmit={addException} className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {EXCEPTION_KINDS.map(kind => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hours available</label>
+            <input
+              type="number"
+              min="0"
+              max="24"
+              step="0.5"
+              value={selectedKind.unavailable ? 0 : form.hours}
+              disabled={selectedKind.unavailable}
+              onChange={(e) => setForm({ ...form, hours: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From *</label>
+            <input
+              type="date"
+              required
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={form.endDate}
+              min={form.startDate || undefined}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              type="text"
+              value={form.reason}
+              placeholder={selectedKind.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-2 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              A date range covers working days only; weekends and holidays are skipped.
+            </p>
+            <button
+              type="submit"
+              disabled={saving || !form.startDate}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add
+            </button>
+          </div>
+        </form>
+
+        {/* Upcoming exceptions */}
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <h4 className="text-md font-medium text-gray-900 mb-3">Upcoming</h4>
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : exceptions.length === 0 ? (
+            <p className="text-sm text-gray-500">No leave, training or part-time days recorded.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {exceptions.map(exception => (
+                  <tr key={exception.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {new Date(exception.date).toLocaleDateString(undefined, {
+                        weekday: 'short',
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        timeZone: 'UTC',
+                      })}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{exception.reason || '-'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {exception.capacityOverrideHours === null ? 'Unavailable' : `${exception.capacityOverrideHours}h`}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => deleteException(exception)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove exception"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
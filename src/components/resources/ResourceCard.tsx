@@ -1,7 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { Edit, Trash2, User, Calendar, DollarSign, Clock, Badge, MapPin } from 'lucide-react';
+import {
+  AvailabilityCalendar,
+  activeAvailabilityPattern,
+  formatAvailabilityPattern,
+} from '@/lib/working-calendar';
+import { Edit, Trash2, User, UserCheck, Calendar, CalendarOff, DollarSign, Clock, Badge, MapPin } from 'lucide-react';
 
 interface Resource {
   id: string;
@@ -9,12 +14,14 @@ interface Resource {
   employeeCode: string;
   homeTeam: string;
   employmentType: string;
-  monthlyRate: number;
+  // Only returned to roles that may see rates
+  monthlyRate?: number;
   capacityHoursPerWeek: number;
-  availabilityCalendar?: string;
+  availabilityCalendar?: AvailabilityCalendar | null;
   active: boolean;
+  placeholder?: boolean;
   derivedMetrics: {
-    hourlyRate: number;
+    hourlyRate?: number;
     weeklyCapacity: number;
     annualCapacity: number;
   };
@@ -29,12 +36,19 @@ interface Resource {
 
 interface ResourceCardProps {
   resource: Resource;
-  onEdit: (resource: Resource) => void;
-  onDelete: (resourceId: string) => void;
+  // Actions are left out for roles that cannot edit resources
+  onEdit?: (resource: Resource) => void;
+  onDelete?: (resourceId: string) => void;
+  onManageCalendar?: (resource: Resource) => void;
+  // Only offered on placeholders, to roles that can edit allocations
+  onFill?: (resourceId: string) => void;
 }
 
-export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCardProps) {
+export default function ResourceCard({ resource, onEdit, onDelete, onManageCalendar, onFill }: ResourceCardProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const workingPattern = resource.availabilityCalendar
+    ? activeAvailabilityPattern(resource.availabilityCalendar, new Date())
+    : null;
 
   const getEmploymentTypeColor = (type: string) => {
     switch (type) {
@@ -83,20 +97,42 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
           </div>
           
           <div className="flex items-center space-x-2">
-            <button
-              onClick={() => onEdit(resource)}
-              className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
-              title="Edit resource"
-            >
-              <Edit className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => onDelete(resource.id)}
-              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
-              title="Deactivate resource"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            {onFill && resource.placeholder && (
+              <button
+                onClick={() => onFill(resource.id)}
+                className="p-2 text-gray-400 hover:text-green-600 transition-colors"
+                title="Fill placeholder with a named resource"
+              >
+                <UserCheck className="w-4 h-4" />
+              </button>
+            )}
+            {onManageCalendar && (
+              <button
+                onClick={() => onManageCalendar(resource)}
+                className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                title="Leave, training and part-time days"
+              >
+                <CalendarOff className="w-4 h-4" />
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => onEdit(resource)}
+                className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                title="Edit resource"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={() => onDelete(resource.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                title="Deactivate resource"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </div>
 
@@ -105,6 +141,11 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getEmploymentTypeColor(resource.employmentType)}`}>
             {resource.employmentType}
           </span>
+          {resource.placeholder && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+              Placeholder
+            </span>
+          )}
           <div className="flex items-center text-sm text-gray-500">
             <MapPin className="w-4 h-4 mr-1" />
             {resource.homeTeam}
@@ -119,7 +160,9 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
             <div className="flex items-center justify-center text-green-600 mb-1">
               <DollarSign className="w-4 h-4 mr-1" />
             </div>
-            <p className="text-2xl font-bold text-gray-900">${resource.derivedMetrics.hourlyRate}</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {resource.derivedMetrics.hourlyRate !== undefined ? `$${resource.derivedMetrics.hourlyRate}` : '—'}
+            </p>
             <p className="text-xs text-gray-500">Hourly Rate</p>
           </div>
           
@@ -127,7 +170,7 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
             <div className="flex items-center justify-center text-blue-600 mb-1">
               <Clock className="w-4 h-4 mr-1" />
             </div>
-            <p className="text-2xl font-bold text-gray-900">{resource.capacityHoursPerWeek}h</p>
+            <p className="text-2xl font-bold text-gray-900">{resource.derivedMetrics.weeklyCapacity}h</p>
             <p className="text-xs text-gray-500">Weekly Capacity</p>
           </div>
         </div>
@@ -170,7 +213,9 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <span className="text-gray-500">Monthly Rate:</span>
-              <span className="ml-2 font-medium">${resource.monthlyRate.toLocaleString()}</span>
+              <span className="ml-2 font-medium">
+                {resource.monthlyRate !== undefined ? `$${resource.monthlyRate.toLocaleString()}` : '—'}
+              </span>
             </div>
             <div>
               <span className="text-gray-500">Annual Capacity:</span>
@@ -188,10 +233,10 @@ export default function ResourceCard({ resource, onEdit, onDelete }: ResourceCar
             </span>
           </div>
           
-          {resource.availabilityCalendar && (
+          {workingPattern && (
             <div className="flex items-center text-sm text-gray-500">
               <Calendar className="w-4 h-4 mr-1" />
-              Has Calendar
+              {formatAvailabilityPattern(workingPattern)}
             </div>
           )}
         </div>
@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, Loader } from 'lucide-react';
 import { useToast } from '@/components/ui/Toast';
+import AvailabilityPatternEditor from './AvailabilityPatternEditor';
+import ResourceRateHistory from './ResourceRateHistory';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { AvailabilityCalendar, AvailabilityPattern } from '@/lib/working-calendar';
 
 interface Skill {
   id: string;
@@ -24,11 +28,14 @@ interface Resource {
   name: string;
   employeeCode: string;
   homeTeam: string;
+  role?: string | null;
+  region?: string | null;
   employmentType: string;
-  monthlyRate: number;
+  monthlyRate?: number;
   capacityHoursPerWeek: number;
-  availabilityCalendar?: string;
+  availabilityCalendar?: AvailabilityCalendar | null;
   active: boolean;
+  placeholder?: boolean;
   skills?: ResourceSkill[];
 }
 
@@ -42,22 +49,29 @@ interface FormData {
   name: string;
   employeeCode: string;
   homeTeam: string;
+  role: string;
+  region: string;
   employmentType: string;
   monthlyRate: number;
   capacityHoursPerWeek: number;
-  availabilityCalendar: string;
+  placeholder: boolean;
+  availabilityPatterns: AvailabilityPattern[];
   skills: ResourceSkill[];
 }
 
 export default function ResourceForm({ resource, onSave, onCancel }: ResourceFormProps) {
+  const { can } = useAuth();
   const [formData, setFormData] = useState<FormData>({
     name: '',
     employeeCode: '',
     homeTeam: '',
+    role: '',
+    region: '',
     employmentType: 'FTE',
     monthlyRate: 0,
     capacityHoursPerWeek: 40,
-    availabilityCalendar: '',
+    placeholder: false,
+    availabilityPatterns: [],
     skills: [],
   });
 
@@ -105,10 +119,13 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
         name: resource.name,
         employeeCode: resource.employeeCode,
         homeTeam: resource.homeTeam,
+        role: resource.role || '',
+        region: resource.region || '',
         employmentType: resource.employmentType,
-        monthlyRate: resource.monthlyRate,
+        monthlyRate: resource.monthlyRate ?? 0,
         capacityHoursPerWeek: resource.capacityHoursPerWeek,
-        availabilityCalendar: resource.availabilityCalendar || '',
+        placeholder: resource.placeholder ?? false,
+        availabilityPatterns: resource.availabilityCalendar?.patterns || [],
         skills: resource.skills || [],
       });
     }
@@ -123,6 +140,12 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
     if (!formData.homeTeam.trim()) newErrors.homeTeam = 'Home team is required';
     if (formData.monthlyRate <= 0) newErrors.monthlyRate = 'Monthly rate must be positive';
     if (formData.capacityHoursPerWeek <= 0) newErrors.capacityHoursPerWeek = 'Capacity must be positive';
+    const effectiveDates = formData.availabilityPatterns.map(pattern => pattern.effectiveFrom || '');
+    if (formData.availabilityPatterns.some(pattern => pattern.dayHours.every(hours => hours <= 0))) {
+      newErrors.availabilityCalendar = 'Each working pattern needs at least one working day';
+    } else if (new Set(effectiveDates).size !== effectiveDates.length) {
+      newErrors.availabilityCalendar = 'Each working pattern needs a different effective date';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -136,8 +159,10 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
 
     setSaving(true);
     
+    const { availabilityPatterns, ...fields } = formData;
     const payload = {
-      ...formData,
+      ...fields,
+      availabilityCalendar: availabilityPatterns.length > 0 ? { patterns: availabilityPatterns } : null,
       skills: formData.skills.map(skill => ({
         skillId: skill.skillId,
         level: skill.level,
@@ -161,7 +186,7 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
     }).then(async (response) => {
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save resource');
+        throw new Error(errorData.validationErrors?.[0]?.message || errorData.error || 'Failed to save resource');
       }
       return response.json();
     });
@@ -301,6 +326,19 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
                 {errors.homeTeam && <p className="text-red-500 text-xs mt-1">{errors.homeTeam}</p>}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Role
+                </label>
+                <input
+                  type="text"
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., Senior Engineer (costed from its rate card)"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Employment Type *
@@ -317,6 +355,34 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Holiday Region
+                </label>
+                <input
+                  type="text"
+                  value={formData.region}
+                  onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., EG, UK (company-wide holidays always apply)"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.placeholder}
+                    onChange={(e) => setFormData({ ...formData, placeholder: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Placeholder for a role not yet staffed
+                </label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Set the skills and levels the role needs. Its hours count as demand and are costed at its rate, but add no capacity.
+                </p>
+              </div>
             </div>
           </div>
 
@@ -362,21 +428,23 @@ export default function ResourceForm({ resource, onSave, onCancel }: ResourceFor
             </div>
           </div>
 
+          {/* Rate History */}
+          {resource && can('rates:view') && (
+            <div className="mb-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Rate History</h4>
+              <ResourceRateHistory resourceId={resource.id} />
+            </div>
+          )}
+
           {/* Availability Calendar */}
           <div className="mb-6">
             <h4 className="text-md font-medium text-gray-900 mb-4">Availability</h4>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Availability Calendar (Optional)
-              </label>
-              <textarea
-                value={formData.availabilityCalendar}
-                onChange={(e) => setFormData({ ...formData, availabilityCalendar: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={3}
-                placeholder="Enter availability notes or calendar integration details..."
-              />
-            </div>
+            <AvailabilityPatternEditor
+              value={formData.availabilityPatterns}
+              onChange={(availabilityPatterns) => setFormData({ ...formData, availabilityPatterns })}
+              capacityHoursPerWeek={formData.capacityHoursPerWeek}
+            />
+            {errors.availabilityCalendar && <p className="text-red-500 text-xs mt-1">{errors.availabilityCalendar}</p>}
           </div>
 
           {/* Skills */}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ResourceRate {
+  id: string;
+  effectiveFrom: string;
+  costRate: number;
+  billingRate: number | null;
+  notes: string | null;
+}
+
+interface ResourceRateHistoryProps {
+  resourceId: string;
+}
+
+const emptyRate = {
+  effectiveFrom: '',
+  costRate: '',
+  billingRate: '',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+// Dated monthly rates of a resource; saved as they are added, apart from the resource form
+export default function ResourceRateHistory({ resourceId }: ResourceRateHistoryProps) {
+  const [rates, setRates] = useState<ResourceRate[]>([]);
+  const [rateForm, setRateForm] = useState(emptyRate);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/resources/rates?resourceId=${resourceId}`);
+      if (!response.ok) throw new Error('Failed to fetch rate history');
+      setRates(await response.json());
+    } catch (error) {
+      console.error('Error fetching rate history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch rate history');
+    }
+  }, [resourceId]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  // Not a form of its own: it sits inside the resource form
+  const addRate = async () => {
+    if (!rateForm.effectiveFrom || !rateForm.costRate) {
+      setError('Effective date and monthly cost are required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/resources/rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resourceId,
+          effectiveFrom: new Date(rateForm.effectiveFrom).toISOString(),
+          costRate: parseFloat(rateForm.costRate),
+          billingRate: rateForm.billingRate ? parseFloat(rateForm.billingRate) : null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add rate'));
+      }
+
+      setRateForm(emptyRate);
+      await fetchRates();
+    } catch (error) {
+      console.error('Error adding rate:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRate = async (rate: ResourceRate) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/resources/rates/${rate.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete rate'));
+      }
+      await fetchRates();
+    } catch (error) {
+      console.error('Error deleting rate:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete rate');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Rates from a date on override the role&apos;s rate card and the monthly rate above. Changes are saved immediately.
+      </p>
+
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+
+      {rates.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Cost</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Billing</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rates.map(rate => (
+              <tr key={rate.id}>
+                <td className="px-3 py-2 text-gray-900">{formatDate(rate.effectiveFrom)}</td>
+                <td className="px-3 py-2 text-gray-900">{formatCurrency(rate.costRate)}</td>
+                <td className="px-3 py-2 text-gray-500">{rate.billingRate !== null ? formatCurrency(rate.billingRate) : '—'}</td>
+                <td className="px-3 py-2 text-right">
+                  <button type="button" onClick={() => deleteRate(rate)} className="text-red-600 hover:text-red-900">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-end space-x-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={rateForm.effectiveFrom}
+            onChange={(e) => setRateForm({ ...rateForm, effectiveFrom: e.target.value })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Cost ($)</label>
+          <input
+            type="number"
+            min="0"
+            value={rateForm.costRate}
+            onChange={(e) => setRateForm({ ...rateForm, costRate: e.target.value })}
+            className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Billing ($)</label>
+          <input
+            type="number"
+            min="0"
+            value={rateForm.billingRate}
+            onChange={(e) => setRateForm({ ...rateForm, billingRate: e.target.value })}
+            className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Not billed"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={addRate}
+          disabled={saving}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-blue-600 bg-blue-100 hover:bg-blue-200 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Rate
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+interface ScenarioWeek {
+  weekStartDate: string;
+  liveCapacity: number;
+  scenarioCapacity: number;
+  liveAllocated: number;
+  scenarioAllocated: number;
+}
+
+interface ScenarioCapacityChartProps {
+  weeks: ScenarioWeek[];
+}
+
+export default function ScenarioCapacityChart({ weeks }: ScenarioCapacityChartProps) {
+  const chartData = weeks.map(week => ({
+    ...week,
+    week: new Date(week.weekStartDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} unit="h" />
+          <Tooltip formatter={(value: number) => `${value.toLocaleString()}h`} />
+          <Legend />
+          {/* Live figures dashed, scenario solid */}
+          <Line type="stepAfter" dataKey="liveCapacity" name="Live capacity" stroke="#2563eb" strokeDasharray="5 5" dot={false} />
+          <Line type="stepAfter" dataKey="scenarioCapacity" name="Scenario capacity" stroke="#2563eb" dot={false} />
+          <Line type="monotone" dataKey="liveAllocated" name="Live demand" stroke="#9333ea" strokeDasharray="5 5" dot={false} />
+          <Line type="monotone" dataKey="scenarioAllocated" name="Scenario demand" stroke="#9333ea" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,703 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle, Loader, Trash2 } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import ScenarioCapacityChart from '@/components/scenarios/ScenarioCapacityChart';
+import { nextProjectStatuses, PROJECT_STATUS_LABELS, projectStatusOf } from '@/lib/project-lifecycle';
+import type { ScenarioComparison } from '@/lib/scenarios';
+import type { ScenarioOperation } from '@/lib/validations/scenarios';
+
+interface ScenarioDetailsProps {
+  scenarioId: string;
+  // Called after edits, promotion or discarding change the scenario list
+  onChanged: () => void;
+}
+
+interface ScenarioView {
+  scenario: {
+    id: string;
+    name: string;
+    description: string | null;
+    status: 'draft' | 'promoted';
+    createdByName: string;
+    createdAt: string;
+    promotedAt: string | null;
+    promotedByName: string | null;
+  };
+  changes: Array<{ at: string; by: string; description: string }>;
+  projects: Array<{
+    id: string;
+    code: string;
+    name: string;
+    status: string;
+    budgetCapex: number | null;
+    budgetOpex: number | null;
+  }>;
+  resources: Array<{
+    id: string;
+    employeeCode: string;
+    name: string;
+    homeTeam: string;
+    capacityHoursPerWeek: number;
+    active: boolean;
+  }>;
+  comparison: ScenarioComparison;
+  costsVisible: boolean;
+}
+
+interface Skill {
+  id: string;
+  name: string;
+}
+
+type OperationType = Exclude<ScenarioOperation['type'], 'set_allocation'>;
+
+const OPERATIONS: Array<{ value: OperationType; label: string }> = [
+  { value: 'shift_project', label: 'Move a project' },
+  { value: 'set_project_status', label: 'Change project status' },
+  { value: 'set_project_budget', label: 'Change project budget' },
+  { value: 'add_resource', label: 'Hire a resource' },
+  { value: 'update_resource', label: 'Change a resource' },
+];
+
+const emptyForm = {
+  projectId: '',
+  weeks: '4',
+  status: '',
+  budgetCapex: '',
+  budgetOpex: '',
+  resourceId: '',
+  employeeCode: '',
+  name: '',
+  homeTeam: '',
+  capacityHoursPerWeek: '40',
+  monthlyRate: '',
+  skillId: '',
+  skillLevel: '3',
+  active: 'true',
+};
+
+function formatDate(value: string | null) {
+  return value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+    : '—';
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function Delta({ value, unit = '', inverse = false }: { value: number; unit?: string; inverse?: boolean }) {
+  if (Math.abs(value) < 0.005) {
+    return <span className="text-gray-400">—</span>;
+  }
+  // Increases are bad for dates, bookings and cost; pass inverse for capacity
+  const worse = inverse ? value < 0 : value > 0;
+  return (
+    <span className={worse ? 'text-red-600' : 'text-green-600'}>
+      {value > 0 ? '+' : ''}{Math.round(value * 100) / 100}{unit}
+    </span>
+  );
+}
+
+export default function ScenarioDetails({ scenarioId, onChanged }: ScenarioDetailsProps) {
+  const { can } = useAuth();
+  const canEditProjects = can('projects:edit');
+  const [view, setView] = useState<ScenarioView | null>(null);
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [operation, setOperation] = useState<OperationType>('shift_project');
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    if (errorData.blockers) {
+      return `${errorData.error}: ${errorData.blockers.join('; ')}`;
+    }
+    return errorData.validationErrors?.[0]?.message || errorData.error || fallback;
+  };
+
+  const fetchScenario = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/scenarios/${scenarioId}`);
+      if (!response.ok) throw new Error('Failed to fetch scenario');
+      setView(await response.json());
+    } catch (error) {
+      console.error('Error fetching scenario:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch scenario');
+    }
+  }, [scenarioId]);
+
+  useEffect(() => {
+    setView(null);
+    setError(null);
+    fetchScenario();
+  }, [fetchScenario]);
+
+  useEffect(() => {
+    const fetchSkills = async () => {
+      try {
+        const response = await fetch('/api/master-data/skills');
+        if (response.ok) {
+          setSkills(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching skills:', error);
+      }
+    };
+    fetchSkills();
+  }, []);
+
+  const buildOperation = (): ScenarioOperation => {
+    switch (operation) {
+      case 'shift_project':
+        return { type: operation, projectId: form.projectId, weeks: parseInt(form.weeks) };
+      case 'set_project_status':
+        return {
+          type: operation,
+          projectId: form.projectId,
+          status: form.status as Extract<ScenarioOperation, { type: 'set_project_status' }>['status'],
+        };
+      case 'set_project_budget':
+        return {
+          type: operation,
+          projectId: form.projectId,
+          budgetCapex: form.budgetCapex ? parseFloat(form.budgetCapex) : null,
+          budgetOpex: form.budgetOpex ? parseFloat(form.budgetOpex) : null,
+        };
+      case 'add_resource':
+        return {
+          type: operation,
+          employeeCode: form.employeeCode,
+          name: form.name,
+          employmentType: 'permanent',
+          homeTeam: form.homeTeam,
+          capacityHoursPerWeek: parseFloat(form.capacityHoursPerWeek),
+          monthlyRate: parseFloat(form.monthlyRate) || 0,
+          skills: form.skillId ? [{ skillId: form.skillId, level: parseInt(form.skillLevel) }] : [],
+        };
+      case 'update_resource':
+        return {
+          type: operation,
+          resourceId: form.resourceId,
+          capacityHoursPerWeek: parseFloat(form.capacityHoursPerWeek),
+          active: form.active === 'true',
+        };
+    }
+  };
+
+  const applyOperation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/scenarios/${scenarioId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildOperation()),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update scenario'));
+      }
+
+      setForm({ ...emptyForm, projectId: form.projectId, resourceId: form.resourceId });
+      await fetchScenario();
+      onChanged();
+    } catch (error) {
+      console.error('Error updating scenario:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const promote = async () => {
+    if (!view || !confirm(`Promote scenario "${view.scenario.name}" to the live plan?`)) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      let response = await fetch(`/api/scenarios/${scenarioId}/promote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ force: false }),
+      });
+
+      // The live plan changed since the scenario was created; other conflicts
+      // (blocked status changes, a scenario no longer a draft) are errors
+      const conflict = response.status === 409 ? await response.clone().json() : null;
+      if (conflict?.liveChanges !== undefined) {
+        if (!confirm(`${conflict.error}. Promote anyway?`)) return;
+        response = await fetch(`/api/scenarios/${scenarioId}/promote`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ force: true }),
+        });
+      }
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to promote scenario'));
+      }
+
+      await fetchScenario();
+      onChanged();
+    } catch (error) {
+      console.error('Error promoting scenario:', error);
+      setError(error instanceof Error ? error.message : 'Failed to promote scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discard = async () => {
+    if (!view || !confirm(`Discard scenario "${view.scenario.name}"? Its edits will be lost.`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/scenarios/${scenarioId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to discard scenario'));
+      }
+
+      onChanged();
+    } catch (error) {
+      console.error('Error discarding scenario:', error);
+      setError(error instanceof Error ? error.message : 'Failed to discard scenario');
+    }
+  };
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <Loader className="w-6 h-6 animate-spin text-blue-600" />
+        )}
+      </div>
+    );
+  }
+
+  const { scenario, comparison } = view;
+  const { totals } = comparison;
+  const isDraft = scenario.status === 'draft';
+  const changedProjects = comparison.projects.filter(project => project.changed);
+  // Status changes follow the lifecycle from the project's status in the scenario
+  const statusProject = view.projects.find(project => project.id === form.projectId);
+  const statusOptions = statusProject ? nextProjectStatuses(projectStatusOf(statusProject.status)) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{scenario.name}</h2>
+            {scenario.description && <p className="mt-1 text-sm text-gray-600">{scenario.description}</p>}
+            <p className="mt-1 text-xs text-gray-500">
+              Created {formatDate(scenario.createdAt)} by {scenario.createdByName}
+              {scenario.promotedAt && ` · Promoted ${formatDate(scenario.promotedAt)} by ${scenario.promotedByName}`}
+            </p>
+          </div>
+          {canEditProjects && (
+            <div className="flex gap-2">
+              {isDraft && (
+                <button
+                  onClick={promote}
+                  disabled={saving || view.changes.length === 0}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Promote to Live
+                </button>
+              )}
+              <button
+                onClick={discard}
+                disabled={saving}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <dl className="mt-6 grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Capacity</dt>
+            <dd className="font-medium text-gray-900">
+              {totals.scenarioCapacity.toLocaleString()}h{' '}
+              <Delta value={totals.scenarioCapacity - totals.liveCapacity} unit="h" inverse />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Demand</dt>
+            <dd className="font-medium text-gray-900">
+              {totals.scenarioAllocated.toLocaleString()}h{' '}
+              <Delta value={totals.scenarioAllocated - totals.liveAllocated} unit="h" />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Overbooked resource weeks</dt>
+            <dd className="font-medium text-gray-900">
+              {totals.scenarioOverallocatedWeeks}{' '}
+              <Delta value={totals.scenarioOverallocatedWeeks - totals.liveOverallocatedWeeks} />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Budget</dt>
+            <dd className="font-medium text-gray-900">
+              {formatCurrency(totals.scenarioBudget)}{' '}
+              <Delta value={Math.round(totals.scenarioBudget - totals.liveBudget)} />
+            </dd>
+          </div>
+          {view.costsVisible && (
+            <div>
+              <dt className="text-gray-500">Allocation cost</dt>
+              <dd className="font-medium text-gray-900">
+                {formatCurrency(totals.scenarioCost)}{' '}
+                <Delta value={Math.round(totals.scenarioCost - totals.liveCost)} />
+              </dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      {/* Edits */}
+      {canEditProjects && isDraft && (
+        <form onSubmit={applyOperation} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Try a change</h3>
+          <select
+            value={operation}
+            onChange={(e) => setOperation(e.target.value as OperationType)}
+            className="input-field"
+          >
+            {OPERATIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            {['shift_project', 'set_project_status', 'set_project_budget'].includes(operation) && (
+              <select
+                required
+                value={form.projectId}
+                onChange={(e) => setForm({ ...form, projectId: e.target.value, status: '' })}
+                className="input-field"
+              >
+                <option value="">Select project...</option>
+                {view.projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.code} – {project.name}</option>
+                ))}
+              </select>
+            )}
+
+            {operation === 'shift_project' && (
+              <input
+                type="number"
+                required
+                min={-52}
+                max={52}
+                value={form.weeks}
+                onChange={(e) => setForm({ ...form, weeks: e.target.value })}
+                className="input-field"
+                title="Weeks to move; negative brings the project forward"
+              />
+            )}
+
+            {operation === 'set_project_status' && (
+              <select
+                required
+                value={form.status}
+                onChange={(e) => setForm({ ...form, status: e.target.value })}
+                className="input-field"
+              >
+                <option value="">
+                  {statusProject && statusOptions.length === 0 ? 'No further statuses' : 'Select status...'}
+                </option>
+                {statusOptions.map(status => (
+                  <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            )}
+
+            {operation === 'set_project_budget' && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="CAPEX budget"
+                  value={form.budgetCapex}
+                  onChange={(e) => setForm({ ...form, budgetCapex: e.target.value })}
+                  className="input-field"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="OPEX budget"
+                  value={form.budgetOpex}
+                  onChange={(e) => setForm({ ...form, budgetOpex: e.target.value })}
+                  className="input-field"
+                />
+              </>
+            )}
+
+            {operation === 'add_resource' && (
+              <>
+                <input
+                  type="text"
+                  required
+                  placeholder="Employee code"
+                  value={form.employeeCode}
+                  onChange={(e) => setForm({ ...form, employeeCode: e.target.value })}
+                  className="input-field"
+                />
+                <input
+                  type="text"
+                  required
+                  placeholder="Name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="input-field"
+                />
+                <input
+                  type="text"
+                  required
+                  placeholder="Home team"
+                  value={form.homeTeam}
+                  onChange={(e) => setForm({ ...form, homeTeam: e.target.value })}
+                  className="input-field"
+                />
+                <input
+                  type="number"
+                  required
+                  min={1}
+                  max={80}
+                  placeholder="Hours per week"
+                  value={form.capacityHoursPerWeek}
+                  onChange={(e) => setForm({ ...form, capacityHoursPerWeek: e.target.value })}
+                  className="input-field"
+                />
+                {view.costsVisible && (
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Monthly rate"
+                    value={form.monthlyRate}
+                    onChange={(e) => setForm({ ...form, monthlyRate: e.target.value })}
+                    className="input-field"
+                  />
+                )}
+                <div className="flex gap-2">
+                  <select
+                    value={form.skillId}
+                    onChange={(e) => setForm({ ...form, skillId: e.target.value })}
+                    className="input-field"
+                  >
+                    <option value="">No skill</option>
+                    {skills.map(skill => (
+                      <option key={skill.id} value={skill.id}>{skill.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.skillLevel}
+                    onChange={(e) => setForm({ ...form, skillLevel: e.target.value })}
+                    className="input-field w-24"
+                  >
+                    {[1, 2, 3, 4, 5].map(level => (
+                      <option key={level} value={level}>L{level}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            {operation === 'update_resource' && (
+              <>
+                <select
+                  required
+                  value={form.resourceId}
+                  onChange={(e) => {
+                    const resource = view.resources.find(candidate => candidate.id === e.target.value);
+                    setForm({
+                      ...form,
+                      resourceId: e.target.value,
+                      capacityHoursPerWeek: resource ? String(resource.capacityHoursPerWeek) : form.capacityHoursPerWeek,
+                      active: resource ? String(resource.active) : form.active,
+                    });
+                  }}
+                  className="input-field"
+                >
+                  <option value="">Select resource...</option>
+                  {view.resources.map(resource => (
+                    <option key={resource.id} value={resource.id}>
+                      {resource.employeeCode} – {resource.name}{resource.active ? '' : ' (inactive)'}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  required
+                  min={0}
+                  max={80}
+                  placeholder="Hours per week"
+                  value={form.capacityHoursPerWeek}
+                  onChange={(e) => setForm({ ...form, capacityHoursPerWeek: e.target.value })}
+                  className="input-field"
+                />
+                <select
+                  value={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="true">Active</option>
+                  <option value="false">Inactive</option>
+                </select>
+              </>
+            )}
+          </div>
+
+          <button type="submit" disabled={saving} className="btn-primary">
+            {saving ? 'Applying...' : 'Apply to Scenario'}
+          </button>
+        </form>
+      )}
+
+      {/* Capacity vs demand */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Capacity and Demand</h3>
+        {comparison.weeks.length > 0 ? (
+          <ScenarioCapacityChart weeks={comparison.weeks} />
+        ) : (
+          <p className="text-sm text-gray-500">Nothing is booked from this week on.</p>
+        )}
+      </div>
+
+      {/* Projects */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            Projects <span className="text-sm font-normal text-gray-500">({changedProjects.length} changed)</span>
+          </h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Finish</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+                {view.costsVisible && (
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {comparison.projects.map(project => (
+                <tr key={project.projectId} className={project.changed ? 'bg-yellow-50' : undefined}>
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-gray-900">{project.code}</div>
+                    <div className="text-xs text-gray-500">{project.name}</div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {project.liveStatus === project.scenarioStatus
+                      ? project.scenarioStatus.replace('_', ' ')
+                      : `${project.liveStatus.replace('_', ' ')} → ${project.scenarioStatus.replace('_', ' ')}`}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {formatDate(project.scenarioFinish)}{' '}
+                    <Delta value={project.finishDeltaDays} unit="d" />
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {formatCurrency(project.scenarioBudget)}{' '}
+                    <Delta value={Math.round(project.scenarioBudget - project.liveBudget)} />
+                  </td>
+                  {view.costsVisible && (
+                    <td className="px-4 py-2 text-gray-700">
+                      {formatCurrency(project.scenarioCost)}{' '}
+                      <Delta value={Math.round(project.scenarioCost - project.liveCost)} />
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Resources */}
+      {comparison.resources.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Resource Changes</h3>
+          <ul className="space-y-2 text-sm">
+            {comparison.resources.map(resource => (
+              <li key={resource.resourceId} className="flex items-center justify-between">
+                <span>
+                  <span className="font-medium text-gray-900">{resource.employeeCode}</span>{' '}
+                  <span className="text-gray-600">{resource.name}</span>
+                </span>
+                <span className={resource.change === 'added' ? 'text-green-700' : 'text-yellow-700'}>
+                  {resource.change === 'added'
+                    ? `New hire, ${resource.scenarioCapacity}h/week`
+                    : [
+                        resource.liveCapacity !== resource.scenarioCapacity
+                          ? `${resource.liveCapacity}h → ${resource.scenarioCapacity}h/week`
+                          : null,
+                        resource.liveActive !== resource.scenarioActive
+                          ? (resource.scenarioActive ? 'reactivated' : 'deactivated')
+                          : null,
+                      ].filter(Boolean).join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Change log */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Changes in this Scenario</h3>
+        {view.changes.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes yet; the scenario matches the plan it was copied from.</p>
+        ) : (
+          <ol className="space-y-2 text-sm">
+            {view.changes.map((change, index) => (
+              <li key={index} className="flex justify-between gap-4">
+                <span className="text-gray-900">{change.description}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {change.by}, {new Date(change.at).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
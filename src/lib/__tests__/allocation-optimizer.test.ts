@@ -0,0 +1,92 @@
+import { type OptimizerCandidate, optimizeAllocation } from '@/lib/allocation-optimizer';
+
+const WEEK = '2026-01-05';
+
+function candidate(
+  resourceId: string,
+  level: number,
+  hourlyRate: number,
+  availableHours: number,
+  overallocationHours = 0
+): OptimizerCandidate {
+  return {
+    resourceId,
+    skillLevels: { skill: level },
+    weeks: [{ weekStartDate: WEEK, hourlyRate, availableHours, overallocationHours }],
+  };
+}
+
+function hoursBy(result: ReturnType<typeof optimizeAllocation>) {
+  const hours: Record<string, number> = {};
+  for (const assignment of result.assignments) {
+    hours[assignment.resourceId] = (hours[assignment.resourceId] || 0) + assignment.hours;
+  }
+  return hours;
+}
+
+describe('optimizeAllocation', () => {
+  const requirement = { skillId: 'skill', requiredLevel: 5, requiredHours: 40, priority: 'medium' as const };
+
+  it('books a free high-rate resource before overallocating a cheap one', () => {
+    const result = optimizeAllocation(
+      [requirement],
+      [candidate('cheap', 5, 50, 0, 40), candidate('expensive', 5, 900, 40)],
+      [WEEK]
+    );
+
+    expect(hoursBy(result)).toEqual({ expensive: 40 });
+    expect(result.assignments.every(assignment => !assignment.isOverallocation)).toBe(true);
+  });
+
+  it('prefers the required level to a cheaper resource below it, whatever the rates', () => {
+    const result = optimizeAllocation(
+      [requirement],
+      [candidate('junior', 3, 20, 40), candidate('senior', 5, 1500, 40)],
+      [WEEK]
+    );
+
+    expect(hoursBy(result)).toEqual({ senior: 40 });
+    expect(result.outcomes[0].shortfallHours).toBe(0);
+  });
+
+  it('prefers overallocation to a skill shortfall', () => {
+    const result = optimizeAllocation(
+      [requirement],
+      [candidate('junior', 4, 20, 40), candidate('senior', 5, 1500, 0, 40)],
+      [WEEK]
+    );
+
+    expect(hoursBy(result)).toEqual({ senior: 40 });
+    expect(result.assignments[0].isOverallocation).toBe(true);
+  });
+
+  it('picks the cheaper of two qualified free resources', () => {
+    const result = optimizeAllocation(
+      [requirement],
+      [candidate('a', 5, 300, 40), candidate('b', 6, 120, 40)],
+      [WEEK]
+    );
+
+    expect(hoursBy(result)).toEqual({ b: 40 });
+  });
+
+  it('uses a resource below the level rather than leave hours unmet', () => {
+    const result = optimizeAllocation([requirement], [candidate('junior', 2, 2000, 25)], [WEEK]);
+
+    expect(result.outcomes[0]).toEqual({ requirementIndex: 0, allocatedHours: 25, unmetHours: 15, shortfallHours: 25 });
+  });
+
+  it('gives a contested resource to the higher-priority requirement', () => {
+    const result = optimizeAllocation(
+      [
+        { ...requirement, priority: 'low' },
+        { ...requirement, priority: 'critical' },
+      ],
+      [candidate('only', 5, 100, 40)],
+      [WEEK]
+    );
+
+    expect(result.outcomes[1].allocatedHours).toBe(40);
+    expect(result.outcomes[0].unmetHours).toBe(40);
+  });
+});
@@ -0,0 +1,99 @@
+import { AutoPlanningEngine, type TierBlock } from '@/lib/auto-planning';
+import type { DependencyLink } from '@/lib/dependencies';
+
+function tierBlock(
+  code: string,
+  sequenceIndex: number,
+  durationWeeks: number,
+  dependencies: Array<Omit<DependencyLink, 'successor'>> | null
+): TierBlock {
+  return {
+    id: `tb-${code}`,
+    sequenceIndex,
+    block: { id: `block-${code}`, code, name: code, deliverables: [] },
+    durationWeeks,
+    skillsMix: null,
+    dependencies: dependencies && dependencies.map(link => ({ ...link, successor: code })),
+  };
+}
+
+const MONDAY = new Date('2026-01-05T00:00:00Z');
+
+function day(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+describe('AutoPlanningEngine critical path', () => {
+  // Weeks are five working days; offsets below are working days from the start
+  const blocks = [
+    tierBlock('A', 1, 1, []),
+    // Starts 2 days after A finishes: 7 → 17
+    tierBlock('B', 2, 2, [{ predecessor: 'A', type: 'FS', lagDays: 2 }]),
+    // Starts 3 days after A starts: 3 → 8
+    tierBlock('C', 3, 1, [{ predecessor: 'A', type: 'SS', lagDays: 3 }]),
+    // Finishes with B: 12 → 17
+    tierBlock('D', 4, 1, [{ predecessor: 'B', type: 'FF', lagDays: 0 }]),
+    // Finishes 10 days after C starts: 8 → 13
+    tierBlock('E', 5, 1, [{ predecessor: 'C', type: 'SF', lagDays: 10 }]),
+  ];
+  const plan = AutoPlanningEngine.generateProjectPlan(blocks, MONDAY, 'strict_start');
+  const block = (code: string) => plan.projectBlocks.find(planBlock => planBlock.blockCode === code)!;
+
+  it('schedules each link type with its lag in the forward pass', () => {
+    expect(block('A').earliestStart).toEqual(day('2026-01-05'));
+    expect(block('B').earliestStart).toEqual(day('2026-01-14'));
+    expect(block('C').earliestStart).toEqual(day('2026-01-08'));
+    expect(block('D').earliestStart).toEqual(day('2026-01-21'));
+    expect(block('E').earliestStart).toEqual(day('2026-01-15'));
+    expect(block('E').earliestFinish).toEqual(day('2026-01-22'));
+    expect(plan.projectEnd).toEqual(day('2026-01-28'));
+  });
+
+  it('derives slack from the backward pass', () => {
+    expect(block('A').slackDays).toBe(0);
+    expect(block('B').slackDays).toBe(0);
+    expect(block('D').slackDays).toBe(0);
+    expect(block('C').slackDays).toBe(4);
+    expect(block('E').slackDays).toBe(4);
+    expect(block('C').latestStart).toEqual(day('2026-01-14'));
+  });
+
+  it('reports the critical path in execution order', () => {
+    expect(plan.criticalPath).toEqual(['A', 'B', 'D']);
+  });
+
+  it('chains blocks without declared dependencies in sequence order', () => {
+    const sequential = AutoPlanningEngine.generateProjectPlan(
+      [tierBlock('X', 1, 1, null), tierBlock('Y', 2, 1, null)],
+      MONDAY,
+      'strict_start'
+    );
+    expect(sequential.projectBlocks[1].plannedStart).toEqual(day('2026-01-12'));
+    expect(sequential.criticalPath).toEqual(['X', 'Y']);
+  });
+
+  it('detects dependency cycles and rejects the plan', () => {
+    const cyclic = AutoPlanningEngine.generateProjectPlan(
+      [
+        tierBlock('A', 1, 1, []),
+        tierBlock('B', 2, 1, [{ predecessor: 'C', type: 'FS', lagDays: 0 }]),
+        tierBlock('C', 3, 1, [{ predecessor: 'B', type: 'FS', lagDays: 0 }]),
+      ],
+      MONDAY,
+      'strict_start'
+    );
+
+    expect(cyclic.dependencyCycles).toHaveLength(1);
+    expect(new Set(cyclic.dependencyCycles[0])).toEqual(new Set(['B', 'C']));
+    expect(AutoPlanningEngine.validateProjectPlan(cyclic).isValid).toBe(false);
+  });
+
+  it('reports links to blocks outside the tier as unresolved', () => {
+    const unresolved = AutoPlanningEngine.generateProjectPlan(
+      [tierBlock('A', 1, 1, [{ predecessor: 'Z', type: 'FS', lagDays: 0 }])],
+      MONDAY,
+      'strict_start'
+    );
+    expect(unresolved.unresolvedDependencies).toEqual([{ blockCode: 'A', dependencyCode: 'Z' }]);
+  });
+});
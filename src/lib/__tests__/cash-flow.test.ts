@@ -0,0 +1,119 @@
+import { cashFlow, cashFlowCsv, monthsBetween, rollUpCashFlow } from '@/lib/cash-flow';
+import type { EarnedValueBlock } from '@/lib/earned-value';
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+const week = (value: string, cost: number) => ({ weekStartDate: day(value), hours: 10, cost });
+
+// A ran from 26 January to 5 February, six days in January and four in
+// February; B is still to run in the week of 30 March, which ends in April
+function blocks(): EarnedValueBlock[] {
+  const a = [week('2026-01-26', 500), week('2026-02-02', 500)];
+  const b = [week('2026-03-30', 1000)];
+  return [
+    {
+      code: 'A',
+      status: 'completed',
+      percentComplete: 100,
+      actualStart: day('2026-01-26'),
+      actualEnd: day('2026-02-05'),
+      actualHours: null,
+      actualCost: 1000,
+      allocations: a,
+      plannedAllocations: a,
+    },
+    {
+      code: 'B',
+      status: 'not_started',
+      percentComplete: 0,
+      actualStart: null,
+      actualEnd: null,
+      actualHours: null,
+      actualCost: null,
+      allocations: b,
+      plannedAllocations: b,
+    },
+  ];
+}
+
+const lines = [
+  { month: '2026-01', category: 'capex', amount: 1000 },
+  { month: '2026-02', category: 'opex', amount: 500 },
+];
+const asOf = day('2026-02-15');
+
+describe('monthsBetween', () => {
+  it('lists every month across a year end', () => {
+    expect(monthsBetween('2025-11', '2026-02')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+    expect(monthsBetween('2026-02', '2026-01')).toEqual([]);
+  });
+});
+
+describe('cashFlow', () => {
+  it('phases budget lines, forecast and actual cost by month', () => {
+    const result = cashFlow(lines, blocks(), 2000, asOf);
+
+    expect(result.months).toEqual([
+      {
+        month: '2026-01', plannedCapex: 1000, plannedOpex: 0, planned: 1000, forecast: 500, actual: 600,
+        cumulativePlanned: 1000, cumulativeForecast: 500, cumulativeActual: 600,
+      },
+      {
+        month: '2026-02', plannedCapex: 0, plannedOpex: 500, planned: 500, forecast: 500, actual: 400,
+        cumulativePlanned: 1500, cumulativeForecast: 1000, cumulativeActual: 1000,
+      },
+      {
+        month: '2026-03', plannedCapex: 0, plannedOpex: 0, planned: 0, forecast: 400, actual: null,
+        cumulativePlanned: 1500, cumulativeForecast: 1400, cumulativeActual: null,
+      },
+      {
+        month: '2026-04', plannedCapex: 0, plannedOpex: 0, planned: 0, forecast: 600, actual: null,
+        cumulativePlanned: 1500, cumulativeForecast: 2000, cumulativeActual: null,
+      },
+    ]);
+    expect(result).toMatchObject({ budget: 2000, planned: 1500, forecast: 2000, actual: 1000, unphased: 500 });
+  });
+
+  it('counts a block under way up to the as-of date', () => {
+    const [, b] = blocks();
+    const started = { ...b, status: 'in_progress', actualStart: day('2026-01-27'), actualCost: 900 };
+
+    // Five days in January and fourteen in February
+    const months = cashFlow([], [started], null, day('2026-02-15')).months;
+    expect(months.map(month => [month.month, month.actual])).toEqual([
+      ['2026-01', 236.84],
+      ['2026-02', 663.16],
+      ['2026-03', null],
+      ['2026-04', null],
+    ]);
+  });
+
+  it('has no months without lines or allocations', () => {
+    expect(cashFlow([], [], 1000, asOf)).toMatchObject({ months: [], planned: 0, unphased: 1000 });
+  });
+});
+
+describe('rollUpCashFlow', () => {
+  it('sums the projects by month and fills the months between them', () => {
+    const first = cashFlow([{ month: '2026-01', category: 'capex', amount: 100 }], [], 100, asOf);
+    const second = cashFlow([{ month: '2026-03', category: 'opex', amount: 50 }], [], 80, asOf);
+    const result = rollUpCashFlow([first, second], asOf);
+
+    expect(result.months.map(month => [month.month, month.planned, month.cumulativePlanned, month.cumulativeActual])).toEqual([
+      ['2026-01', 100, 100, 0],
+      ['2026-02', 0, 100, 0],
+      ['2026-03', 50, 150, null],
+    ]);
+    expect(result).toMatchObject({ budget: 180, planned: 150, unphased: 30 });
+  });
+});
+
+describe('cashFlowCsv', () => {
+  it('writes one row per project and month, quoting where needed', () => {
+    const flow = cashFlow([{ month: '2026-03', category: 'capex', amount: 100 }], [], 100, asOf);
+
+    expect(cashFlowCsv([{ label: 'P1, "Core"', flow }])).toBe(
+      'Project,Month,Planned CAPEX,Planned OPEX,Planned,Forecast,Actual,Cumulative planned,Cumulative forecast,Cumulative actual\n' +
+      '"P1, ""Core""",2026-03,100,0,100,0,,100,0,\n'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  type DependencyLink,
+  findDependencyCycles,
+  parseDependencyLinks,
+  validateDependencyLinks,
+} from '@/lib/dependencies';
+
+const fs = (predecessor: string, successor: string): DependencyLink => ({ predecessor, successor, type: 'FS', lagDays: 0 });
+
+describe('parseDependencyLinks', () => {
+  it('reads stored links for the given successor', () => {
+    const value = JSON.stringify([{ predecessor: 'A', type: 'SS', lagDays: -2 }, { predecessor: 'B' }]);
+
+    expect(parseDependencyLinks(value, 'C')).toEqual([
+      { predecessor: 'A', successor: 'C', type: 'SS', lagDays: -2 },
+      { predecessor: 'B', successor: 'C', type: 'FS', lagDays: 0 },
+    ]);
+  });
+
+  it('reads legacy predecessor codes as finish-to-start without lag', () => {
+    expect(parseDependencyLinks('["A","B"]', 'C')).toEqual([fs('A', 'C'), fs('B', 'C')]);
+  });
+
+  it('returns null when nothing is declared', () => {
+    expect(parseDependencyLinks(null, 'C')).toBeNull();
+    expect(parseDependencyLinks('', 'C')).toBeNull();
+  });
+
+  it('returns null for values that are not a valid list of links', () => {
+    expect(parseDependencyLinks('A,B', 'C')).toBeNull();
+    expect(parseDependencyLinks('{"predecessor":"A"}', 'C')).toBeNull();
+    expect(parseDependencyLinks('[{"predecessor":"A","type":"XX"}]', 'C')).toBeNull();
+    expect(parseDependencyLinks('[{"lagDays":2}]', 'C')).toBeNull();
+  });
+});
+
+describe('findDependencyCycles', () => {
+  it('finds none in an acyclic network', () => {
+    expect(findDependencyCycles([fs('A', 'B'), fs('B', 'C'), fs('A', 'C')])).toEqual([]);
+  });
+
+  it('reports a cycle in execution order with the first block repeated', () => {
+    // Walked back from the first successor listed, B
+    expect(findDependencyCycles([fs('A', 'B'), fs('B', 'C'), fs('C', 'A')])).toEqual([['B', 'C', 'A', 'B']]);
+  });
+});
+
+describe('validateDependencyLinks', () => {
+  const codes = new Set(['A', 'B', 'C']);
+
+  it('accepts links between known blocks', () => {
+    expect(validateDependencyLinks([fs('A', 'B'), fs('B', 'C')], codes)).toEqual([]);
+  });
+
+  it('reports self, unknown and duplicate links', () => {
+    expect(validateDependencyLinks([fs('B', 'B'), fs('X', 'B'), fs('A', 'B'), fs('A', 'B')], codes)).toEqual([
+      'Block B cannot depend on itself',
+      'Block B: unknown predecessor X',
+      'Block B: duplicate dependency on A',
+    ]);
+  });
+
+  it('detects cycles closed through the surrounding network', () => {
+    expect(validateDependencyLinks([fs('C', 'A')], codes, [fs('A', 'B'), fs('B', 'C')])).toEqual([
+      'Dependency cycle detected: B → C → A → B',
+    ]);
+  });
+});
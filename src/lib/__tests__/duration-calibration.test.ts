@@ -0,0 +1,81 @@
+import { type CalibrationSample, type CalibrationTarget, calibrateDurations } from '@/lib/duration-calibration';
+
+function sample(blockId: string, tierId: string, actualWeeks: number, actualHours: number | null = null): CalibrationSample {
+  return { blockId, tierId, plannedWeeks: 4, actualWeeks, actualHours, plannedSkillsMix: { DEV: 100 } };
+}
+
+function target(blockId: string, currentWeeks: number, tierId?: string): CalibrationTarget {
+  return {
+    id: tierId ? `${tierId}-${blockId}` : blockId,
+    blockId,
+    tierId,
+    blockCode: blockId.toUpperCase(),
+    blockName: `Block ${blockId}`,
+    currentWeeks,
+    currentSkillsMix: { DEV: 100 },
+  };
+}
+
+// Block a runs 1, 1.25 and 1.5 times its plan at 20 hours a week, half the
+// full-time week its skills mix asks for; b finishes on plan
+const samples = [
+  sample('a', 't1', 4, 80),
+  sample('a', 't1', 5, 100),
+  sample('a', 't2', 6, 120),
+  sample('b', 't1', 4),
+  sample('b', 't1', 4.2),
+  sample('b', 't1', 3.8),
+];
+
+describe('calibrateDurations', () => {
+  it('suggests a longer duration, a range and a lighter skills mix for an underestimated block', () => {
+    const [suggestion] = calibrateDurations(samples, [target('a', 4)], []).blocks;
+
+    expect(suggestion).toMatchObject({
+      target: 'block',
+      samples: 3,
+      medianRatio: 1.25,
+      meanRatio: 1.25,
+      bias: 'underestimated',
+      suggestedWeeks: 5,
+      suggestedOptimisticWeeks: 4,
+      suggestedPessimisticWeeks: 6,
+      effortRatio: 0.5,
+      suggestedSkillsMix: { DEV: 50 },
+    });
+  });
+
+  it('leaves an accurate block as it is, with a range around its duration', () => {
+    const [suggestion] = calibrateDurations(samples, [target('b', 4)], []).blocks;
+
+    expect(suggestion).toMatchObject({
+      bias: 'accurate',
+      suggestedWeeks: null,
+      suggestedOptimisticWeeks: 4,
+      suggestedPessimisticWeeks: 4,
+      effortRatio: null,
+      suggestedSkillsMix: null,
+    });
+  });
+
+  it('makes no suggestion from too few samples', () => {
+    const [suggestion] = calibrateDurations(samples, [], [target('a', 4, 't1')]).tierBlocks;
+
+    expect(suggestion).toMatchObject({
+      target: 'tier_block',
+      samples: 2,
+      bias: 'insufficient_data',
+      suggestedWeeks: null,
+      suggestedOptimisticWeeks: null,
+      suggestedPessimisticWeeks: null,
+      suggestedSkillsMix: null,
+    });
+    expect(suggestion.medianRatio).toBeCloseTo(1.13, 10);
+  });
+
+  it('reports only targets with samples, the most biased first', () => {
+    const result = calibrateDurations(samples, [target('b', 4), target('c', 2), target('a', 4)], []);
+
+    expect(result.blocks.map(suggestion => suggestion.blockCode)).toEqual(['A', 'B']);
+  });
+});
@@ -0,0 +1,93 @@
+import { type EarnedValueBlock, earnedValue, rollUpEarnedValue } from '@/lib/earned-value';
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+const week = (value: string, cost: number) => ({ weekStartDate: day(value), hours: 10, cost });
+
+// A ran the first two weeks and finished over cost; B started in week three,
+// is a quarter done and has booked 5 hours at its 100/h planned rate
+function blocks(): EarnedValueBlock[] {
+  const a = [week('2026-01-05', 1000), week('2026-01-12', 1000)];
+  const b = [week('2026-01-19', 1000), week('2026-01-26', 1000)];
+  return [
+    {
+      code: 'A',
+      status: 'completed',
+      percentComplete: 100,
+      actualStart: day('2026-01-05'),
+      actualEnd: day('2026-01-19'),
+      actualHours: null,
+      actualCost: 2500,
+      allocations: a,
+      plannedAllocations: a,
+    },
+    {
+      code: 'B',
+      status: 'in_progress',
+      percentComplete: 25,
+      actualStart: day('2026-01-19'),
+      actualEnd: null,
+      actualHours: 5,
+      actualCost: null,
+      allocations: b,
+      plannedAllocations: b,
+    },
+  ];
+}
+
+const asOf = day('2026-01-26');
+
+describe('earnedValue', () => {
+  it('computes PV, EV, AC and the indexes from the plan cost without a budget', () => {
+    const result = earnedValue(blocks(), null, asOf);
+
+    // PV: three of four planned weeks; EV: 2000 + 25% of 2000; AC: 2500 + 5h at 100/h
+    expect(result).toMatchObject({
+      bac: 4000,
+      pv: 3000,
+      ev: 2500,
+      ac: 3000,
+      cv: -500,
+      sv: -500,
+      cpi: 0.833,
+      spi: 0.833,
+      eac: 4800,
+      etc: 1800,
+      vac: -800,
+      percentComplete: 62.5,
+    });
+  });
+
+  it('scales planned and earned value to the budget', () => {
+    const result = earnedValue(blocks(), 8000, asOf);
+
+    expect(result).toMatchObject({ bac: 8000, pv: 6000, ev: 5000, ac: 3000, cpi: 1.667, spi: 0.833 });
+  });
+
+  it('phases planned value from the planned allocations, not the current ones', () => {
+    const [a, b] = blocks();
+    // B was reforecast a week later; its baseline weeks stay where they were
+    const moved = { ...b, allocations: [week('2026-01-26', 1000), week('2026-02-02', 1000)] };
+
+    expect(earnedValue([a, moved], null, asOf)).toMatchObject({ pv: 3000, ev: 2500 });
+  });
+
+  it('spreads progress and cost over each week of the curve', () => {
+    const result = earnedValue(blocks(), null, asOf);
+
+    expect(result.curve.slice(0, 3)).toEqual([
+      { week: '2026-01-05', pv: 1000, ev: 1000, ac: 1250 },
+      { week: '2026-01-12', pv: 2000, ev: 2000, ac: 2500 },
+      { week: '2026-01-19', pv: 3000, ev: 2500, ac: 3000 },
+    ]);
+    expect(result.curve[result.curve.length - 1]).toEqual({ week: '2026-01-26', pv: 3000, ev: 2500, ac: 3000 });
+  });
+});
+
+describe('rollUpEarnedValue', () => {
+  it('sums the projects and takes the indexes from the sums', () => {
+    const project = earnedValue(blocks(), null, asOf);
+    const result = rollUpEarnedValue([project, earnedValue(blocks(), 8000, asOf)], asOf);
+
+    expect(result).toMatchObject({ bac: 12000, pv: 9000, ev: 7500, ac: 6000, cpi: 1.25, spi: 0.833 });
+  });
+});
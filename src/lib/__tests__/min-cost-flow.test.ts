@@ -0,0 +1,60 @@
+import { MinCostFlow } from '@/lib/min-cost-flow';
+
+function network() {
+  const flow = new MinCostFlow();
+  const [s, a, b, t] = [flow.addNode(), flow.addNode(), flow.addNode(), flow.addNode()];
+  const edges = {
+    sa: flow.addEdge(s, a, 3, 1),
+    sb: flow.addEdge(s, b, 2, 4),
+    ab: flow.addEdge(a, b, 2, 1),
+    at: flow.addEdge(a, t, 2, 5),
+    bt: flow.addEdge(b, t, 4, 1),
+  };
+  return { flow, s, t, edges };
+}
+
+describe('MinCostFlow', () => {
+  it('finds the cheapest maximum flow of a small network', () => {
+    const { flow, s, t, edges } = network();
+
+    // s-a-b-t costs 3 for 2 units, then s-b-t costs 5 for 2 and s-a-t 6 for 1
+    expect(flow.solve(s, t)).toEqual({ flow: 5, cost: 22 });
+    expect(flow.flowOn(edges.sa)).toBe(3);
+    expect(flow.flowOn(edges.ab)).toBe(2);
+    expect(flow.flowOn(edges.at)).toBe(1);
+    expect(flow.flowOn(edges.sb)).toBe(2);
+    expect(flow.flowOn(edges.bt)).toBe(4);
+  });
+
+  it('stops at the flow limit along the cheapest paths', () => {
+    const { flow, s, t } = network();
+    expect(flow.solve(s, t, 2)).toEqual({ flow: 2, cost: 6 });
+  });
+
+  it('carries fractional capacities', () => {
+    const flow = new MinCostFlow();
+    const [s, t] = [flow.addNode(), flow.addNode()];
+    const cheap = flow.addEdge(s, t, 1.5, 1);
+    const dear = flow.addEdge(s, t, 2.25, 3);
+
+    const result = flow.solve(s, t);
+    expect(result.flow).toBeCloseTo(3.75);
+    expect(result.cost).toBeCloseTo(8.25);
+    expect(flow.flowOn(cheap)).toBeCloseTo(1.5);
+    expect(flow.flowOn(dear)).toBeCloseTo(2.25);
+  });
+
+  it('reroutes earlier flow through residual edges when that is cheaper', () => {
+    const flow = new MinCostFlow();
+    const [s, a, b, t] = [flow.addNode(), flow.addNode(), flow.addNode(), flow.addNode()];
+    flow.addEdge(s, a, 1, 1);
+    flow.addEdge(s, b, 1, 1);
+    const ab = flow.addEdge(a, b, 1, 0);
+    flow.addEdge(a, t, 1, 10);
+    flow.addEdge(b, t, 1, 1);
+
+    // The first unit goes s-a-b-t; the second has to undo a-b
+    expect(flow.solve(s, t)).toEqual({ flow: 2, cost: 13 });
+    expect(flow.flowOn(ab)).toBe(0);
+  });
+});
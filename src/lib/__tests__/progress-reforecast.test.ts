@@ -0,0 +1,102 @@
+import { type ProgressBlock, reforecastProject, remainingWorkingDays } from '@/lib/progress-reforecast';
+import { DEFAULT_WORKING_DAYS, WorkingCalendar } from '@/lib/working-calendar';
+
+const calendar = new WorkingCalendar({ workingDays: DEFAULT_WORKING_DAYS, hoursPerDay: 8, holidays: [] });
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+// A block of whole weeks starting on `start`, following `predecessors` finish-to-start
+function block(
+  code: string,
+  start: string,
+  weeks: number,
+  predecessors: string[] = [],
+  progress: Partial<ProgressBlock> = {}
+): ProgressBlock {
+  const plannedStart = day(start);
+  return {
+    id: `${code}-block`,
+    code,
+    status: 'not_started',
+    plannedStart,
+    plannedEnd: new Date(plannedStart.getTime() + weeks * 7 * 24 * 60 * 60 * 1000),
+    plannedDurationWeeks: weeks,
+    plannedHours: weeks * 40,
+    percentComplete: 0,
+    actualStart: null,
+    actualEnd: null,
+    remainingHours: null,
+    dependencies: predecessors.map(predecessor => ({ predecessor, successor: code, type: 'FS' as const, lagDays: 0 })),
+    ...progress,
+  };
+}
+
+// Two weeks of A started on plan, 20% done; with 8 working days left from
+// Monday 12 January it finishes on Thursday 22 January, three days late
+const lateA = block('A', '2026-01-05', 2, [], { status: 'in_progress', actualStart: day('2026-01-05'), percentComplete: 20 });
+
+describe('remainingWorkingDays', () => {
+  it('spreads the remaining hours at the planned pace', () => {
+    // 80 hours over 10 working days is 8 a day
+    expect(remainingWorkingDays({ ...lateA, remainingHours: 20 }, calendar)).toBe(3);
+  });
+
+  it('takes the share not complete when no remaining hours are reported', () => {
+    expect(remainingWorkingDays(lateA, calendar)).toBe(8);
+    expect(remainingWorkingDays({ ...lateA, percentComplete: 150 }, calendar)).toBe(0);
+  });
+});
+
+describe('reforecastProject', () => {
+  it('lets a delay eat into the slack before moving the successor', () => {
+    const result = reforecastProject([lateA, block('B', '2026-01-26', 1, ['A'])], calendar, day('2026-01-12'));
+
+    expect(result.blocks[0]).toMatchObject({ end: day('2026-01-22'), slipDays: 3, moved: false });
+    expect(result.blocks[1]).toMatchObject({ start: day('2026-01-26'), slipDays: 0, moved: false });
+    expect(result.forecastEnd).toEqual(day('2026-02-02'));
+  });
+
+  it('pushes a successor without slack out by the delay', () => {
+    const result = reforecastProject([lateA, block('B', '2026-01-19', 1, ['A'])], calendar, day('2026-01-12'));
+
+    expect(result.blocks[1]).toMatchObject({ start: day('2026-01-22'), end: day('2026-01-29'), slipDays: 3, moved: true });
+  });
+
+  it('pulls a successor in by the time an early finish gains', () => {
+    const doneEarly = block('A', '2026-01-05', 2, [], {
+      status: 'completed',
+      actualStart: day('2026-01-05'),
+      actualEnd: day('2026-01-14'),
+      percentComplete: 100,
+    });
+    const result = reforecastProject([doneEarly, block('B', '2026-01-19', 1, ['A'])], calendar, day('2026-01-14'));
+
+    expect(result.blocks[0]).toMatchObject({ end: day('2026-01-14'), slipDays: -3 });
+    expect(result.blocks[1]).toMatchObject({ start: day('2026-01-14'), end: day('2026-01-21'), slipDays: -3, moved: true });
+    expect(result.forecastEnd).toEqual(day('2026-01-21'));
+    expect(result.plannedEnd).toEqual(day('2026-01-26'));
+  });
+
+  it('starts nothing before today', () => {
+    const doneEarly = block('A', '2026-01-05', 2, [], {
+      status: 'completed',
+      actualStart: day('2026-01-05'),
+      actualEnd: day('2026-01-14'),
+      percentComplete: 100,
+    });
+    const result = reforecastProject(
+      [doneEarly, block('B', '2026-01-19', 1, ['A']), block('C', '2026-01-05', 1)],
+      calendar,
+      day('2026-01-16')
+    );
+
+    // B could follow A on the 14th, C was due on the 5th; both wait for the 16th
+    expect(result.blocks[1]).toMatchObject({ start: day('2026-01-16'), slipDays: -1, moved: true });
+    expect(result.blocks[2]).toMatchObject({ start: day('2026-01-16'), end: day('2026-01-23'), slipDays: 9, moved: true });
+  });
+
+  it('never moves the start of a block under way', () => {
+    const result = reforecastProject([lateA], calendar, day('2026-01-12'));
+
+    expect(result.blocks[0]).toMatchObject({ start: day('2026-01-05'), moved: false });
+  });
+});
@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import { saveReforecast } from '@/lib/progress-snapshot';
+import { DEFAULT_WORKING_DAYS, WorkingCalendar } from '@/lib/working-calendar';
+
+const calendar = new WorkingCalendar({ workingDays: DEFAULT_WORKING_DAYS, hoursPerDay: 8, holidays: [] });
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+interface StoredAllocation {
+  id: string;
+  projectBlockId: string;
+  weekStartDate: Date;
+  allocatedHours: number;
+}
+
+// The project block and allocation queries saveReforecast makes, over rows in memory
+function transaction(projectBlocks: Array<Record<string, unknown> & { id: string }>, allocations: StoredAllocation[]) {
+  const tx = {
+    projectBlock: {
+      findMany: async () => projectBlocks.map(projectBlock => ({
+        ...projectBlock,
+        allocations: allocations.filter(allocation => allocation.projectBlockId === projectBlock.id),
+      })),
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) =>
+        Object.assign(projectBlocks.find(projectBlock => projectBlock.id === where.id)!, data),
+    },
+    allocation: {
+      findMany: async ({ where }: { where: { projectBlockId: string } }) =>
+        allocations.filter(allocation => allocation.projectBlockId === where.projectBlockId),
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredAllocation> }) =>
+        Object.assign(allocations.find(allocation => allocation.id === where.id)!, data),
+    },
+    project: {
+      update: async () => ({}),
+    },
+  };
+  return tx as unknown as Prisma.TransactionClient;
+}
+
+function projectBlock(code: string, start: string, end: string, progress: Record<string, unknown>) {
+  return {
+    id: code,
+    block: { code, name: `Block ${code}` },
+    status: 'not_started',
+    plannedStart: day(start),
+    plannedEnd: day(end),
+    plannedDurationWeeks: 2,
+    forecastStart: null,
+    forecastEnd: null,
+    percentComplete: 0,
+    actualStart: null,
+    actualEnd: null,
+    remainingHours: null,
+    dependencies: null,
+    ...progress,
+  };
+}
+
+describe('saveReforecast', () => {
+  it('moves the allocations of blocks not started with their forecast, and no others', async () => {
+    // A has not progressed and needs its full two weeks from today, so B
+    // starts a week late; A's end moves too but its bookings stay put
+    const allocations = [
+      { id: 'a1', projectBlockId: 'A', weekStartDate: day('2026-01-05'), allocatedHours: 40 },
+      { id: 'a2', projectBlockId: 'A', weekStartDate: day('2026-01-12'), allocatedHours: 40 },
+      { id: 'b1', projectBlockId: 'B', weekStartDate: day('2026-01-19'), allocatedHours: 40 },
+      { id: 'b2', projectBlockId: 'B', weekStartDate: day('2026-01-26'), allocatedHours: 40 },
+    ];
+    const tx = transaction([
+      projectBlock('A', '2026-01-05', '2026-01-19', { status: 'in_progress', actualStart: day('2026-01-05') }),
+      projectBlock('B', '2026-01-19', '2026-02-02', {}),
+    ], allocations);
+
+    const result = await saveReforecast(tx, 'project', calendar, day('2026-01-12'));
+
+    expect(result.movedAllocations).toBe(2);
+    expect(allocations.map(allocation => [allocation.id, allocation.weekStartDate])).toEqual([
+      ['a1', day('2026-01-05')],
+      ['a2', day('2026-01-12')],
+      ['b1', day('2026-01-26')],
+      ['b2', day('2026-02-02')],
+    ]);
+    expect(result.after).toEqual({
+      'A forecast start': day('2026-01-05'),
+      'A forecast end': day('2026-01-26'),
+      'B forecast start': day('2026-01-26'),
+      'B forecast end': day('2026-02-09'),
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  type LifecycleFacts,
+  canTransitionBlock,
+  nextProjectStatuses,
+  projectStatusOf,
+  projectTransitionBlockers,
+  releasedAllocationWeeks,
+  storedProjectStatuses,
+} from '@/lib/project-lifecycle';
+
+// A planned project ready for approval
+const ready: LifecycleFacts = {
+  blockCount: 3,
+  openBlockCount: 3,
+  allocationCount: 12,
+  futureAllocationCount: 12,
+  budgetCapex: 50000,
+  budgetOpex: null,
+  winProbability: null,
+};
+
+describe('project statuses', () => {
+  it('reads legacy and unknown stored values', () => {
+    expect(projectStatusOf('active')).toBe('in_progress');
+    expect(projectStatusOf('planning')).toBe('planning');
+    expect(projectStatusOf('archived')).toBe('draft');
+  });
+
+  it('includes legacy values when filtering by status', () => {
+    expect(storedProjectStatuses(['in_progress', 'on_hold'])).toEqual(['in_progress', 'on_hold', 'active']);
+    expect(storedProjectStatuses(['draft'])).toEqual(['draft']);
+  });
+});
+
+describe('projectTransitionBlockers', () => {
+  it('refuses transitions the lifecycle does not allow', () => {
+    expect(nextProjectStatuses('completed')).toEqual([]);
+    expect(projectTransitionBlockers('draft', 'in_progress', ready)).toEqual([
+      'A project cannot move from Draft to In Progress',
+    ]);
+  });
+
+  it('lets a planned project go back to the pipeline once it has a win probability', () => {
+    expect(projectTransitionBlockers('planning', 'pipeline', ready)).toEqual([
+      'Set a win probability before moving to the pipeline',
+    ]);
+    expect(projectTransitionBlockers('planning', 'pipeline', { ...ready, winProbability: 60 })).toEqual([]);
+  });
+
+  it('needs blocks, allocations and a budget before approval', () => {
+    expect(projectTransitionBlockers('planning', 'approved', ready)).toEqual([]);
+    expect(projectTransitionBlockers('planning', 'approved', {
+      ...ready,
+      blockCount: 0,
+      allocationCount: 0,
+      budgetCapex: null,
+    })).toEqual([
+      'The project has no blocks',
+      'Allocate resources before approving',
+      'Set a CapEx or OpEx budget before approving',
+    ]);
+  });
+
+  it('resumes a project on hold only once its released weeks are re-planned', () => {
+    expect(projectTransitionBlockers('on_hold', 'in_progress', { ...ready, futureAllocationCount: 0 })).toEqual([
+      'Its future allocations were released when it was put on hold; re-plan them before resuming',
+    ]);
+    // Resuming is not a first approval, so no allocation count is asked for
+    expect(projectTransitionBlockers('on_hold', 'approved', { ...ready, allocationCount: 0 })).toEqual([]);
+  });
+
+  it('completes a project only when every block is done', () => {
+    expect(projectTransitionBlockers('in_progress', 'completed', { ...ready, openBlockCount: 1 })).toEqual([
+      '1 block is not completed yet',
+    ]);
+    expect(projectTransitionBlockers('in_progress', 'completed', { ...ready, openBlockCount: 0 })).toEqual([]);
+  });
+});
+
+describe('releasedAllocationWeeks', () => {
+  it('releases every week of a lost pipeline project and future weeks otherwise', () => {
+    expect(releasedAllocationWeeks('pipeline', 'cancelled')).toBe('all');
+    expect(releasedAllocationWeeks('in_progress', 'cancelled')).toBe('future');
+    expect(releasedAllocationWeeks('approved', 'on_hold')).toBe('future');
+    expect(releasedAllocationWeeks('pipeline', 'planning')).toBeNull();
+  });
+});
+
+describe('canTransitionBlock', () => {
+  it('moves blocks one step at a time', () => {
+    expect(canTransitionBlock('not_started', 'in_progress')).toBe(true);
+    expect(canTransitionBlock('not_started', 'completed')).toBe(false);
+    expect(canTransitionBlock('completed', 'in_progress')).toBe(true);
+  });
+});
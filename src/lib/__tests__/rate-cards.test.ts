@@ -0,0 +1,79 @@
+import { monthlyRateHours } from '@/lib/cost';
+import { RateBook, rateInEffect } from '@/lib/rate-cards';
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+describe('rateInEffect', () => {
+  const rates = [
+    { effectiveFrom: day('2026-07-01'), costRate: 9000, billingRate: null },
+    { effectiveFrom: day('2026-01-01'), costRate: 8000, billingRate: null },
+  ];
+
+  it('takes the latest rate started on the date, whatever the order given', () => {
+    expect(rateInEffect(rates, day('2026-03-15'))?.costRate).toBe(8000);
+    expect(rateInEffect(rates, day('2026-09-01'))?.costRate).toBe(9000);
+  });
+
+  it('applies a rate from its effective date on', () => {
+    expect(rateInEffect(rates, day('2026-07-01'))?.costRate).toBe(9000);
+    expect(rateInEffect(rates, day('2026-06-30'))?.costRate).toBe(8000);
+  });
+
+  it('returns null before the first rate starts', () => {
+    expect(rateInEffect(rates, day('2025-12-31'))).toBeNull();
+    expect(rateInEffect([], day('2026-01-01'))).toBeNull();
+  });
+});
+
+describe('RateBook', () => {
+  const resource = {
+    id: 'r1',
+    role: 'developer',
+    monthlyRate: 4800,
+    capacityHoursPerWeek: 40,
+    rates: [{ effectiveFrom: day('2026-07-01'), costRate: 12800, billingRate: null }],
+  };
+  const rateCards = [
+    { role: 'developer', effectiveFrom: day('2026-01-01'), costRate: 8000, billingRate: 16000 },
+    { role: 'developer', effectiveFrom: day('2026-04-01'), costRate: 9600, billingRate: 19200 },
+  ];
+  const book = new RateBook([resource], rateCards, 160);
+
+  it('falls back from the resource rate to the role card to the default rate by date', () => {
+    expect(book.ratesAt('r1', day('2025-06-01'))).toEqual({
+      monthlyCost: 4800,
+      monthlyBilling: null,
+      hourlyCost: 30,
+      hourlyBilling: null,
+      source: 'default',
+    });
+    expect(book.ratesAt('r1', day('2026-02-01'))).toMatchObject({ monthlyCost: 8000, hourlyCost: 50, source: 'role_card' });
+    expect(book.ratesAt('r1', day('2026-05-01'))).toMatchObject({ monthlyCost: 9600, hourlyCost: 60, source: 'role_card' });
+    expect(book.ratesAt('r1', day('2026-08-01'))).toMatchObject({ monthlyCost: 12800, hourlyCost: 80, source: 'resource' });
+  });
+
+  it('takes the billing rate from the role card when the resource rate sets none', () => {
+    expect(book.ratesAt('r1', day('2026-08-01'))).toMatchObject({ monthlyBilling: 19200, hourlyBilling: 120 });
+    expect(book.billingPerHour('r1', day('2026-02-01'))).toBe(100);
+  });
+
+  it('spreads monthly rates over contracted hours without a configured basis', () => {
+    const contracted = new RateBook([resource], rateCards);
+
+    expect(contracted.costPerHour('r1', day('2026-02-01'))).toBeCloseTo(8000 / monthlyRateHours(resource), 10);
+  });
+
+  it('prices added resources at their own rates, keeping the role cards', () => {
+    const hire = { id: 'new:EMP900', role: null, monthlyRate: 6400, capacityHoursPerWeek: 40, rates: [] };
+    const changed = book.withResources([hire, { ...resource, rates: [] }]);
+
+    expect(changed.costPerHour('new:EMP900', day('2026-02-01'))).toBe(40);
+    expect(changed.ratesAt('r1', day('2026-08-01'))).toMatchObject({ monthlyCost: 9600, source: 'role_card' });
+    expect(book.costPerHour('new:EMP900', day('2026-02-01'))).toBe(0);
+  });
+
+  it('costs unknown resources nothing', () => {
+    expect(book.costPerHour('missing', day('2026-02-01'))).toBe(0);
+    expect(book.billingPerHour('missing', day('2026-02-01'))).toBeNull();
+  });
+});
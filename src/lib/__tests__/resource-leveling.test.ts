@@ -0,0 +1,103 @@
+import { type LevelingBlock, type LevelingProject, levelPortfolio } from '@/lib/resource-leveling';
+import { DEFAULT_WORKING_DAYS, WorkingCalendar } from '@/lib/working-calendar';
+
+const calendar = new WorkingCalendar({ workingDays: DEFAULT_WORKING_DAYS, hoursPerDay: 8, holidays: [] });
+const resources = [
+  { id: 'r1', employeeCode: 'EMP001', capacityHoursPerWeek: 40 },
+  { id: 'r2', employeeCode: 'EMP002', capacityHoursPerWeek: 40 },
+];
+const today = new Date('2026-01-05T00:00:00Z');
+
+// A one-week block booking `resourceId` full time in the week of `week`
+function block(code: string, week: string, resourceId: string, dependencies: string[] = [], status = 'not_started'): LevelingBlock {
+  const start = new Date(`${week}T00:00:00Z`);
+  return {
+    id: `${code}-block`,
+    blockCode: code,
+    sequenceIndex: 0,
+    status,
+    plannedStart: start,
+    plannedEnd: new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000),
+    dependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+    allocations: [{ id: `${code}-allocation`, resourceId, weekStartDate: start, allocatedHours: 40 }],
+  };
+}
+
+function project(code: string, priority: number, blocks: LevelingBlock[]): LevelingProject {
+  return {
+    id: code,
+    code,
+    name: `Project ${code}`,
+    priority,
+    targetStartDate: blocks[0].plannedStart,
+    blocks: blocks.map((entry, index) => ({ ...entry, id: `${code}-${entry.id}`, sequenceIndex: index })),
+  };
+}
+
+describe('levelPortfolio', () => {
+  const options = { maxDelayWeeks: 4, allowProjectDelay: true, today };
+
+  it('delays the lower-priority project off an overbooked week', () => {
+    const result = levelPortfolio({
+      projects: [project('LOW', 2, [block('A', '2026-02-02', 'r1')]), project('HIGH', 1, [block('A', '2026-02-02', 'r1')])],
+      fixedAllocations: [],
+      resources,
+      calendar,
+    }, options);
+
+    expect(result.moves).toHaveLength(1);
+    expect(result.moves[0]).toMatchObject({ projectCode: 'LOW', shiftWeeks: 1, reason: 'EMP001 over capacity w/c 2026-02-02' });
+    expect(result.allocationMoves[0]).toMatchObject({ fromWeek: '2026-02-02', toWeek: '2026-02-09' });
+    expect(result.projectDelays).toEqual([expect.objectContaining({ projectCode: 'LOW', delayDays: 7 })]);
+    expect(result.overallocatedWeeksBefore).toBe(1);
+    expect(result.overallocatedWeeksAfter).toBe(0);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('moves successors after a delayed predecessor', () => {
+    const result = levelPortfolio({
+      projects: [
+        project('HIGH', 1, [block('A', '2026-02-02', 'r1')]),
+        project('LOW', 2, [block('A', '2026-02-02', 'r1'), block('B', '2026-02-09', 'r2', ['A'])]),
+      ],
+      fixedAllocations: [],
+      resources,
+      calendar,
+    }, options);
+
+    expect(result.moves.map(move => [move.blockCode, move.shiftWeeks, move.reason])).toEqual([
+      ['A', 1, 'EMP001 over capacity w/c 2026-02-02'],
+      ['B', 1, 'Follows a delayed predecessor'],
+    ]);
+    expect(result.projectDelays[0].delayDays).toBe(7);
+  });
+
+  it('keeps finish dates when project delays are not allowed', () => {
+    const result = levelPortfolio({
+      projects: [project('LOW', 2, [block('A', '2026-02-02', 'r1')])],
+      fixedAllocations: [{ resourceId: 'r1', weekStartDate: new Date('2026-02-02T00:00:00Z'), allocatedHours: 40 }],
+      resources,
+      calendar,
+    }, { ...options, allowProjectDelay: false });
+
+    expect(result.moves).toEqual([]);
+    expect(result.unresolved).toEqual([{
+      projectCode: 'LOW',
+      blockCode: 'A',
+      message: 'EMP001 over capacity w/c 2026-02-02; the block has no slack to move into',
+    }]);
+    expect(result.overallocatedWeeksAfter).toBe(1);
+  });
+
+  it('never moves a block that has started', () => {
+    const result = levelPortfolio({
+      projects: [project('LOW', 2, [block('A', '2026-02-02', 'r1', [], 'in_progress')])],
+      fixedAllocations: [{ resourceId: 'r1', weekStartDate: new Date('2026-02-02T00:00:00Z'), allocatedHours: 40 }],
+      resources,
+      calendar,
+    }, options);
+
+    expect(result.moves).toEqual([]);
+    expect(result.unresolved).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { type RiskBlock, analyzeScheduleRisk } from '@/lib/schedule-risk';
+import { DEFAULT_WORKING_DAYS, WorkingCalendar } from '@/lib/working-calendar';
+
+const calendar = new WorkingCalendar({ workingDays: DEFAULT_WORKING_DAYS, hoursPerDay: 8, holidays: [] });
+const projectStart = new Date('2026-01-05T00:00:00Z');
+const finishAfter = (days: number) => calendar.addWorkingDays(projectStart, days).toISOString();
+
+function riskBlock(code: string, days: [number, number, number], predecessors: string[] = []): RiskBlock {
+  return {
+    code,
+    name: `Block ${code}`,
+    optimisticDays: days[0],
+    mostLikelyDays: days[1],
+    pessimisticDays: days[2],
+    dependencies: predecessors.map(predecessor => ({ predecessor, successor: code, type: 'FS' as const, lagDays: 0 })),
+    notBeforeDays: 0,
+  };
+}
+
+describe('analyzeScheduleRisk', () => {
+  it('finishes every iteration on the planned date when no block has a range', () => {
+    const result = analyzeScheduleRisk(
+      [riskBlock('A', [5, 5, 5]), riskBlock('B', [10, 10, 10], ['A'])],
+      projectStart,
+      calendar,
+      { iterations: 100, seed: 1 }
+    );
+
+    expect(result.plannedFinish).toBe('2026-01-26T00:00:00.000Z');
+    expect([result.p50, result.p80, result.p95, result.meanFinish]).toEqual(Array(4).fill(result.plannedFinish));
+    expect(result.onTimeProbability).toBe(1);
+    expect(result.curve).toEqual([{ date: result.plannedFinish, probability: 1 }]);
+    expect(result.fixedDurationBlocks).toEqual(['A', 'B']);
+    expect(result.drivers.map(driver => [driver.blockCode, driver.criticality])).toEqual([['A', 1], ['B', 1]]);
+  });
+
+  it('reports the percentiles of the triangular duration with a fixed seed', () => {
+    // Triangular(10, 10, 20): the p-th percentile is 20 - 10 * sqrt(1 - p),
+    // i.e. 12.9, 15.5 and 17.8 working days, finishing on days 13, 16 and 18
+    const result = analyzeScheduleRisk([riskBlock('A', [10, 10, 20])], projectStart, calendar, {
+      iterations: 20000,
+      seed: 42,
+    });
+
+    expect(result.p50).toBe(finishAfter(13));
+    expect(result.p80).toBe(finishAfter(16));
+    expect(result.p95).toBe(finishAfter(18));
+    expect(result.plannedFinish).toBe(finishAfter(10));
+    expect(result.onTimeProbability).toBe(0);
+    expect(result.curve[result.curve.length - 1]).toEqual({ date: finishAfter(20), probability: 1 });
+  });
+
+  it('gives the same result for the same seed', () => {
+    const blocks = [riskBlock('A', [4, 5, 9]), riskBlock('B', [8, 10, 15], ['A']), riskBlock('C', [3, 6, 12], ['A'])];
+    const first = analyzeScheduleRisk(blocks, projectStart, calendar, { iterations: 500, seed: 7 });
+    const second = analyzeScheduleRisk(blocks, projectStart, calendar, { iterations: 500, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(first.p50 <= first.p80 && first.p80 <= first.p95).toBe(true);
+  });
+
+  it('counts how often each parallel block drives the finish', () => {
+    // B runs past A's 10 days with probability (20 - 10)^2 / (15 * 15) = 0.444
+    const result = analyzeScheduleRisk(
+      [riskBlock('A', [10, 10, 10]), riskBlock('B', [5, 5, 20])],
+      projectStart,
+      calendar,
+      { iterations: 20000, seed: 3 }
+    );
+
+    const criticality = Object.fromEntries(result.drivers.map(driver => [driver.blockCode, driver.criticality]));
+    expect(criticality.B).toBeCloseTo(0.444, 1);
+    expect(criticality.A + criticality.B).toBeCloseTo(1, 5);
+    expect(result.fixedDurationBlocks).toEqual(['A']);
+  });
+
+  it('keeps completed blocks on their actual dates', () => {
+    const result = analyzeScheduleRisk(
+      [{ ...riskBlock('A', [5, 5, 5]), actual: { startDays: 0, finishDays: 8 } }, riskBlock('B', [5, 5, 5], ['A'])],
+      projectStart,
+      calendar,
+      { iterations: 10, seed: 1 }
+    );
+
+    expect(result.plannedFinish).toBe(finishAfter(13));
+    expect(result.fixedDurationBlocks).toEqual(['B']);
+  });
+});
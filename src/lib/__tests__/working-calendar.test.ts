@@ -0,0 +1,96 @@
+import { DEFAULT_WORKING_DAYS, WorkingCalendar, parseAvailabilityCalendar } from '@/lib/working-calendar';
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+// Mon-Fri with New Year's Day off everywhere and a UK bank holiday on 5 January
+const calendar = new WorkingCalendar({
+  workingDays: DEFAULT_WORKING_DAYS,
+  hoursPerDay: 8,
+  holidays: [
+    { name: "New Year's Day", type: 'public_holiday', startDate: day('2026-01-01'), endDate: day('2026-01-01'), region: null },
+    { name: 'Bank holiday', type: 'public_holiday', startDate: day('2026-01-05'), endDate: day('2026-01-05'), region: 'UK' },
+  ],
+});
+
+// Mon-Thu 8h with Fridays off, then four hours a day from February
+const partTime = JSON.stringify({
+  patterns: [
+    { effectiveFrom: null, dayHours: [0, 8, 8, 8, 8, 0, 0] },
+    { effectiveFrom: '2026-02-01', dayHours: [0, 4, 4, 4, 4, 4, 0] },
+  ],
+});
+
+describe('addWorkingDays', () => {
+  it('skips weekends and holidays', () => {
+    expect(calendar.addWorkingDays(day('2025-12-31'), 1)).toEqual(day('2026-01-02'));
+    expect(calendar.addWorkingDays(day('2026-01-02'), 1)).toEqual(day('2026-01-05'));
+    expect(calendar.addWorkingDays(day('2026-01-02'), 1, 'UK')).toEqual(day('2026-01-06'));
+  });
+
+  it('starts from the next working day and counts back for negative days', () => {
+    expect(calendar.addWorkingDays(day('2026-01-03'), 0)).toEqual(day('2026-01-05'));
+    expect(calendar.addWorkingDays(day('2026-01-05'), -2)).toEqual(day('2025-12-31'));
+  });
+});
+
+describe('workingDaysBetween', () => {
+  it('counts working days from the start up to, not including, the end', () => {
+    expect(calendar.workingDaysBetween(day('2026-01-05'), day('2026-01-12'))).toBe(5);
+    expect(calendar.workingDaysBetween(day('2026-01-05'), day('2026-01-12'), 'UK')).toBe(4);
+    expect(calendar.workingDaysBetween(day('2025-12-29'), day('2026-01-05'))).toBe(4);
+    expect(calendar.workingDaysBetween(day('2026-01-12'), day('2026-01-05'))).toBe(0);
+  });
+});
+
+describe('resourceDayHours', () => {
+  const resource = { capacityHoursPerWeek: 40, region: 'UK' };
+
+  it('spreads the contracted week over working days', () => {
+    expect(calendar.resourceDayHours(resource, day('2026-01-06'))).toBe(8);
+    expect(calendar.resourceDayHours(resource, day('2026-01-05'))).toBe(0);
+    expect(calendar.resourceDayHours(resource, day('2026-01-10'))).toBe(0);
+  });
+
+  it('follows the availability pattern in force, outside holidays', () => {
+    const availability = { ...resource, availabilityCalendar: partTime };
+
+    expect(calendar.resourceDayHours(availability, day('2026-01-08'))).toBe(8);
+    expect(calendar.resourceDayHours(availability, day('2026-01-09'))).toBe(0);
+    expect(calendar.resourceDayHours(availability, day('2026-02-06'))).toBe(4);
+    expect(calendar.resourceDayHours(availability, day('2026-01-05'))).toBe(0);
+  });
+
+  it('takes a calendar exception over everything else', () => {
+    const onLeave = {
+      ...resource,
+      availabilityCalendar: partTime,
+      calendarExceptions: [
+        { date: day('2026-01-07'), capacityOverrideHours: null },
+        { date: day('2026-01-09'), capacityOverrideHours: 6 },
+      ],
+    };
+
+    expect(calendar.resourceDayHours(onLeave, day('2026-01-07'))).toBe(0);
+    expect(calendar.resourceDayHours(onLeave, day('2026-01-09'))).toBe(6);
+    expect(calendar.resourceWeeklyHours(onLeave, day('2026-01-05'))).toBe(22);
+  });
+});
+
+describe('parseAvailabilityCalendar', () => {
+  it('keeps the valid patterns of a stored calendar', () => {
+    const value = JSON.stringify({
+      patterns: [{ effectiveFrom: null, dayHours: [0, 8, 8, 8, 8, 0, 0] }, { dayHours: [8, 8] }],
+    });
+
+    expect(parseAvailabilityCalendar(value)).toEqual({
+      patterns: [{ effectiveFrom: null, dayHours: [0, 8, 8, 8, 8, 0, 0] }],
+    });
+  });
+
+  it('returns null for empty or unrecognised values', () => {
+    expect(parseAvailabilityCalendar(null)).toBeNull();
+    expect(parseAvailabilityCalendar('not json')).toBeNull();
+    expect(parseAvailabilityCalendar('{"patterns":"weekdays"}')).toBeNull();
+    expect(parseAvailabilityCalendar('{"patterns":[{"dayHours":[0,0,0,0,0,0,0]}]}')).toBeNull();
+  });
+});
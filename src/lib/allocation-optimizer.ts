@@ -0,0 +1,193 @@
+// Allocation of skill requirements to resources across all weeks at once, as
+// a minimum-cost flow.
+import { MinCostFlow } from '@/lib/min-cost-flow';
+
+export type RequirementPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface OptimizerRequirement {
+  skillId: string;
+  requiredLevel: number;
+  requiredHours: number;
+  priority: RequirementPriority;
+}
+
+export interface OptimizerCandidate {
+  resourceId: string;
+  // Skill levels by skill id
+  skillLevels: Record<string, number>;
+  weeks: Array<{
+    weekStartDate: string;
+    // Cost rate in effect that week
+    hourlyRate: number;
+    // Free hours up to the utilization limit
+    availableHours: number;
+    // Further hours that would overallocate the resource, when allowed
+    overallocationHours: number;
+  }>;
+}
+
+export interface OptimizedAssignment {
+  requirementIndex: number;
+  resourceId: string;
+  weekStartDate: string;
+  hours: number;
+  // Levels the resource is below the required level
+  skillShortfall: number;
+  isOverallocation: boolean;
+}
+
+export interface RequirementOutcome {
+  requirementIndex: number;
+  allocatedHours: number;
+  unmetHours: number;
+  // Hours given to resources below the required level
+  shortfallHours: number;
+}
+
+// Unmet hours of each priority cost this many times those of a low one
+const UNMET_WEIGHT: Record<RequirementPriority, number> = {
+  critical: 8,
+  high: 4,
+  medium: 2,
+  low: 1,
+};
+const UNEVEN_SPREAD_COST = 1;
+
+/**
+ * Costs per hour of the objective, which ranks unmet hours above skill
+ * shortfall, above overallocation, above rates, above an uneven weekly
+ * spread. Each tier is priced above the most every lower tier can add to an
+ * hour, measured from the highest rate in the input, so no rate can buy its
+ * way past a higher tier.
+ */
+function objectiveCosts(requirements: OptimizerRequirement[], candidates: OptimizerCandidate[]) {
+  const maxRate = Math.max(0, ...candidates.flatMap(candidate => candidate.weeks.map(week => week.hourlyRate)));
+  const maxShortfall = Math.max(1, ...requirements.map(requirement => requirement.requiredLevel));
+
+  const rateTier = maxRate + UNEVEN_SPREAD_COST;
+  const overallocation = 2 * rateTier;
+  const shortfallPerLevel = 2 * (overallocation + rateTier);
+  const unmet = 2 * (maxShortfall * shortfallPerLevel + overallocation + rateTier);
+
+  return {
+    unmet: (priority: RequirementPriority) => unmet * UNMET_WEIGHT[priority],
+    shortfallPerLevel,
+    overallocation,
+    unevenSpread: UNEVEN_SPREAD_COST,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Assign requirement hours to resources and weeks at the lowest total cost.
+ * Unlike filling requirements one after another, no requirement can starve a
+ * later one of the only qualified resource. Resources below the required
+ * level are used only when that beats leaving hours unmet.
+ */
+export function optimizeAllocation(
+  requirements: OptimizerRequirement[],
+  candidates: OptimizerCandidate[],
+  weekStartDates: string[]
+): { assignments: OptimizedAssignment[]; outcomes: RequirementOutcome[] } {
+  const costs = objectiveCosts(requirements, candidates);
+  const network = new MinCostFlow();
+  const source = network.addNode();
+  const sink = network.addNode();
+
+  // One node per resource week, draining into the sink up to its free hours
+  const slots = new Map<string, number>();
+  for (const candidate of candidates) {
+    for (const week of candidate.weeks) {
+      const slot = network.addNode();
+      slots.set(`${candidate.resourceId}|${week.weekStartDate}`, slot);
+      if (week.availableHours > 0) {
+        network.addEdge(slot, sink, week.availableHours, 0);
+      }
+      if (week.overallocationHours > 0) {
+        network.addEdge(slot, sink, week.overallocationHours, costs.overallocation);
+      }
+    }
+  }
+
+  const assignmentEdges: Array<{
+    requirementIndex: number;
+    candidate: OptimizerCandidate;
+    weekStartDate: string;
+    shortfall: number;
+    edge: ReturnType<MinCostFlow['addEdge']>;
+  }> = [];
+
+  const unmetEdges = requirements.map((requirement, requirementIndex) => {
+    const node = network.addNode();
+    network.addEdge(source, node, requirement.requiredHours, 0);
+    const unmet = network.addEdge(node, sink, requirement.requiredHours, costs.unmet(requirement.priority));
+
+    // An even share per week is free; more in one week costs a little
+    const weeklyShare = requirement.requiredHours / Math.max(1, weekStartDates.length);
+    for (const weekStartDate of weekStartDates) {
+      const week = network.addNode();
+      network.addEdge(node, week, weeklyShare, 0);
+      network.addEdge(node, week, requirement.requiredHours, costs.unevenSpread);
+
+      for (const candidate of candidates) {
+        const level = candidate.skillLevels[requirement.skillId];
+        const slot = slots.get(`${candidate.resourceId}|${weekStartDate}`);
+        const hourlyRate = candidate.weeks.find(week => week.weekStartDate === weekStartDate)?.hourlyRate;
+        if (level === undefined || slot === undefined || hourlyRate === undefined) {
+          continue;
+        }
+        const shortfall = Math.max(0, requirement.requiredLevel - level);
+        const edge = network.addEdge(
+          week,
+          slot,
+          requirement.requiredHours,
+          shortfall * costs.shortfallPerLevel + hourlyRate
+        );
+        assignmentEdges.push({ requirementIndex, candidate, weekStartDate, shortfall, edge });
+      }
+    }
+    return unmet;
+  });
+
+  network.solve(source, sink);
+
+  // Hours above the free hours of a resource week overallocate it
+  const slotUsage = new Map<string, number>();
+  const assignments: OptimizedAssignment[] = [];
+  for (const { requirementIndex, candidate, weekStartDate, shortfall, edge } of assignmentEdges) {
+    const hours = round(network.flowOn(edge));
+    if (hours <= 0) {
+      continue;
+    }
+    const key = `${candidate.resourceId}|${weekStartDate}`;
+    const used = (slotUsage.get(key) || 0) + hours;
+    slotUsage.set(key, used);
+    const available = candidate.weeks.find(week => week.weekStartDate === weekStartDate)?.availableHours || 0;
+
+    assignments.push({
+      requirementIndex,
+      resourceId: candidate.resourceId,
+      weekStartDate,
+      hours,
+      skillShortfall: shortfall,
+      isOverallocation: used > available + 0.01,
+    });
+  }
+
+  const outcomes = requirements.map((requirement, requirementIndex) => {
+    const assigned = assignments.filter(assignment => assignment.requirementIndex === requirementIndex);
+    return {
+      requirementIndex,
+      allocatedHours: round(assigned.reduce((sum, assignment) => sum + assignment.hours, 0)),
+      unmetHours: round(network.flowOn(unmetEdges[requirementIndex])),
+      shortfallHours: round(
+        assigned.filter(assignment => assignment.skillShortfall > 0).reduce((sum, assignment) => sum + assignment.hours, 0)
+      ),
+    };
+  });
+
+  return { assignments, outcomes };
+}
@@ -0,0 +1,84 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+import { AuditAction, AuditEntityType, diffAuditValues } from '@/lib/audit';
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Code or name shown in the audit view
+  entityLabel?: string | null;
+  // Project the change belongs to, for the project history
+  projectId?: string | null;
+  summary?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+/**
+ * Append an audit entry for a change made by a user. Pass the transaction
+ * client when the change runs in one, so both commit together. Updates that
+ * change no recorded field are skipped unless they carry a summary.
+ */
+export async function recordAudit(
+  db: Prisma.TransactionClient,
+  actor: SessionUser,
+  entry: AuditEntry
+) {
+  const changes = diffAuditValues(entry.before ?? null, entry.after ?? null);
+  if (entry.action === 'update' && !entry.summary && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return db.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorName: actor.name,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      entityLabel: entry.entityLabel ?? null,
+      projectId: entry.projectId ?? null,
+      summary: entry.summary ?? null,
+      changes: JSON.stringify(changes),
+    },
+  });
+}
+
+/**
+ * Allocated hours by "BLOCK / EMPLOYEE" for a set of allocations. Bulk
+ * allocation changes are audited as one entry comparing these totals rather
+ * than one entry per week.
+ */
+export async function allocationTotals(
+  db: Prisma.TransactionClient,
+  where: Prisma.AllocationWhereInput
+): Promise<Record<string, number>> {
+  const allocations = await db.allocation.findMany({
+    where,
+    select: {
+      allocatedHours: true,
+      resource: { select: { employeeCode: true } },
+      projectBlock: { select: { block: { select: { code: true } } } },
+    },
+  });
+
+  const totals: Record<string, number> = {};
+  for (const allocation of allocations) {
+    const key = `${allocation.projectBlock.block.code} / ${allocation.resource.employeeCode}`;
+    totals[key] = Math.round(((totals[key] || 0) + allocation.allocatedHours) * 100) / 100;
+  }
+  return totals;
+}
+
+/**
+ * Label of a single weekly allocation, e.g. "DESIGN / EMP001 w/c 2024-03-04"
+ */
+export function allocationLabel(allocation: {
+  weekStartDate: Date;
+  resource: { employeeCode: string };
+  projectBlock: { block: { code: string } };
+}): string {
+  const week = allocation.weekStartDate.toISOString().split('T')[0];
+  return `${allocation.projectBlock.block.code} / ${allocation.resource.employeeCode} w/c ${week}`;
+}
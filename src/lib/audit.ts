@@ -0,0 +1,140 @@
+// Audit log vocabulary: the actions and entity types an entry records, and
+// the field-by-field changes stored with it.
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'project'
+  | 'project_baseline'
+  | 'scenario'
+  | 'allocation'
+  | 'resource'
+  | 'calendar_exception'
+  | 'resource_rate'
+  | 'project_type'
+  | 'tier'
+  | 'tier_block'
+  | 'block'
+  | 'deliverable'
+  | 'skill'
+  | 'working_calendar'
+  | 'calendar_holiday'
+  | 'rate_card';
+
+export const AUDIT_ACTIONS: Array<{ value: AuditAction; label: string }> = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+];
+
+export const AUDIT_ENTITY_TYPES: Array<{ value: AuditEntityType; label: string }> = [
+  { value: 'project', label: 'Project' },
+  { value: 'project_baseline', label: 'Baseline' },
+  { value: 'scenario', label: 'Scenario' },
+  { value: 'allocation', label: 'Allocation' },
+  { value: 'resource', label: 'Resource' },
+  { value: 'calendar_exception', label: 'Calendar exception' },
+  { value: 'resource_rate', label: 'Resource rate' },
+  { value: 'project_type', label: 'Project type' },
+  { value: 'tier', label: 'Tier' },
+  { value: 'tier_block', label: 'Tier block' },
+  { value: 'block', label: 'Block' },
+  { value: 'deliverable', label: 'Deliverable' },
+  { value: 'skill', label: 'Skill' },
+  { value: 'working_calendar', label: 'Working calendar' },
+  { value: 'calendar_holiday', label: 'Holiday' },
+  { value: 'rate_card', label: 'Rate card' },
+];
+
+export interface AuditFieldChange {
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export type AuditValue = string | number | boolean | null;
+
+// Stored as JSON in AuditLog.changes
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+// Identifiers and bookkeeping timestamps say nothing about the change
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'passwordHash']);
+
+// Hidden from users who may not view rates
+export const RATE_FIELDS = ['monthlyRate', 'hourlyRate', 'costRate', 'billingRate'];
+
+/**
+ * Scalar fields of a record as stored in an audit entry. Dates become ISO
+ * strings; relations and other nested values are left out.
+ */
+function auditSnapshot(record: Record<string, unknown> | null): Record<string, AuditValue> {
+  const snapshot: Record<string, AuditValue> = {};
+  if (!record) {
+    return snapshot;
+  }
+
+  for (const [field, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    if (value instanceof Date) {
+      snapshot[field] = value.toISOString();
+    } else if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      snapshot[field] = value as AuditValue;
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Field-by-field difference between two versions of a record. Pass null as
+ * `before` for a creation and as `after` for a deletion.
+ */
+export function diffAuditValues(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const previous = auditSnapshot(before);
+  const next = auditSnapshot(after);
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (from !== to) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+export function parseAuditChanges(value: string | null | undefined): AuditChanges {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function auditEntityLabel(entityType: string): string {
+  return AUDIT_ENTITY_TYPES.find(type => type.value === entityType)?.label || entityType;
+}
+
+/**
+ * Display form of a recorded value; midnight timestamps are shown as dates
+ */
+export function formatAuditValue(value: AuditValue): string {
+  if (value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T00:00:00(\.000)?Z$/.test(value)) {
+    return value.split('T')[0];
+  }
+  return String(value);
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { Permission, hasPermission } from '@/lib/permissions';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+} from '@/lib/session-token';
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  name: string;
+  email: string | null;
+  role: string;
+}
+
+/**
+ * Start a session for a user and return the signed cookie value
+ */
+export async function createSession(
+  userId: string,
+  userAgent?: string | null
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+  // Drop the user's expired sessions while we are here
+  await prisma.session.deleteMany({
+    where: { userId, expiresAt: { lt: new Date() } },
+  });
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      expiresAt,
+      userAgent: userAgent || null,
+    },
+  });
+
+  return {
+    token: await signSessionToken({ sessionId: session.id, expiresAt }),
+    expiresAt,
+  };
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+/**
+ * Session id from the request cookie, if its signature and expiry are valid
+ */
+export async function getSessionId(request: NextRequest): Promise<string | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const payload = token ? await verifySessionToken(token) : null;
+  return payload?.sessionId ?? null;
+}
+
+/**
+ * User behind the request's session cookie, or null when the session is
+ * missing, expired, revoked or belongs to a deactivated user
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const sessionId = await getSessionId(request);
+  if (!sessionId) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          name: true,
+          email: true,
+          role: true,
+          active: true,
+        },
+      },
+    },
+  });
+
+  if (!session || session.expiresAt <= new Date() || !session.user.active) {
+    return null;
+  }
+
+  const { active, ...user } = session.user;
+  return user;
+}
+
+/**
+ * Current user if they hold a permission; otherwise the 401 or 403 response
+ * the handler should return
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!hasPermission(user.role, permission)) {
+    return NextResponse.json(
+      { error: 'You do not have permission to perform this action' },
+      { status: 403 }
+    );
+  }
+
+  return user;
+}
@@ -1,3 +1,30 @@
+import {
+  type DependencyLink,
+  earliestStartAfter,
+  findDependencyCycles,
+  latestFinishBefore,
+} from '@/lib/dependencies';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+// Skill code to the percentage of a full-time week the block needs of it
+export type SkillsMix = Record<string, number>;
+
+/**
+ * A skills mix as stored on blocks and tier blocks; null when there is none
+ * or it does not parse as one
+ */
+export function parseSkillsMix(value: string | null): SkillsMix | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const mix = JSON.parse(value);
+    return mix && typeof mix === 'object' && !Array.isArray(mix) ? mix : null;
+  } catch {
+    return null;
+  }
+}
+
 export interface ProjectBlockPlan {
   blockId: string;
   blockCode: string;
@@ -6,14 +33,21 @@ export interface ProjectBlockPlan {
   plannedStart: Date;
   plannedEnd: Date;
   plannedDurationWeeks: number;
-  dependencies: string[];
-  requiredSkillsMix: any;
+  dependencies: DependencyLink[];
+  requiredSkillsMix: SkillsMix | null;
   deliverables: Array<{
     id: string;
     code: string;
     name: string;
     description?: string | null;
   }>;
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  // Working days the block can slip without delaying the project
+  slackDays: number;
+  isCritical: boolean;
 }
 
 export interface ProjectPlan {
@@ -22,6 +56,47 @@ export interface ProjectPlan {
   projectEnd: Date;
   totalDurationWeeks: number;
   totalBlocks: number;
+  criticalPath: string[];
+  dependencyCycles: string[][];
+  unresolvedDependencies: Array<{
+    blockCode: string;
+    dependencyCode: string;
+  }>;
+  priorityFit?: PriorityFitResult;
+}
+
+export interface CapacitySnapshot {
+  resources: Array<{
+    id: string;
+    capacityHoursPerWeek: number;
+    region: string | null;
+    availabilityCalendar: string | null;
+    calendarExceptions: Array<{
+      date: Date;
+      capacityOverrideHours: number | null;
+    }>;
+    skills: Array<{
+      code: string;
+      level: number;
+    }>;
+  }>;
+  // Hours already booked by resource id, then by week key (Monday, YYYY-MM-DD)
+  bookedHours: Record<string, Record<string, number>>;
+}
+
+export interface PriorityFitResult {
+  requestedStart: Date;
+  fittedStart: Date;
+  shiftWeeks: number;
+  feasible: boolean;
+  reasons: string[];
+}
+
+export interface PlanningOptions {
+  // Existing bookings, required for priority_fit
+  capacity?: CapacitySnapshot;
+  // Defaults to Monday to Friday without holidays
+  calendar?: WorkingCalendar;
 }
 
 export interface TierBlock {
@@ -40,8 +115,21 @@ export interface TierBlock {
     }>;
   };
   durationWeeks: number;
-  skillsMix: any;
-  dependencies: string[];
+  skillsMix: SkillsMix | null;
+  // Links to predecessor blocks; null when the block declares none and
+  // should follow the previous block in sequence order
+  dependencies: DependencyLink[] | null;
+}
+
+// Skills mix percentages are expressed against one full-time week
+const STANDARD_HOURS_PER_WEEK = 40;
+const MIN_SKILL_LEVEL = 3;
+const MAX_PRIORITY_FIT_SHIFT_WEEKS = 52;
+
+interface DependencyNetwork {
+  predecessors: Map<string, DependencyLink[]>;
+  successors: Map<string, DependencyLink[]>;
+  unresolved: Array<{ blockCode: string; dependencyCode: string }>;
 }
 
 /**
@@ -49,96 +137,415 @@ export interface TierBlock {
  */
 export class AutoPlanningEngine {
   /**
-   * Generate a project plan from tier blocks
+   * Generate a project plan from tier blocks using the critical path method.
+   * Durations and lags are counted in working days of the calendar.
    */
   static generateProjectPlan(
     tierBlocks: TierBlock[],
     targetStartDate: Date,
-    mode: 'strict_start' | 'priority_fit'
+    mode: 'strict_start' | 'priority_fit',
+    options: PlanningOptions = {}
   ): ProjectPlan {
+    const calendar = options.calendar || WorkingCalendar.standard();
+    
     // Sort blocks by sequence index
     const sortedBlocks = [...tierBlocks].sort((a, b) => a.sequenceIndex - b.sequenceIndex);
     
-    const projectBlocks: ProjectBlockPlan[] = [];
-    let currentDate = new Date(targetStartDate);
+    // For strict_start mode, start on the first working day from the target date
+    // For priority_fit mode, move the start to the earliest week the skills mix can be staffed
+    if (mode === 'priority_fit' && options.capacity) {
+      const priorityFit = this.findEarliestFeasibleStart(
+        sortedBlocks,
+        targetStartDate,
+        options.capacity,
+        calendar
+      );
+      return {
+        ...this.scheduleBlocks(sortedBlocks, priorityFit.fittedStart, calendar),
+        priorityFit,
+      };
+    }
     
-    // For strict_start mode, start immediately on target date
-    // For priority_fit mode, we could implement logic to find optimal start time
-    // For now, both modes start on target date but priority_fit could be enhanced later
+    return this.scheduleBlocks(sortedBlocks, targetStartDate, calendar);
+  }
+  
+  /**
+   * Search week by week from the target date for the earliest start at which
+   * every block's skills mix fits into the capacity left by existing bookings
+   */
+  static findEarliestFeasibleStart(
+    tierBlocks: TierBlock[],
+    targetStartDate: Date,
+    capacity: CapacitySnapshot,
+    calendar: WorkingCalendar = WorkingCalendar.standard()
+  ): PriorityFitResult {
+    const sortedBlocks = [...tierBlocks].sort((a, b) => a.sequenceIndex - b.sequenceIndex);
+    const reasons: string[] = [];
     
-    for (let i = 0; i < sortedBlocks.length; i++) {
-      const tierBlock = sortedBlocks[i];
-      const block = tierBlock.block;
+    // Skills nobody has can never be staffed, so they must not hold the project back
+    const staffableSkills = new Set(
+      capacity.resources.flatMap(resource =>
+        resource.skills.filter(skill => skill.level >= MIN_SKILL_LEVEL).map(skill => skill.code)
+      )
+    );
+    const unstaffable = new Set(
+      sortedBlocks
+        .flatMap(tierBlock => Object.keys(tierBlock.skillsMix || {}))
+        .filter(skillCode => !staffableSkills.has(skillCode))
+    );
+    
+    if (unstaffable.size > 0) {
+      reasons.push(
+        `No active resource has ${Array.from(unstaffable).join(', ')} at level ${MIN_SKILL_LEVEL}+; these skills were ignored`
+      );
+    }
+    
+    for (let shiftWeeks = 0; shiftWeeks <= MAX_PRIORITY_FIT_SHIFT_WEEKS; shiftWeeks++) {
+      const candidateStart = this.addWeeks(targetStartDate, shiftWeeks);
+      // Holidays fall differently for every candidate start, so reschedule each time
+      const candidatePlan = this.scheduleBlocks(sortedBlocks, candidateStart, calendar);
+      const shortages: string[] = [];
+      
+      for (const { weekStart, demand } of this.weeklySkillDemand(candidatePlan, staffableSkills, calendar)) {
+        shortages.push(...this.findWeeklyShortages(weekStart, demand, capacity, calendar));
+        if (shortages.length > 0) {
+          break;
+        }
+      }
+      
+      if (shortages.length === 0) {
+        return {
+          requestedStart: new Date(targetStartDate),
+          fittedStart: candidateStart,
+          shiftWeeks,
+          feasible: true,
+          reasons,
+        };
+      }
+      
+      // Explain why the requested start itself did not fit
+      if (shiftWeeks === 0) {
+        reasons.push(...shortages);
+      }
+    }
+    
+    reasons.push(
+      `No feasible start found within ${MAX_PRIORITY_FIT_SHIFT_WEEKS} weeks; keeping the target start date`
+    );
+    
+    return {
+      requestedStart: new Date(targetStartDate),
+      fittedStart: new Date(targetStartDate),
+      shiftWeeks: 0,
+      feasible: false,
+      reasons,
+    };
+  }
+  
+  /**
+   * Hours needed per skill in each calendar week of a plan, spread over the
+   * working days each block is active
+   */
+  private static weeklySkillDemand(
+    plan: ProjectPlan,
+    skills: Set<string>,
+    calendar: WorkingCalendar
+  ): Array<{ weekStart: Date; demand: Map<string, number> }> {
+    const hoursPerWorkingDay = STANDARD_HOURS_PER_WEEK / Math.max(1, calendar.workingDaysPerWeek);
+    const weeks = new Map<string, { weekStart: Date; demand: Map<string, number> }>();
+    
+    for (const block of plan.projectBlocks) {
+      const mix = Object.entries(block.requiredSkillsMix || {}).filter(([skillCode]) => skills.has(skillCode));
+      if (mix.length === 0) {
+        continue;
+      }
       
-      // Calculate start date considering dependencies
-      let blockStartDate = new Date(currentDate);
+      for (let day = new Date(block.plannedStart); day < block.plannedEnd; day = this.addDays(day, 1)) {
+        if (!calendar.isWorkingDay(day)) {
+          continue;
+        }
+        const key = this.weekKey(day);
+        const week = weeks.get(key) || { weekStart: new Date(key), demand: new Map<string, number>() };
+        for (const [skillCode, percentage] of mix) {
+          week.demand.set(
+            skillCode,
+            (week.demand.get(skillCode) || 0) + (Number(percentage) / 100) * hoursPerWorkingDay
+          );
+        }
+        weeks.set(key, week);
+      }
+    }
+    
+    return Array.from(weeks.values()).sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+  }
+  
+  /**
+   * Check whether one week's skill demand can be covered by free resource hours.
+   * Scarce skills are staffed first so they are not starved by common ones.
+   */
+  private static findWeeklyShortages(
+    weekStart: Date,
+    demand: Map<string, number>,
+    capacity: CapacitySnapshot,
+    calendar: WorkingCalendar
+  ): string[] {
+    const key = this.weekKey(weekStart);
+    const freeHours = new Map(
+      capacity.resources.map(resource => [
+        resource.id,
+        Math.max(
+          0,
+          calendar.resourceWeeklyHours(resource, weekStart) -
+            (capacity.bookedHours[resource.id]?.[key] || 0)
+        ),
+      ])
+    );
+    const qualifiedFor = (skillCode: string) =>
+      capacity.resources.filter(resource =>
+        resource.skills.some(skill => skill.code === skillCode && skill.level >= MIN_SKILL_LEVEL)
+      );
+    
+    const shortages: string[] = [];
+    const skillsByScarcity = Array.from(demand.keys())
+      .sort((a, b) => qualifiedFor(a).length - qualifiedFor(b).length);
+    
+    for (const skillCode of skillsByScarcity) {
+      let remaining = demand.get(skillCode)!;
+      const candidates = qualifiedFor(skillCode)
+        .sort((a, b) => freeHours.get(b.id)! - freeHours.get(a.id)!);
+      const available = candidates.reduce((sum, resource) => sum + freeHours.get(resource.id)!, 0);
       
-      // Handle dependencies - for now, assume sequential execution
-      // In the future, this could be enhanced to handle parallel execution
-      if (i > 0) {
-        // Start after the previous block ends
-        blockStartDate = new Date(currentDate);
+      for (const resource of candidates) {
+        const taken = Math.min(remaining, freeHours.get(resource.id)!);
+        freeHours.set(resource.id, freeHours.get(resource.id)! - taken);
+        remaining -= taken;
       }
       
-      // Calculate end date (duration in weeks)
-      const blockEndDate = this.addWeeks(blockStartDate, tierBlock.durationWeeks);
+      if (remaining > 0.01) {
+        shortages.push(
+          `${skillCode}: needs ${Math.round(demand.get(skillCode)!)}h in the week of ${this.formatDate(weekStart)} but only ${Math.round(available)}h are free`
+        );
+      }
+    }
+    
+    return shortages;
+  }
+  
+  /**
+   * Week key used for booked hours: the Monday of the date's week (UTC)
+   */
+  static weekKey(date: Date): string {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().split('T')[0];
+  }
+  
+  /**
+   * Schedule sorted blocks from the first working day on or after a start date
+   */
+  private static scheduleBlocks(
+    sortedBlocks: TierBlock[],
+    startDate: Date,
+    calendar: WorkingCalendar
+  ): ProjectPlan {
+    const projectStart = calendar.addWorkingDays(startDate, 0);
+    const network = this.buildDependencyNetwork(sortedBlocks);
+    const { order, cycles } = this.topologicalOrder(sortedBlocks, network);
+    const durationDays = new Map(
+      sortedBlocks.map(tierBlock => [
+        tierBlock.block.code,
+        tierBlock.durationWeeks * calendar.workingDaysPerWeek,
+      ])
+    );
+    // Working-day offset from the project start to a date
+    const dateAt = (offset: number) => calendar.addWorkingDays(projectStart, offset);
+    
+    // Forward pass: earliest start/finish in working days from project start
+    const earliestStart = new Map<string, number>();
+    const earliestFinish = new Map<string, number>();
+    for (const tierBlock of order) {
+      const code = tierBlock.block.code;
+      const duration = durationDays.get(code)!;
+      const start = Math.max(
+        0,
+        ...(network.predecessors.get(code) || [])
+          .filter(link => earliestStart.has(link.predecessor))
+          .map(link => earliestStartAfter(
+            link,
+            { start: earliestStart.get(link.predecessor)!, finish: earliestFinish.get(link.predecessor)! },
+            duration
+          ))
+      );
+      earliestStart.set(code, start);
+      earliestFinish.set(code, start + duration);
+    }
+    
+    const totalDurationDays = Math.max(0, ...Array.from(earliestFinish.values()));
+    
+    // Backward pass: latest start/finish that still meets the project end
+    const latestStart = new Map<string, number>();
+    const latestFinish = new Map<string, number>();
+    for (const tierBlock of [...order].reverse()) {
+      const code = tierBlock.block.code;
+      const duration = durationDays.get(code)!;
+      const finish = Math.min(
+        totalDurationDays,
+        ...(network.successors.get(code) || [])
+          .filter(link => latestStart.has(link.successor))
+          .map(link => latestFinishBefore(
+            link,
+            { start: latestStart.get(link.successor)!, finish: latestFinish.get(link.successor)! },
+            duration
+          ))
+      );
+      latestFinish.set(code, finish);
+      latestStart.set(code, finish - duration);
+    }
+    
+    const projectBlocks: ProjectBlockPlan[] = sortedBlocks.map((tierBlock) => {
+      const block = tierBlock.block;
+      const es = earliestStart.get(block.code)!;
+      const ls = latestStart.get(block.code)!;
+      const slackDays = ls - es;
       
-      const projectBlock: ProjectBlockPlan = {
+      return {
         blockId: block.id,
         blockCode: block.code,
         blockName: block.name,
         sequenceIndex: tierBlock.sequenceIndex,
-        plannedStart: blockStartDate,
-        plannedEnd: blockEndDate,
+        plannedStart: dateAt(es),
+        plannedEnd: dateAt(earliestFinish.get(block.code)!),
         plannedDurationWeeks: tierBlock.durationWeeks,
-        dependencies: tierBlock.dependencies,
+        dependencies: network.predecessors.get(block.code) || [],
         requiredSkillsMix: tierBlock.skillsMix,
         deliverables: block.deliverables,
+        earliestStart: dateAt(es),
+        earliestFinish: dateAt(earliestFinish.get(block.code)!),
+        latestStart: dateAt(ls),
+        latestFinish: dateAt(latestFinish.get(block.code)!),
+        slackDays,
+        isCritical: slackDays <= 0,
       };
-      
-      projectBlocks.push(projectBlock);
-      
-      // Update current date for next block
-      currentDate = new Date(blockEndDate);
-    }
+    });
     
-    const totalDurationWeeks = sortedBlocks.reduce((sum, block) => sum + block.durationWeeks, 0);
+    // Critical path in execution order
+    const criticalPath = projectBlocks
+      .filter(block => block.isCritical)
+      .sort((a, b) =>
+        a.earliestStart.getTime() - b.earliestStart.getTime() || a.sequenceIndex - b.sequenceIndex
+      )
+      .map(block => block.blockCode);
+    
+    const projectEnd = dateAt(totalDurationDays);
     
     return {
       projectBlocks,
-      projectStart: new Date(targetStartDate),
-      projectEnd: projectBlocks.length > 0 
-        ? new Date(projectBlocks[projectBlocks.length - 1].plannedEnd)
-        : new Date(targetStartDate),
-      totalDurationWeeks,
+      projectStart,
+      projectEnd,
+      totalDurationWeeks: Math.ceil(this.daysBetween(projectStart, projectEnd) / 7),
       totalBlocks: projectBlocks.length,
+      criticalPath,
+      dependencyCycles: cycles,
+      unresolvedDependencies: network.unresolved,
     };
   }
   
   /**
-   * Add weeks to a date, accounting for weekends
+   * Build incoming/outgoing links keyed by block code. Blocks without
+   * declared dependencies follow the previous block in sequence order.
    */
-  private static addWeeks(date: Date, weeks: number): Date {
-    const result = new Date(date);
-    result.setDate(result.getDate() + (weeks * 7));
-    return result;
+  private static buildDependencyNetwork(sortedBlocks: TierBlock[]): DependencyNetwork {
+    const codes = new Set(sortedBlocks.map(tierBlock => tierBlock.block.code));
+    const predecessors = new Map<string, DependencyLink[]>();
+    const successors = new Map<string, DependencyLink[]>();
+    const unresolved: DependencyNetwork['unresolved'] = [];
+    
+    sortedBlocks.forEach((tierBlock, index) => {
+      const code = tierBlock.block.code;
+      let incoming: DependencyLink[];
+      
+      if (tierBlock.dependencies === null) {
+        incoming = index > 0
+          ? [{ predecessor: sortedBlocks[index - 1].block.code, successor: code, type: 'FS', lagDays: 0 }]
+          : [];
+      } else {
+        incoming = [];
+        for (const link of tierBlock.dependencies) {
+          if (link.predecessor === code || !codes.has(link.predecessor)) {
+            unresolved.push({ blockCode: code, dependencyCode: link.predecessor });
+          } else {
+            incoming.push({ ...link, successor: code });
+          }
+        }
+      }
+      
+      predecessors.set(code, incoming);
+      successors.set(code, successors.get(code) || []);
+      for (const link of incoming) {
+        successors.set(link.predecessor, [...(successors.get(link.predecessor) || []), link]);
+      }
+    });
+    
+    return { predecessors, successors, unresolved };
   }
   
   /**
-   * Add business days to a date, skipping weekends
+   * Order blocks so every block comes after its predecessors, preferring
+   * sequence order between independent blocks. Blocks caught in a cycle are
+   * appended in sequence order and the cycles are reported.
    */
-  private static addBusinessDays(date: Date, days: number): Date {
-    const result = new Date(date);
-    let addedDays = 0;
+  private static topologicalOrder(
+    sortedBlocks: TierBlock[],
+    network: DependencyNetwork
+  ): { order: TierBlock[]; cycles: string[][] } {
+    const order: TierBlock[] = [];
+    const placed = new Set<string>();
+    let remaining = [...sortedBlocks];
     
-    while (addedDays < days) {
-      result.setDate(result.getDate() + 1);
-      // Skip weekends (Saturday = 6, Sunday = 0)
-      if (result.getDay() !== 0 && result.getDay() !== 6) {
-        addedDays++;
+    while (remaining.length > 0) {
+      const next = remaining.find(tierBlock =>
+        (network.predecessors.get(tierBlock.block.code) || []).every(link => placed.has(link.predecessor))
+      );
+      if (!next) {
+        break;
       }
+      order.push(next);
+      placed.add(next.block.code);
+      remaining = remaining.filter(tierBlock => tierBlock !== next);
     }
     
+    const stuck = new Set(remaining.map(tierBlock => tierBlock.block.code));
+    const cycles = findDependencyCycles(
+      Array.from(network.predecessors.values())
+        .flat()
+        .filter(link => stuck.has(link.successor) && stuck.has(link.predecessor))
+    );
+    
+    return { order: [...order, ...remaining], cycles };
+  }
+  
+  /**
+   * Whole days between two dates
+   */
+  private static daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+  }
+  
+  /**
+   * Add calendar days to a date
+   */
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+  
+  /**
+   * Add calendar weeks to a date
+   */
+  private static addWeeks(date: Date, weeks: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + (weeks * 7));
     return result;
   }
   
@@ -153,9 +560,18 @@ export class AutoPlanningEngine {
     const warnings: string[] = [];
     const errors: string[] = [];
     
-    // Check for overlapping blocks (if parallel execution is implemented)
-    // Check for missing dependencies
-    // Check for unrealistic durations
+    // Dependency cycles make the schedule meaningless
+    for (const cycle of plan.dependencyCycles) {
+      errors.push(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    }
+    
+    if (plan.priorityFit && !plan.priorityFit.feasible) {
+      warnings.push('Priority fit found no start date with enough free capacity; the target start date was kept');
+    }
+    
+    for (const { blockCode, dependencyCode } of plan.unresolvedDependencies) {
+      warnings.push(`Block ${blockCode}: dependency ${dependencyCode} is not part of this tier and was ignored`);
+    }
     
     // Basic validation: ensure all blocks have valid dates
     for (const block of plan.projectBlocks) {
@@ -205,6 +621,9 @@ export class AutoPlanningEngine {
       estimatedEndDate: this.formatDate(plan.projectEnd),
       blocksWithDeliverables: plan.projectBlocks.filter(b => b.deliverables.length > 0).length,
       totalDeliverables: plan.projectBlocks.reduce((sum, b) => sum + b.deliverables.length, 0),
+      criticalPath: plan.criticalPath,
+      parallelBlocks: plan.projectBlocks.filter(b => b.slackDays > 0).length,
+      startShiftWeeks: plan.priorityFit?.shiftWeeks ?? 0,
     };
   }
-}
\ No newline at end of file
+}
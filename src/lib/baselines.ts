@@ -0,0 +1,146 @@
+// Variance of a project's current plan against one of its saved baselines,
+// block by block and in total.
+
+/**
+ * One block of a plan, either as it stands or as recorded in a baseline
+ */
+export interface PlanBlock {
+  blockId: string;
+  blockCode: string;
+  blockName: string;
+  plannedStart: Date;
+  plannedEnd: Date;
+  plannedHours: number;
+  plannedCost: number;
+}
+
+export interface PlanTotals {
+  targetStartDate: Date;
+  budgetCapex: number | null;
+  budgetOpex: number | null;
+  blocks: PlanBlock[];
+}
+
+export type BlockChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface BlockVariance {
+  blockId: string;
+  blockCode: string;
+  blockName: string;
+  change: BlockChange;
+  baselineStart: Date | null;
+  currentStart: Date | null;
+  // Calendar days; positive means later than the baseline
+  startSlipDays: number;
+  baselineEnd: Date | null;
+  currentEnd: Date | null;
+  finishSlipDays: number;
+  baselineHours: number;
+  currentHours: number;
+  baselineCost: number;
+  currentCost: number;
+}
+
+export interface BaselineComparison {
+  blocks: BlockVariance[];
+  totals: {
+    baselineStart: Date | null;
+    currentStart: Date | null;
+    baselineFinish: Date | null;
+    currentFinish: Date | null;
+    finishSlipDays: number;
+    baselineHours: number;
+    currentHours: number;
+    baselineCost: number;
+    currentCost: number;
+    baselineBudget: number;
+    currentBudget: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function slipDays(baseline: Date | null, current: Date | null): number {
+  if (!baseline || !current) {
+    return 0;
+  }
+  return Math.round((current.getTime() - baseline.getTime()) / DAY_MS);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function earliest(dates: Date[]): Date | null {
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+}
+
+function latest(dates: Date[]): Date | null {
+  return dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : null;
+}
+
+/**
+ * Compare the current plan with a baseline block by block. Blocks are
+ * matched on their master-data block, so re-planned blocks still line up.
+ */
+export function compareToBaseline(baseline: PlanTotals, current: PlanTotals): BaselineComparison {
+  const baselineBlocks = new Map(baseline.blocks.map(block => [block.blockId, block]));
+  const currentBlocks = new Map(current.blocks.map(block => [block.blockId, block]));
+  const blockIds = Array.from(new Set([...Array.from(currentBlocks.keys()), ...Array.from(baselineBlocks.keys())]));
+
+  const blocks = blockIds.map((blockId): BlockVariance => {
+    const before = baselineBlocks.get(blockId);
+    const after = currentBlocks.get(blockId);
+    const reference = (after || before)!;
+
+    const variance: BlockVariance = {
+      blockId,
+      blockCode: reference.blockCode,
+      blockName: reference.blockName,
+      change: !before ? 'added' : !after ? 'removed' : 'unchanged',
+      baselineStart: before?.plannedStart ?? null,
+      currentStart: after?.plannedStart ?? null,
+      startSlipDays: slipDays(before?.plannedStart ?? null, after?.plannedStart ?? null),
+      baselineEnd: before?.plannedEnd ?? null,
+      currentEnd: after?.plannedEnd ?? null,
+      finishSlipDays: slipDays(before?.plannedEnd ?? null, after?.plannedEnd ?? null),
+      baselineHours: round(before?.plannedHours ?? 0),
+      currentHours: round(after?.plannedHours ?? 0),
+      baselineCost: round(before?.plannedCost ?? 0),
+      currentCost: round(after?.plannedCost ?? 0),
+    };
+
+    if (
+      variance.change === 'unchanged' &&
+      (variance.startSlipDays !== 0 ||
+        variance.finishSlipDays !== 0 ||
+        variance.baselineHours !== variance.currentHours ||
+        variance.baselineCost !== variance.currentCost)
+    ) {
+      variance.change = 'changed';
+    }
+    return variance;
+  });
+
+  const baselineFinish = latest(baseline.blocks.map(block => block.plannedEnd));
+  const currentFinish = latest(current.blocks.map(block => block.plannedEnd));
+  const sum = (plan: PlanTotals, field: 'plannedHours' | 'plannedCost') =>
+    round(plan.blocks.reduce((total, block) => total + block[field], 0));
+
+  return {
+    blocks,
+    totals: {
+      baselineStart: earliest(baseline.blocks.map(block => block.plannedStart)) ?? baseline.targetStartDate,
+      currentStart: earliest(current.blocks.map(block => block.plannedStart)) ?? current.targetStartDate,
+      baselineFinish,
+      currentFinish,
+      finishSlipDays: slipDays(baselineFinish, currentFinish),
+      baselineHours: sum(baseline, 'plannedHours'),
+      currentHours: sum(current, 'plannedHours'),
+      baselineCost: sum(baseline, 'plannedCost'),
+      currentCost: sum(current, 'plannedCost'),
+      baselineBudget: (baseline.budgetCapex || 0) + (baseline.budgetOpex || 0),
+      currentBudget: (current.budgetCapex || 0) + (current.budgetOpex || 0),
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { Prisma } from '@prisma/client';
+import { parseSkillsMix } from '@/lib/auto-planning';
+import {
+  type CalibrationSample,
+  type CalibrationSuggestion,
+  type CalibrationTarget,
+  calibrateDurations,
+} from '@/lib/duration-calibration';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+/**
+ * Calibration report built from every completed project block with actual
+ * dates, against the current block and tier block templates
+ */
+export async function loadCalibrationReport(
+  db: Prisma.TransactionClient,
+  calendar: WorkingCalendar
+): Promise<{ sampleCount: number; blocks: CalibrationSuggestion[]; tierBlocks: CalibrationSuggestion[] }> {
+  const [completedBlocks, blocks, tierBlocks] = await Promise.all([
+    db.projectBlock.findMany({
+      where: {
+        status: 'completed',
+        actualStart: { not: null },
+        actualEnd: { not: null },
+      },
+      include: {
+        project: { select: { tierId: true } },
+      },
+    }),
+    db.block.findMany({ orderBy: { code: 'asc' } }),
+    db.tierBlock.findMany({
+      include: {
+        block: true,
+        tier: {
+          include: { projectType: { select: { name: true } } },
+        },
+      },
+    }),
+  ]);
+
+  const samples: CalibrationSample[] = completedBlocks.map(projectBlock => ({
+    blockId: projectBlock.blockId,
+    tierId: projectBlock.project.tierId,
+    plannedWeeks: projectBlock.plannedDurationWeeks,
+    actualWeeks: calendar.workingDaysBetween(projectBlock.actualStart!, projectBlock.actualEnd!) / calendar.workingDaysPerWeek,
+    actualHours: projectBlock.actualHours,
+    plannedSkillsMix: parseSkillsMix(projectBlock.requiredSkillsMix),
+  }));
+
+  const blockTargets: CalibrationTarget[] = blocks.map(block => ({
+    id: block.id,
+    blockId: block.id,
+    blockCode: block.code,
+    blockName: block.name,
+    currentWeeks: block.defaultDurationWeeks,
+    currentSkillsMix: parseSkillsMix(block.defaultSkillsMix),
+  }));
+
+  const tierBlockTargets: CalibrationTarget[] = tierBlocks.map(tierBlock => ({
+    id: tierBlock.id,
+    blockId: tierBlock.blockId,
+    tierId: tierBlock.tierId,
+    blockCode: tierBlock.block.code,
+    blockName: tierBlock.block.name,
+    tierLabel: `${tierBlock.tier.projectType.name} · ${tierBlock.tier.name}`,
+    currentWeeks: tierBlock.overrideDurationWeeks ?? tierBlock.block.defaultDurationWeeks,
+    currentSkillsMix: parseSkillsMix(tierBlock.overrideSkillsMix ?? tierBlock.block.defaultSkillsMix),
+  }));
+
+  return {
+    sampleCount: samples.length,
+    ...calibrateDurations(samples, blockTargets, tierBlockTargets),
+  };
+}
@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { AutoPlanningEngine, type CapacitySnapshot } from '@/lib/auto-planning';
+import { TENTATIVE_PROJECT_STATUSES } from '@/lib/project-lifecycle';
+import { WorkingCalendar, type HolidayType } from '@/lib/working-calendar';
+
+// Allocations that hold a resource's capacity. Those of pipeline projects are
+// tentative and only show as weighted demand.
+export const CONFIRMED_ALLOCATIONS: Prisma.AllocationWhereInput = {
+  projectBlock: { project: { status: { notIn: TENTATIVE_PROJECT_STATUSES } } },
+};
+
+export const TENTATIVE_ALLOCATIONS: Prisma.AllocationWhereInput = {
+  projectBlock: { project: { status: { in: TENTATIVE_PROJECT_STATUSES } } },
+};
+
+/**
+ * Load the organisation working calendar with its holidays and shutdowns.
+ * Falls back to a Monday to Friday week when none is configured.
+ */
+export async function loadWorkingCalendar(db: Prisma.TransactionClient): Promise<WorkingCalendar> {
+  const calendar = await db.workingCalendar.findFirst({
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    include: { holidays: true },
+  });
+
+  if (!calendar) {
+    return WorkingCalendar.standard();
+  }
+
+  return new WorkingCalendar({
+    workingDays: JSON.parse(calendar.workingDays),
+    hoursPerDay: calendar.hoursPerDay,
+    holidays: calendar.holidays.map(holiday => ({
+      name: holiday.name,
+      type: holiday.type as HolidayType,
+      startDate: holiday.startDate,
+      endDate: holiday.endDate,
+      region: holiday.region,
+    })),
+  });
+}
+
+/**
+ * Load active resources with their skills and the hours already booked from
+ * a given date onwards. Only projects with the same or higher priority
+ * (lower number) are counted, so lower-priority work yields to the project
+ * being planned.
+ */
+export async function loadCapacitySnapshot(db: Prisma.TransactionClient, options: {
+  priority: number;
+  from: Date;
+  excludeProjectId?: string;
+}): Promise<CapacitySnapshot> {
+  const fromWeek = new Date(AutoPlanningEngine.weekKey(options.from));
+
+  const [resources, allocations] = await Promise.all([
+    // Placeholders are demand to staff, not people who supply skills
+    db.resource.findMany({
+      where: { active: true, placeholder: false },
+      include: {
+        calendarExceptions: {
+          where: { date: { gte: fromWeek } },
+          select: { date: true, capacityOverrideHours: true },
+        },
+        resourceSkills: {
+          include: {
+            skill: { select: { code: true } },
+          },
+        },
+      },
+    }),
+    db.allocation.findMany({
+      where: {
+        weekStartDate: { gte: fromWeek },
+        ...(options.excludeProjectId && { projectId: { not: options.excludeProjectId } }),
+        projectBlock: {
+          project: {
+            priority: { lte: options.priority },
+            status: { notIn: TENTATIVE_PROJECT_STATUSES },
+          },
+        },
+      },
+      select: {
+        resourceId: true,
+        weekStartDate: true,
+        allocatedHours: true,
+      },
+    }),
+  ]);
+
+  const bookedHours: CapacitySnapshot['bookedHours'] = {};
+  for (const allocation of allocations) {
+    const weekKey = AutoPlanningEngine.weekKey(allocation.weekStartDate);
+    bookedHours[allocation.resourceId] = bookedHours[allocation.resourceId] || {};
+    bookedHours[allocation.resourceId][weekKey] =
+      (bookedHours[allocation.resourceId][weekKey] || 0) + allocation.allocatedHours;
+  }
+
+  return {
+    resources: resources.map(resource => ({
+      id: resource.id,
+      capacityHoursPerWeek: resource.capacityHoursPerWeek,
+      region: resource.region,
+      availabilityCalendar: resource.availabilityCalendar,
+      calendarExceptions: resource.calendarExceptions,
+      skills: resource.resourceSkills.map(rs => ({
+        code: rs.skill.code,
+        level: rs.level,
+      })),
+    })),
+    bookedHours,
+  };
+}
@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { type CashFlow, cashFlow } from '@/lib/cash-flow';
+import { loadCostedProjects } from '@/lib/earned-value-snapshot';
+
+export interface ProjectCashFlow {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  cashFlow: CashFlow;
+}
+
+/**
+ * Monthly cash flow at `asOf` of the projects matching `where`
+ */
+export async function loadCashFlow(
+  db: Prisma.TransactionClient,
+  where: Prisma.ProjectWhereInput,
+  asOf: Date
+): Promise<ProjectCashFlow[]> {
+  const [projects, lines] = await Promise.all([
+    loadCostedProjects(db, where),
+    db.budgetLine.findMany({
+      where: { project: where },
+      select: { projectId: true, month: true, category: true, amount: true },
+    }),
+  ]);
+
+  return projects.map(project => ({
+    id: project.id,
+    code: project.code,
+    name: project.name,
+    status: project.status,
+    cashFlow: cashFlow(lines.filter(line => line.projectId === project.id), project.blocks, project.budget, asOf),
+  }));
+}
@@ -0,0 +1,238 @@
+// Monthly cash flow: the budget as phased in budget lines, the labour cost
+// forecast from allocations and the actual cost booked on blocks.
+import { type EarnedValueBlock, blockActualCost, blockActualSpan } from '@/lib/earned-value';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BUDGET_CATEGORIES = ['capex', 'opex'] as const;
+export type BudgetCategory = typeof BUDGET_CATEGORIES[number];
+
+export const BUDGET_CATEGORY_LABELS: Record<BudgetCategory, string> = {
+  capex: 'CAPEX',
+  opex: 'OPEX',
+};
+
+export interface BudgetLineInput {
+  // YYYY-MM
+  month: string;
+  category: string;
+  amount: number;
+}
+
+export interface CashFlowMonth {
+  month: string;
+  // Budget lines for the month
+  plannedCapex: number;
+  plannedOpex: number;
+  planned: number;
+  // Labour cost of the allocations in the month
+  forecast: number;
+  // Cost booked in the month; null after the as-of month
+  actual: number | null;
+  cumulativePlanned: number;
+  cumulativeForecast: number;
+  cumulativeActual: number | null;
+}
+
+export interface CashFlow {
+  asOf: string;
+  months: CashFlowMonth[];
+  budget: number;
+  planned: number;
+  forecast: number;
+  actual: number;
+  // Budget not phased into any month; negative when the lines exceed it
+  unphased: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function monthStart(month: string): number {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return Date.UTC(year, monthIndex - 1, 1);
+}
+
+function nextMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return monthKey(new Date(Date.UTC(year, monthIndex, 1)));
+}
+
+/**
+ * Every month from `first` to `last`, both included
+ */
+export function monthsBetween(first: string, last: string): string[] {
+  const months: string[] = [];
+  for (let month = first; month <= last; month = nextMonth(month)) {
+    months.push(month);
+  }
+  return months;
+}
+
+/**
+ * Cash flow of a project by month up to `asOf`. Allocations are weekly, so a
+ * week spanning two months is split by its weekdays. Actual cost is not
+ * recorded by month; it is spread evenly over the time each block ran.
+ */
+export function cashFlow(
+  lines: BudgetLineInput[],
+  blocks: EarnedValueBlock[],
+  budget: number | null,
+  asOf: Date
+): CashFlow {
+  const capex = new Map<string, number>();
+  const opex = new Map<string, number>();
+  const forecast = new Map<string, number>();
+  const actual = new Map<string, number>();
+  const add = (map: Map<string, number>, month: string, value: number) => map.set(month, (map.get(month) ?? 0) + value);
+
+  for (const line of lines) {
+    add(line.category === 'capex' ? capex : opex, line.month, line.amount);
+  }
+
+  for (const block of blocks) {
+    for (const allocation of block.allocations) {
+      for (let day = 0; day < 5; day++) {
+        add(forecast, monthKey(new Date(allocation.weekStartDate.getTime() + day * DAY_MS)), allocation.cost / 5);
+      }
+    }
+
+    if (block.status === 'not_started') continue;
+    const cost = blockActualCost(block);
+    const { start, end } = blockActualSpan(block, asOf);
+    if (end <= start) {
+      add(actual, monthKey(new Date(start)), cost);
+      continue;
+    }
+    for (const month of monthsBetween(monthKey(new Date(start)), monthKey(new Date(end - 1)))) {
+      const overlap = Math.min(end, monthStart(nextMonth(month))) - Math.max(start, monthStart(month));
+      add(actual, month, cost * overlap / (end - start));
+    }
+  }
+
+  const asOfMonth = monthKey(asOf);
+  const known = [...capex.keys(), ...opex.keys(), ...forecast.keys(), ...actual.keys()].sort();
+  const months: CashFlowMonth[] = [];
+  let cumulativePlanned = 0;
+  let cumulativeForecast = 0;
+  let cumulativeActual = 0;
+
+  if (known.length > 0) {
+    for (const month of monthsBetween(known[0], known[known.length - 1])) {
+      const plannedCapex = capex.get(month) ?? 0;
+      const plannedOpex = opex.get(month) ?? 0;
+      const measured = month <= asOfMonth;
+      cumulativePlanned += plannedCapex + plannedOpex;
+      cumulativeForecast += forecast.get(month) ?? 0;
+      cumulativeActual += actual.get(month) ?? 0;
+      months.push({
+        month,
+        plannedCapex: round(plannedCapex),
+        plannedOpex: round(plannedOpex),
+        planned: round(plannedCapex + plannedOpex),
+        forecast: round(forecast.get(month) ?? 0),
+        actual: measured ? round(actual.get(month) ?? 0) : null,
+        cumulativePlanned: round(cumulativePlanned),
+        cumulativeForecast: round(cumulativeForecast),
+        cumulativeActual: measured ? round(cumulativeActual) : null,
+      });
+    }
+  }
+
+  return {
+    asOf: asOf.toISOString(),
+    months,
+    budget: round(budget ?? 0),
+    planned: round(cumulativePlanned),
+    forecast: round(cumulativeForecast),
+    actual: round(cumulativeActual),
+    unphased: round((budget ?? 0) - cumulativePlanned),
+  };
+}
+
+/**
+ * Portfolio cash flow: every project's months summed
+ */
+export function rollUpCashFlow(flows: CashFlow[], asOf: Date): CashFlow {
+  const byMonth = new Map<string, CashFlowMonth[]>();
+  for (const flow of flows) {
+    for (const month of flow.months) {
+      byMonth.set(month.month, [...(byMonth.get(month.month) ?? []), month]);
+    }
+  }
+
+  const asOfMonth = monthKey(asOf);
+  const known = Array.from(byMonth.keys()).sort();
+  const sum = (values: number[]) => round(values.reduce((total, value) => total + value, 0));
+  const months: CashFlowMonth[] = [];
+  let cumulativePlanned = 0;
+  let cumulativeForecast = 0;
+  let cumulativeActual = 0;
+
+  if (known.length > 0) {
+    for (const month of monthsBetween(known[0], known[known.length - 1])) {
+      const entries = byMonth.get(month) ?? [];
+      const measured = month <= asOfMonth;
+      const planned = sum(entries.map(entry => entry.planned));
+      const forecast = sum(entries.map(entry => entry.forecast));
+      const actual = sum(entries.map(entry => entry.actual ?? 0));
+      cumulativePlanned += planned;
+      cumulativeForecast += forecast;
+      cumulativeActual += actual;
+      months.push({
+        month,
+        plannedCapex: sum(entries.map(entry => entry.plannedCapex)),
+        plannedOpex: sum(entries.map(entry => entry.plannedOpex)),
+        planned,
+        forecast,
+        actual: measured ? actual : null,
+        cumulativePlanned: round(cumulativePlanned),
+        cumulativeForecast: round(cumulativeForecast),
+        cumulativeActual: measured ? round(cumulativeActual) : null,
+      });
+    }
+  }
+
+  return {
+    asOf: asOf.toISOString(),
+    months,
+    budget: sum(flows.map(flow => flow.budget)),
+    planned: sum(flows.map(flow => flow.planned)),
+    forecast: sum(flows.map(flow => flow.forecast)),
+    actual: sum(flows.map(flow => flow.actual)),
+    unphased: sum(flows.map(flow => flow.unphased)),
+  };
+}
+
+const CSV_COLUMNS: Array<[string, keyof CashFlowMonth]> = [
+  ['Month', 'month'],
+  ['Planned CAPEX', 'plannedCapex'],
+  ['Planned OPEX', 'plannedOpex'],
+  ['Planned', 'planned'],
+  ['Forecast', 'forecast'],
+  ['Actual', 'actual'],
+  ['Cumulative planned', 'cumulativePlanned'],
+  ['Cumulative forecast', 'cumulativeForecast'],
+  ['Cumulative actual', 'cumulativeActual'],
+];
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Cash flows as CSV, one row per project and month
+ */
+export function cashFlowCsv(flows: Array<{ label: string; flow: CashFlow }>): string {
+  const rows = [
+    ['Project', ...CSV_COLUMNS.map(([heading]) => heading)],
+    ...flows.flatMap(({ label, flow }) =>
+      flow.months.map(month => [label, ...CSV_COLUMNS.map(([, key]) => month[key])])
+    ),
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,10 @@
+// Average weeks in a month, used to turn monthly rates into hourly ones
+export const WEEKS_PER_MONTH = 52 / 12;
+
+/**
+ * Hours a monthly rate pays for: the configured basis, else the resource's
+ * contracted hours in an average month
+ */
+export function monthlyRateHours(resource: { capacityHoursPerWeek: number }, hoursPerMonth: number | null = null): number {
+  return hoursPerMonth ?? resource.capacityHoursPerWeek * WEEKS_PER_MONTH;
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { dependencyLinkSchema } from '@/lib/validations/master-data';
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface DependencyLink {
+  predecessor: string;
+  successor: string;
+  type: DependencyType;
+  // Working days; positive values delay the successor (lag), negative values overlap it (lead)
+  lagDays: number;
+}
+
+export const DEPENDENCY_TYPES: Array<{ value: DependencyType; label: string }> = [
+  { value: 'FS', label: 'Finish-to-Start' },
+  { value: 'SS', label: 'Start-to-Start' },
+  { value: 'FF', label: 'Finish-to-Finish' },
+  { value: 'SF', label: 'Start-to-Finish' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored entries: links as the master data forms save them, or legacy predecessor codes
+const storedDependenciesSchema = z.array(z.union([z.string().min(1), dependencyLinkSchema]));
+
+/**
+ * Parse dependency links stored as JSON on a block, tier block or project block.
+ * Legacy lists of predecessor codes are read as finish-to-start with no lag.
+ * Returns null when nothing is declared or the value is not a valid list.
+ */
+export function parseDependencyLinks(
+  value: string | null | undefined,
+  successor: string
+): DependencyLink[] | null {
+  if (!value) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const entries = storedDependenciesSchema.safeParse(parsed);
+  if (!entries.success) {
+    return null;
+  }
+
+  return entries.data.map(entry =>
+    typeof entry === 'string'
+      ? { predecessor: entry, successor, type: 'FS', lagDays: 0 }
+      : { ...entry, successor }
+  );
+}
+
+/**
+ * Short label such as "FS+2d" or "SS-1d"
+ */
+export function formatDependencyLink(link: DependencyLink): string {
+  if (link.lagDays === 0) {
+    return link.type;
+  }
+  return `${link.type}${link.lagDays > 0 ? '+' : ''}${link.lagDays}d`;
+}
+
+/**
+ * Earliest successor start (in working days from project start) allowed by one link
+ */
+export function earliestStartAfter(
+  link: DependencyLink,
+  predecessor: { start: number; finish: number },
+  successorDuration: number
+): number {
+  switch (link.type) {
+    case 'SS':
+      return predecessor.start + link.lagDays;
+    case 'FF':
+      return predecessor.finish + link.lagDays - successorDuration;
+    case 'SF':
+      return predecessor.start + link.lagDays - successorDuration;
+    default:
+      return predecessor.finish + link.lagDays;
+  }
+}
+
+/**
+ * Latest predecessor finish (in working days from project start) allowed by one link
+ */
+export function latestFinishBefore(
+  link: DependencyLink,
+  successor: { start: number; finish: number },
+  predecessorDuration: number
+): number {
+  switch (link.type) {
+    case 'SS':
+      return successor.start - link.lagDays + predecessorDuration;
+    case 'FF':
+      return successor.finish - link.lagDays;
+    case 'SF':
+      return successor.finish - link.lagDays + predecessorDuration;
+    default:
+      return successor.start - link.lagDays;
+  }
+}
+
+/**
+ * Days by which a scheduled successor breaks a link (0 when satisfied)
+ */
+export function dependencyShortfallDays(
+  link: DependencyLink,
+  predecessor: { start: Date; end: Date },
+  successor: { start: Date; end: Date }
+): number {
+  const days = (date: Date) => date.getTime() / DAY_MS;
+  const required = earliestStartAfter(
+    link,
+    { start: days(predecessor.start), finish: days(predecessor.end) },
+    days(successor.end) - days(successor.start)
+  );
+  return Math.max(0, Math.ceil(required - days(successor.start)));
+}
+
+/**
+ * Find dependency cycles in a set of links, each reported in execution order
+ * with the first block repeated at the end
+ */
+export function findDependencyCycles(links: DependencyLink[]): string[][] {
+  const predecessors = new Map<string, string[]>();
+  for (const link of links) {
+    predecessors.set(link.successor, [...(predecessors.get(link.successor) || []), link.predecessor]);
+  }
+
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+
+  const visit = (code: string, path: string[]) => {
+    const cycleStart = path.indexOf(code);
+    if (cycleStart >= 0) {
+      cycles.push([...path.slice(cycleStart), code].reverse());
+      return;
+    }
+    if (visited.has(code)) {
+      return;
+    }
+    visited.add(code);
+    for (const predecessor of predecessors.get(code) || []) {
+      visit(predecessor, [...path, code]);
+    }
+  };
+
+  for (const code of Array.from(predecessors.keys())) {
+    visit(code, []);
+  }
+
+  return cycles;
+}
+
+/**
+ * Check links against the known block codes and for cycles. Links of the
+ * surrounding network are only used for cycle detection. Returns
+ * human-readable problems; an empty list means the links are valid.
+ */
+export function validateDependencyLinks(
+  links: DependencyLink[],
+  knownCodes: Set<string>,
+  network: DependencyLink[] = []
+): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const link of links) {
+    if (link.predecessor === link.successor) {
+      errors.push(`Block ${link.successor} cannot depend on itself`);
+    } else if (!knownCodes.has(link.predecessor)) {
+      errors.push(`Block ${link.successor}: unknown predecessor ${link.predecessor}`);
+    }
+
+    const key = `${link.predecessor}->${link.successor}`;
+    if (seen.has(key)) {
+      errors.push(`Block ${link.successor}: duplicate dependency on ${link.predecessor}`);
+    }
+    seen.add(key);
+  }
+
+  const graph = [...network, ...links].filter(link => link.predecessor !== link.successor);
+  for (const cycle of findDependencyCycles(graph)) {
+    errors.push(`Dependency cycle detected: ${cycle.join(' → ')}`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,181 @@
+// Calibration of block duration templates from completed project blocks.
+
+import type { SkillsMix } from '@/lib/auto-planning';
+
+// Fewer completed blocks than this say too little to suggest a change
+export const MIN_CALIBRATION_SAMPLES = 3;
+
+// Median actual/planned ratios within this share of 1 count as accurate
+const BIAS_TOLERANCE = 0.1;
+
+// Skills mix percentages are expressed against one full-time week
+const STANDARD_HOURS_PER_WEEK = 40;
+
+export type EstimationBias = 'underestimated' | 'overestimated' | 'accurate' | 'insufficient_data';
+
+export interface CalibrationSample {
+  blockId: string;
+  tierId: string;
+  plannedWeeks: number;
+  // Working weeks between the actual start and end
+  actualWeeks: number;
+  actualHours: number | null;
+  // Skills mix the block was planned with
+  plannedSkillsMix: SkillsMix | null;
+}
+
+export interface CalibrationTarget {
+  id: string;
+  blockId: string;
+  // Set for tier blocks
+  tierId?: string;
+  blockCode: string;
+  blockName: string;
+  tierLabel?: string;
+  currentWeeks: number;
+  currentSkillsMix: SkillsMix | null;
+}
+
+export interface CalibrationSuggestion {
+  target: 'block' | 'tier_block';
+  id: string;
+  blockCode: string;
+  blockName: string;
+  tierLabel?: string;
+  samples: number;
+  currentWeeks: number;
+  // Actual over planned duration across samples
+  medianRatio: number | null;
+  meanRatio: number | null;
+  bias: EstimationBias;
+  // Null when the current value already fits or there are too few samples
+  suggestedWeeks: number | null;
+  // Duration range for schedule risk, from the spread of the samples
+  suggestedOptimisticWeeks: number | null;
+  suggestedPessimisticWeeks: number | null;
+  // Actual hours per week over the hours per week of the planned skills mix
+  effortRatio: number | null;
+  currentSkillsMix: SkillsMix | null;
+  suggestedSkillsMix: SkillsMix | null;
+}
+
+function round(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function quantile(sorted: number[], share: number): number {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function mixHoursPerWeek(mix: SkillsMix | null): number {
+  return Object.values(mix || {}).reduce((sum, percentage) => sum + Number(percentage), 0) / 100 * STANDARD_HOURS_PER_WEEK;
+}
+
+function classify(medianRatio: number | null, samples: number): EstimationBias {
+  if (medianRatio === null || samples < MIN_CALIBRATION_SAMPLES) {
+    return 'insufficient_data';
+  }
+  if (medianRatio > 1 + BIAS_TOLERANCE) {
+    return 'underestimated';
+  }
+  if (medianRatio < 1 - BIAS_TOLERANCE) {
+    return 'overestimated';
+  }
+  return 'accurate';
+}
+
+/**
+ * Compare planned and actual durations of the samples that belong to one
+ * target and suggest a duration, range and skills mix for it
+ */
+function calibrateTarget(
+  target: CalibrationTarget,
+  kind: CalibrationSuggestion['target'],
+  samples: CalibrationSample[]
+): CalibrationSuggestion {
+  const ratios = samples
+    .filter(sample => sample.plannedWeeks > 0 && sample.actualWeeks > 0)
+    .map(sample => sample.actualWeeks / sample.plannedWeeks)
+    .sort((a, b) => a - b);
+  const medianRatio = ratios.length > 0 ? quantile(ratios, 0.5) : null;
+  const meanRatio = ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : null;
+  const bias = classify(medianRatio, ratios.length);
+  const enoughData = bias !== 'insufficient_data';
+
+  const suggestedWeeks = enoughData && bias !== 'accurate'
+    ? Math.max(1, Math.round(target.currentWeeks * medianRatio!))
+    : null;
+  const basisWeeks = suggestedWeeks ?? target.currentWeeks;
+
+  // Effort is compared per week, so a longer block is not read as more intense
+  const effortRatios = samples
+    .filter(sample => sample.actualHours !== null && sample.actualWeeks > 0 && mixHoursPerWeek(sample.plannedSkillsMix) > 0)
+    .map(sample => (sample.actualHours! / sample.actualWeeks) / mixHoursPerWeek(sample.plannedSkillsMix))
+    .sort((a, b) => a - b);
+  const effortRatio = effortRatios.length > 0 ? quantile(effortRatios, 0.5) : null;
+  const adjustMix = effortRatios.length >= MIN_CALIBRATION_SAMPLES &&
+    target.currentSkillsMix !== null &&
+    Math.abs(effortRatio! - 1) > BIAS_TOLERANCE;
+
+  return {
+    target: kind,
+    id: target.id,
+    blockCode: target.blockCode,
+    blockName: target.blockName,
+    tierLabel: target.tierLabel,
+    samples: samples.length,
+    currentWeeks: target.currentWeeks,
+    medianRatio: medianRatio === null ? null : round(medianRatio, 0.01),
+    meanRatio: meanRatio === null ? null : round(meanRatio, 0.01),
+    bias,
+    suggestedWeeks,
+    // Ranges live on blocks only; tier blocks scale them
+    suggestedOptimisticWeeks: enoughData && kind === 'block'
+      ? Math.min(basisWeeks, Math.max(0.5, round((basisWeeks * quantile(ratios, 0.1)) / medianRatio!, 0.5)))
+      : null,
+    suggestedPessimisticWeeks: enoughData && kind === 'block'
+      ? Math.max(basisWeeks, round((basisWeeks * quantile(ratios, 0.9)) / medianRatio!, 0.5))
+      : null,
+    effortRatio: effortRatio === null ? null : round(effortRatio, 0.01),
+    currentSkillsMix: target.currentSkillsMix,
+    suggestedSkillsMix: adjustMix
+      ? Object.fromEntries(
+          Object.entries(target.currentSkillsMix!).map(([skillCode, percentage]) => [
+            skillCode,
+            Math.max(5, round(Number(percentage) * effortRatio!, 5)),
+          ])
+        )
+      : null,
+  };
+}
+
+/**
+ * Calibration report for every block and tier block with completed samples,
+ * most biased first
+ */
+export function calibrateDurations(
+  samples: CalibrationSample[],
+  blocks: CalibrationTarget[],
+  tierBlocks: CalibrationTarget[]
+): { blocks: CalibrationSuggestion[]; tierBlocks: CalibrationSuggestion[] } {
+  const byDeviation = (a: CalibrationSuggestion, b: CalibrationSuggestion) =>
+    Math.abs((b.medianRatio ?? 1) - 1) - Math.abs((a.medianRatio ?? 1) - 1) || a.blockCode.localeCompare(b.blockCode);
+
+  return {
+    blocks: blocks
+      .map(block => calibrateTarget(block, 'block', samples.filter(sample => sample.blockId === block.blockId)))
+      .filter(suggestion => suggestion.samples > 0)
+      .sort(byDeviation),
+    tierBlocks: tierBlocks
+      .map(tierBlock => calibrateTarget(
+        tierBlock,
+        'tier_block',
+        samples.filter(sample => sample.blockId === tierBlock.blockId && sample.tierId === tierBlock.tierId)
+      ))
+      .filter(suggestion => suggestion.samples > 0)
+      .sort(byDeviation),
+  };
+}
@@ -0,0 +1,175 @@
+import { Prisma } from '@prisma/client';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
+import { type EarnedValue, type EarnedValueBlock, earnedValue } from '@/lib/earned-value';
+import {
+  type ProjectStatus,
+  PROJECT_STATUSES,
+  TENTATIVE_PROJECT_STATUSES,
+  storedProjectStatuses,
+} from '@/lib/project-lifecycle';
+
+// Where planned value is phased from: the project's latest baseline, or its
+// current allocations when it has none
+export type PlannedValueSource =
+  | { type: 'baseline'; baselineId: string; baselineName: string }
+  | { type: 'allocations' };
+
+export interface CostedProject {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  // CAPEX plus OPEX; null when neither is set
+  budget: number | null;
+  plannedValueSource: PlannedValueSource;
+  blocks: EarnedValueBlock[];
+}
+
+export interface ProjectEarnedValue {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  plannedValueSource: PlannedValueSource;
+  earnedValue: EarnedValue;
+}
+
+// Left out of portfolio reports unless asked for by status: drafts and
+// pipeline projects have no committed plan, so their cost would count in full
+// before it is decided, and cancelled projects will not spend any more
+const UNCOMMITTED_PROJECT_STATUSES: ProjectStatus[] = ['draft', ...TENTATIVE_PROJECT_STATUSES, 'cancelled'];
+
+/**
+ * Projects a portfolio report covers: those in the comma-separated `status`
+ * list, else all committed ones. Returns the statuses it does not know
+ * instead when there are any.
+ */
+export function portfolioProjectFilter(
+  status: string | null
+): { where: Prisma.ProjectWhereInput } | { unknown: string[] } {
+  const statuses = status?.split(',').filter(Boolean) ?? [];
+  const unknown = statuses.filter(value => !(PROJECT_STATUSES as readonly string[]).includes(value));
+
+  if (unknown.length > 0) {
+    return { unknown };
+  }
+
+  return {
+    where: statuses.length > 0
+      ? { status: { in: storedProjectStatuses(statuses as ProjectStatus[]) } }
+      : { status: { notIn: storedProjectStatuses(UNCOMMITTED_PROJECT_STATUSES) } },
+  };
+}
+
+/**
+ * Projects matching `where` with their blocks' progress, booked actuals and
+ * allocations costed at the rate in effect for each allocated week. Planned
+ * allocations come from the latest baseline at the rates it recorded; blocks
+ * dropped since are kept as not started, so their planned value still counts.
+ */
+export async function loadCostedProjects(
+  db: Prisma.TransactionClient,
+  where: Prisma.ProjectWhereInput
+): Promise<CostedProject[]> {
+  const [projects, rates] = await Promise.all([
+    db.project.findMany({
+      where,
+      orderBy: { code: 'asc' },
+      include: {
+        projectBlocks: {
+          orderBy: { sequenceIndex: 'asc' },
+          include: {
+            block: { select: { code: true } },
+            allocations: true,
+          },
+        },
+        baselines: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          include: {
+            blocks: { include: { allocations: true } },
+          },
+        },
+      },
+    }),
+    loadRateBook(db),
+  ]);
+
+  return projects.map(project => {
+    const baseline = project.baselines[0];
+    const baselineBlocks = new Map((baseline?.blocks ?? []).map(block => [
+      block.projectBlockId,
+      block.allocations.map(allocation => ({
+        weekStartDate: allocation.weekStartDate,
+        cost: allocation.allocatedHours * allocation.hourlyRate,
+      })),
+    ]));
+
+    const blocks: EarnedValueBlock[] = project.projectBlocks.map(projectBlock => {
+      const allocations = projectBlock.allocations.map(allocation => ({
+        weekStartDate: allocation.weekStartDate,
+        hours: allocation.allocatedHours,
+        cost: allocation.allocatedHours * rates.costPerHour(allocation.resourceId, allocation.weekStartDate),
+      }));
+      return {
+        code: projectBlock.block.code,
+        status: projectBlock.status,
+        percentComplete: projectBlock.percentComplete,
+        actualStart: projectBlock.actualStart,
+        actualEnd: projectBlock.actualEnd,
+        actualHours: projectBlock.actualHours,
+        actualCost: projectBlock.actualCost,
+        allocations,
+        // Blocks added after the baseline have no planned value
+        plannedAllocations: baseline ? baselineBlocks.get(projectBlock.id) ?? [] : allocations,
+      };
+    });
+
+    const liveBlockIds = new Set(project.projectBlocks.map(projectBlock => projectBlock.id));
+    for (const block of baseline?.blocks ?? []) {
+      if (!liveBlockIds.has(block.projectBlockId)) {
+        blocks.push({
+          code: block.blockCode,
+          status: 'not_started',
+          percentComplete: 0,
+          actualStart: null,
+          actualEnd: null,
+          actualHours: null,
+          actualCost: null,
+          allocations: [],
+          plannedAllocations: baselineBlocks.get(block.projectBlockId)!,
+        });
+      }
+    }
+
+    return {
+      id: project.id,
+      code: project.code,
+      name: project.name,
+      status: project.status,
+      budget: project.budgetCapex === null && project.budgetOpex === null
+        ? null
+        : (project.budgetCapex ?? 0) + (project.budgetOpex ?? 0),
+      plannedValueSource: baseline
+        ? { type: 'baseline' as const, baselineId: baseline.id, baselineName: baseline.name }
+        : { type: 'allocations' as const },
+      blocks,
+    };
+  });
+}
+
+/**
+ * Earned value at `asOf` of the projects matching `where`
+ */
+export async function loadEarnedValue(
+  db: Prisma.TransactionClient,
+  where: Prisma.ProjectWhereInput,
+  asOf: Date
+): Promise<ProjectEarnedValue[]> {
+  const projects = await loadCostedProjects(db, where);
+
+  return projects.map(({ budget, blocks, ...project }) => ({
+    ...project,
+    earnedValue: earnedValue(blocks, budget, asOf),
+  }));
+}
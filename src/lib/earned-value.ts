@@ -0,0 +1,229 @@
+// Earned value management: planned value from the phased allocation plan,
+// as baselined, earned value from block progress and actual cost from what
+// the blocks booked.
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface EarnedValueBlock {
+  code: string;
+  status: string;
+  percentComplete: number;
+  actualStart: Date | null;
+  // Exclusive, like plannedEnd
+  actualEnd: Date | null;
+  actualHours: number | null;
+  actualCost: number | null;
+  // Allocated work costed at the resources' hourly rates
+  allocations: Array<{ weekStartDate: Date; hours: number; cost: number }>;
+  // Work the block was planned with: its allocations in the project's latest
+  // baseline, else the current ones, so reforecasts do not move planned value
+  plannedAllocations: Array<{ weekStartDate: Date; cost: number }>;
+}
+
+export interface EarnedValueMetrics {
+  // Budget at completion
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  // Cost and schedule variance
+  cv: number;
+  sv: number;
+  // Cost and schedule performance indexes; null until there is a base to compare with
+  cpi: number | null;
+  spi: number | null;
+  // Estimate at and to completion, variance at completion
+  eac: number;
+  etc: number;
+  vac: number;
+  // Share of the budget earned
+  percentComplete: number;
+}
+
+// Cumulative values at the end of a week, or at the as-of date in its week;
+// earned value and actual cost are not known after it
+export interface EarnedValuePoint {
+  week: string;
+  pv: number;
+  ev: number | null;
+  ac: number | null;
+}
+
+export interface EarnedValue extends EarnedValueMetrics {
+  asOf: string;
+  curve: EarnedValuePoint[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const roundIndex = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+// Share of the span from `start` to `end` that has passed at `at`
+function elapsedShare(start: number, end: number, at: number): number {
+  if (at <= start) return 0;
+  if (end <= start || at >= end) return 1;
+  return (at - start) / (end - start);
+}
+
+/**
+ * What a started block has cost so far: the cost booked, else its actual
+ * hours at the block's planned average rate
+ */
+export function blockActualCost(block: EarnedValueBlock): number {
+  if (block.actualCost !== null) return block.actualCost;
+  const cost = block.allocations.reduce((sum, allocation) => sum + allocation.cost, 0);
+  const hours = block.allocations.reduce((sum, allocation) => sum + allocation.hours, 0);
+  return block.actualHours !== null && hours > 0 ? block.actualHours * (cost / hours) : 0;
+}
+
+/**
+ * Time a started block has run by `asOf`, in epoch milliseconds; blocks
+ * started without a recorded date count from `asOf`
+ */
+export function blockActualSpan(block: EarnedValueBlock, asOf: Date): { start: number; end: number } {
+  const now = asOf.getTime();
+  return {
+    start: Math.min(block.actualStart?.getTime() ?? now, now),
+    end: block.actualEnd ? Math.min(block.actualEnd.getTime(), now) : now,
+  };
+}
+
+/**
+ * Indexes, forecasts and variances from budget, planned value, earned value
+ * and actual cost. The estimate at completion assumes the remaining work
+ * costs what the work so far did; with no cost booked yet it is the budget.
+ */
+function metricsOf(bac: number, pv: number, ev: number, ac: number): EarnedValueMetrics {
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  const eac = cpi !== null && cpi > 0 ? bac / cpi : ac + Math.max(0, bac - ev);
+
+  return {
+    bac: round(bac),
+    pv: round(pv),
+    ev: round(ev),
+    ac: round(ac),
+    cv: round(ev - ac),
+    sv: round(ev - pv),
+    cpi: roundIndex(cpi),
+    spi: roundIndex(spi),
+    eac: round(eac),
+    etc: round(Math.max(0, eac - ac)),
+    vac: round(bac - eac),
+    percentComplete: bac > 0 ? Math.round((ev / bac) * 1000) / 10 : 0,
+  };
+}
+
+/**
+ * Earned value of a project at `asOf`. The budget at completion is the
+ * project budget, phased like the blocks' planned allocations; without a
+ * budget it is the plan's cost. A block earns its share of the budget as it
+ * completes, and its actual cost is the cost booked, else its actual hours at
+ * the block's current average rate. Progress and cost are not recorded by week,
+ * so the curve spreads both evenly from a block's actual start to its
+ * actual end, or to the as-of date while it runs.
+ */
+export function earnedValue(blocks: EarnedValueBlock[], budget: number | null, asOf: Date): EarnedValue {
+  const now = asOf.getTime();
+  const plannedCost = blocks.reduce(
+    (total, block) => total + block.plannedAllocations.reduce((sum, allocation) => sum + allocation.cost, 0),
+    0
+  );
+  const bac = budget !== null && budget > 0 ? budget : plannedCost;
+  const scale = plannedCost > 0 ? bac / plannedCost : 0;
+
+  const planned = blocks.flatMap(block => block.plannedAllocations.map(allocation => ({
+    start: allocation.weekStartDate.getTime(),
+    value: allocation.cost * scale,
+  })));
+
+  const performed = blocks
+    .filter(block => block.status !== 'not_started')
+    .map(block => {
+      const blockCost = block.plannedAllocations.reduce((sum, allocation) => sum + allocation.cost, 0);
+      const complete = block.status === 'completed' ? 100 : Math.min(100, Math.max(0, block.percentComplete));
+      return {
+        ...blockActualSpan(block, asOf),
+        earned: blockCost * scale * complete / 100,
+        actualCost: blockActualCost(block),
+      };
+    });
+
+  const pvAt = (at: number) => planned.reduce(
+    (total, allocation) => total + allocation.value * elapsedShare(allocation.start, allocation.start + WEEK_MS, at),
+    0
+  );
+  const performedAt = (at: number, key: 'earned' | 'actualCost') => performed.reduce(
+    (total, block) => total + block[key] * elapsedShare(block.start, block.end, at),
+    0
+  );
+
+  const metrics = metricsOf(bac, pvAt(now), performedAt(now, 'earned'), performedAt(now, 'actualCost'));
+
+  const starts = [...planned.map(allocation => allocation.start), ...performed.map(block => block.start)];
+  const curve: EarnedValuePoint[] = [];
+  if (starts.length > 0) {
+    const first = new Date(AutoPlanningEngine.weekKey(new Date(Math.min(...starts)))).getTime();
+    const last = new Date(AutoPlanningEngine.weekKey(new Date(Math.max(...starts, now)))).getTime();
+    for (let week = first; week <= last; week += WEEK_MS) {
+      const weekEnd = week + WEEK_MS;
+      const at = Math.min(weekEnd, now);
+      curve.push({
+        week: new Date(week).toISOString().split('T')[0],
+        pv: round(pvAt(week <= now ? at : weekEnd)),
+        ev: week <= now ? round(performedAt(at, 'earned')) : null,
+        ac: week <= now ? round(performedAt(at, 'actualCost')) : null,
+      });
+    }
+  }
+
+  return { ...metrics, asOf: asOf.toISOString(), curve };
+}
+
+/**
+ * Portfolio earned value: budgets, values and costs summed across projects,
+ * with indexes taken from the sums so larger projects weigh more
+ */
+export function rollUpEarnedValue(projects: EarnedValue[], asOf: Date): EarnedValue {
+  const sum = (key: 'bac' | 'pv' | 'ev' | 'ac' | 'eac') => projects.reduce((total, project) => total + project[key], 0);
+  const metrics = metricsOf(sum('bac'), sum('pv'), sum('ev'), sum('ac'));
+  const eac = sum('eac');
+
+  // A project adds nothing before its curve starts; every curve runs to the as-of week or later
+  const known = projects.flatMap(project => project.curve.map(point => new Date(point.week).getTime()));
+  const weeks: string[] = [];
+  if (known.length > 0) {
+    for (let week = Math.min(...known); week <= Math.max(...known); week += WEEK_MS) {
+      weeks.push(new Date(week).toISOString().split('T')[0]);
+    }
+  }
+  const curve = weeks.map(week => {
+    const measured = new Date(week).getTime() <= asOf.getTime();
+    let pv = 0;
+    let ev = 0;
+    let ac = 0;
+    for (const project of projects) {
+      const reached = project.curve.filter(candidate => candidate.week <= week);
+      const at = reached.length > 0 ? reached[reached.length - 1] : null;
+      pv += at?.pv ?? 0;
+      ev += at?.ev ?? 0;
+      ac += at?.ac ?? 0;
+    }
+    return {
+      week,
+      pv: round(pv),
+      ev: measured ? round(ev) : null,
+      ac: measured ? round(ac) : null,
+    };
+  });
+
+  return {
+    ...metrics,
+    eac: round(eac),
+    etc: round(Math.max(0, eac - metrics.ac)),
+    vac: round(metrics.bac - eac),
+    asOf: asOf.toISOString(),
+    curve,
+  };
+}
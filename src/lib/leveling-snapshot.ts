@@ -0,0 +1,86 @@
+import { Prisma } from '@prisma/client';
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { TENTATIVE_PROJECT_STATUSES, storedProjectStatuses } from '@/lib/project-lifecycle';
+import { LEVELED_PROJECT_STATUSES, type LevelingInput } from '@/lib/resource-leveling';
+
+/**
+ * Projects to level with their blocks and allocations, the bookings of all
+ * other projects, and active resources with their availability from the
+ * given week onwards.
+ */
+export async function loadLevelingInput(
+  db: Prisma.TransactionClient,
+  today: Date
+): Promise<LevelingInput> {
+  const fromWeek = new Date(AutoPlanningEngine.weekKey(today));
+
+  const [calendar, projects, fixedAllocations, resources] = await Promise.all([
+    loadWorkingCalendar(db),
+    db.project.findMany({
+      where: { status: { in: storedProjectStatuses(LEVELED_PROJECT_STATUSES) } },
+      include: {
+        projectBlocks: {
+          include: {
+            block: { select: { code: true } },
+            allocations: {
+              select: { id: true, resourceId: true, weekStartDate: true, allocatedHours: true },
+            },
+          },
+        },
+      },
+    }),
+    db.allocation.findMany({
+      where: {
+        weekStartDate: { gte: fromWeek },
+        projectBlock: {
+          // Tentative pipeline bookings hold no capacity
+          project: {
+            status: { notIn: storedProjectStatuses([...LEVELED_PROJECT_STATUSES, ...TENTATIVE_PROJECT_STATUSES, 'cancelled']) },
+          },
+        },
+      },
+      select: { resourceId: true, weekStartDate: true, allocatedHours: true },
+    }),
+    // Placeholders are not anyone's capacity, so there is nothing to level for them
+    db.resource.findMany({
+      where: { active: true, placeholder: false },
+      include: {
+        calendarExceptions: {
+          where: { date: { gte: fromWeek } },
+          select: { date: true, capacityOverrideHours: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    calendar,
+    fixedAllocations,
+    resources: resources.map(resource => ({
+      id: resource.id,
+      employeeCode: resource.employeeCode,
+      capacityHoursPerWeek: resource.capacityHoursPerWeek,
+      region: resource.region,
+      availabilityCalendar: resource.availabilityCalendar,
+      calendarExceptions: resource.calendarExceptions,
+    })),
+    projects: projects.map(project => ({
+      id: project.id,
+      code: project.code,
+      name: project.name,
+      priority: project.priority,
+      targetStartDate: project.targetStartDate,
+      blocks: project.projectBlocks.map(projectBlock => ({
+        id: projectBlock.id,
+        blockCode: projectBlock.block.code,
+        sequenceIndex: projectBlock.sequenceIndex,
+        status: projectBlock.status,
+        plannedStart: projectBlock.plannedStart,
+        plannedEnd: projectBlock.plannedEnd,
+        dependencies: projectBlock.dependencies,
+        allocations: projectBlock.allocations,
+      })),
+    })),
+  };
+}
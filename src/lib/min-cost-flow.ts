@@ -0,0 +1,95 @@
+// Minimum-cost flow on a small directed network, solved in-process with
+// successive shortest paths. Capacities may be fractional (hours).
+
+const EPSILON = 1e-9;
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  flow: number;
+  // Index of the reverse edge in the adjacency list of `to`
+  reverse: number;
+}
+
+export class MinCostFlow {
+  private readonly edges: FlowEdge[][] = [];
+
+  /**
+   * Add a node and return its index
+   */
+  addNode(): number {
+    this.edges.push([]);
+    return this.edges.length - 1;
+  }
+
+  /**
+   * Add a directed edge and return a handle for reading its flow afterwards
+   */
+  addEdge(from: number, to: number, capacity: number, cost: number): { from: number; index: number } {
+    this.edges[from].push({ to, capacity, cost, flow: 0, reverse: this.edges[to].length });
+    this.edges[to].push({ to: from, capacity: 0, cost: -cost, flow: 0, reverse: this.edges[from].length - 1 });
+    return { from, index: this.edges[from].length - 1 };
+  }
+
+  flowOn(edge: { from: number; index: number }): number {
+    return this.edges[edge.from][edge.index].flow;
+  }
+
+  /**
+   * Push up to `limit` units from source to sink at the lowest total cost.
+   * Returns the flow pushed and its cost.
+   */
+  solve(source: number, sink: number, limit = Infinity): { flow: number; cost: number } {
+    let totalFlow = 0;
+    let totalCost = 0;
+
+    while (totalFlow < limit - EPSILON) {
+      // Bellman-Ford (queue based), as residual edges carry negative costs
+      const distance = this.edges.map(() => Infinity);
+      const previous: Array<{ node: number; edge: number } | null> = this.edges.map(() => null);
+      const inQueue = this.edges.map(() => false);
+      const queue = [source];
+      distance[source] = 0;
+      inQueue[source] = true;
+
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        inQueue[node] = false;
+        this.edges[node].forEach((edge, index) => {
+          if (edge.capacity - edge.flow > EPSILON && distance[node] + edge.cost < distance[edge.to] - EPSILON) {
+            distance[edge.to] = distance[node] + edge.cost;
+            previous[edge.to] = { node, edge: index };
+            if (!inQueue[edge.to]) {
+              queue.push(edge.to);
+              inQueue[edge.to] = true;
+            }
+          }
+        });
+      }
+
+      if (distance[sink] === Infinity) {
+        break;
+      }
+
+      // Bottleneck along the cheapest path
+      let pushed = limit - totalFlow;
+      for (let node = sink; node !== source; node = previous[node]!.node) {
+        const { node: from, edge } = previous[node]!;
+        pushed = Math.min(pushed, this.edges[from][edge].capacity - this.edges[from][edge].flow);
+      }
+
+      for (let node = sink; node !== source; node = previous[node]!.node) {
+        const { node: from, edge } = previous[node]!;
+        const forward = this.edges[from][edge];
+        forward.flow += pushed;
+        this.edges[forward.to][forward.reverse].flow -= pushed;
+      }
+
+      totalFlow += pushed;
+      totalCost += pushed * distance[sink];
+    }
+
+    return { flow: totalFlow, cost: totalCost };
+  }
+}
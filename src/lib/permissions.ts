@@ -0,0 +1,44 @@
+// Roles and the permissions each one grants.
+
+export type Role = 'admin' | 'planner' | 'resource_manager' | 'finance' | 'viewer';
+
+export type Permission =
+  // Project types, tiers, blocks, deliverables, skills, the working calendar
+  // and the rate cards of roles
+  | 'master_data:edit'
+  // Create, reschedule and delete projects
+  | 'projects:edit'
+  // Create and change resource allocations
+  | 'allocations:edit'
+  // Resources, their availability patterns, calendar exceptions and rate history
+  | 'resources:edit'
+  // Monthly and hourly rates of resources; resource managers need them to
+  // set up contracts, finance to cost the plan
+  | 'rates:view';
+
+export const ROLES: Array<{ value: Role; label: string }> = [
+  { value: 'admin', label: 'Administrator' },
+  { value: 'planner', label: 'Planner' },
+  { value: 'resource_manager', label: 'Resource Manager' },
+  { value: 'finance', label: 'Finance' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['master_data:edit', 'projects:edit', 'allocations:edit', 'resources:edit', 'rates:view'],
+  planner: ['projects:edit', 'allocations:edit'],
+  resource_manager: ['resources:edit', 'allocations:edit', 'rates:view'],
+  finance: ['rates:view'],
+  viewer: [],
+};
+
+export function isRole(value: string): value is Role {
+  return ROLES.some(role => role.value === value);
+}
+
+/**
+ * Unknown roles get no permissions, so they are read-only like viewers
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
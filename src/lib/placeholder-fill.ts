@@ -0,0 +1,206 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { CONFIRMED_ALLOCATIONS } from '@/lib/capacity-snapshot';
+import type { WorkingCalendar } from '@/lib/working-calendar';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Hours a placeholder holds on one project
+export interface PlaceholderProjectDemand {
+  projectId: string;
+  projectCode: string;
+  projectName: string;
+  weeks: number;
+  hours: number;
+}
+
+// A week the named resource would work more than it can after filling
+export interface OverbookedWeek {
+  weekStartDate: string;
+  capacityHours: number;
+  bookedHours: number;
+}
+
+/**
+ * A placeholder with its skills and the allocations it holds, on one project
+ * or all. Null when the resource does not exist or is not a placeholder.
+ */
+export async function loadPlaceholder(
+  db: Prisma.TransactionClient,
+  placeholderId: string,
+  projectId?: string
+) {
+  const placeholder = await db.resource.findUnique({
+    where: { id: placeholderId },
+    include: {
+      resourceSkills: { include: { skill: true } },
+      allocations: {
+        where: projectId ? { projectId } : undefined,
+        orderBy: { weekStartDate: 'asc' },
+        include: {
+          projectBlock: {
+            select: { project: { select: { id: true, code: true, name: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  return placeholder?.placeholder ? placeholder : null;
+}
+
+export type LoadedPlaceholder = NonNullable<Awaited<ReturnType<typeof loadPlaceholder>>>;
+
+/**
+ * What a placeholder asks of whoever fills it: skills and levels, the weeks
+ * it spans and its hours per project
+ */
+export function placeholderDemand(placeholder: LoadedPlaceholder) {
+  const byProject = new Map<string, PlaceholderProjectDemand & { weekKeys: Set<string> }>();
+  for (const allocation of placeholder.allocations) {
+    const project = allocation.projectBlock.project;
+    const demand = byProject.get(project.id) ?? {
+      projectId: project.id,
+      projectCode: project.code,
+      projectName: project.name,
+      weeks: 0,
+      hours: 0,
+      weekKeys: new Set<string>(),
+    };
+    demand.hours += allocation.allocatedHours;
+    demand.weekKeys.add(AutoPlanningEngine.weekKey(allocation.weekStartDate));
+    byProject.set(project.id, demand);
+  }
+
+  const first = placeholder.allocations[0]?.weekStartDate;
+  const last = placeholder.allocations[placeholder.allocations.length - 1]?.weekStartDate;
+
+  return {
+    placeholder: {
+      id: placeholder.id,
+      employeeCode: placeholder.employeeCode,
+      name: placeholder.name,
+      homeTeam: placeholder.homeTeam,
+      role: placeholder.role,
+      capacityHoursPerWeek: placeholder.capacityHoursPerWeek,
+    },
+    skills: placeholder.resourceSkills.map(resourceSkill => ({
+      skillId: resourceSkill.skillId,
+      skillCode: resourceSkill.skill.code,
+      skillName: resourceSkill.skill.name,
+      category: resourceSkill.skill.category,
+      level: resourceSkill.level,
+    })),
+    timeframe: first && last
+      ? { startDate: first.toISOString(), endDate: new Date(last.getTime() + WEEK_MS).toISOString() }
+      : null,
+    totalHours: Math.round(placeholder.allocations.reduce((sum, allocation) => sum + allocation.allocatedHours, 0) * 100) / 100,
+    projects: Array.from(byProject.values())
+      .map(({ weekKeys, ...demand }) => ({ ...demand, weeks: weekKeys.size, hours: Math.round(demand.hours * 100) / 100 }))
+      .sort((a, b) => a.projectCode.localeCompare(b.projectCode)),
+  };
+}
+
+/**
+ * Move a placeholder's allocations onto a named resource, adding to any hours
+ * the resource already has on the same block and week. Audited per project.
+ * Run inside a transaction.
+ */
+export async function fillPlaceholder(
+  tx: Prisma.TransactionClient,
+  user: SessionUser,
+  placeholder: LoadedPlaceholder,
+  resource: { id: string; employeeCode: string }
+): Promise<{ movedCount: number; projectCodes: string[] }> {
+  const projects = new Map(placeholder.allocations.map(allocation => [
+    allocation.projectId,
+    allocation.projectBlock.project.code,
+  ]));
+
+  for (const [projectId, projectCode] of Array.from(projects.entries())) {
+    const before = await allocationTotals(tx, { projectId });
+    const allocations = placeholder.allocations.filter(allocation => allocation.projectId === projectId);
+
+    for (const allocation of allocations) {
+      await tx.allocation.upsert({
+        where: {
+          projectBlockId_resourceId_weekStartDate: {
+            projectBlockId: allocation.projectBlockId,
+            resourceId: resource.id,
+            weekStartDate: allocation.weekStartDate,
+          },
+        },
+        create: {
+          projectId,
+          projectBlockId: allocation.projectBlockId,
+          resourceId: resource.id,
+          weekStartDate: allocation.weekStartDate,
+          allocatedHours: allocation.allocatedHours,
+        },
+        update: {
+          allocatedHours: { increment: allocation.allocatedHours },
+        },
+      });
+    }
+    await tx.allocation.deleteMany({
+      where: { id: { in: allocations.map(allocation => allocation.id) } },
+    });
+
+    await recordAudit(tx, user, {
+      action: 'update',
+      entityType: 'allocation',
+      entityId: projectId,
+      entityLabel: projectCode,
+      projectId,
+      summary: `Filled placeholder ${placeholder.employeeCode} with ${resource.employeeCode} (${allocations.length} weekly allocations)`,
+      before,
+      after: await allocationTotals(tx, { projectId }),
+    });
+  }
+
+  return { movedCount: placeholder.allocations.length, projectCodes: Array.from(projects.values()).sort() };
+}
+
+/**
+ * Weeks among `weeks` in which a resource is booked beyond what it can work
+ */
+export async function overbookedWeeks(
+  db: Prisma.TransactionClient,
+  calendar: WorkingCalendar,
+  resourceId: string,
+  weeks: Date[]
+): Promise<OverbookedWeek[]> {
+  if (weeks.length === 0) {
+    return [];
+  }
+
+  const [resource, allocations] = await Promise.all([
+    db.resource.findUniqueOrThrow({
+      where: { id: resourceId },
+      include: {
+        calendarExceptions: { select: { date: true, capacityOverrideHours: true } },
+      },
+    }),
+    db.allocation.findMany({
+      where: { resourceId, weekStartDate: { in: weeks }, ...CONFIRMED_ALLOCATIONS },
+      select: { weekStartDate: true, allocatedHours: true },
+    }),
+  ]);
+
+  const booked = new Map<string, number>();
+  for (const allocation of allocations) {
+    const week = AutoPlanningEngine.weekKey(allocation.weekStartDate);
+    booked.set(week, (booked.get(week) ?? 0) + allocation.allocatedHours);
+  }
+
+  return Array.from(booked.entries())
+    .map(([week, hours]) => ({
+      weekStartDate: week,
+      capacityHours: calendar.resourceWeeklyHours(resource, new Date(week)),
+      bookedHours: Math.round(hours * 100) / 100,
+    }))
+    .filter(week => week.bookedHours > week.capacityHours + 0.01)
+    .sort((a, b) => a.weekStartDate.localeCompare(b.weekStartDate));
+}
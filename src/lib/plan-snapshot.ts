@@ -0,0 +1,78 @@
+import { Prisma } from '@prisma/client';
+import { loadRateBook } from '@/lib/rate-card-snapshot';
+import type { PlanBlock, PlanTotals } from '@/lib/baselines';
+
+export interface PlanAllocation {
+  resourceId: string;
+  weekStartDate: Date;
+  allocatedHours: number;
+  hourlyRate: number;
+}
+
+export interface ProjectPlan extends PlanTotals {
+  blocks: Array<PlanBlock & {
+    projectBlockId: string;
+    plannedDurationWeeks: number;
+    allocations: PlanAllocation[];
+  }>;
+}
+
+/**
+ * Current plan of a project: block dates with their allocated hours, costed
+ * at the rate in effect for each allocated week. Returns null when the
+ * project does not exist.
+ */
+export async function loadProjectPlan(
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<ProjectPlan | null> {
+  const [project, rates] = await Promise.all([
+    db.project.findUnique({
+      where: { id: projectId },
+      include: {
+        projectBlocks: {
+          orderBy: { sequenceIndex: 'asc' },
+          include: {
+            block: { select: { code: true, name: true } },
+            allocations: true,
+          },
+        },
+      },
+    }),
+    loadRateBook(db),
+  ]);
+
+  if (!project) {
+    return null;
+  }
+
+  return {
+    targetStartDate: project.targetStartDate,
+    budgetCapex: project.budgetCapex,
+    budgetOpex: project.budgetOpex,
+    blocks: project.projectBlocks.map(projectBlock => {
+      const allocations = projectBlock.allocations.map(allocation => ({
+        resourceId: allocation.resourceId,
+        weekStartDate: allocation.weekStartDate,
+        allocatedHours: allocation.allocatedHours,
+        hourlyRate: rates.costPerHour(allocation.resourceId, allocation.weekStartDate),
+      }));
+
+      return {
+        projectBlockId: projectBlock.id,
+        blockId: projectBlock.blockId,
+        blockCode: projectBlock.block.code,
+        blockName: projectBlock.block.name,
+        plannedStart: projectBlock.plannedStart,
+        plannedEnd: projectBlock.plannedEnd,
+        plannedDurationWeeks: projectBlock.plannedDurationWeeks,
+        plannedHours: allocations.reduce((total, allocation) => total + allocation.allocatedHours, 0),
+        plannedCost: allocations.reduce(
+          (total, allocation) => total + allocation.allocatedHours * allocation.hourlyRate,
+          0
+        ),
+        allocations,
+      };
+    }),
+  };
+}
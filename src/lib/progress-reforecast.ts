@@ -0,0 +1,159 @@
+// Reforecast of a project from block progress: in-progress blocks finish
+// after their remaining work, and late or early finishes move the blocks
+// waiting on them.
+import { type DependencyLink, earliestStartAfter } from '@/lib/dependencies';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+export interface ProgressBlock {
+  id: string;
+  code: string;
+  status: string;
+  plannedStart: Date;
+  // Exclusive, like actualEnd
+  plannedEnd: Date;
+  plannedDurationWeeks: number;
+  // Hours allocated to the block
+  plannedHours: number;
+  percentComplete: number;
+  actualStart: Date | null;
+  actualEnd: Date | null;
+  remainingHours: number | null;
+  // Links to predecessor block codes
+  dependencies: DependencyLink[];
+}
+
+export interface BlockForecast {
+  id: string;
+  code: string;
+  start: Date;
+  end: Date;
+  // Working days the forecast end lies after the planned end
+  slipDays: number;
+  // Not started and rescheduled by the forecast
+  moved: boolean;
+}
+
+export interface ProjectForecast {
+  blocks: BlockForecast[];
+  forecastEnd: Date;
+  plannedEnd: Date;
+}
+
+/**
+ * Working days of work left on an in-progress block: the team's remaining
+ * hours at the block's planned pace, else the share not yet complete
+ */
+export function remainingWorkingDays(block: ProgressBlock, calendar: WorkingCalendar): number {
+  const plannedDays = Math.max(1, block.plannedDurationWeeks * calendar.workingDaysPerWeek);
+  if (block.remainingHours !== null && block.plannedHours > 0) {
+    return Math.ceil(block.remainingHours / (block.plannedHours / plannedDays));
+  }
+  return Math.ceil(plannedDays * (1 - Math.min(100, Math.max(0, block.percentComplete)) / 100));
+}
+
+/**
+ * Blocks ordered after their predecessors; blocks caught in a cycle keep
+ * their given order at the end
+ */
+function dependencyOrder(blocks: ProgressBlock[]): ProgressBlock[] {
+  const order: ProgressBlock[] = [];
+  const placed = new Set<string>();
+  const codes = new Set(blocks.map(block => block.code));
+  let remaining = [...blocks];
+
+  while (remaining.length > 0) {
+    const next = remaining.find(block =>
+      block.dependencies.every(link => placed.has(link.predecessor) || !codes.has(link.predecessor))
+    );
+    if (!next) {
+      break;
+    }
+    order.push(next);
+    placed.add(next.code);
+    remaining = remaining.filter(block => block !== next);
+  }
+
+  return [...order, ...remaining];
+}
+
+/**
+ * Forecast start and end of every block from progress reported up to `today`.
+ * Completed blocks keep their actual dates, in-progress blocks end after
+ * their remaining work, and blocks not started follow their predecessors:
+ * delays push them out past any slack, early finishes pull them in by the
+ * time gained. Nothing not yet started is forecast to start before today.
+ * Forecasts are saved beside the planned dates, which are left as planned,
+ * so every reforecast starts again from the plan.
+ */
+export function reforecastProject(
+  blocks: ProgressBlock[],
+  calendar: WorkingCalendar,
+  today: Date
+): ProjectForecast {
+  // Work can still start today
+  const startOfToday = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  const origin = new Date(Math.min(
+    startOfToday.getTime(),
+    ...blocks.map(block => block.plannedStart.getTime()),
+    ...blocks.flatMap(block => block.actualStart ? [block.actualStart.getTime()] : [])
+  ));
+  const offset = (date: Date) => calendar.workingDaysBetween(origin, date);
+  const dateAt = (days: number) => calendar.addWorkingDays(origin, days);
+  const todayDays = offset(startOfToday);
+
+  const planned = new Map(blocks.map(block => [
+    block.code,
+    { start: offset(block.plannedStart), finish: offset(block.plannedEnd) },
+  ]));
+  const forecast = new Map<string, { start: number; finish: number }>();
+  const results = new Map<string, BlockForecast>();
+
+  for (const block of dependencyOrder(blocks)) {
+    const plan = planned.get(block.code)!;
+    const startDate = block.status === 'not_started' ? block.plannedStart : block.actualStart ?? block.plannedStart;
+    let start = offset(startDate);
+    let finish = plan.finish;
+    let moved = false;
+
+    if (block.status === 'completed') {
+      finish = block.actualEnd ? offset(block.actualEnd) : plan.finish;
+    } else if (block.status === 'in_progress') {
+      finish = Math.max(start, todayDays) + remainingWorkingDays(block, calendar);
+    } else {
+      const duration = plan.finish - plan.start;
+      const links = block.dependencies.filter(link => forecast.has(link.predecessor));
+      if (links.length > 0) {
+        const earliest = (dates: Map<string, { start: number; finish: number }>) =>
+          Math.max(...links.map(link => earliestStartAfter(link, dates.get(link.predecessor)!, duration)));
+        const earliestNow = earliest(forecast);
+        const gained = earliest(planned) - earliestNow;
+        // Delays eat into slack first; gains are passed on in full
+        start = Math.max(earliestNow, gained > 0 ? plan.start - gained : plan.start);
+      }
+      start = Math.max(start, todayDays);
+      finish = start + duration;
+      moved = start !== plan.start;
+    }
+
+    forecast.set(block.code, { start, finish });
+    results.set(block.id, {
+      id: block.id,
+      code: block.code,
+      start: moved ? dateAt(start) : startDate,
+      end: block.status === 'completed' && block.actualEnd
+        ? block.actualEnd
+        : finish === plan.finish ? block.plannedEnd : dateAt(finish),
+      slipDays: finish - plan.finish,
+      moved,
+    });
+  }
+
+  const ordered = blocks.map(block => results.get(block.id)!);
+  const latest = (dates: Date[]) => new Date(Math.max(...dates.map(date => date.getTime())));
+
+  return {
+    blocks: ordered,
+    forecastEnd: latest(ordered.map(block => block.end)),
+    plannedEnd: latest(blocks.map(block => block.plannedEnd)),
+  };
+}
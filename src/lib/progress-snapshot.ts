@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { parseDependencyLinks } from '@/lib/dependencies';
+import { type ProgressBlock, type ProjectForecast, reforecastProject } from '@/lib/progress-reforecast';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Blocks of a project with their progress, allocated hours and dependencies.
+ * Blocks without saved dependencies follow the previous block, as when the
+ * project was planned.
+ */
+export async function loadProgressBlocks(
+  db: Prisma.TransactionClient,
+  projectId: string
+): Promise<Array<ProgressBlock & { blockName: string; forecastStart: Date | null; forecastEnd: Date | null }>> {
+  const projectBlocks = await db.projectBlock.findMany({
+    where: { projectId },
+    orderBy: { sequenceIndex: 'asc' },
+    include: {
+      block: { select: { code: true, name: true } },
+      allocations: { select: { allocatedHours: true } },
+    },
+  });
+
+  return projectBlocks.map((projectBlock, index) => {
+    const code = projectBlock.block.code;
+    return {
+      id: projectBlock.id,
+      code,
+      blockName: projectBlock.block.name,
+      status: projectBlock.status,
+      plannedStart: projectBlock.plannedStart,
+      plannedEnd: projectBlock.plannedEnd,
+      plannedDurationWeeks: projectBlock.plannedDurationWeeks,
+      forecastStart: projectBlock.forecastStart,
+      forecastEnd: projectBlock.forecastEnd,
+      plannedHours: projectBlock.allocations.reduce((total, allocation) => total + allocation.allocatedHours, 0),
+      percentComplete: projectBlock.percentComplete,
+      actualStart: projectBlock.actualStart,
+      actualEnd: projectBlock.actualEnd,
+      remainingHours: projectBlock.remainingHours,
+      dependencies: parseDependencyLinks(projectBlock.dependencies, code) ?? (
+        index > 0
+          ? [{ predecessor: projectBlocks[index - 1].block.code, successor: code, type: 'FS' as const, lagDays: 0 }]
+          : []
+      ),
+    };
+  });
+}
+
+/**
+ * Reforecast a project and save the forecast: block forecast dates that
+ * changed are saved, leaving the planned dates as the plan, allocations of
+ * blocks not started follow them by whole weeks, and the project's forecast
+ * end is updated. Run it in a transaction. Returns the forecast and the block
+ * forecast dates before and after, for the audit.
+ */
+export async function saveReforecast(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  calendar: WorkingCalendar,
+  today: Date
+): Promise<{
+  forecast: ProjectForecast | null;
+  movedAllocations: number;
+  before: Record<string, Date>;
+  after: Record<string, Date>;
+}> {
+  const blocks = await loadProgressBlocks(tx, projectId);
+  if (blocks.length === 0) {
+    return { forecast: null, movedAllocations: 0, before: {}, after: {} };
+  }
+
+  const forecast = reforecastProject(blocks, calendar, today);
+  const before: Record<string, Date> = {};
+  const after: Record<string, Date> = {};
+  let movedAllocations = 0;
+
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index];
+    const { start, end } = forecast.blocks[index];
+    // Where the last reforecast left the block, or the plan before the first one
+    const currentStart = block.forecastStart ?? block.plannedStart;
+    const currentEnd = block.forecastEnd ?? block.plannedEnd;
+    if (start.getTime() === currentStart.getTime() && end.getTime() === currentEnd.getTime()) {
+      continue;
+    }
+
+    await tx.projectBlock.update({
+      where: { id: block.id },
+      data: { forecastStart: start, forecastEnd: end },
+    });
+    before[`${block.code} forecast start`] = currentStart;
+    before[`${block.code} forecast end`] = currentEnd;
+    after[`${block.code} forecast start`] = start;
+    after[`${block.code} forecast end`] = end;
+
+    // Work booked for a block not started moves with it, back again when it recovers
+    const shiftWeeks = Math.round(
+      (new Date(AutoPlanningEngine.weekKey(start)).getTime() -
+        new Date(AutoPlanningEngine.weekKey(currentStart)).getTime()) / (7 * DAY_MS)
+    );
+    if (block.status !== 'not_started' || shiftWeeks === 0) {
+      continue;
+    }
+
+    const allocations = await tx.allocation.findMany({
+      where: { projectBlockId: block.id },
+      // Move the far end first, so no allocation lands on a week another one still occupies
+      orderBy: { weekStartDate: shiftWeeks > 0 ? 'desc' : 'asc' },
+      select: { id: true, weekStartDate: true },
+    });
+    for (const allocation of allocations) {
+      await tx.allocation.update({
+        where: { id: allocation.id },
+        data: { weekStartDate: new Date(allocation.weekStartDate.getTime() + shiftWeeks * 7 * DAY_MS) },
+      });
+    }
+    movedAllocations += allocations.length;
+  }
+
+  await tx.project.update({
+    where: { id: projectId },
+    data: { forecastEndDate: forecast.forecastEnd },
+  });
+
+  return { forecast, movedAllocations, before, after };
+}
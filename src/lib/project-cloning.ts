@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import type { ValidationIssue } from '@/lib/project-creation';
+import type { CloneProjectInput, CreateProjectWizardInput } from '@/lib/validations/projects';
+import type { WorkingCalendar } from '@/lib/working-calendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A resource who worked on the source project
+export interface CloneTeamMember {
+  resourceId: string;
+  employeeCode: string;
+  name: string;
+  active: boolean;
+  blockCount: number;
+}
+
+// How a source resource's allocations carried over
+export interface ClonedResource {
+  resourceId: string;
+  employeeCode: string;
+  // Replacement, when the allocations were swapped onto another resource
+  replacementId?: string;
+}
+
+/**
+ * A project with its planned blocks and their allocations, to clone from
+ */
+export async function loadCloneSource(db: Prisma.TransactionClient, projectId: string) {
+  return db.project.findUnique({
+    where: { id: projectId },
+    include: {
+      projectBlocks: {
+        orderBy: { sequenceIndex: 'asc' },
+        include: {
+          allocations: {
+            include: { resource: true },
+          },
+        },
+      },
+    },
+  });
+}
+
+export type CloneSource = NonNullable<Awaited<ReturnType<typeof loadCloneSource>>>;
+
+/**
+ * Resources allocated on the source project, so unavailable ones can be swapped
+ */
+export function cloneTeam(source: CloneSource): CloneTeamMember[] {
+  const team = new Map<string, CloneTeamMember>();
+
+  for (const projectBlock of source.projectBlocks) {
+    const resources = new Map(projectBlock.allocations.map(allocation => [allocation.resourceId, allocation.resource]));
+    for (const resource of Array.from(resources.values())) {
+      const member = team.get(resource.id) ?? {
+        resourceId: resource.id,
+        employeeCode: resource.employeeCode,
+        name: resource.name,
+        active: resource.active,
+        blockCount: 0,
+      };
+      member.blockCount += 1;
+      team.set(resource.id, member);
+    }
+  }
+
+  return Array.from(team.values()).sort((a, b) => a.employeeCode.localeCompare(b.employeeCode));
+}
+
+/**
+ * Allocations of the source project as wizard percentages, by block id then
+ * resource id: the hours booked on a block against what the resource could
+ * work over its planned days. Leave and other exceptions are left out, so a
+ * percentage describes the share of a normal week.
+ */
+export function relativeAllocations(
+  calendar: WorkingCalendar,
+  source: CloneSource
+): Record<string, Record<string, number>> {
+  const percentages: Record<string, Record<string, number>> = {};
+
+  for (const projectBlock of source.projectBlocks) {
+    const hoursByResource = new Map<string, number>();
+    for (const allocation of projectBlock.allocations) {
+      hoursByResource.set(allocation.resourceId, (hoursByResource.get(allocation.resourceId) ?? 0) + allocation.allocatedHours);
+    }
+
+    for (const [resourceId, hours] of Array.from(hoursByResource.entries())) {
+      const resource = projectBlock.allocations.find(allocation => allocation.resourceId === resourceId)!.resource;
+      let availableHours = 0;
+      for (let day = projectBlock.plannedStart; day < projectBlock.plannedEnd; day = new Date(day.getTime() + DAY_MS)) {
+        availableHours += calendar.resourceDayHours({ ...resource, calendarExceptions: [] }, day);
+      }
+      if (availableHours <= 0 || hours <= 0) {
+        continue;
+      }
+
+      percentages[projectBlock.blockId] = {
+        ...percentages[projectBlock.blockId],
+        [resourceId]: Math.min(100, Math.round((hours / availableHours) * 1000) / 10),
+      };
+    }
+  }
+
+  return percentages;
+}
+
+/**
+ * Wizard values for a new project shaped like the source: its planned blocks
+ * as a template, its budget and its team's allocations as percentages, moved
+ * to the new start. Allocations of resources that are no longer active are
+ * dropped unless swapped onto a replacement.
+ */
+export async function buildProjectClone(
+  db: Prisma.TransactionClient,
+  calendar: WorkingCalendar,
+  source: CloneSource,
+  input: CloneProjectInput
+): Promise<
+  | { ok: true; data: CreateProjectWizardInput; carried: ClonedResource[]; dropped: ClonedResource[] }
+  | { ok: false; validationErrors: ValidationIssue[] }
+> {
+  const team = cloneTeam(source);
+  const replacementIds = Array.from(new Set(Object.values(input.resourceSwaps)));
+  const [existingProject, replacements] = await Promise.all([
+    db.project.findUnique({ where: { code: input.code } }),
+    db.resource.findMany({ where: { id: { in: replacementIds }, active: true }, select: { id: true } }),
+  ]);
+
+  const validationErrors: ValidationIssue[] = [];
+  if (existingProject) {
+    validationErrors.push({ field: 'code', message: 'A project with this code already exists' });
+  }
+  for (const [resourceId, replacementId] of Object.entries(input.resourceSwaps)) {
+    const field = `resourceSwaps.${resourceId}`;
+    if (!team.some(member => member.resourceId === resourceId)) {
+      validationErrors.push({ field, message: `The resource is not allocated on ${source.code}` });
+    } else if (!replacements.some(replacement => replacement.id === replacementId)) {
+      validationErrors.push({ field, message: 'The replacement is not an active resource' });
+    }
+  }
+  if (validationErrors.length > 0) {
+    return { ok: false, validationErrors };
+  }
+
+  const carried: ClonedResource[] = [];
+  const dropped: ClonedResource[] = [];
+  for (const member of team) {
+    const replacementId = input.resourceSwaps[member.resourceId];
+    if (replacementId && replacementId !== member.resourceId) {
+      carried.push({ resourceId: member.resourceId, employeeCode: member.employeeCode, replacementId });
+    } else if (member.active) {
+      carried.push({ resourceId: member.resourceId, employeeCode: member.employeeCode });
+    } else {
+      dropped.push({ resourceId: member.resourceId, employeeCode: member.employeeCode });
+    }
+  }
+
+  // Percentages of a swapped resource go to its replacement, capped at a full week when they meet
+  const resourceAllocations: Record<string, Record<string, number>> = {};
+  for (const [blockId, byResource] of Object.entries(relativeAllocations(calendar, source))) {
+    for (const [resourceId, percentage] of Object.entries(byResource)) {
+      const carriedResource = carried.find(resource => resource.resourceId === resourceId);
+      if (!carriedResource) {
+        continue;
+      }
+      const targetId = carriedResource.replacementId ?? resourceId;
+      resourceAllocations[blockId] = {
+        ...resourceAllocations[blockId],
+        [targetId]: Math.min(100, (resourceAllocations[blockId]?.[targetId] ?? 0) + percentage),
+      };
+    }
+  }
+
+  return {
+    ok: true,
+    carried,
+    dropped,
+    data: {
+      code: input.code,
+      name: input.name,
+      clientType: source.clientType ?? undefined,
+      notes: source.notes ?? undefined,
+      projectTypeId: source.projectTypeId,
+      tierId: source.tierId,
+      priority: source.priority,
+      targetStartDate: input.targetStartDate,
+      mode: source.mode as CreateProjectWizardInput['mode'],
+      resourceAllocations,
+      budgetCapex: source.budgetCapex ?? undefined,
+      budgetOpex: source.budgetOpex ?? undefined,
+      template: {
+        projectId: source.id,
+        projectCode: source.code,
+        tierId: source.tierId,
+        blocks: source.projectBlocks.map(projectBlock => ({
+          blockId: projectBlock.blockId,
+          sequenceIndex: projectBlock.sequenceIndex,
+          durationWeeks: projectBlock.plannedDurationWeeks,
+          dependencies: projectBlock.dependencies,
+          skillsMix: projectBlock.requiredSkillsMix,
+          inhouseVsExternal: projectBlock.inhouseVsExternal,
+        })),
+      },
+    },
+  };
+}
@@ -0,0 +1,479 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
+import { AutoPlanningEngine, type ProjectPlan, type TierBlock, parseSkillsMix } from '@/lib/auto-planning';
+import { CONFIRMED_ALLOCATIONS, loadCapacitySnapshot, loadWorkingCalendar } from '@/lib/capacity-snapshot';
+import { parseDependencyLinks } from '@/lib/dependencies';
+import type { CreatePlannedProjectInput, ProjectTemplate } from '@/lib/validations/projects';
+import type { WorkingCalendar } from '@/lib/working-calendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NewProjectFields {
+  code: string;
+  name: string;
+  clientType?: string;
+  projectTypeId: string;
+  tierId: string;
+  priority: number;
+  targetStartDate: Date;
+  mode: 'strict_start' | 'priority_fit';
+  budgetCapex?: number;
+  budgetOpex?: number;
+  notes?: string;
+}
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// Weekly hours of one resource on one block, converted from a wizard percentage
+export interface PlannedAllocation {
+  blockId: string;
+  resourceId: string;
+  percentage: number;
+  weeks: Array<{ weekStartDate: Date; hours: number }>;
+}
+
+// A resource week the new allocations would push over capacity
+export interface CapacityConflict {
+  resourceId: string;
+  employeeCode: string;
+  weekStartDate: string;
+  capacityHours: number;
+  // Hours other projects already hold
+  bookedHours: number;
+  requestedHours: number;
+}
+
+/**
+ * Whether a wizard input allocates any resource hours
+ */
+export function hasWizardAllocations(input: Pick<CreatePlannedProjectInput, 'resourceAllocations'>): boolean {
+  return Object.values(input.resourceAllocations ?? {})
+    .some(byResource => Object.values(byResource).some(percentage => percentage > 0));
+}
+
+/**
+ * Blocks of a tier with their template durations, skills mixes and
+ * dependencies, ready for the auto-planning engine
+ */
+export async function loadTierBlocksForPlanning(
+  db: Prisma.TransactionClient,
+  tierId: string
+): Promise<TierBlock[]> {
+  const tierBlocks = await db.tierBlock.findMany({
+    where: { tierId },
+    orderBy: { sequenceIndex: 'asc' },
+    include: {
+      block: {
+        include: {
+          deliverables: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+              description: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return tierBlocks.map((tierBlock) => ({
+    id: tierBlock.id,
+    sequenceIndex: tierBlock.sequenceIndex,
+    block: tierBlock.block,
+    durationWeeks: tierBlock.overrideDurationWeeks || tierBlock.block.defaultDurationWeeks,
+    skillsMix: parseSkillsMix(tierBlock.overrideSkillsMix || tierBlock.block.defaultSkillsMix),
+    dependencies: parseDependencyLinks(
+      tierBlock.overrideDependencies ?? tierBlock.block.defaultDependencies,
+      tierBlock.block.code
+    ),
+  }));
+}
+
+/**
+ * Blocks of a cloned project as they were planned there, ready for the
+ * auto-planning engine. Blocks that no longer exist are left out.
+ */
+export async function loadTemplateBlocksForPlanning(
+  db: Prisma.TransactionClient,
+  templateBlocks: ProjectTemplate['blocks']
+): Promise<TierBlock[]> {
+  const blocks = await db.block.findMany({
+    where: { id: { in: templateBlocks.map(templateBlock => templateBlock.blockId) } },
+    include: {
+      deliverables: {
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          description: true,
+        },
+      },
+    },
+  });
+
+  return [...templateBlocks]
+    .sort((a, b) => a.sequenceIndex - b.sequenceIndex)
+    .flatMap(templateBlock => {
+      const block = blocks.find(candidate => candidate.id === templateBlock.blockId);
+      return block
+        ? [{
+            id: templateBlock.blockId,
+            sequenceIndex: templateBlock.sequenceIndex,
+            block,
+            durationWeeks: templateBlock.durationWeeks,
+            skillsMix: parseSkillsMix(templateBlock.skillsMix),
+            dependencies: parseDependencyLinks(templateBlock.dependencies, block.code),
+          }]
+        : [];
+    });
+}
+
+/**
+ * Blocks a wizard input plans: its template's when it was cloned from
+ * another project, else its tier's
+ */
+export async function loadBlocksForPlanning(
+  db: Prisma.TransactionClient,
+  tierId: string,
+  template: ProjectTemplate | undefined
+): Promise<TierBlock[]> {
+  return template
+    ? loadTemplateBlocksForPlanning(db, template.blocks)
+    : loadTierBlocksForPlanning(db, tierId);
+}
+
+/**
+ * Turn wizard percentages, by block id then resource id, into weekly hours
+ * over each planned block. A percentage is of the hours the resource can work
+ * on the block's days, so part-time patterns, holidays and leave are
+ * respected. Also reports unknown blocks or resources and the resource weeks
+ * the hours would overallocate.
+ */
+export async function planWizardAllocations(
+  db: Prisma.TransactionClient,
+  calendar: WorkingCalendar,
+  plan: ProjectPlan,
+  resourceAllocations: Record<string, Record<string, number>>
+): Promise<{
+  allocations: PlannedAllocation[];
+  validationErrors: ValidationIssue[];
+  capacityConflicts: CapacityConflict[];
+}> {
+  const requested = Object.entries(resourceAllocations).flatMap(([blockId, byResource]) =>
+    Object.entries(byResource)
+      .filter(([, percentage]) => percentage > 0)
+      .map(([resourceId, percentage]) => ({ blockId, resourceId, percentage }))
+  );
+
+  if (requested.length === 0 || plan.projectBlocks.length === 0) {
+    return { allocations: [], validationErrors: [], capacityConflicts: [] };
+  }
+
+  const from = new Date(AutoPlanningEngine.weekKey(plan.projectStart));
+  const resourceIds = Array.from(new Set(requested.map(request => request.resourceId)));
+  const [resources, existing] = await Promise.all([
+    db.resource.findMany({
+      where: { id: { in: resourceIds } },
+      include: {
+        calendarExceptions: {
+          where: { date: { gte: from, lt: plan.projectEnd } },
+          select: { date: true, capacityOverrideHours: true },
+        },
+      },
+    }),
+    db.allocation.findMany({
+      where: { resourceId: { in: resourceIds }, weekStartDate: { gte: from, lt: plan.projectEnd }, ...CONFIRMED_ALLOCATIONS },
+      select: { resourceId: true, weekStartDate: true, allocatedHours: true },
+    }),
+  ]);
+
+  const validationErrors: ValidationIssue[] = [];
+  const allocations: PlannedAllocation[] = [];
+
+  for (const { blockId, resourceId, percentage } of requested) {
+    const field = `resourceAllocations.${blockId}.${resourceId}`;
+    const block = plan.projectBlocks.find(planBlock => planBlock.blockId === blockId);
+    const resource = resources.find(candidate => candidate.id === resourceId);
+
+    if (!block) {
+      validationErrors.push({ field, message: 'The block is not part of the planned blocks' });
+      continue;
+    }
+    if (!resource || !resource.active) {
+      validationErrors.push({ field, message: `Resource ${resource?.employeeCode ?? resourceId} is not available` });
+      continue;
+    }
+
+    const hoursByWeek = new Map<string, number>();
+    for (let day = block.plannedStart; day < block.plannedEnd; day = new Date(day.getTime() + DAY_MS)) {
+      const week = AutoPlanningEngine.weekKey(day);
+      hoursByWeek.set(week, (hoursByWeek.get(week) ?? 0) + calendar.resourceDayHours(resource, day));
+    }
+
+    allocations.push({
+      blockId,
+      resourceId,
+      percentage,
+      weeks: Array.from(hoursByWeek.entries())
+        .map(([week, hours]) => ({
+          weekStartDate: new Date(week),
+          hours: Math.round(hours * percentage) / 100,
+        }))
+        .filter(week => week.hours > 0),
+    });
+  }
+
+  // Requested and already booked hours per resource week, against what the resource can work
+  const requestedHours = new Map<string, number>();
+  for (const allocation of allocations) {
+    for (const week of allocation.weeks) {
+      const key = `${allocation.resourceId}|${AutoPlanningEngine.weekKey(week.weekStartDate)}`;
+      requestedHours.set(key, (requestedHours.get(key) ?? 0) + week.hours);
+    }
+  }
+  const bookedHours = new Map<string, number>();
+  for (const allocation of existing) {
+    const key = `${allocation.resourceId}|${AutoPlanningEngine.weekKey(allocation.weekStartDate)}`;
+    bookedHours.set(key, (bookedHours.get(key) ?? 0) + allocation.allocatedHours);
+  }
+
+  // Placeholders are demand to staff later, so they cannot be overallocated
+  const capacityConflicts: CapacityConflict[] = [];
+  for (const [key, hours] of Array.from(requestedHours.entries())) {
+    const [resourceId, week] = key.split('|');
+    const resource = resources.find(candidate => candidate.id === resourceId)!;
+    if (resource.placeholder) {
+      continue;
+    }
+    const capacityHours = calendar.resourceWeeklyHours(resource, new Date(week));
+    const booked = bookedHours.get(key) ?? 0;
+    if (booked + hours > capacityHours + 0.01) {
+      capacityConflicts.push({
+        resourceId,
+        employeeCode: resource.employeeCode,
+        weekStartDate: week,
+        capacityHours,
+        bookedHours: Math.round(booked * 100) / 100,
+        requestedHours: Math.round(hours * 100) / 100,
+      });
+    }
+  }
+  capacityConflicts.sort((a, b) =>
+    a.weekStartDate.localeCompare(b.weekStartDate) || a.employeeCode.localeCompare(b.employeeCode)
+  );
+
+  return { allocations, validationErrors, capacityConflicts };
+}
+
+// Everything that stops a wizard input from becoming a project, reported at once
+export interface PlannedProjectReport {
+  validationErrors: ValidationIssue[];
+  planningErrors: string[];
+  planningWarnings: string[];
+  capacityConflicts: CapacityConflict[];
+}
+
+export type PreparedProject =
+  | {
+      ok: true;
+      fields: NewProjectFields;
+      plan: ProjectPlan;
+      allocations: PlannedAllocation[];
+      // In-house or external by block id, from the template
+      blockSourcing: Record<string, string>;
+      planningWarnings: string[];
+      // Accepted overallocations, when allowOverallocation was set
+      capacityConflicts: CapacityConflict[];
+    }
+  | { ok: false; report: PlannedProjectReport };
+
+/**
+ * Check the whole wizard input, plan its blocks and turn its allocation
+ * percentages into weekly hours, without saving anything
+ */
+export async function preparePlannedProject(
+  db: Prisma.TransactionClient,
+  input: CreatePlannedProjectInput
+): Promise<PreparedProject> {
+  const { resourceAllocations, allowOverallocation, template, ...rest } = input;
+  const fields: NewProjectFields = { ...rest, targetStartDate: new Date(rest.targetStartDate) };
+
+  const [existingProject, tier] = await Promise.all([
+    db.project.findUnique({ where: { code: fields.code } }),
+    db.tier.findUnique({ where: { id: fields.tierId } }),
+  ]);
+
+  const validationErrors: ValidationIssue[] = [];
+  if (existingProject) {
+    validationErrors.push({ field: 'code', message: 'A project with this code already exists' });
+  }
+  if (!tier) {
+    validationErrors.push({ field: 'tierId', message: 'Tier not found' });
+  } else if (tier.projectTypeId !== fields.projectTypeId) {
+    validationErrors.push({ field: 'tierId', message: 'Selected tier does not belong to the selected project type' });
+  }
+
+  if (template && template.tierId !== fields.tierId) {
+    validationErrors.push({ field: 'template', message: `The blocks of ${template.projectCode} were planned for another tier` });
+  }
+
+  const blocksForPlanning = tier ? await loadBlocksForPlanning(db, fields.tierId, template) : [];
+  if (tier && template && blocksForPlanning.length < template.blocks.length) {
+    validationErrors.push({ field: 'template', message: `Some blocks of ${template.projectCode} no longer exist` });
+  } else if (tier && blocksForPlanning.length === 0) {
+    validationErrors.push({ field: 'tierId', message: 'The selected tier does not have any blocks configured' });
+  }
+
+  // Priority fit needs the current booking load to pick a start week
+  const capacity = fields.mode === 'priority_fit'
+    ? await loadCapacitySnapshot(db, { priority: fields.priority, from: fields.targetStartDate })
+    : undefined;
+  const calendar = await loadWorkingCalendar(db);
+
+  const plan = AutoPlanningEngine.generateProjectPlan(
+    blocksForPlanning,
+    fields.targetStartDate,
+    fields.mode,
+    { capacity, calendar }
+  );
+  const validation = AutoPlanningEngine.validateProjectPlan(plan);
+
+  // Percentages become weekly hours of each resource's own capacity over the planned blocks
+  const planned = await planWizardAllocations(db, calendar, plan, resourceAllocations ?? {});
+  validationErrors.push(...planned.validationErrors);
+
+  const blockedByCapacity = planned.capacityConflicts.length > 0 && !allowOverallocation;
+  if (validationErrors.length > 0 || !validation.isValid || blockedByCapacity) {
+    return {
+      ok: false,
+      report: {
+        validationErrors,
+        planningErrors: validation.errors,
+        planningWarnings: validation.warnings,
+        capacityConflicts: planned.capacityConflicts,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    fields,
+    plan,
+    allocations: planned.allocations,
+    blockSourcing: Object.fromEntries(
+      (template?.blocks ?? []).map(templateBlock => [templateBlock.blockId, templateBlock.inhouseVsExternal])
+    ),
+    planningWarnings: validation.warnings,
+    capacityConflicts: planned.capacityConflicts,
+  };
+}
+
+/**
+ * Response body for a project created from a prepared wizard input
+ */
+export function plannedProjectResult(
+  created: Awaited<ReturnType<typeof createPlannedProject>>,
+  prepared: Extract<PreparedProject, { ok: true }>
+) {
+  return {
+    project: created.project,
+    projectBlocks: created.projectBlocks,
+    allocationCount: created.allocationCount,
+    allocations: prepared.allocations.map(allocation => ({
+      blockId: allocation.blockId,
+      resourceId: allocation.resourceId,
+      percentage: allocation.percentage,
+      weeks: allocation.weeks.length,
+      totalHours: Math.round(allocation.weeks.reduce((sum, week) => sum + week.hours, 0) * 100) / 100,
+    })),
+    planningSummary: AutoPlanningEngine.calculateProjectSummary(prepared.plan),
+    planningWarnings: prepared.planningWarnings,
+    priorityFit: prepared.plan.priorityFit,
+    capacityConflicts: prepared.capacityConflicts,
+  };
+}
+
+/**
+ * Create a project in the planning status with its planned blocks and, when
+ * given, their weekly allocations. Blocks are in-house unless `blockSourcing`
+ * says otherwise. Run inside a transaction so a failure leaves nothing behind.
+ */
+export async function createPlannedProject(
+  tx: Prisma.TransactionClient,
+  user: SessionUser,
+  fields: NewProjectFields,
+  plan: ProjectPlan,
+  allocations: PlannedAllocation[] = [],
+  blockSourcing: Record<string, string> = {}
+) {
+  const project = await tx.project.create({
+    data: {
+      ...fields,
+      status: 'planning',
+    },
+  });
+
+  const projectBlocks = await Promise.all(
+    plan.projectBlocks.map(planBlock =>
+      tx.projectBlock.create({
+        data: {
+          projectId: project.id,
+          blockId: planBlock.blockId,
+          plannedStart: planBlock.plannedStart,
+          plannedEnd: planBlock.plannedEnd,
+          plannedDurationWeeks: planBlock.plannedDurationWeeks,
+          sequenceIndex: planBlock.sequenceIndex,
+          dependencies: JSON.stringify(planBlock.dependencies),
+          requiredSkillsMix: planBlock.requiredSkillsMix
+            ? JSON.stringify(planBlock.requiredSkillsMix)
+            : null,
+          inhouseVsExternal: blockSourcing[planBlock.blockId] ?? 'inhouse',
+          status: 'not_started',
+        },
+      })
+    )
+  );
+
+  await recordAudit(tx, user, {
+    action: 'create',
+    entityType: 'project',
+    entityId: project.id,
+    entityLabel: project.code,
+    projectId: project.id,
+    summary: `Created with ${projectBlocks.length} planned blocks`,
+    after: project,
+  });
+
+  const rows = allocations.flatMap(allocation => {
+    const projectBlock = projectBlocks.find(block => block.blockId === allocation.blockId)!;
+    return allocation.weeks.map(week => ({
+      projectId: project.id,
+      projectBlockId: projectBlock.id,
+      resourceId: allocation.resourceId,
+      weekStartDate: week.weekStartDate,
+      allocatedHours: week.hours,
+    }));
+  });
+
+  if (rows.length > 0) {
+    await tx.allocation.createMany({ data: rows });
+    await recordAudit(tx, user, {
+      action: 'update',
+      entityType: 'allocation',
+      entityId: project.id,
+      entityLabel: project.code,
+      projectId: project.id,
+      summary: `Added ${rows.length} weekly allocations`,
+      before: {},
+      after: await allocationTotals(tx, { projectId: project.id }),
+    });
+  }
+
+  return { project, projectBlocks, allocationCount: rows.length };
+}
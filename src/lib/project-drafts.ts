@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+
+type DraftWithShares = Prisma.ProjectDraftGetPayload<{ include: { shares: true } }>;
+
+const draftInclude = {
+  shares: { orderBy: { userName: 'asc' as const } },
+};
+
+/**
+ * List label of a draft: its project code and name as far as they are filled in
+ */
+export function projectDraftTitle(data: Record<string, unknown>): string {
+  const parts = [data.code, data.name].filter(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+  return parts.length > 0 ? parts.map(part => part.trim()).join(' – ') : 'Untitled draft';
+}
+
+/**
+ * A draft its owner or a colleague it is shared with may open. Only the owner
+ * edits, shares, converts or deletes it; colleagues review it read-only.
+ * Null when the draft does not exist or the user may not see it.
+ */
+export async function loadProjectDraft(
+  db: Prisma.TransactionClient,
+  id: string,
+  user: SessionUser
+): Promise<{ draft: DraftWithShares; isOwner: boolean } | null> {
+  const draft = await db.projectDraft.findUnique({
+    where: { id },
+    include: draftInclude,
+  });
+
+  if (!draft) {
+    return null;
+  }
+
+  const isOwner = draft.createdById === user.id;
+  if (!isOwner && !draft.shares.some(share => share.userId === user.id)) {
+    return null;
+  }
+
+  return { draft, isOwner };
+}
+
+/**
+ * Drafts a user owns or has been shared, most recently saved first
+ */
+export async function listProjectDrafts(
+  db: Prisma.TransactionClient,
+  user: SessionUser,
+  includeConverted: boolean
+): Promise<DraftWithShares[]> {
+  return db.projectDraft.findMany({
+    where: {
+      OR: [
+        { createdById: user.id },
+        { shares: { some: { userId: user.id } } },
+      ],
+      ...(!includeConverted && { status: 'draft' }),
+    },
+    include: draftInclude,
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * A draft as the API returns it, with its wizard values parsed
+ */
+export function projectDraftView(draft: DraftWithShares, user: SessionUser) {
+  const { data, shares, ...fields } = draft;
+  return {
+    ...fields,
+    data: JSON.parse(data) as Record<string, unknown>,
+    isOwner: draft.createdById === user.id,
+    sharedWith: shares.map(share => ({ userId: share.userId, userName: share.userName })),
+  };
+}
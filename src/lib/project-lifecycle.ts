@@ -0,0 +1,182 @@
+// Project and block lifecycles: the statuses, the transitions allowed between
+// them and the guards each transition has to pass.
+
+export const PROJECT_STATUSES = [
+  'draft',
+  'pipeline',
+  'planning',
+  'approved',
+  'in_progress',
+  'on_hold',
+  'completed',
+  'cancelled',
+] as const;
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: 'Draft',
+  pipeline: 'Pipeline',
+  planning: 'Planning',
+  approved: 'Approved',
+  in_progress: 'In Progress',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Statuses whose projects still need resources
+export const OPEN_PROJECT_STATUSES: ProjectStatus[] = ['draft', 'planning', 'approved', 'in_progress', 'on_hold'];
+
+// Sales-stage projects: their allocations are tentative, weighted by the win
+// probability in capacity views and held against no one's capacity
+export const TENTATIVE_PROJECT_STATUSES: ProjectStatus[] = ['pipeline'];
+
+// A pipeline project is won by moving it on to planning or approval, which
+// confirms its allocations, and lost by cancelling it. Projects the creation
+// wizard plans start in planning; one that turns out to be a bid moves back to
+// the pipeline. A project on hold can be closed out as completed once its
+// remaining blocks are done.
+const PROJECT_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ['pipeline', 'planning', 'cancelled'],
+  pipeline: ['planning', 'approved', 'cancelled'],
+  planning: ['draft', 'pipeline', 'approved', 'cancelled'],
+  approved: ['planning', 'in_progress', 'on_hold', 'cancelled'],
+  in_progress: ['on_hold', 'completed', 'cancelled'],
+  on_hold: ['planning', 'approved', 'in_progress', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Entering these releases the project's allocations for weeks not started yet
+export const RELEASING_PROJECT_STATUSES: ProjectStatus[] = ['on_hold', 'completed', 'cancelled'];
+
+// Statuses written before the lifecycle was introduced
+const LEGACY_PROJECT_STATUSES: Record<string, ProjectStatus> = {
+  active: 'in_progress',
+};
+
+export const BLOCK_STATUSES = ['not_started', 'in_progress', 'completed'] as const;
+
+export type BlockStatus = typeof BLOCK_STATUSES[number];
+
+const BLOCK_TRANSITIONS: Record<BlockStatus, BlockStatus[]> = {
+  not_started: ['in_progress'],
+  in_progress: ['not_started', 'completed'],
+  completed: ['in_progress'],
+};
+
+/**
+ * What the guards need to know about a project
+ */
+export interface LifecycleFacts {
+  blockCount: number;
+  // Blocks not completed yet
+  openBlockCount: number;
+  allocationCount: number;
+  // Allocations for weeks not started yet
+  futureAllocationCount: number;
+  budgetCapex: number | null;
+  budgetOpex: number | null;
+  winProbability: number | null;
+}
+
+export interface ProjectTransitionOption {
+  status: ProjectStatus;
+  // Guards the project does not pass yet; empty when the transition is allowed
+  blockers: string[];
+}
+
+/**
+ * Lifecycle status of a stored value, mapping statuses from before the
+ * lifecycle. Unknown values are treated as drafts.
+ */
+export function projectStatusOf(value: string): ProjectStatus {
+  if ((PROJECT_STATUSES as readonly string[]).includes(value)) {
+    return value as ProjectStatus;
+  }
+  return LEGACY_PROJECT_STATUSES[value] ?? 'draft';
+}
+
+export function projectStatusLabel(value: string): string {
+  return PROJECT_STATUS_LABELS[projectStatusOf(value)];
+}
+
+/**
+ * Stored values meaning one of `statuses`, legacy values included, for
+ * filtering queries
+ */
+export function storedProjectStatuses(statuses: ProjectStatus[]): string[] {
+  return [
+    ...statuses,
+    ...Object.keys(LEGACY_PROJECT_STATUSES).filter(value => statuses.includes(LEGACY_PROJECT_STATUSES[value])),
+  ];
+}
+
+/**
+ * Statuses a project can move to from `from`, before checking guards
+ */
+export function nextProjectStatuses(from: ProjectStatus): ProjectStatus[] {
+  return PROJECT_TRANSITIONS[from];
+}
+
+/**
+ * Reasons a project cannot move from `from` to `to`; empty when it can
+ */
+export function projectTransitionBlockers(from: ProjectStatus, to: ProjectStatus, facts: LifecycleFacts): string[] {
+  if (!PROJECT_TRANSITIONS[from].includes(to)) {
+    return [`A project cannot move from ${PROJECT_STATUS_LABELS[from]} to ${PROJECT_STATUS_LABELS[to]}`];
+  }
+
+  const blockers: string[] = [];
+  if (to === 'pipeline' && facts.winProbability === null) {
+    blockers.push('Set a win probability before moving to the pipeline');
+  }
+  if ((to === 'planning' || to === 'approved' || to === 'in_progress') && facts.blockCount === 0) {
+    blockers.push('The project has no blocks');
+  }
+  // Putting a project on hold released its future weeks, and resuming does not
+  // restore them; they are re-planned first, or in Planning
+  const resuming = from === 'on_hold' && (to === 'approved' || to === 'in_progress');
+  if (resuming && facts.futureAllocationCount === 0) {
+    blockers.push('Its future allocations were released when it was put on hold; re-plan them before resuming');
+  }
+  if (to === 'approved') {
+    if (facts.allocationCount === 0 && !resuming) {
+      blockers.push('Allocate resources before approving');
+    }
+    if ((facts.budgetCapex ?? 0) + (facts.budgetOpex ?? 0) <= 0) {
+      blockers.push('Set a CapEx or OpEx budget before approving');
+    }
+  }
+  if (to === 'completed' && facts.openBlockCount > 0) {
+    blockers.push(`${facts.openBlockCount} block${facts.openBlockCount === 1 ? ' is' : 's are'} not completed yet`);
+  }
+  return blockers;
+}
+
+/**
+ * Allocations released by moving from `from` to `to`: the weeks not started
+ * yet, or all of them when a pipeline project is lost, as its tentative
+ * hours were never worked
+ */
+export function releasedAllocationWeeks(from: ProjectStatus, to: ProjectStatus): 'all' | 'future' | null {
+  if (to === 'cancelled' && TENTATIVE_PROJECT_STATUSES.includes(from)) {
+    return 'all';
+  }
+  return RELEASING_PROJECT_STATUSES.includes(to) ? 'future' : null;
+}
+
+/**
+ * Every status reachable from `from`, with the guards each would fail
+ */
+export function projectTransitionOptions(from: ProjectStatus, facts: LifecycleFacts): ProjectTransitionOption[] {
+  return PROJECT_TRANSITIONS[from].map(status => ({
+    status,
+    blockers: projectTransitionBlockers(from, status, facts),
+  }));
+}
+
+export function canTransitionBlock(from: string, to: BlockStatus): boolean {
+  return (BLOCK_TRANSITIONS[from as BlockStatus] ?? BLOCK_STATUSES).includes(to);
+}
@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
+import {
+  type LifecycleFacts,
+  type ProjectStatus,
+  PROJECT_STATUS_LABELS,
+  releasedAllocationWeeks,
+} from '@/lib/project-lifecycle';
+
+/**
+ * Facts about a project the lifecycle guards check
+ */
+export async function loadLifecycleFacts(
+  db: Prisma.TransactionClient,
+  project: { id: string; budgetCapex: number | null; budgetOpex: number | null; winProbability: number | null }
+): Promise<LifecycleFacts> {
+  const [blockCount, openBlockCount, allocationCount, futureAllocationCount] = await Promise.all([
+    db.projectBlock.count({ where: { projectId: project.id } }),
+    db.projectBlock.count({ where: { projectId: project.id, status: { not: 'completed' } } }),
+    db.allocation.count({ where: { projectId: project.id } }),
+    db.allocation.count({ where: { projectId: project.id, weekStartDate: { gt: new Date() } } }),
+  ]);
+
+  return {
+    blockCount,
+    openBlockCount,
+    allocationCount,
+    futureAllocationCount,
+    budgetCapex: project.budgetCapex,
+    budgetOpex: project.budgetOpex,
+    winProbability: project.winProbability,
+  };
+}
+
+/**
+ * Run the side effects of moving a project to `to` and record the transition.
+ * The caller checks the guards and updates the project status. Returns the
+ * number of allocations released.
+ */
+export async function applyProjectTransition(
+  tx: Prisma.TransactionClient,
+  user: SessionUser,
+  project: { id: string; code: string },
+  from: ProjectStatus,
+  to: ProjectStatus,
+  reason?: string | null
+): Promise<number> {
+  let releasedAllocations = 0;
+
+  // Weeks that have not started yet are freed for other projects, or every
+  // week of a lost pipeline project
+  const released = releasedAllocationWeeks(from, to);
+  if (released) {
+    const where = released === 'all'
+      ? { projectId: project.id }
+      : { projectId: project.id, weekStartDate: { gt: new Date() } };
+    const totalsBefore = await allocationTotals(tx, where);
+    const { count } = await tx.allocation.deleteMany({ where });
+    releasedAllocations = count;
+
+    if (count > 0) {
+      await recordAudit(tx, user, {
+        action: 'delete',
+        entityType: 'allocation',
+        entityId: project.id,
+        entityLabel: project.code,
+        projectId: project.id,
+        summary: released === 'all'
+          ? `Released ${count} tentative weekly allocations when the project was lost from the pipeline`
+          : `Released ${count} future weekly allocations when the project moved to ${PROJECT_STATUS_LABELS[to]}`,
+        before: totalsBefore,
+      });
+    }
+  }
+
+  await tx.projectStatusChange.create({
+    data: {
+      projectId: project.id,
+      fromStatus: from,
+      toStatus: to,
+      reason: reason || null,
+      releasedAllocations,
+      changedById: user.id,
+      changedByName: user.name,
+    },
+  });
+
+  return releasedAllocations;
+}
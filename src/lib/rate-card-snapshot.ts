@@ -0,0 +1,30 @@
+import { Prisma } from '@prisma/client';
+import { RateBook } from '@/lib/rate-cards';
+
+/**
+ * Dated rates of every resource, inactive ones included for the work they
+ * already did, with the role rate cards and the hours-per-month basis of the
+ * organisation calendar
+ */
+export async function loadRateBook(db: Prisma.TransactionClient): Promise<RateBook> {
+  const [resources, rateCards, calendar] = await Promise.all([
+    db.resource.findMany({
+      select: {
+        id: true,
+        role: true,
+        monthlyRate: true,
+        capacityHoursPerWeek: true,
+        rates: { select: { effectiveFrom: true, costRate: true, billingRate: true } },
+      },
+    }),
+    db.rateCard.findMany({
+      select: { role: true, effectiveFrom: true, costRate: true, billingRate: true },
+    }),
+    db.workingCalendar.findFirst({
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      select: { hoursPerMonth: true },
+    }),
+  ]);
+
+  return new RateBook(resources, rateCards, calendar?.hoursPerMonth ?? null);
+}
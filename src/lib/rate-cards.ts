@@ -0,0 +1,105 @@
+// Effective-dated cost and billing rates. A resource's own dated rates come
+// first, then the rate card of its role, then its default monthly rate.
+import { monthlyRateHours } from '@/lib/cost';
+
+// Monthly rates in force from a date on
+export interface DatedRate {
+  effectiveFrom: Date;
+  costRate: number;
+  billingRate: number | null;
+}
+
+export interface RateCardEntry extends DatedRate {
+  role: string;
+}
+
+export interface RatedResource {
+  id: string;
+  role: string | null;
+  monthlyRate: number;
+  capacityHoursPerWeek: number;
+  rates: DatedRate[];
+}
+
+export type RateSource = 'resource' | 'role_card' | 'default';
+
+export interface RatesInEffect {
+  monthlyCost: number;
+  // Null when nothing sets a billing rate
+  monthlyBilling: number | null;
+  hourlyCost: number;
+  hourlyBilling: number | null;
+  source: RateSource;
+}
+
+/**
+ * Latest rate in force on `date`, or null when every rate starts later
+ */
+export function rateInEffect<T extends DatedRate>(rates: T[], date: Date): T | null {
+  let current: T | null = null;
+  for (const rate of rates) {
+    if (rate.effectiveFrom <= date && (!current || rate.effectiveFrom > current.effectiveFrom)) {
+      current = rate;
+    }
+  }
+  return current;
+}
+
+/**
+ * Rates of every resource on any date, turned into hourly rates on the
+ * configured hours-per-month basis
+ */
+export class RateBook {
+  private resources: Map<string, RatedResource>;
+  private roleCards = new Map<string, RateCardEntry[]>();
+
+  constructor(
+    resources: RatedResource[],
+    rateCards: RateCardEntry[],
+    // Null spreads monthly rates over each resource's contracted hours
+    readonly hoursPerMonth: number | null = null
+  ) {
+    this.resources = new Map(resources.map(resource => [resource.id, resource]));
+    for (const card of rateCards) {
+      this.roleCards.set(card.role, [...(this.roleCards.get(card.role) ?? []), card]);
+    }
+  }
+
+  ratesAt(resourceId: string, date: Date): RatesInEffect {
+    const resource = this.resources.get(resourceId);
+    if (!resource) {
+      return { monthlyCost: 0, monthlyBilling: null, hourlyCost: 0, hourlyBilling: null, source: 'default' };
+    }
+
+    const own = rateInEffect(resource.rates, date);
+    const card = resource.role ? rateInEffect(this.roleCards.get(resource.role) ?? [], date) : null;
+    const monthlyCost = own?.costRate ?? card?.costRate ?? resource.monthlyRate;
+    const monthlyBilling = own?.billingRate ?? card?.billingRate ?? null;
+    const hours = monthlyRateHours(resource, this.hoursPerMonth);
+
+    return {
+      monthlyCost,
+      monthlyBilling,
+      hourlyCost: hours > 0 ? monthlyCost / hours : 0,
+      hourlyBilling: monthlyBilling !== null && hours > 0 ? monthlyBilling / hours : null,
+      source: own ? 'resource' : card ? 'role_card' : 'default',
+    };
+  }
+
+  /**
+   * The same book with `resources` added, replacing entries with the same id
+   */
+  withResources(resources: RatedResource[]): RateBook {
+    const book = new RateBook([...Array.from(this.resources.values()), ...resources], [], this.hoursPerMonth);
+    book.roleCards = this.roleCards;
+    return book;
+  }
+
+  costPerHour(resourceId: string, date: Date): number {
+    return this.ratesAt(resourceId, date).hourlyCost;
+  }
+
+  billingPerHour(resourceId: string, date: Date): number | null {
+    return this.ratesAt(resourceId, date).hourlyBilling;
+  }
+}
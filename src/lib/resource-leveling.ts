@@ -0,0 +1,406 @@
+// Portfolio resource leveling: lower-priority blocks are delayed in whole
+// weeks until no resource is booked over its capacity.
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import {
+  type DependencyLink,
+  dependencyShortfallDays,
+  latestFinishBefore,
+  parseDependencyLinks,
+} from '@/lib/dependencies';
+import type { ProjectStatus } from '@/lib/project-lifecycle';
+import { type ResourceCapacityInput, WorkingCalendar } from '@/lib/working-calendar';
+
+// Only these projects are rescheduled; the rest keep their bookings as they are
+export const LEVELED_PROJECT_STATUSES: ProjectStatus[] = ['draft', 'planning', 'approved', 'in_progress'];
+
+// Blocks that have started are never moved
+const FIXED_BLOCK_STATUSES = ['in_progress', 'completed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rounding slack when comparing booked hours with capacity
+const CAPACITY_TOLERANCE_HOURS = 0.01;
+
+export interface LevelingResource extends ResourceCapacityInput {
+  id: string;
+  employeeCode: string;
+}
+
+export interface LevelingAllocation {
+  id: string;
+  resourceId: string;
+  weekStartDate: Date;
+  allocatedHours: number;
+}
+
+export interface LevelingBlock {
+  id: string;
+  blockCode: string;
+  sequenceIndex: number;
+  status: string;
+  plannedStart: Date;
+  plannedEnd: Date;
+  // DependencyLink JSON as stored on the project block
+  dependencies: string | null;
+  allocations: LevelingAllocation[];
+}
+
+export interface LevelingProject {
+  id: string;
+  code: string;
+  name: string;
+  // Lower numbers are more important
+  priority: number;
+  targetStartDate: Date;
+  blocks: LevelingBlock[];
+}
+
+export interface LevelingInput {
+  projects: LevelingProject[];
+  // Bookings of projects that are not leveled, e.g. on hold
+  fixedAllocations: Array<Omit<LevelingAllocation, 'id'>>;
+  resources: LevelingResource[];
+  calendar: WorkingCalendar;
+}
+
+export interface LevelingOptions {
+  // Furthest a single block may be delayed
+  maxDelayWeeks: number;
+  // When false, blocks only move within their slack so project finish dates hold
+  allowProjectDelay: boolean;
+  // Blocks starting before this week are left where they are
+  today: Date;
+}
+
+export interface BlockMove {
+  projectId: string;
+  projectCode: string;
+  projectBlockId: string;
+  blockCode: string;
+  fromStart: Date;
+  fromEnd: Date;
+  toStart: Date;
+  toEnd: Date;
+  shiftWeeks: number;
+  // Why the block moved, e.g. "EMP001 over capacity w/c 2024-03-04"
+  reason: string;
+}
+
+export interface AllocationMove {
+  allocationId: string;
+  projectBlockId: string;
+  resourceId: string;
+  employeeCode: string;
+  fromWeek: string;
+  toWeek: string;
+  allocatedHours: number;
+}
+
+export interface ProjectDelay {
+  projectId: string;
+  projectCode: string;
+  projectName: string;
+  priority: number;
+  fromFinish: Date;
+  toFinish: Date;
+  delayDays: number;
+}
+
+export interface LevelingProposal {
+  moves: BlockMove[];
+  allocationMoves: AllocationMove[];
+  projectDelays: ProjectDelay[];
+  // Blocks whose overallocation could not be removed within the allowed delay
+  unresolved: Array<{ projectCode: string; blockCode: string; message: string }>;
+  // Resource weeks booked over capacity, from the current week onwards
+  overallocatedWeeksBefore: number;
+  overallocatedWeeksAfter: number;
+}
+
+type Load = Map<string, Map<string, number>>;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function dayNumber(date: Date): number {
+  return date.getTime() / DAY_MS;
+}
+
+function book(load: Load, resourceId: string, week: string, hours: number) {
+  const weeks = load.get(resourceId) || new Map<string, number>();
+  weeks.set(week, (weeks.get(week) || 0) + hours);
+  load.set(resourceId, weeks);
+}
+
+/**
+ * Order a project's blocks so predecessors come first; blocks caught in a
+ * dependency cycle are appended in sequence order
+ */
+function dependencyOrder(
+  blocks: LevelingBlock[],
+  links: Map<string, DependencyLink[]>
+): LevelingBlock[] {
+  const order: LevelingBlock[] = [];
+  const placed = new Set<string>();
+  const codes = new Set(blocks.map(block => block.blockCode));
+  let remaining = [...blocks].sort((a, b) => a.sequenceIndex - b.sequenceIndex);
+
+  while (remaining.length > 0) {
+    const next = remaining.find(block =>
+      (links.get(block.blockCode) || []).every(link => placed.has(link.predecessor) || !codes.has(link.predecessor))
+    );
+    if (!next) {
+      break;
+    }
+    order.push(next);
+    placed.add(next.blockCode);
+    remaining = remaining.filter(block => block !== next);
+  }
+
+  return [...order, ...remaining];
+}
+
+/**
+ * Latest finish of each block (in days) that keeps the project's current
+ * finish date, from a backward pass over the current dates
+ */
+function latestFinishDays(
+  order: LevelingBlock[],
+  links: Map<string, DependencyLink[]>
+): Map<string, number> {
+  const projectFinish = Math.max(...order.map(block => dayNumber(block.plannedEnd)));
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+
+  for (const block of [...order].reverse()) {
+    const duration = dayNumber(block.plannedEnd) - dayNumber(block.plannedStart);
+    const successorLimits = order.flatMap(successor =>
+      (links.get(successor.blockCode) || [])
+        .filter(link => link.predecessor === block.blockCode && latestStart.has(successor.blockCode))
+        .map(link => latestFinishBefore(
+          link,
+          { start: latestStart.get(successor.blockCode)!, finish: latestFinish.get(successor.blockCode)! },
+          duration
+        ))
+    );
+    // A plan that already breaks its links must not leave the block with negative slack
+    const finish = Math.max(dayNumber(block.plannedEnd), Math.min(projectFinish, ...successorLimits));
+    latestFinish.set(block.blockCode, finish);
+    latestStart.set(block.blockCode, finish - duration);
+  }
+
+  return latestFinish;
+}
+
+/**
+ * Delay blocks of lower-priority projects until no resource is booked over
+ * its capacity. Projects are placed in priority order against everything
+ * placed before them, so the most important work keeps its dates. Blocks move
+ * in whole weeks so their allocations stay on week boundaries, and never
+ * earlier than planned.
+ */
+export function levelPortfolio(input: LevelingInput, options: LevelingOptions): LevelingProposal {
+  const currentWeek = AutoPlanningEngine.weekKey(options.today);
+  const resources = new Map(input.resources.map(resource => [resource.id, resource]));
+  const capacityCache = new Map<string, number>();
+
+  // Inactive or unknown resources are not checked
+  const capacity = (resourceId: string, week: string): number => {
+    const resource = resources.get(resourceId);
+    if (!resource) {
+      return Infinity;
+    }
+    const key = `${resourceId}|${week}`;
+    if (!capacityCache.has(key)) {
+      capacityCache.set(key, input.calendar.resourceWeeklyHours(resource, new Date(week)));
+    }
+    return capacityCache.get(key)!;
+  };
+
+  const countOverallocated = (load: Load) => {
+    let count = 0;
+    load.forEach((weeks, resourceId) => {
+      weeks.forEach((hours, week) => {
+        if (week >= currentWeek && hours > capacity(resourceId, week) + CAPACITY_TOLERANCE_HOURS) {
+          count++;
+        }
+      });
+    });
+    return count;
+  };
+
+  const weekOf = (allocation: LevelingAllocation, shiftWeeks: number) =>
+    AutoPlanningEngine.weekKey(addDays(allocation.weekStartDate, shiftWeeks * 7));
+
+  const currentLoad: Load = new Map();
+  const load: Load = new Map();
+  for (const allocation of input.fixedAllocations) {
+    const week = AutoPlanningEngine.weekKey(allocation.weekStartDate);
+    book(currentLoad, allocation.resourceId, week, allocation.allocatedHours);
+    book(load, allocation.resourceId, week, allocation.allocatedHours);
+  }
+  for (const project of input.projects) {
+    for (const block of project.blocks) {
+      for (const allocation of block.allocations) {
+        book(currentLoad, allocation.resourceId, weekOf(allocation, 0), allocation.allocatedHours);
+      }
+    }
+  }
+
+  // Resource weeks a block would overbook at a given shift
+  const conflicts = (block: LevelingBlock, shiftWeeks: number): string[] => {
+    const demand: Load = new Map();
+    for (const allocation of block.allocations) {
+      book(demand, allocation.resourceId, weekOf(allocation, shiftWeeks), allocation.allocatedHours);
+    }
+
+    const found: string[] = [];
+    demand.forEach((weeks, resourceId) => {
+      weeks.forEach((hours, week) => {
+        const booked = load.get(resourceId)?.get(week) || 0;
+        if (week >= currentWeek && booked + hours > capacity(resourceId, week) + CAPACITY_TOLERANCE_HOURS) {
+          found.push(`${resources.get(resourceId)?.employeeCode || resourceId} over capacity w/c ${week}`);
+        }
+      });
+    });
+    return found;
+  };
+
+  const moves: BlockMove[] = [];
+  const allocationMoves: AllocationMove[] = [];
+  const projectDelays: ProjectDelay[] = [];
+  const unresolved: LevelingProposal['unresolved'] = [];
+
+  const projects = [...input.projects].sort((a, b) =>
+    a.priority - b.priority ||
+    a.targetStartDate.getTime() - b.targetStartDate.getTime() ||
+    a.code.localeCompare(b.code)
+  );
+
+  for (const project of projects) {
+    if (project.blocks.length === 0) {
+      continue;
+    }
+
+    const links = new Map(project.blocks.map(block => [
+      block.blockCode,
+      parseDependencyLinks(block.dependencies, block.blockCode) || [],
+    ]));
+    const order = dependencyOrder(project.blocks, links);
+    const latestFinish = latestFinishDays(order, links);
+    const original = new Map(project.blocks.map(block => [
+      block.blockCode,
+      { start: block.plannedStart, end: block.plannedEnd },
+    ]));
+    const placed = new Map<string, { start: Date; end: Date }>();
+
+    for (const block of order) {
+      const isFixed =
+        FIXED_BLOCK_STATUSES.includes(block.status) ||
+        AutoPlanningEngine.weekKey(block.plannedStart) < currentWeek;
+      const at = (shiftWeeks: number) => ({
+        start: addDays(block.plannedStart, shiftWeeks * 7),
+        end: addDays(block.plannedEnd, shiftWeeks * 7),
+      });
+
+      // Follow delayed predecessors, without making existing violations worse
+      const predecessors = (links.get(block.blockCode) || []).filter(link => placed.has(link.predecessor));
+      const followsPredecessors = (shiftWeeks: number) =>
+        predecessors.every(link =>
+          dependencyShortfallDays(link, placed.get(link.predecessor)!, at(shiftWeeks)) <=
+            dependencyShortfallDays(link, original.get(link.predecessor)!, at(0))
+        );
+
+      let minShift = 0;
+      if (!isFixed) {
+        while (!followsPredecessors(minShift) && minShift < options.maxDelayWeeks) {
+          minShift++;
+        }
+      }
+
+      const slackWeeks = Math.floor((latestFinish.get(block.blockCode)! - dayNumber(block.plannedEnd)) / 7);
+      const maxShift = Math.max(
+        minShift,
+        options.allowProjectDelay ? options.maxDelayWeeks : Math.min(options.maxDelayWeeks, slackWeeks)
+      );
+
+      let shiftWeeks = minShift;
+      const initialConflicts = conflicts(block, minShift);
+      if (!isFixed && initialConflicts.length > 0) {
+        let fitted = false;
+        for (let candidate = minShift + 1; candidate <= maxShift; candidate++) {
+          if (conflicts(block, candidate).length === 0) {
+            shiftWeeks = candidate;
+            fitted = true;
+            break;
+          }
+        }
+        if (!fitted) {
+          unresolved.push({
+            projectCode: project.code,
+            blockCode: block.blockCode,
+            message: initialConflicts[0] +
+              (initialConflicts.length > 1 ? ` and ${initialConflicts.length - 1} more` : '') +
+              (maxShift > minShift
+                ? `; no delay within ${maxShift} weeks clears it`
+                : '; the block has no slack to move into'),
+          });
+        }
+      }
+
+      for (const allocation of block.allocations) {
+        book(load, allocation.resourceId, weekOf(allocation, shiftWeeks), allocation.allocatedHours);
+      }
+      placed.set(block.blockCode, at(shiftWeeks));
+
+      if (shiftWeeks > 0) {
+        moves.push({
+          projectId: project.id,
+          projectCode: project.code,
+          projectBlockId: block.id,
+          blockCode: block.blockCode,
+          fromStart: block.plannedStart,
+          fromEnd: block.plannedEnd,
+          toStart: at(shiftWeeks).start,
+          toEnd: at(shiftWeeks).end,
+          shiftWeeks,
+          reason: initialConflicts[0] || 'Follows a delayed predecessor',
+        });
+        for (const allocation of block.allocations) {
+          allocationMoves.push({
+            allocationId: allocation.id,
+            projectBlockId: block.id,
+            resourceId: allocation.resourceId,
+            employeeCode: resources.get(allocation.resourceId)?.employeeCode || allocation.resourceId,
+            fromWeek: weekOf(allocation, 0),
+            toWeek: weekOf(allocation, shiftWeeks),
+            allocatedHours: allocation.allocatedHours,
+          });
+        }
+      }
+    }
+
+    const fromFinish = new Date(Math.max(...project.blocks.map(block => block.plannedEnd.getTime())));
+    const toFinish = new Date(Math.max(...Array.from(placed.values()).map(dates => dates.end.getTime())));
+    if (toFinish > fromFinish) {
+      projectDelays.push({
+        projectId: project.id,
+        projectCode: project.code,
+        projectName: project.name,
+        priority: project.priority,
+        fromFinish,
+        toFinish,
+        delayDays: Math.round(dayNumber(toFinish) - dayNumber(fromFinish)),
+      });
+    }
+  }
+
+  return {
+    moves,
+    allocationMoves,
+    projectDelays,
+    unresolved,
+    overallocatedWeeksBefore: countOverallocated(currentLoad),
+    overallocatedWeeksAfter: countOverallocated(load),
+  };
+}
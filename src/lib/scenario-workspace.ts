@@ -0,0 +1,343 @@
+import { Prisma } from '@prisma/client';
+import type { SessionUser } from '@/lib/auth';
+import { allocationTotals, recordAudit } from '@/lib/audit-log';
+import { OPEN_PROJECT_STATUSES, projectStatusOf, projectTransitionBlockers } from '@/lib/project-lifecycle';
+import { applyProjectTransition, loadLifecycleFacts } from '@/lib/project-transitions';
+import { isNewResource, type ScenarioProject, type ScenarioWorkspace } from '@/lib/scenarios';
+
+// Finished and cancelled projects are not copied into scenarios; projects
+// saved before the lifecycle may still be "active". Pipeline projects stay out
+// too: their bookings are tentative and scenario figures count every allocation
+// against capacity, so a bid is planned in a scenario once it moves to planning.
+const SCENARIO_PROJECT_STATUSES = [...OPEN_PROJECT_STATUSES, 'active'];
+
+/**
+ * The live plan in workspace form: open projects with their blocks and
+ * allocations, and every resource with its skills
+ */
+export async function loadLiveWorkspace(db: Prisma.TransactionClient): Promise<ScenarioWorkspace> {
+  const [projects, resources] = await Promise.all([
+    db.project.findMany({
+      where: { status: { in: SCENARIO_PROJECT_STATUSES } },
+      orderBy: [{ priority: 'asc' }, { code: 'asc' }],
+      include: {
+        projectBlocks: {
+          orderBy: { sequenceIndex: 'asc' },
+          include: {
+            block: { select: { code: true, name: true } },
+            allocations: {
+              select: { resourceId: true, weekStartDate: true, allocatedHours: true },
+              orderBy: { weekStartDate: 'asc' },
+            },
+          },
+        },
+      },
+    }),
+    db.resource.findMany({
+      orderBy: { employeeCode: 'asc' },
+      include: {
+        resourceSkills: { select: { skillId: true, level: true } },
+      },
+    }),
+  ]);
+
+  return {
+    projects: projects.map(project => ({
+      id: project.id,
+      code: project.code,
+      name: project.name,
+      status: project.status,
+      priority: project.priority,
+      targetStartDate: project.targetStartDate.toISOString(),
+      budgetCapex: project.budgetCapex,
+      budgetOpex: project.budgetOpex,
+      blocks: project.projectBlocks.map(projectBlock => ({
+        id: projectBlock.id,
+        blockCode: projectBlock.block.code,
+        blockName: projectBlock.block.name,
+        plannedStart: projectBlock.plannedStart.toISOString(),
+        plannedEnd: projectBlock.plannedEnd.toISOString(),
+        allocations: projectBlock.allocations.map(allocation => ({
+          resourceId: allocation.resourceId,
+          weekStartDate: allocation.weekStartDate.toISOString().split('T')[0],
+          allocatedHours: allocation.allocatedHours,
+        })),
+      })),
+    })),
+    resources: resources.map(resource => ({
+      id: resource.id,
+      employeeCode: resource.employeeCode,
+      name: resource.name,
+      employmentType: resource.employmentType,
+      homeTeam: resource.homeTeam,
+      region: resource.region,
+      capacityHoursPerWeek: resource.capacityHoursPerWeek,
+      monthlyRate: resource.monthlyRate,
+      availabilityCalendar: resource.availabilityCalendar,
+      active: resource.active,
+      placeholder: resource.placeholder,
+      skills: resource.resourceSkills,
+    })),
+    changes: [],
+  };
+}
+
+function allocationKey(block: ScenarioProject['blocks'][0]): string {
+  return block.allocations
+    .map(allocation => `${allocation.resourceId}|${allocation.weekStartDate}|${allocation.allocatedHours}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Lifecycle guards the scenario's status changes fail against the live
+ * projects, each prefixed with the project code; empty when it can be promoted
+ */
+export async function scenarioTransitionBlockers(
+  db: Prisma.TransactionClient,
+  workspace: ScenarioWorkspace
+): Promise<string[]> {
+  const blockers: string[] = [];
+
+  for (const project of workspace.projects) {
+    const liveProject = await db.project.findUnique({
+      where: { id: project.id },
+      select: { status: true, winProbability: true },
+    });
+    // Projects promotion skips are not checked
+    if (!liveProject || !SCENARIO_PROJECT_STATUSES.includes(liveProject.status)) {
+      continue;
+    }
+
+    const from = projectStatusOf(liveProject.status);
+    const to = projectStatusOf(project.status);
+    if (from === to) {
+      continue;
+    }
+
+    // Promotion replaces the live allocations with the scenario's
+    const facts = await loadLifecycleFacts(db, {
+      id: project.id,
+      budgetCapex: project.budgetCapex,
+      budgetOpex: project.budgetOpex,
+      winProbability: liveProject.winProbability,
+    });
+    const allocations = project.blocks.flatMap(block => block.allocations);
+    facts.allocationCount = allocations.length;
+    facts.futureAllocationCount = allocations.filter(allocation => new Date(allocation.weekStartDate) > new Date()).length;
+
+    blockers.push(...projectTransitionBlockers(from, to, facts).map(blocker => `${project.code}: ${blocker}`));
+  }
+
+  return blockers;
+}
+
+/**
+ * Write a scenario's projects, blocks, allocations and resources over the
+ * live plan, auditing every record that changes. Run it in a transaction, after
+ * checking scenarioTransitionBlockers.
+ */
+export async function promoteScenario(
+  tx: Prisma.TransactionClient,
+  user: SessionUser,
+  scenarioName: string,
+  workspace: ScenarioWorkspace
+): Promise<{ projectsChanged: number; resourcesChanged: number }> {
+  const live = await loadLiveWorkspace(tx);
+  const liveProjects = new Map(live.projects.map(project => [project.id, project]));
+  const liveResources = new Map(live.resources.map(resource => [resource.id, resource]));
+  const summary = `Promoted scenario "${scenarioName}"`;
+  // Scenario resource ids to live ones, for hires created here
+  const resourceIds = new Map<string, string>();
+  let resourcesChanged = 0;
+  let projectsChanged = 0;
+
+  for (const resource of workspace.resources) {
+    if (isNewResource(resource.id)) {
+      const created = await tx.resource.create({
+        data: {
+          employeeCode: resource.employeeCode,
+          name: resource.name,
+          employmentType: resource.employmentType,
+          homeTeam: resource.homeTeam,
+          region: resource.region,
+          capacityHoursPerWeek: resource.capacityHoursPerWeek,
+          monthlyRate: resource.monthlyRate,
+          active: resource.active,
+          resourceSkills: {
+            create: resource.skills.map(skill => ({ skillId: skill.skillId, level: skill.level })),
+          },
+        },
+      });
+      resourceIds.set(resource.id, created.id);
+
+      await recordAudit(tx, user, {
+        action: 'create',
+        entityType: 'resource',
+        entityId: created.id,
+        entityLabel: created.employeeCode,
+        summary,
+        after: created,
+      });
+      resourcesChanged++;
+      continue;
+    }
+
+    resourceIds.set(resource.id, resource.id);
+    const liveResource = liveResources.get(resource.id);
+    if (
+      !liveResource ||
+      (liveResource.capacityHoursPerWeek === resource.capacityHoursPerWeek && liveResource.active === resource.active)
+    ) {
+      continue;
+    }
+
+    const before = await tx.resource.findUniqueOrThrow({ where: { id: resource.id } });
+    const updated = await tx.resource.update({
+      where: { id: resource.id },
+      data: {
+        capacityHoursPerWeek: resource.capacityHoursPerWeek,
+        active: resource.active,
+      },
+    });
+
+    await recordAudit(tx, user, {
+      action: 'update',
+      entityType: 'resource',
+      entityId: updated.id,
+      entityLabel: updated.employeeCode,
+      summary,
+      before,
+      after: updated,
+    });
+    resourcesChanged++;
+  }
+
+  for (const project of workspace.projects) {
+    // Deleted, finished or cancelled since the scenario was created
+    const liveProject = liveProjects.get(project.id);
+    if (!liveProject) {
+      continue;
+    }
+
+    const before: Record<string, unknown> = {
+      status: liveProject.status,
+      targetStartDate: new Date(liveProject.targetStartDate),
+      budgetCapex: liveProject.budgetCapex,
+      budgetOpex: liveProject.budgetOpex,
+    };
+    const after: Record<string, unknown> = {
+      status: project.status,
+      targetStartDate: new Date(project.targetStartDate),
+      budgetCapex: project.budgetCapex,
+      budgetOpex: project.budgetOpex,
+    };
+    const projectChanged = Object.keys(before).some(field =>
+      String(before[field]) !== String(after[field])
+    );
+    if (projectChanged) {
+      await tx.project.update({
+        where: { id: project.id },
+        data: {
+          status: project.status,
+          targetStartDate: new Date(project.targetStartDate),
+          budgetCapex: project.budgetCapex,
+          budgetOpex: project.budgetOpex,
+        },
+      });
+    }
+    const liveBlocks = new Map(liveProject.blocks.map(block => [block.id, block]));
+    const reallocatedBlocks: string[] = [];
+    let blocksMoved = false;
+
+    for (const block of project.blocks) {
+      const liveBlock = liveBlocks.get(block.id);
+      if (!liveBlock) {
+        continue;
+      }
+
+      if (liveBlock.plannedStart !== block.plannedStart || liveBlock.plannedEnd !== block.plannedEnd) {
+        // A saved forecast moves with the plan, as the allocations following it do
+        const { forecastStart, forecastEnd } = await tx.projectBlock.findUniqueOrThrow({
+          where: { id: block.id },
+          select: { forecastStart: true, forecastEnd: true },
+        });
+        const shiftMs = new Date(block.plannedStart).getTime() - new Date(liveBlock.plannedStart).getTime();
+        await tx.projectBlock.update({
+          where: { id: block.id },
+          data: {
+            plannedStart: new Date(block.plannedStart),
+            plannedEnd: new Date(block.plannedEnd),
+            forecastStart: forecastStart && new Date(forecastStart.getTime() + shiftMs),
+            forecastEnd: forecastEnd && new Date(forecastEnd.getTime() + shiftMs),
+          },
+        });
+        before[`${block.blockCode} start`] = new Date(liveBlock.plannedStart);
+        before[`${block.blockCode} end`] = new Date(liveBlock.plannedEnd);
+        after[`${block.blockCode} start`] = new Date(block.plannedStart);
+        after[`${block.blockCode} end`] = new Date(block.plannedEnd);
+        blocksMoved = true;
+      }
+
+      if (allocationKey(liveBlock) !== allocationKey(block)) {
+        reallocatedBlocks.push(block.id);
+      }
+    }
+
+    if (projectChanged || blocksMoved) {
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'project',
+        entityId: project.id,
+        entityLabel: project.code,
+        projectId: project.id,
+        summary,
+        before,
+        after,
+      });
+    }
+
+    if (reallocatedBlocks.length > 0) {
+      const totalsBefore = await allocationTotals(tx, { projectId: project.id });
+
+      // Replaced as a whole, so shifted weeks cannot collide with ones not yet moved
+      await tx.allocation.deleteMany({ where: { projectBlockId: { in: reallocatedBlocks } } });
+      await tx.allocation.createMany({
+        data: project.blocks
+          .filter(block => reallocatedBlocks.includes(block.id))
+          .flatMap(block => block.allocations.map(allocation => ({
+            projectId: project.id,
+            projectBlockId: block.id,
+            resourceId: resourceIds.get(allocation.resourceId) || allocation.resourceId,
+            weekStartDate: new Date(allocation.weekStartDate),
+            allocatedHours: allocation.allocatedHours,
+          }))),
+      });
+
+      await recordAudit(tx, user, {
+        action: 'update',
+        entityType: 'allocation',
+        entityId: project.id,
+        entityLabel: project.code,
+        projectId: project.id,
+        summary,
+        before: totalsBefore,
+        after: await allocationTotals(tx, { projectId: project.id }),
+      });
+    }
+
+    // After the allocations are written, so the weeks a hold or cancellation
+    // releases are the scenario's
+    const fromStatus = projectStatusOf(liveProject.status);
+    const toStatus = projectStatusOf(project.status);
+    if (fromStatus !== toStatus) {
+      await applyProjectTransition(tx, user, project, fromStatus, toStatus, summary);
+    }
+
+    if (projectChanged || blocksMoved || reallocatedBlocks.length > 0) {
+      projectsChanged++;
+    }
+  }
+
+  return { projectsChanged, resourcesChanged };
+}
@@ -0,0 +1,497 @@
+// What-if scenarios: workspace edits and their comparison with the live plan.
+import { AutoPlanningEngine } from '@/lib/auto-planning';
+import { nextProjectStatuses, PROJECT_STATUS_LABELS, projectStatusOf } from '@/lib/project-lifecycle';
+import { RateBook } from '@/lib/rate-cards';
+import type { ScenarioOperation } from '@/lib/validations/scenarios';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+export type ScenarioStatus = 'draft' | 'promoted';
+
+// Dates are stored as ISO strings; allocation weeks as their Monday (YYYY-MM-DD)
+export interface ScenarioAllocation {
+  resourceId: string;
+  weekStartDate: string;
+  allocatedHours: number;
+}
+
+export interface ScenarioBlock {
+  // Live project block id
+  id: string;
+  blockCode: string;
+  blockName: string;
+  plannedStart: string;
+  plannedEnd: string;
+  allocations: ScenarioAllocation[];
+}
+
+export interface ScenarioProject {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  priority: number;
+  targetStartDate: string;
+  budgetCapex: number | null;
+  budgetOpex: number | null;
+  blocks: ScenarioBlock[];
+}
+
+export interface ScenarioResource {
+  // Live resource id, or NEW_RESOURCE_PREFIX + employee code for a hire
+  id: string;
+  employeeCode: string;
+  name: string;
+  employmentType: string;
+  homeTeam: string;
+  region: string | null;
+  capacityHoursPerWeek: number;
+  monthlyRate: number;
+  availabilityCalendar: string | null;
+  active: boolean;
+  // Placeholders supply no capacity and cannot be overbooked; missing in older workspaces
+  placeholder?: boolean;
+  skills: Array<{ skillId: string; level: number }>;
+}
+
+// Stored as JSON in Scenario.workspace
+export interface ScenarioWorkspace {
+  projects: ScenarioProject[];
+  resources: ScenarioResource[];
+  // Edits made in the scenario, oldest first
+  changes: Array<{ at: string; by: string; description: string }>;
+}
+
+export const NEW_RESOURCE_PREFIX = 'new:';
+
+// Projects in these states book no capacity and cost nothing
+const INACTIVE_PROJECT_STATUSES = ['cancelled', 'completed'];
+
+// Longest horizon compared, in weeks from the current one
+const MAX_COMPARISON_WEEKS = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isNewResource(resourceId: string): boolean {
+  return resourceId.startsWith(NEW_RESOURCE_PREFIX);
+}
+
+export function parseScenarioWorkspace(value: string): ScenarioWorkspace {
+  const parsed = JSON.parse(value);
+  return {
+    projects: parsed.projects || [],
+    resources: parsed.resources || [],
+    changes: parsed.changes || [],
+  };
+}
+
+function shiftDate(value: string, weeks: number): string {
+  return new Date(new Date(value).getTime() + weeks * 7 * DAY_MS).toISOString();
+}
+
+function shiftWeek(weekStartDate: string, weeks: number): string {
+  return shiftDate(weekStartDate, weeks).split('T')[0];
+}
+
+/**
+ * Apply one edit to a copy of a workspace. Returns the new workspace and a
+ * description for the change log, or an error message.
+ */
+export function applyScenarioOperation(
+  workspace: ScenarioWorkspace,
+  operation: ScenarioOperation
+): { workspace: ScenarioWorkspace; description: string } | { error: string } {
+  const next: ScenarioWorkspace = JSON.parse(JSON.stringify(workspace));
+  const findProject = (projectId: string) => next.projects.find(project => project.id === projectId);
+  const findResource = (resourceId: string) => next.resources.find(resource => resource.id === resourceId);
+
+  switch (operation.type) {
+    case 'shift_project': {
+      const project = findProject(operation.projectId);
+      if (!project) {
+        return { error: 'Project not found in this scenario' };
+      }
+      project.targetStartDate = shiftDate(project.targetStartDate, operation.weeks);
+      for (const block of project.blocks) {
+        block.plannedStart = shiftDate(block.plannedStart, operation.weeks);
+        block.plannedEnd = shiftDate(block.plannedEnd, operation.weeks);
+        block.allocations.forEach(allocation => {
+          allocation.weekStartDate = shiftWeek(allocation.weekStartDate, operation.weeks);
+        });
+      }
+      const direction = operation.weeks > 0 ? 'later' : 'earlier';
+      return {
+        workspace: next,
+        description: `Moved ${project.code} ${Math.abs(operation.weeks)} weeks ${direction}`,
+      };
+    }
+
+    case 'set_project_status': {
+      const project = findProject(operation.projectId);
+      if (!project) {
+        return { error: 'Project not found in this scenario' };
+      }
+      // The guards are checked against the live project when the scenario is promoted
+      const previous = projectStatusOf(project.status);
+      if (!nextProjectStatuses(previous).includes(operation.status)) {
+        return {
+          error: `A project cannot move from ${PROJECT_STATUS_LABELS[previous]} to ${PROJECT_STATUS_LABELS[operation.status]}`,
+        };
+      }
+      project.status = operation.status;
+      return {
+        workspace: next,
+        description: `Changed ${project.code} status from ${previous} to ${operation.status}`,
+      };
+    }
+
+    case 'set_project_budget': {
+      const project = findProject(operation.projectId);
+      if (!project) {
+        return { error: 'Project not found in this scenario' };
+      }
+      project.budgetCapex = operation.budgetCapex;
+      project.budgetOpex = operation.budgetOpex;
+      return {
+        workspace: next,
+        description: `Set ${project.code} budget to ${(operation.budgetCapex || 0) + (operation.budgetOpex || 0)}`,
+      };
+    }
+
+    case 'add_resource': {
+      if (next.resources.some(resource => resource.employeeCode === operation.employeeCode)) {
+        return { error: `Employee code ${operation.employeeCode} is already used` };
+      }
+      next.resources.push({
+        id: `${NEW_RESOURCE_PREFIX}${operation.employeeCode}`,
+        employeeCode: operation.employeeCode,
+        name: operation.name,
+        employmentType: operation.employmentType,
+        homeTeam: operation.homeTeam,
+        region: null,
+        capacityHoursPerWeek: operation.capacityHoursPerWeek,
+        monthlyRate: operation.monthlyRate,
+        availabilityCalendar: null,
+        active: true,
+        skills: operation.skills,
+      });
+      return {
+        workspace: next,
+        description: `Added ${operation.name} (${operation.employeeCode}, ${operation.capacityHoursPerWeek}h/week) to ${operation.homeTeam}`,
+      };
+    }
+
+    case 'update_resource': {
+      const resource = findResource(operation.resourceId);
+      if (!resource) {
+        return { error: 'Resource not found in this scenario' };
+      }
+      const edits: string[] = [];
+      if (operation.capacityHoursPerWeek !== undefined && operation.capacityHoursPerWeek !== resource.capacityHoursPerWeek) {
+        edits.push(`capacity ${resource.capacityHoursPerWeek}h → ${operation.capacityHoursPerWeek}h`);
+        resource.capacityHoursPerWeek = operation.capacityHoursPerWeek;
+      }
+      if (operation.active !== undefined && operation.active !== resource.active) {
+        edits.push(operation.active ? 'reactivated' : 'deactivated');
+        resource.active = operation.active;
+      }
+      if (edits.length === 0) {
+        return { error: 'Nothing to change' };
+      }
+      return {
+        workspace: next,
+        description: `${resource.employeeCode}: ${edits.join(', ')}`,
+      };
+    }
+
+    case 'set_allocation': {
+      const project = next.projects.find(project =>
+        project.blocks.some(block => block.id === operation.projectBlockId)
+      );
+      const block = project?.blocks.find(block => block.id === operation.projectBlockId);
+      const resource = findResource(operation.resourceId);
+      if (!project || !block) {
+        return { error: 'Project block not found in this scenario' };
+      }
+      if (!resource) {
+        return { error: 'Resource not found in this scenario' };
+      }
+
+      const weekStartDate = AutoPlanningEngine.weekKey(new Date(operation.weekStartDate));
+      block.allocations = block.allocations.filter(allocation =>
+        allocation.resourceId !== resource.id || allocation.weekStartDate !== weekStartDate
+      );
+      if (operation.allocatedHours > 0) {
+        block.allocations.push({ resourceId: resource.id, weekStartDate, allocatedHours: operation.allocatedHours });
+      }
+      return {
+        workspace: next,
+        description: operation.allocatedHours > 0
+          ? `Allocated ${resource.employeeCode} ${operation.allocatedHours}h to ${project.code} / ${block.blockCode} w/c ${weekStartDate}`
+          : `Removed ${resource.employeeCode} from ${project.code} / ${block.blockCode} w/c ${weekStartDate}`,
+      };
+    }
+  }
+}
+
+export interface ScenarioWeekComparison {
+  weekStartDate: string;
+  liveCapacity: number;
+  scenarioCapacity: number;
+  liveAllocated: number;
+  scenarioAllocated: number;
+}
+
+export interface ScenarioProjectComparison {
+  projectId: string;
+  code: string;
+  name: string;
+  liveStatus: string;
+  scenarioStatus: string;
+  liveFinish: string | null;
+  scenarioFinish: string | null;
+  // Calendar days; positive means the scenario finishes later
+  finishDeltaDays: number;
+  liveBudget: number;
+  scenarioBudget: number;
+  liveCost: number;
+  scenarioCost: number;
+  changed: boolean;
+}
+
+export interface ScenarioResourceComparison {
+  resourceId: string;
+  employeeCode: string;
+  name: string;
+  change: 'added' | 'changed';
+  liveCapacity: number | null;
+  scenarioCapacity: number;
+  liveActive: boolean | null;
+  scenarioActive: boolean;
+}
+
+export interface ScenarioComparison {
+  weeks: ScenarioWeekComparison[];
+  projects: ScenarioProjectComparison[];
+  resources: ScenarioResourceComparison[];
+  totals: {
+    liveCapacity: number;
+    scenarioCapacity: number;
+    liveAllocated: number;
+    scenarioAllocated: number;
+    // Resource weeks booked over capacity
+    liveOverallocatedWeeks: number;
+    scenarioOverallocatedWeeks: number;
+    liveBudget: number;
+    scenarioBudget: number;
+    liveCost: number;
+    scenarioCost: number;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface WorkspaceFigures {
+  capacityByWeek: Map<string, number>;
+  allocatedByWeek: Map<string, number>;
+  overallocatedWeeks: number;
+  costByProject: Map<string, number>;
+}
+
+/**
+ * Weekly capacity and bookings, overbooked resource weeks and allocation cost
+ * of a workspace over the given weeks. Capacity follows the working calendar
+ * and availability patterns; calendar exceptions are not part of a workspace.
+ */
+function workspaceFigures(
+  workspace: ScenarioWorkspace,
+  weeks: string[],
+  calendar: WorkingCalendar,
+  costPerHour: (resourceId: string, week: string) => number
+): WorkspaceFigures {
+  const inHorizon = new Set(weeks);
+  const resources = new Map(workspace.resources.map(resource => [resource.id, resource]));
+  const capacityOf = (resourceId: string, week: string) => {
+    const resource = resources.get(resourceId);
+    return resource && resource.active && !resource.placeholder ? calendar.resourceWeeklyHours(resource, new Date(week)) : 0;
+  };
+
+  const capacityByWeek = new Map(weeks.map(week => [
+    week,
+    round(workspace.resources.reduce((sum, resource) => sum + capacityOf(resource.id, week), 0)),
+  ]));
+  const allocatedByWeek = new Map(weeks.map(week => [week, 0]));
+  const booked = new Map<string, number>();
+  const costByProject = new Map<string, number>();
+
+  for (const project of workspace.projects) {
+    let cost = 0;
+    if (!INACTIVE_PROJECT_STATUSES.includes(project.status)) {
+      for (const block of project.blocks) {
+        for (const allocation of block.allocations) {
+          cost += resources.has(allocation.resourceId)
+            ? allocation.allocatedHours * costPerHour(allocation.resourceId, allocation.weekStartDate)
+            : 0;
+          if (inHorizon.has(allocation.weekStartDate)) {
+            allocatedByWeek.set(
+              allocation.weekStartDate,
+              allocatedByWeek.get(allocation.weekStartDate)! + allocation.allocatedHours
+            );
+            const key = `${allocation.resourceId}|${allocation.weekStartDate}`;
+            booked.set(key, (booked.get(key) || 0) + allocation.allocatedHours);
+          }
+        }
+      }
+    }
+    costByProject.set(project.id, round(cost));
+  }
+
+  let overallocatedWeeks = 0;
+  booked.forEach((hours, key) => {
+    const [resourceId, week] = key.split('|');
+    if (!resources.get(resourceId)?.placeholder && hours > capacityOf(resourceId, week) + 0.01) {
+      overallocatedWeeks++;
+    }
+  });
+
+  allocatedByWeek.forEach((hours, week) => allocatedByWeek.set(week, round(hours)));
+  return { capacityByWeek, allocatedByWeek, overallocatedWeeks, costByProject };
+}
+
+function projectFinish(project: ScenarioProject | undefined): string | null {
+  if (!project || project.blocks.length === 0) {
+    return null;
+  }
+  return new Date(Math.max(...project.blocks.map(block => new Date(block.plannedEnd).getTime()))).toISOString();
+}
+
+function projectBudget(project: ScenarioProject | undefined): number {
+  return project ? (project.budgetCapex || 0) + (project.budgetOpex || 0) : 0;
+}
+
+/**
+ * Capacity, booking, schedule and budget differences between the live plan
+ * and a scenario, from the current week to the last booked week. Projects
+ * created after the scenario are left out of both sides. Work is costed at
+ * the rate in effect each week; hires have no dated rates, so they cost the
+ * monthly rate the scenario gives them.
+ */
+export function compareScenario(
+  currentLive: ScenarioWorkspace,
+  scenario: ScenarioWorkspace,
+  calendar: WorkingCalendar,
+  today: Date,
+  rates: RateBook
+): ScenarioComparison {
+  const scenarioProjectIds = new Set(scenario.projects.map(project => project.id));
+  const live = {
+    ...currentLive,
+    projects: currentLive.projects.filter(project => scenarioProjectIds.has(project.id)),
+  };
+  const currentWeek = AutoPlanningEngine.weekKey(today);
+  const lastWeek = [live, scenario]
+    .flatMap(workspace => workspace.projects)
+    .flatMap(project => project.blocks)
+    .flatMap(block => block.allocations)
+    .reduce((latest, allocation) => (allocation.weekStartDate > latest ? allocation.weekStartDate : latest), currentWeek);
+
+  const weeks: string[] = [];
+  for (let week = currentWeek; week <= lastWeek && weeks.length < MAX_COMPARISON_WEEKS; week = shiftWeek(week, 1)) {
+    weeks.push(week);
+  }
+
+  const scenarioRates = rates.withResources(scenario.resources
+    .filter(resource => isNewResource(resource.id))
+    .map(resource => ({
+      id: resource.id,
+      role: null,
+      monthlyRate: resource.monthlyRate,
+      capacityHoursPerWeek: resource.capacityHoursPerWeek,
+      rates: [],
+    })));
+  const liveCost = (resourceId: string, week: string) => rates.costPerHour(resourceId, new Date(week));
+  const scenarioCost = (resourceId: string, week: string) => scenarioRates.costPerHour(resourceId, new Date(week));
+
+  const liveFigures = workspaceFigures(live, weeks, calendar, liveCost);
+  const scenarioFigures = workspaceFigures(scenario, weeks, calendar, scenarioCost);
+
+  const liveProjects = new Map(live.projects.map(project => [project.id, project]));
+  const projects = scenario.projects.map(project => {
+    const liveProject = liveProjects.get(project.id);
+    const liveFinish = projectFinish(liveProject);
+    const scenarioFinish = projectFinish(project);
+    const comparison = {
+      projectId: project.id,
+      code: project.code,
+      name: project.name,
+      liveStatus: liveProject?.status ?? 'deleted',
+      scenarioStatus: project.status,
+      liveFinish,
+      scenarioFinish,
+      finishDeltaDays: liveFinish && scenarioFinish
+        ? Math.round((new Date(scenarioFinish).getTime() - new Date(liveFinish).getTime()) / DAY_MS)
+        : 0,
+      liveBudget: projectBudget(liveProject),
+      scenarioBudget: projectBudget(project),
+      liveCost: liveFigures.costByProject.get(project.id) || 0,
+      scenarioCost: scenarioFigures.costByProject.get(project.id) || 0,
+    };
+    return {
+      ...comparison,
+      changed:
+        comparison.liveStatus !== comparison.scenarioStatus ||
+        comparison.finishDeltaDays !== 0 ||
+        comparison.liveBudget !== comparison.scenarioBudget ||
+        comparison.liveCost !== comparison.scenarioCost,
+    };
+  });
+
+  const liveResources = new Map(live.resources.map(resource => [resource.id, resource]));
+  const resources = scenario.resources.flatMap((resource): ScenarioResourceComparison[] => {
+    const liveResource = liveResources.get(resource.id);
+    if (
+      liveResource &&
+      liveResource.capacityHoursPerWeek === resource.capacityHoursPerWeek &&
+      liveResource.active === resource.active
+    ) {
+      return [];
+    }
+    return [{
+      resourceId: resource.id,
+      employeeCode: resource.employeeCode,
+      name: resource.name,
+      change: liveResource ? 'changed' : 'added',
+      liveCapacity: liveResource?.capacityHoursPerWeek ?? null,
+      scenarioCapacity: resource.capacityHoursPerWeek,
+      liveActive: liveResource?.active ?? null,
+      scenarioActive: resource.active,
+    }];
+  });
+
+  const sum = (values: Iterable<number>) => round(Array.from(values).reduce((total, value) => total + value, 0));
+
+  return {
+    weeks: weeks.map(week => ({
+      weekStartDate: week,
+      liveCapacity: liveFigures.capacityByWeek.get(week)!,
+      scenarioCapacity: scenarioFigures.capacityByWeek.get(week)!,
+      liveAllocated: liveFigures.allocatedByWeek.get(week)!,
+      scenarioAllocated: scenarioFigures.allocatedByWeek.get(week)!,
+    })),
+    projects,
+    resources,
+    totals: {
+      liveCapacity: sum(liveFigures.capacityByWeek.values()),
+      scenarioCapacity: sum(scenarioFigures.capacityByWeek.values()),
+      liveAllocated: sum(liveFigures.allocatedByWeek.values()),
+      scenarioAllocated: sum(scenarioFigures.allocatedByWeek.values()),
+      liveOverallocatedWeeks: liveFigures.overallocatedWeeks,
+      scenarioOverallocatedWeeks: scenarioFigures.overallocatedWeeks,
+      liveBudget: sum(live.projects.map(projectBudget)),
+      scenarioBudget: sum(scenario.projects.map(projectBudget)),
+      liveCost: sum(liveFigures.costByProject.values()),
+      scenarioCost: sum(scenarioFigures.costByProject.values()),
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import { parseDependencyLinks } from '@/lib/dependencies';
+import { type RiskBlock, riskDurations } from '@/lib/schedule-risk';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+/**
+ * Blocks of a saved project as a risk network. Planned starts act as
+ * earliest starts, completed blocks keep their actual dates and started
+ * blocks no longer wait for predecessors. Returns null when the project does
+ * not exist or has no blocks.
+ */
+export async function loadProjectRiskInput(
+  db: Prisma.TransactionClient,
+  projectId: string,
+  calendar: WorkingCalendar
+): Promise<{ projectStart: Date; blocks: RiskBlock[] } | null> {
+  const projectBlocks = await db.projectBlock.findMany({
+    where: { projectId },
+    orderBy: { sequenceIndex: 'asc' },
+    include: {
+      block: {
+        select: {
+          code: true,
+          name: true,
+          defaultDurationWeeks: true,
+          optimisticDurationWeeks: true,
+          pessimisticDurationWeeks: true,
+        },
+      },
+    },
+  });
+
+  if (projectBlocks.length === 0) {
+    return null;
+  }
+
+  const projectStart = new Date(Math.min(
+    ...projectBlocks.map(projectBlock => projectBlock.plannedStart.getTime()),
+    ...projectBlocks.flatMap(projectBlock => projectBlock.actualStart ? [projectBlock.actualStart.getTime()] : [])
+  ));
+  const offset = (date: Date) => calendar.workingDaysBetween(projectStart, date);
+
+  const blocks = projectBlocks.map((projectBlock, index) => {
+    const code = projectBlock.block.code;
+    const started = projectBlock.status !== 'not_started' && projectBlock.actualStart !== null;
+    const dependencies = parseDependencyLinks(projectBlock.dependencies, code) ?? (
+      index > 0
+        ? [{ predecessor: projectBlocks[index - 1].block.code, successor: code, type: 'FS' as const, lagDays: 0 }]
+        : []
+    );
+
+    const riskBlock: RiskBlock = {
+      code,
+      name: projectBlock.block.name,
+      ...riskDurations(
+        calendar.workingDaysBetween(projectBlock.plannedStart, projectBlock.plannedEnd),
+        projectBlock.plannedDurationWeeks,
+        projectBlock.block
+      ),
+      dependencies: started ? [] : dependencies,
+      notBeforeDays: offset(started ? projectBlock.actualStart! : projectBlock.plannedStart),
+    };
+
+    if (projectBlock.status === 'completed' && projectBlock.actualStart && projectBlock.actualEnd) {
+      riskBlock.actual = {
+        startDays: offset(projectBlock.actualStart),
+        finishDays: offset(projectBlock.actualEnd),
+      };
+    }
+
+    return riskBlock;
+  });
+
+  return { projectStart, blocks };
+}
@@ -0,0 +1,280 @@
+// Monte Carlo schedule risk: block durations drawn from three-point estimates
+// and run through the dependency network.
+import { type DependencyLink, earliestStartAfter } from '@/lib/dependencies';
+import { WorkingCalendar } from '@/lib/working-calendar';
+
+export const DEFAULT_RISK_ITERATIONS = 2000;
+export const MAX_RISK_ITERATIONS = 20000;
+
+// Percentiles reported as finish dates
+const PERCENTILES = [50, 80, 95] as const;
+
+export interface RiskBlock {
+  code: string;
+  name: string;
+  // Durations in working days; equal when the block has no range
+  optimisticDays: number;
+  mostLikelyDays: number;
+  pessimisticDays: number;
+  // Links to predecessor block codes
+  dependencies: DependencyLink[];
+  // Working days from the project start before which the block cannot
+  // start, e.g. a planned start moved by leveling
+  notBeforeDays: number;
+  // Completed blocks keep their actual dates
+  actual?: { startDays: number; finishDays: number };
+}
+
+export interface ScheduleRiskOptions {
+  iterations?: number;
+  // Same seed, same result; random otherwise
+  seed?: number;
+}
+
+export interface ScheduleRiskDriver {
+  blockCode: string;
+  blockName: string;
+  // Share of iterations in which the block was on the driving path to the finish
+  criticality: number;
+}
+
+export interface ScheduleRiskResult {
+  iterations: number;
+  // Finish with most likely durations
+  plannedFinish: string;
+  p50: string;
+  p80: string;
+  p95: string;
+  meanFinish: string;
+  // Share of iterations finishing on or before the planned finish
+  onTimeProbability: number;
+  // Cumulative share of iterations finished by each date
+  curve: Array<{ date: string; probability: number }>;
+  drivers: ScheduleRiskDriver[];
+  // Blocks without a duration range, simulated at their planned duration
+  fixedDurationBlocks: string[];
+}
+
+/**
+ * Optimistic and pessimistic weeks for a block planned at `plannedWeeks`,
+ * scaling the range set on the block to the planned duration. Null when the
+ * block has no range.
+ */
+export function scaledDurationRange(
+  plannedWeeks: number,
+  block: {
+    defaultDurationWeeks: number;
+    optimisticDurationWeeks: number | null;
+    pessimisticDurationWeeks: number | null;
+  }
+): { optimisticWeeks: number; pessimisticWeeks: number } | null {
+  if (!block.optimisticDurationWeeks && !block.pessimisticDurationWeeks) {
+    return null;
+  }
+  const scale = plannedWeeks / Math.max(1, block.defaultDurationWeeks);
+  return {
+    optimisticWeeks: Math.min(plannedWeeks, (block.optimisticDurationWeeks ?? block.defaultDurationWeeks) * scale),
+    pessimisticWeeks: Math.max(plannedWeeks, (block.pessimisticDurationWeeks ?? block.defaultDurationWeeks) * scale),
+  };
+}
+
+/**
+ * Three-point durations in working days for a block planned at
+ * `plannedWeeks` taking `plannedDays` working days
+ */
+export function riskDurations(
+  plannedDays: number,
+  plannedWeeks: number,
+  block: Parameters<typeof scaledDurationRange>[1]
+): Pick<RiskBlock, 'optimisticDays' | 'mostLikelyDays' | 'pessimisticDays'> {
+  const range = scaledDurationRange(plannedWeeks, block);
+  if (!range || plannedWeeks <= 0) {
+    return { optimisticDays: plannedDays, mostLikelyDays: plannedDays, pessimisticDays: plannedDays };
+  }
+  return {
+    optimisticDays: (plannedDays * range.optimisticWeeks) / plannedWeeks,
+    mostLikelyDays: plannedDays,
+    pessimisticDays: (plannedDays * range.pessimisticWeeks) / plannedWeeks,
+  };
+}
+
+/**
+ * Small seedable generator (mulberry32) returning values in [0, 1)
+ */
+function randomGenerator(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw from the triangular distribution of a three-point estimate
+ */
+function sampleTriangular(low: number, mode: number, high: number, random: () => number): number {
+  if (high <= low) {
+    return mode;
+  }
+  const u = random();
+  const split = (mode - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+}
+
+/**
+ * Blocks ordered after their predecessors; blocks caught in a cycle keep
+ * their given order at the end and ignore links not yet scheduled
+ */
+function topologicalOrder(blocks: RiskBlock[]): RiskBlock[] {
+  const order: RiskBlock[] = [];
+  const placed = new Set<string>();
+  let remaining = [...blocks];
+
+  while (remaining.length > 0) {
+    const next = remaining.find(block =>
+      block.actual || block.dependencies.every(link => placed.has(link.predecessor))
+    );
+    if (!next) {
+      break;
+    }
+    order.push(next);
+    placed.add(next.code);
+    remaining = remaining.filter(block => block !== next);
+  }
+
+  return [...order, ...remaining];
+}
+
+/**
+ * One pass through the network. Returns the finish in working days and the
+ * blocks on the path that drove it.
+ */
+function runIteration(
+  order: RiskBlock[],
+  duration: (block: RiskBlock) => number
+): { finishDays: number; drivingPath: string[] } {
+  const start = new Map<string, number>();
+  const finish = new Map<string, number>();
+  // Predecessor that set each block's start, if any did
+  const drivenBy = new Map<string, string | null>();
+
+  for (const block of order) {
+    if (block.actual) {
+      start.set(block.code, block.actual.startDays);
+      finish.set(block.code, block.actual.finishDays);
+      drivenBy.set(block.code, null);
+      continue;
+    }
+
+    const days = duration(block);
+    let blockStart = block.notBeforeDays;
+    let driver: string | null = null;
+    for (const link of block.dependencies) {
+      if (!start.has(link.predecessor)) {
+        continue;
+      }
+      const allowed = earliestStartAfter(
+        link,
+        { start: start.get(link.predecessor)!, finish: finish.get(link.predecessor)! },
+        days
+      );
+      if (allowed > blockStart) {
+        blockStart = allowed;
+        driver = link.predecessor;
+      }
+    }
+    start.set(block.code, blockStart);
+    finish.set(block.code, blockStart + days);
+    drivenBy.set(block.code, driver);
+  }
+
+  let last: string | null = null;
+  let finishDays = 0;
+  for (const [code, days] of Array.from(finish)) {
+    if (last === null || days > finishDays) {
+      last = code;
+      finishDays = days;
+    }
+  }
+
+  const drivingPath: string[] = [];
+  for (let code: string | null = last; code !== null && !drivingPath.includes(code); code = drivenBy.get(code) ?? null) {
+    drivingPath.push(code);
+  }
+
+  return { finishDays, drivingPath };
+}
+
+/**
+ * Simulate a block network many times with durations drawn between their
+ * optimistic and pessimistic estimates, and report finish date percentiles,
+ * the completion curve and how often each block drove the finish.
+ */
+export function analyzeScheduleRisk(
+  blocks: RiskBlock[],
+  projectStart: Date,
+  calendar: WorkingCalendar,
+  options: ScheduleRiskOptions = {}
+): ScheduleRiskResult {
+  const iterations = Math.min(MAX_RISK_ITERATIONS, Math.max(1, options.iterations ?? DEFAULT_RISK_ITERATIONS));
+  const random = randomGenerator(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+  const order = topologicalOrder(blocks);
+  // Finishes are whole working days; the exclusive end is the next working day
+  const dateAt = (days: number) => calendar.addWorkingDays(projectStart, Math.ceil(days - 1e-9)).toISOString();
+
+  const planned = runIteration(order, block => block.mostLikelyDays);
+  const finishes: number[] = [];
+  const drivingCounts = new Map<string, number>();
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const { finishDays, drivingPath } = runIteration(order, block =>
+      sampleTriangular(block.optimisticDays, block.mostLikelyDays, block.pessimisticDays, random)
+    );
+    finishes.push(Math.ceil(finishDays - 1e-9));
+    for (const code of drivingPath) {
+      drivingCounts.set(code, (drivingCounts.get(code) || 0) + 1);
+    }
+  }
+
+  finishes.sort((a, b) => a - b);
+  const percentile = (value: number) =>
+    finishes[Math.min(finishes.length - 1, Math.ceil((value / 100) * finishes.length) - 1)];
+  const plannedFinishDays = Math.ceil(planned.finishDays - 1e-9);
+
+  const curve: ScheduleRiskResult['curve'] = [];
+  finishes.forEach((days, index) => {
+    if (index === finishes.length - 1 || finishes[index + 1] !== days) {
+      curve.push({ date: dateAt(days), probability: Math.round(((index + 1) / finishes.length) * 1000) / 1000 });
+    }
+  });
+
+  const [p50, p80, p95] = PERCENTILES.map(value => dateAt(percentile(value)));
+  const mean = finishes.reduce((sum, days) => sum + days, 0) / finishes.length;
+
+  return {
+    iterations,
+    plannedFinish: dateAt(plannedFinishDays),
+    p50,
+    p80,
+    p95,
+    meanFinish: dateAt(mean),
+    onTimeProbability: Math.round((finishes.filter(days => days <= plannedFinishDays).length / finishes.length) * 1000) / 1000,
+    curve,
+    drivers: blocks
+      .map(block => ({
+        blockCode: block.code,
+        blockName: block.name,
+        criticality: Math.round(((drivingCounts.get(block.code) || 0) / iterations) * 1000) / 1000,
+      }))
+      .filter(driver => driver.criticality > 0)
+      .sort((a, b) => b.criticality - a.criticality),
+    fixedDurationBlocks: blocks
+      .filter(block => !block.actual && block.optimisticDays === block.pessimisticDays)
+      .map(block => block.code),
+  };
+}
@@ -0,0 +1,71 @@
+// Session cookie signing. Uses Web Crypto only, so it runs in middleware on
+// the edge runtime as well as in route handlers.
+
+export const SESSION_COOKIE = 'pmprg-session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionTokenPayload {
+  sessionId: string;
+  expiresAt: Date;
+}
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set in production');
+    }
+    return 'pmprg-development-session-secret';
+  }
+  return secret;
+}
+
+async function sign(value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(sessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Cookie value for a session: "<sessionId>.<expiry ms>.<signature>"
+ */
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+  const value = `${payload.sessionId}.${payload.expiresAt.getTime()}`;
+  return `${value}.${await sign(value)}`;
+}
+
+/**
+ * Verify a cookie value's signature and expiry. Returns null for tampered or
+ * expired tokens; whether the session still exists is checked by the caller.
+ */
+export async function verifySessionToken(token: string): Promise<SessionTokenPayload | null> {
+  const [sessionId, expiresAtMs, signature] = token.split('.');
+  if (!sessionId || !expiresAtMs || !signature) {
+    return null;
+  }
+
+  const expected = await sign(`${sessionId}.${expiresAtMs}`);
+  let difference = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  if (difference !== 0) {
+    return null;
+  }
+
+  const expiresAt = new Date(Number(expiresAtMs));
+  if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+    return null;
+  }
+
+  return { sessionId, expiresAt };
+}
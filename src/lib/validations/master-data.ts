@@ -71,6 +71,18 @@ export const updateTierSchema = z.object({
     .optional(),
 });
 
+// Dependency link between blocks; the successor is the block being edited
+export const dependencyLinkSchema = z.object({
+  predecessor: z.string()
+    .min(1, 'Predecessor block is required'),
+  type: z.enum(['FS', 'SS', 'FF', 'SF']).default('FS'),
+  lagDays: z.number()
+    .int('Lag must be a whole number of days')
+    .min(-365, 'Lead must not exceed 365 days')
+    .max(365, 'Lag must not exceed 365 days')
+    .default(0),
+});
+
 // Block Validation Schemas
 export const createBlockSchema = z.object({
   code: z.string()
@@ -87,7 +99,7 @@ export const createBlockSchema = z.object({
     .int()
     .min(1, 'Duration must be at least 1 week')
     .max(104, 'Duration must not exceed 104 weeks (2 years)'),
-  defaultDependencies: z.record(z.any()).optional(),
+  defaultDependencies: z.array(dependencyLinkSchema).optional(),
   defaultSkillsMix: z.record(z.number().positive()).optional(),
 });
 
@@ -109,7 +121,7 @@ export const updateBlockSchema = z.object({
     .min(1, 'Duration must be at least 1 week')
     .max(104, 'Duration must not exceed 104 weeks (2 years)')
     .optional(),
-  defaultDependencies: z.record(z.any()).optional(),
+  defaultDependencies: z.array(dependencyLinkSchema).optional(),
   defaultSkillsMix: z.record(z.number().positive()).optional(),
 });
 
@@ -187,14 +199,86 @@ export const updateSkillSchema = z.object({
     .optional(),
 });
 
+// Working Calendar Validation Schemas
+export const workingCalendarSchema = z.object({
+  name: z.string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must not exceed 100 characters'),
+  workingDays: z.array(z.number().int().min(0).max(6))
+    .min(1, 'At least one working day is required')
+    .refine(days => new Set(days).size === days.length, 'Working days must be unique'),
+  hoursPerDay: z.number()
+    .positive('Hours per day must be positive')
+    .max(24, 'Hours per day must not exceed 24'),
+  // Hours a monthly rate pays for; null spreads it over each resource's contracted hours
+  hoursPerMonth: z.number()
+    .positive('Hours per month must be positive')
+    .max(744, 'Hours per month must not exceed 744')
+    .nullable()
+    .optional(),
+});
+
+// Rate Card Validation Schemas
+export const rateCardSchema = z.object({
+  role: z.string()
+    .min(1, 'Role is required')
+    .max(100, 'Role must not exceed 100 characters'),
+  effectiveFrom: z.string().datetime('Effective date must be a valid ISO datetime'),
+  costRate: z.number().positive('Monthly cost rate must be positive'),
+  billingRate: z.number().positive('Monthly billing rate must be positive').nullable().optional(),
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').nullable().optional(),
+});
+
+export const calendarHolidaySchema = z.object({
+  name: z.string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must not exceed 100 characters'),
+  type: z.enum(['public_holiday', 'shutdown']).default('public_holiday'),
+  startDate: z.string().datetime('Start date must be a valid ISO datetime'),
+  endDate: z.string().datetime('End date must be a valid ISO datetime').optional(),
+  region: z.string()
+    .max(50, 'Region must not exceed 50 characters')
+    .optional()
+    .nullable(),
+}).refine(
+  data => !data.endDate || new Date(data.endDate) >= new Date(data.startDate),
+  { message: 'End date must not be before start date', path: ['endDate'] }
+);
+
+// Duration Calibration Validation Schemas
+export const applyCalibrationSchema = z.object({
+  target: z.enum(['block', 'tier_block']),
+  id: z.string().min(1, 'Target is required'),
+  durationWeeks: z.number()
+    .int()
+    .min(1, 'Duration must be at least 1 week')
+    .max(104, 'Duration must not exceed 104 weeks (2 years)')
+    .optional(),
+  optimisticDurationWeeks: z.number().positive().optional(),
+  pessimisticDurationWeeks: z.number().positive().optional(),
+  skillsMix: z.record(z.number().positive()).optional(),
+}).refine(
+  data => data.durationWeeks !== undefined || data.optimisticDurationWeeks !== undefined ||
+    data.pessimisticDurationWeeks !== undefined || data.skillsMix !== undefined,
+  { message: 'Nothing to apply', path: ['durationWeeks'] }
+).refine(
+  data => data.target === 'block' || (data.optimisticDurationWeeks === undefined && data.pessimisticDurationWeeks === undefined),
+  { message: 'Duration ranges are set on blocks only', path: ['optimisticDurationWeeks'] }
+);
+
 // Export type inference
 export type CreateProjectTypeInput = z.infer<typeof createProjectTypeSchema>;
 export type UpdateProjectTypeInput = z.infer<typeof updateProjectTypeSchema>;
 export type CreateTierInput = z.infer<typeof createTierSchema>;
 export type UpdateTierInput = z.infer<typeof updateTierSchema>;
+export type DependencyLinkInput = z.infer<typeof dependencyLinkSchema>;
 export type CreateBlockInput = z.infer<typeof createBlockSchema>;
 export type UpdateBlockInput = z.infer<typeof updateBlockSchema>;
 export type CreateDeliverableInput = z.infer<typeof createDeliverableSchema>;
 export type UpdateDeliverableInput = z.infer<typeof updateDeliverableSchema>;
 export type CreateSkillInput = z.infer<typeof createSkillSchema>;
-export type UpdateSkillInput = z.infer<typeof updateSkillSchema>;
\ No newline at end of file
+export type UpdateSkillInput = z.infer<typeof updateSkillSchema>;
+export type WorkingCalendarInput = z.infer<typeof workingCalendarSchema>;
+export type CalendarHolidayInput = z.infer<typeof calendarHolidaySchema>;
+export type RateCardInput = z.infer<typeof rateCardSchema>;
+export type ApplyCalibrationInput = z.infer<typeof applyCalibrationSchema>;
\ No newline at end of file
@@ -1,4 +1,22 @@
 import { z } from 'zod';
+import { BLOCK_STATUSES } from '@/lib/project-lifecycle';
+import { BUDGET_CATEGORIES } from '@/lib/cash-flow';
+
+// Blocks of a project the wizard was started from, planned instead of the tier's
+export const projectTemplateSchema = z.object({
+  projectId: z.string().min(1),
+  projectCode: z.string().min(1),
+  // Tier the blocks were planned for; choosing another tier drops the template
+  tierId: z.string().min(1),
+  blocks: z.array(z.object({
+    blockId: z.string().min(1),
+    sequenceIndex: z.number().int().min(0),
+    durationWeeks: z.number().int().min(1).max(104),
+    dependencies: z.string().nullable(), // JSON as stored on the project block
+    skillsMix: z.string().nullable(), // JSON as stored on the project block
+    inhouseVsExternal: z.string().min(1),
+  })).min(1, 'A template needs at least one block'),
+});
 
 export const createProjectWizardSchema = z.object({
   // Step 1: Basic Information
@@ -22,10 +40,45 @@ export const createProjectWizardSchema = z.object({
   // Step 5: Budget (optional)
   budgetCapex: z.number().optional(),
   budgetOpex: z.number().optional(),
+
+  // Set when the project is cloned from another one
+  template: projectTemplateSchema.optional(),
 });
 
+export type ProjectTemplate = z.infer<typeof projectTemplateSchema>;
 export type CreateProjectWizardInput = z.infer<typeof createProjectWizardSchema>;
 
+// The whole wizard saved at once; overallocating resources needs an explicit go-ahead
+export const createPlannedProjectSchema = createProjectWizardSchema.extend({
+  allowOverallocation: z.boolean().default(false),
+});
+
+export type CreatePlannedProjectInput = z.infer<typeof createPlannedProjectSchema>;
+
+// Wizard values are saved as they are, half-filled fields included; they are
+// checked in full when the draft becomes a project
+export const projectDraftSchema = z.object({
+  data: z.record(z.string(), z.unknown()),
+  currentStep: z.number().int().min(1).max(6),
+});
+
+export const shareProjectDraftSchema = z.object({
+  userIds: z.array(z.string().min(1)).max(50, 'A draft can be shared with at most 50 colleagues'),
+});
+
+// A new project from an existing one's blocks, team and budget, moved to a new start
+export const cloneProjectSchema = z.object({
+  code: z.string().min(1, 'Project code is required').max(50, 'Project code too long'),
+  name: z.string().min(1, 'Project name is required').max(200, 'Project name too long'),
+  targetStartDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid date format'),
+  // Replacement resource id by the id of a resource on the source project
+  resourceSwaps: z.record(z.string(), z.string().min(1)).default({}),
+});
+
+export type CloneProjectInput = z.infer<typeof cloneProjectSchema>;
+export type ProjectDraftInput = z.infer<typeof projectDraftSchema>;
+export type ShareProjectDraftInput = z.infer<typeof shareProjectDraftSchema>;
+
 // Step-specific schemas for validation
 export const basicInfoSchema = createProjectWizardSchema.pick({
   code: true,
@@ -58,4 +111,45 @@ export type BasicInfoInput = z.infer<typeof basicInfoSchema>;
 export type ProjectTypeInput = z.infer<typeof projectTypeSchema>;
 export type SchedulingInput = z.infer<typeof schedulingSchema>;
 export type ResourceAllocationInput = z.infer<typeof resourceAllocationSchema>;
-export type BudgetInput = z.infer<typeof budgetSchema>;
\ No newline at end of file
+export type BudgetInput = z.infer<typeof budgetSchema>;
+
+const progressDate = z.string().datetime('Date must be a valid ISO datetime');
+
+// Progress reported on one block of a project; actual end is exclusive, like the planned end
+export const blockProgressSchema = z.object({
+  projectBlockId: z.string().min(1, 'Block is required'),
+  status: z.enum(BLOCK_STATUSES),
+  percentComplete: z.number()
+    .min(0, 'Percent complete must be between 0 and 100')
+    .max(100, 'Percent complete must be between 0 and 100'),
+  actualStart: progressDate.nullable().optional(),
+  actualEnd: progressDate.nullable().optional(),
+  actualHours: z.number().min(0, 'Actual hours must not be negative').nullable().optional(),
+  remainingHours: z.number().min(0, 'Remaining hours must not be negative').nullable().optional(),
+}).refine(
+  data => data.status === 'not_started' || !!data.actualStart,
+  { message: 'A started block needs an actual start date', path: ['actualStart'] }
+).refine(
+  data => data.status !== 'completed' || !!data.actualEnd,
+  { message: 'A completed block needs an actual end date', path: ['actualEnd'] }
+).refine(
+  data => !data.actualStart || !data.actualEnd || new Date(data.actualEnd) > new Date(data.actualStart),
+  { message: 'Actual end must be after actual start', path: ['actualEnd'] }
+);
+
+export type BlockProgressInput = z.infer<typeof blockProgressSchema>;
+
+// A project's monthly budget lines, replacing the ones saved before
+export const budgetLinesSchema = z.object({
+  lines: z.array(z.object({
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be formatted as YYYY-MM'),
+    category: z.enum(BUDGET_CATEGORIES),
+    amount: z.number().min(0, 'Amount must not be negative'),
+    notes: z.string().max(500, 'Notes must not exceed 500 characters').nullable().optional(),
+  })).max(600, 'A project can have at most 600 budget lines'),
+}).refine(
+  data => new Set(data.lines.map(line => `${line.month} ${line.category}`)).size === data.lines.length,
+  { message: 'Each month can have one line per category', path: ['lines'] }
+);
+
+export type BudgetLinesInput = z.infer<typeof budgetLinesSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export const availabilityPatternSchema = z.object({
+  effectiveFrom: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD')
+    .nullable()
+    .default(null),
+  dayHours: z
+    .array(z.number().min(0, 'Hours cannot be negative').max(24, 'Hours cannot exceed 24'))
+    .length(7, 'Provide hours for each day of the week (Sunday first)')
+    .refine(hours => hours.some(h => h > 0), 'A pattern must include at least one working day'),
+});
+
+export const availabilityCalendarSchema = z.object({
+  patterns: z.array(availabilityPatternSchema).min(1, 'At least one pattern is required').max(20),
+}).refine(
+  (calendar) => {
+    const dates = calendar.patterns.map(pattern => pattern.effectiveFrom || '');
+    return new Set(dates).size === dates.length;
+  },
+  { message: 'Each pattern needs a different effective date', path: ['patterns'] }
+);
+
+// Monthly rates of a resource from a date on, overriding its role's rate card
+export const resourceRateSchema = z.object({
+  effectiveFrom: z.string().datetime('Effective date must be a valid ISO datetime'),
+  costRate: z.number().positive('Monthly cost rate must be positive'),
+  billingRate: z.number().positive('Monthly billing rate must be positive').nullable().optional(),
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').nullable().optional(),
+});
+
+// Move a placeholder's allocations, on one project or all, onto a named resource
+export const fillPlaceholderSchema = z.object({
+  placeholderId: z.string().min(1, 'Placeholder ID is required'),
+  resourceId: z.string().min(1, 'Resource ID is required'),
+  projectId: z.string().min(1).optional(),
+});
+
+export type AvailabilityPatternInput = z.infer<typeof availabilityPatternSchema>;
+export type AvailabilityCalendarInput = z.infer<typeof availabilityCalendarSchema>;
+export type ResourceRateInput = z.infer<typeof resourceRateSchema>;
+export type FillPlaceholderInput = z.infer<typeof fillPlaceholderSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { PROJECT_STATUSES } from '@/lib/project-lifecycle';
+
+const dateString = z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid date format');
+
+export const createScenarioSchema = z.object({
+  name: z.string().trim().min(1, 'Scenario name is required').max(100, 'Scenario name must not exceed 100 characters'),
+  description: z.string().max(500, 'Description must not exceed 500 characters').optional(),
+});
+
+// Edits made inside a scenario; none of them touch the live plan
+export const scenarioOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('shift_project'),
+    projectId: z.string().min(1),
+    // Negative values bring the project forward
+    weeks: z.number().int().min(-52).max(52).refine(weeks => weeks !== 0, 'Shift by at least one week'),
+  }),
+  z.object({
+    type: z.literal('set_project_status'),
+    projectId: z.string().min(1),
+    status: z.enum(PROJECT_STATUSES),
+  }),
+  z.object({
+    type: z.literal('set_project_budget'),
+    projectId: z.string().min(1),
+    budgetCapex: z.number().min(0).nullable(),
+    budgetOpex: z.number().min(0).nullable(),
+  }),
+  z.object({
+    type: z.literal('add_resource'),
+    employeeCode: z.string().trim().min(1, 'Employee code is required').max(50),
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    employmentType: z.string().min(1).default('permanent'),
+    homeTeam: z.string().trim().min(1, 'Home team is required'),
+    capacityHoursPerWeek: z.number().positive('Capacity must be positive').max(80),
+    monthlyRate: z.number().min(0),
+    skills: z.array(z.object({
+      skillId: z.string().min(1),
+      level: z.number().int().min(1).max(5),
+    })).default([]),
+  }),
+  z.object({
+    type: z.literal('update_resource'),
+    resourceId: z.string().min(1),
+    capacityHoursPerWeek: z.number().min(0).max(80).optional(),
+    active: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('set_allocation'),
+    projectBlockId: z.string().min(1),
+    resourceId: z.string().min(1),
+    weekStartDate: dateString,
+    // 0 removes the allocation
+    allocatedHours: z.number().min(0).max(80),
+  }),
+]);
+
+export type CreateScenarioInput = z.infer<typeof createScenarioSchema>;
+export type ScenarioOperation = z.infer<typeof scenarioOperationSchema>;
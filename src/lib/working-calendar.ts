@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import { availabilityPatternSchema } from '@/lib/validations/resources';
+
+export type HolidayType = 'public_holiday' | 'shutdown';
+
+export interface CalendarHolidayEntry {
+  name: string;
+  type: HolidayType;
+  startDate: Date;
+  // Inclusive
+  endDate: Date;
+  // null applies to every region
+  region: string | null;
+}
+
+export interface WorkingCalendarConfig {
+  // Weekday numbers as returned by Date.getUTCDay (0 = Sunday)
+  workingDays: number[];
+  hoursPerDay: number;
+  holidays: CalendarHolidayEntry[];
+}
+
+/**
+ * Recurring working pattern of a resource, e.g. Mon-Thu 8h with Fridays off
+ */
+export interface AvailabilityPattern {
+  // First day the pattern applies (YYYY-MM-DD); null applies from the start
+  effectiveFrom: string | null;
+  // Hours per weekday, indexed as Date.getUTCDay (0 = Sunday)
+  dayHours: number[];
+}
+
+// Stored as JSON in Resource.availabilityCalendar
+export interface AvailabilityCalendar {
+  patterns: AvailabilityPattern[];
+}
+
+export interface ResourceCapacityInput {
+  capacityHoursPerWeek: number;
+  region?: string | null;
+  // AvailabilityCalendar JSON; replaces the even spread of the contracted week
+  availabilityCalendar?: string | null;
+  // Per-day overrides for leave, training or part-time days; null means unavailable
+  calendarExceptions?: Array<{
+    date: Date;
+    capacityOverrideHours: number | null;
+  }>;
+}
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Patterns are checked one by one, so a calendar keeps the ones still valid
+const storedAvailabilitySchema = z.object({ patterns: z.array(z.unknown()) });
+
+/**
+ * Parse a stored availability calendar. Returns null for empty or
+ * unrecognised values, which fall back to the contracted weekly hours.
+ */
+export function parseAvailabilityCalendar(value: string | null | undefined): AvailabilityCalendar | null {
+  if (!value) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const stored = storedAvailabilitySchema.safeParse(parsed);
+  if (!stored.success) {
+    return null;
+  }
+
+  const patterns = stored.data.patterns.flatMap(pattern => {
+    const result = availabilityPatternSchema.safeParse(pattern);
+    return result.success ? [result.data] : [];
+  });
+
+  return patterns.length > 0 ? { patterns } : null;
+}
+
+/**
+ * Pattern in force on a date: the one with the latest effective date on or before it
+ */
+export function activeAvailabilityPattern(
+  calendar: AvailabilityCalendar,
+  date: Date
+): AvailabilityPattern | null {
+  const key = dayKey(date);
+  let active: AvailabilityPattern | null = null;
+  for (const pattern of calendar.patterns) {
+    if (pattern.effectiveFrom && pattern.effectiveFrom > key) {
+      continue;
+    }
+    if (!active || (pattern.effectiveFrom || '') >= (active.effectiveFrom || '')) {
+      active = pattern;
+    }
+  }
+  return active;
+}
+
+export function patternWeeklyHours(pattern: AvailabilityPattern): number {
+  return pattern.dayHours.reduce((total, hours) => total + hours, 0);
+}
+
+/**
+ * Short description such as "Mon-Thu 8h, Fri 4h"
+ */
+export function formatAvailabilityPattern(pattern: AvailabilityPattern): string {
+  const runs: Array<{ from: string; to: string; hours: number }> = [];
+  WEEKDAYS.forEach(({ value, label }, index) => {
+    const hours = pattern.dayHours[value];
+    const last = runs[runs.length - 1];
+    if (hours <= 0) {
+      return;
+    }
+    // Extend the run when the previous weekday had the same hours
+    if (last && last.hours === hours && last.to === WEEKDAYS[index - 1]?.label) {
+      last.to = label;
+    } else {
+      runs.push({ from: label, to: label, hours });
+    }
+  });
+  return runs
+    .map(run => `${run.from === run.to ? run.from : `${run.from}-${run.to}`} ${run.hours}h`)
+    .join(', ');
+}
+
+/**
+ * Day key (YYYY-MM-DD, UTC) used to look up holidays
+ */
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Organisation working calendar: working weekdays, regional public holidays
+ * and company-wide shutdown periods. Durations and capacities are counted in
+ * working days against it.
+ */
+export class WorkingCalendar {
+  private readonly workingDays: Set<number>;
+  // Non-working days by day key, then by region ('' for every region)
+  private readonly closedDays = new Map<string, Map<string, string>>();
+  // Parsed availability calendars by their stored JSON
+  private readonly availabilityCache = new Map<string, AvailabilityCalendar | null>();
+
+  constructor(private readonly config: WorkingCalendarConfig) {
+    this.workingDays = new Set(config.workingDays);
+
+    for (const holiday of config.holidays) {
+      for (
+        let day = startOfDay(holiday.startDate);
+        day <= holiday.endDate;
+        day = new Date(day.getTime() + DAY_MS)
+      ) {
+        const key = dayKey(day);
+        const regions = this.closedDays.get(key) || new Map<string, string>();
+        regions.set(holiday.region || '', holiday.name);
+        this.closedDays.set(key, regions);
+      }
+    }
+  }
+
+  /**
+   * Monday to Friday, eight hours a day, no holidays
+   */
+  static standard(): WorkingCalendar {
+    return new WorkingCalendar({
+      workingDays: DEFAULT_WORKING_DAYS,
+      hoursPerDay: DEFAULT_HOURS_PER_DAY,
+      holidays: [],
+    });
+  }
+
+  get workingDaysPerWeek(): number {
+    return this.workingDays.size;
+  }
+
+  get hoursPerDay(): number {
+    return this.config.hoursPerDay;
+  }
+
+  /**
+   * Why a day is not worked (weekend or holiday name), or null for a working day
+   */
+  nonWorkingReason(date: Date, region?: string | null): string | null {
+    if (!this.workingDays.has(date.getUTCDay())) {
+      return 'Weekend';
+    }
+    return this.holidayName(date, region);
+  }
+
+  /**
+   * Holiday or shutdown covering a date, regardless of the weekday
+   */
+  holidayName(date: Date, region?: string | null): string | null {
+    const regions = this.closedDays.get(dayKey(date));
+    if (!regions) {
+      return null;
+    }
+    return regions.get('') ?? (region ? regions.get(region) ?? null : null);
+  }
+
+  isWorkingDay(date: Date, region?: string | null): boolean {
+    return this.nonWorkingReason(date, region) === null;
+  }
+
+  /**
+   * Move a date forward by a number of working days. Offset 0 returns the
+   * first working day on or after the date, so an exclusive block end is the
+   * working day after its last worked day.
+   */
+  addWorkingDays(date: Date, days: number, region?: string | null): Date {
+    if (this.workingDaysPerWeek === 0) {
+      return startOfDay(date);
+    }
+
+    let result = startOfDay(date);
+    while (!this.isWorkingDay(result, region)) {
+      result = new Date(result.getTime() + DAY_MS);
+    }
+
+    const step = days >= 0 ? DAY_MS : -DAY_MS;
+    let remaining = Math.abs(Math.round(days));
+    while (remaining > 0) {
+      result = new Date(result.getTime() + step);
+      if (this.isWorkingDay(result, region)) {
+        remaining--;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Working days in [start, end)
+   */
+  workingDaysBetween(start: Date, end: Date, region?: string | null): number {
+    let count = 0;
+    for (let day = startOfDay(start); day < end; day = new Date(day.getTime() + DAY_MS)) {
+      if (this.isWorkingDay(day, region)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Hours a resource can work on one day: the calendar exception recorded for
+   * that day, else its availability pattern outside holidays, else its share
+   * of the contracted week on working days
+   */
+  resourceDayHours(resource: ResourceCapacityInput, date: Date): number {
+    const key = dayKey(date);
+    const exception = resource.calendarExceptions?.find(e => dayKey(e.date) === key);
+    if (exception) {
+      return exception.capacityOverrideHours ?? 0;
+    }
+
+    const availability = this.availabilityFor(resource.availabilityCalendar);
+    const pattern = availability && activeAvailabilityPattern(availability, date);
+    if (pattern) {
+      return this.holidayName(date, resource.region) ? 0 : pattern.dayHours[date.getUTCDay()];
+    }
+    if (this.workingDaysPerWeek === 0 || !this.isWorkingDay(date, resource.region)) {
+      return 0;
+    }
+    return resource.capacityHoursPerWeek / this.workingDaysPerWeek;
+  }
+
+  /**
+   * Contracted weekly hours net of holidays, shutdowns and calendar exceptions
+   */
+  resourceWeeklyHours(resource: ResourceCapacityInput, weekStart: Date): number {
+    let hours = 0;
+    for (let day = 0; day < 7; day++) {
+      hours += this.resourceDayHours(resource, new Date(startOfDay(weekStart).getTime() + day * DAY_MS));
+    }
+    return Math.round(hours * 100) / 100;
+  }
+
+  private availabilityFor(value: string | null | undefined): AvailabilityCalendar | null {
+    if (!value) {
+      return null;
+    }
+    if (!this.availabilityCache.has(value)) {
+      this.availabilityCache.set(value, parseAvailabilityCalendar(value));
+    }
+    return this.availabilityCache.get(value) ?? null;
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session-token';
+
+// Reachable without a session
+const PUBLIC_PATHS = ['/login', '/api/auth/login'];
+
+/**
+ * Reject requests without a valid session cookie: API routes get a 401,
+ * pages are redirected to the login page
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const session = token ? await verifySessionToken(token) : null;
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    if (session && pathname === '/login') {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') {
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -1,5 +1,7 @@
 // Master Data Type Definitions for PMPRG
 
+import type { DependencyLink } from '@/lib/dependencies';
+
 export interface ProjectType {
   id: string;
   code: string;
@@ -60,7 +62,9 @@ export interface Block {
   name: string;
   description?: string;
   defaultDurationWeeks: number;
-  defaultDependencies?: Record<string, any>;
+  optimisticDurationWeeks?: number | null;
+  pessimisticDurationWeeks?: number | null;
+  defaultDependencies?: DependencyLink[];
   defaultSkillsMix?: Record<string, number>;
   createdAt: Date;
   updatedAt: Date;
@@ -71,7 +75,9 @@ export interface CreateBlockInput {
   name: string;
   description?: string;
   defaultDurationWeeks: number;
-  defaultDependencies?: Record<string, any>;
+  optimisticDurationWeeks?: number | null;
+  pessimisticDurationWeeks?: number | null;
+  defaultDependencies?: DependencyLink[];
   defaultSkillsMix?: Record<string, number>;
 }
 
@@ -81,7 +87,9 @@ export interface UpdateBlockInput {
   name?: string;
   description?: string;
   defaultDurationWeeks?: number;
-  defaultDependencies?: Record<string, any>;
+  optimisticDurationWeeks?: number | null;
+  pessimisticDurationWeeks?: number | null;
+  defaultDependencies?: DependencyLink[];
   defaultSkillsMix?: Record<string, number>;
 }
 
@@ -91,6 +99,7 @@ export interface TierBlock {
   blockId: string;
   overrideDurationWeeks?: number;
   overrideSkillsMix?: Record<string, number>;
+  overrideDependencies?: DependencyLink[];
   sequenceIndex: number;
   createdAt: Date;
   updatedAt: Date;
@@ -103,6 +112,7 @@ export interface CreateTierBlockInput {
   blockId: string;
   overrideDurationWeeks?: number;
   overrideSkillsMix?: Record<string, number>;
+  overrideDependencies?: DependencyLink[];
   sequenceIndex: number;
 }
 